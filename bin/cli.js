@@ -1,9 +1,11 @@
 #!/usr/bin/env node
 
-import { fileURLToPath } from "url";
+import { fileURLToPath, pathToFileURL } from "url";
 import { dirname, resolve } from "path";
 import { spawn } from "child_process";
 import { createRequire } from "module";
+import { existsSync, readFileSync, writeFileSync } from "fs";
+import { randomBytes } from "crypto";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -13,39 +15,125 @@ const require = createRequire(import.meta.url);
 const args = process.argv.slice(2);
 const httpMode = args.includes("--http") || args.includes("-h");
 
-console.error(`Starting mcp-server-tron in ${httpMode ? "HTTP" : "stdio"} mode...`);
+const KEYSTORE_USAGE = `Usage:
+  mcp-server-tron keystore create --out <file> [--kdf scrypt|pbkdf2] [--private-key-file <file>] [--password-file <file>]
+  mcp-server-tron keystore inspect <file> [--verify] [--password-file <file>]
 
-// Determine which file to execute
-const scriptPath = resolve(__dirname, "../build", httpMode ? "server/http-server.js" : "index.js");
+The private key is read from --private-key-file or TRON_PRIVATE_KEY; without either a new key is generated.
+The password is read from --password-file, TRON_KEYSTORE_PASSWORD_FILE or TRON_KEYSTORE_PASSWORD.`;
 
-try {
-  // Check if the built files exist
-  require.resolve(scriptPath);
+// Value of a --flag, or undefined
+const option = (argv, name) => {
+  const index = argv.indexOf(name);
+  return index === -1 ? undefined : argv[index + 1];
+};
 
-  // Execute the server
-  const server = spawn("node", [scriptPath], {
-    stdio: "inherit",
-    shell: false,
-  });
+// Read a secret from a file, ignoring a trailing newline
+const readSecretFile = (path) => readFileSync(path, "utf8").replace(/\r?\n$/, "");
 
-  server.on("error", (err) => {
-    console.error("Failed to start server:", err);
-    process.exit(1);
-  });
+const readPassword = (argv) => {
+  const passwordFile = option(argv, "--password-file") || process.env.TRON_KEYSTORE_PASSWORD_FILE;
+  if (passwordFile) return readSecretFile(passwordFile);
+  if (process.env.TRON_KEYSTORE_PASSWORD !== undefined) return process.env.TRON_KEYSTORE_PASSWORD;
+  throw new Error("No password: pass --password-file or set TRON_KEYSTORE_PASSWORD_FILE");
+};
+
+// Create or inspect an encrypted keystore (mcp-server-tron keystore ...)
+async function runKeystoreCommand(argv) {
+  const keystorePath = resolve(__dirname, "../build/core/services/keystore.js");
+  if (!existsSync(keystorePath)) {
+    throw new Error("Server files not found. The package may not be built correctly.");
+  }
+  const keystore = await import(pathToFileURL(keystorePath).href);
+  const [command, ...rest] = argv;
+
+  if (command === "create") {
+    const out = option(rest, "--out");
+    if (!out) throw new Error("--out is required");
+    if (existsSync(out)) throw new Error(`${out} already exists; refusing to overwrite it`);
+
+    const privateKeyFile = option(rest, "--private-key-file");
+    const privateKey = privateKeyFile
+      ? readSecretFile(privateKeyFile).trim()
+      : process.env.TRON_PRIVATE_KEY || randomBytes(32).toString("hex");
+    const kdf = option(rest, "--kdf") || "scrypt";
+    if (!["scrypt", "pbkdf2"].includes(kdf)) throw new Error(`Unsupported KDF: ${kdf}`);
+
+    const created = keystore.encryptKeystore(privateKey, readPassword(rest), { kdf });
+    writeFileSync(out, JSON.stringify(created, null, 2) + "\n", { mode: 0o600, flag: "wx" });
+    console.log(
+      JSON.stringify({ file: out, address: created.address, id: created.id, kdf }, null, 2),
+    );
+    return;
+  }
 
-  // Handle clean shutdown
-  const cleanup = () => {
-    if (!server.killed) {
-      server.kill();
+  if (command === "inspect") {
+    const [file] = rest;
+    if (!file || file.startsWith("--")) throw new Error("A keystore file is required");
+    const contents = readFileSync(file, "utf8");
+    const info = keystore.inspectKeystore(contents);
+    if (rest.includes("--verify")) {
+      const { address } = keystore.loadKeystoreFile(file, readPassword(rest));
+      Object.assign(info, { address, passwordVerified: true });
     }
-  };
-
-  process.on("SIGINT", cleanup);
-  process.on("SIGTERM", cleanup);
-  process.on("exit", cleanup);
-} catch (error) {
-  console.error("Error: Server files not found. The package may not be built correctly.");
-  console.error("Please try reinstalling the package or contact the maintainers.");
-  console.error(error);
-  process.exit(1);
+    console.log(JSON.stringify(info, null, 2));
+    return;
+  }
+
+  console.error(KEYSTORE_USAGE);
+  process.exit(command ? 1 : 0);
+}
+
+if (args[0] === "keystore") {
+  try {
+    await runKeystoreCommand(args.slice(1));
+  } catch (error) {
+    console.error(`Error: ${error.message}`);
+    process.exit(1);
+  }
+} else {
+  startServer();
+}
+
+function startServer() {
+  console.error(`Starting mcp-server-tron in ${httpMode ? "HTTP" : "stdio"} mode...`);
+
+  // Determine which file to execute
+  const scriptPath = resolve(
+    __dirname,
+    "../build",
+    httpMode ? "server/http-server.js" : "index.js",
+  );
+
+  try {
+    // Check if the built files exist
+    require.resolve(scriptPath);
+
+    // Execute the server
+    const server = spawn("node", [scriptPath], {
+      stdio: "inherit",
+      shell: false,
+    });
+
+    server.on("error", (err) => {
+      console.error("Failed to start server:", err);
+      process.exit(1);
+    });
+
+    // Handle clean shutdown
+    const cleanup = () => {
+      if (!server.killed) {
+        server.kill();
+      }
+    };
+
+    process.on("SIGINT", cleanup);
+    process.on("SIGTERM", cleanup);
+    process.on("exit", cleanup);
+  } catch (error) {
+    console.error("Error: Server files not found. The package may not be built correctly.");
+    console.error("Please try reinstalling the package or contact the maintainers.");
+    console.error(error);
+    process.exit(1);
+  }
 }
@@ -0,0 +1,151 @@
+import { readFileSync } from "node:fs";
+
+// Server-wide runtime settings read from the environment
+
+/**
+ * Parse a boolean environment flag ("true"/"1"/"yes" enable it)
+ */
+function isFlagSet(value: string | undefined): boolean {
+  return ["true", "1", "yes"].includes((value || "").trim().toLowerCase());
+}
+
+/**
+ * Whether the server runs in dry-run mode (TRON_DRY_RUN). In dry-run mode every write tool
+ * only simulates its transaction; nothing is signed or broadcast.
+ */
+export function isDryRunMode(): boolean {
+  return isFlagSet(process.env.TRON_DRY_RUN);
+}
+
+/**
+ * Gateway used to resolve ipfs:// token metadata URIs (TRON_IPFS_GATEWAY)
+ */
+export function getIpfsGateway(): string {
+  const gateway = process.env.TRON_IPFS_GATEWAY || "https://ipfs.io/ipfs/";
+  return gateway.endsWith("/") ? gateway : gateway + "/";
+}
+
+/**
+ * Path of the spending policy file (TRON_POLICY_FILE). When unset, write tools are not limited.
+ */
+export function getSpendingPolicyFile(): string | undefined {
+  return process.env.TRON_POLICY_FILE?.trim() || undefined;
+}
+
+/**
+ * Whether destructive tools need the user's confirmation before signing (TRON_REQUIRE_CONFIRMATION).
+ * Enabled unless explicitly turned off, e.g. for unattended automation.
+ */
+export function isConfirmationRequired(): boolean {
+  const value = process.env.TRON_REQUIRE_CONFIRMATION;
+  return value === undefined || value.trim() === "" || isFlagSet(value);
+}
+
+/**
+ * Settings that can also come from the JSON file named by TRON_CONFIG_FILE. Environment
+ * variables take precedence over the file.
+ */
+export interface ServerConfigFile {
+  readOnly?: boolean;
+  watchAddress?: string;
+  tools?: { allow?: string[]; deny?: string[] };
+}
+
+let cachedConfigFile: { path: string; config: ServerConfigFile } | undefined;
+
+/**
+ * Load the server config file (TRON_CONFIG_FILE), or an empty config when unset
+ */
+export function getServerConfigFile(): ServerConfigFile {
+  const path = process.env.TRON_CONFIG_FILE?.trim();
+  if (!path) {
+    return {};
+  }
+  if (cachedConfigFile?.path !== path) {
+    try {
+      const config = JSON.parse(readFileSync(path, "utf8"));
+      if (!config || typeof config !== "object" || Array.isArray(config)) {
+        throw new Error("expected a JSON object");
+      }
+      for (const key of ["allow", "deny"] as const) {
+        const list = config.tools?.[key];
+        if (
+          list !== undefined &&
+          (!Array.isArray(list) || list.some((n) => typeof n !== "string"))
+        ) {
+          throw new Error(`tools.${key} must be an array of tool names`);
+        }
+      }
+      cachedConfigFile = { path, config };
+    } catch (error: any) {
+      throw new Error(`Invalid server config file ${path}: ${error.message}`);
+    }
+  }
+  return cachedConfigFile.config;
+}
+
+/**
+ * Whether the server is read-only (TRON_READ_ONLY or readOnly in the config file). A read-only
+ * server registers only tools that cannot sign and never loads the configured wallet.
+ */
+export function isReadOnlyMode(): boolean {
+  const value = process.env.TRON_READ_ONLY;
+  if (value !== undefined && value.trim() !== "") {
+    return isFlagSet(value);
+  }
+  return getServerConfigFile().readOnly === true;
+}
+
+/**
+ * Watch-only address used by read tools when no wallet is configured or the server is
+ * read-only (TRON_WATCH_ADDRESS or watchAddress in the config file)
+ */
+export function getWatchAddress(): string | undefined {
+  return process.env.TRON_WATCH_ADDRESS?.trim() || getServerConfigFile().watchAddress || undefined;
+}
+
+/**
+ * Tools to register (allow) or skip (deny), from comma-separated TRON_TOOLS_ALLOW /
+ * TRON_TOOLS_DENY or tools.allow / tools.deny in the config file. An empty allow list allows all.
+ */
+export function getToolFilter(): { allow: string[]; deny: string[] } {
+  const file = getServerConfigFile().tools || {};
+  const fromEnv = (value: string | undefined) =>
+    value?.trim()
+      ? value
+          .split(",")
+          .map((name) => name.trim())
+          .filter(Boolean)
+      : undefined;
+  return {
+    allow: fromEnv(process.env.TRON_TOOLS_ALLOW) ?? file.allow ?? [],
+    deny: fromEnv(process.env.TRON_TOOLS_DENY) ?? file.deny ?? [],
+  };
+}
+
+/**
+ * Remote signing service (TRON_REMOTE_SIGNER_URL). When set, transfers, contract writes and
+ * message signing are signed by the service instead of a local key.
+ */
+export function getRemoteSignerConfig():
+  | { url: string; address: string; token?: string; timeoutMs: number }
+  | undefined {
+  const url = process.env.TRON_REMOTE_SIGNER_URL?.trim();
+  if (!url) {
+    return undefined;
+  }
+  const address = process.env.TRON_REMOTE_SIGNER_ADDRESS?.trim();
+  if (!address) {
+    throw new Error("TRON_REMOTE_SIGNER_URL is set but TRON_REMOTE_SIGNER_ADDRESS is not");
+  }
+  const timeoutMs = Number(process.env.TRON_REMOTE_SIGNER_TIMEOUT_MS || 30_000);
+  if (!Number.isInteger(timeoutMs) || timeoutMs <= 0) {
+    throw new Error("TRON_REMOTE_SIGNER_TIMEOUT_MS must be a positive integer");
+  }
+  return {
+    url,
+    address,
+    token: process.env.TRON_REMOTE_SIGNER_TOKEN?.trim() || undefined,
+    timeoutMs,
+  };
+}
@@ -0,0 +1,619 @@
+import { randomUUID } from "node:crypto";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { isConfirmationRequired, isDryRunMode } from "./config.js";
+import * as services from "./services/index.js";
+
+// How long a confirmation token from the two-step flow stays valid
+const PENDING_ACTION_TTL_MS = 5 * 60 * 1000;
+
+/**
+ * What the user is asked to approve before a destructive tool signs anything
+ */
+export interface ActionSummary {
+  action: string;
+  recipient?: string;
+  amount?: string;
+  estimatedFee: string;
+  network: string;
+}
+
+interface PendingAction {
+  tool: string;
+  args: Record<string, unknown>;
+  summary: ActionSummary;
+  expiresAt: number;
+}
+
+const pendingActions = new Map<string, PendingAction>();
+
+/**
+ * Compare tool arguments regardless of key order
+ */
+function canonicalArgs(args: Record<string, unknown>) {
+  const sorted = (value: any): any =>
+    Array.isArray(value)
+      ? value.map(sorted)
+      : value && typeof value === "object"
+        ? Object.fromEntries(
+            Object.keys(value)
+              .filter((key) => value[key] !== undefined)
+              .sort()
+              .map((key) => [key, sorted(value[key])]),
+          )
+        : value;
+  return JSON.stringify(sorted(args));
+}
+
+/**
+ * Estimate the fee of an action, or explain why it could not be estimated
+ */
+async function estimateFee(estimate: () => Promise<{ trx: string }>) {
+  try {
+    return `${(await estimate()).trx} TRX`;
+  } catch (_e) {
+    return "Could not be estimated";
+  }
+}
+
+/**
+ * Estimate a contract call's expected cost and the most it can burn under the fee limit the call
+ * will be sent with (the given one, or the estimate plus a safety margin)
+ */
+async function estimateContractCost(
+  call: Parameters<typeof services.estimateEnergy>[0],
+  feeLimit: number | undefined,
+  network: string,
+) {
+  try {
+    const estimate = await services.estimateEnergy(call, network);
+    const limitTrx = feeLimit ? services.utils.fromSun(feeLimit) : estimate.feeLimit.trx;
+    return `${estimate.estimatedFee.trx} TRX (${estimate.energy} Energy), fee limit ${limitTrx} TRX`;
+  } catch (_e) {
+    return "Could not be estimated";
+  }
+}
+
+/**
+ * Estimate the TRX a system contract transaction burns for Bandwidth the wallet cannot cover.
+ * `build` returns the unsigned transactions the tool will send.
+ */
+async function estimateBandwidthFee(owner: string, build: () => Promise<any[]>, network: string) {
+  return estimateFee(async () => {
+    const transactions = await build();
+    const bandwidth = transactions.reduce(
+      (sum, tx) => sum + tx.raw_data_hex.length / 2 + services.SIGNED_TX_OVERHEAD_BYTES,
+      0,
+    );
+    const summary = await services.getAccountResourceSummary(owner, { bandwidth }, network);
+    return summary.shortfall.burnCost;
+  });
+}
+
+/**
+ * Build the confirmation summary for a destructive tool call: the decoded action, recipient,
+ * amount, estimated fee and network
+ */
+export async function summarizeAction(
+  tool: string,
+  title: string,
+  args: Record<string, any>,
+): Promise<ActionSummary> {
+  const network: string = args.network || "mainnet";
+  // Resolved once: without a usable wallet the summary is still shown, with fees not estimated
+  let sender: string;
+  try {
+    sender = services.getWalletAddressFromKey();
+  } catch (_e) {
+    sender = "unknown sender";
+  }
+  const builder = () => services.getTronWeb(network).transactionBuilder;
+  const unsignedFee = (action: services.UnsignedAction) =>
+    estimateBandwidthFee(
+      sender,
+      async () => [
+        (await services.buildUnsignedTransaction(sender, action, 0, undefined, network))
+          .transaction,
+      ],
+      network,
+    );
+  const resource = args.resource || "ENERGY";
+
+  switch (tool) {
+    case "transfer_trx":
+      return {
+        action: `Transfer ${args.amount} TRX`,
+        recipient: args.to,
+        amount: `${args.amount} TRX`,
+        estimatedFee: await estimateFee(
+          async () =>
+            (await services.simulateTRXTransfer(sender, args.to, args.amount, network))
+              .estimatedFee,
+        ),
+        network,
+      };
+    case "transfer_trc20":
+      return {
+        action: `Transfer TRC20 token ${args.tokenAddress}`,
+        recipient: args.to,
+        amount: `${args.amount} (raw units)`,
+        estimatedFee: await estimateContractCost(
+          {
+            address: args.tokenAddress,
+            functionName: "transfer",
+            args: [args.to, args.amount],
+            abi: services.TRC20_TRANSFER_ABI,
+            from: sender,
+          },
+          args.feeLimit,
+          network,
+        ),
+        network,
+      };
+    case "transfer_trc10":
+      return {
+        action: `Transfer TRC10 token ${args.tokenId}`,
+        recipient: args.to,
+        amount: `${args.amount} (raw units)`,
+        estimatedFee: await estimateFee(
+          async () =>
+            (
+              await services.simulateTRC10Transfer(
+                sender,
+                args.to,
+                args.tokenId,
+                args.amount,
+                network,
+              )
+            ).estimatedFee,
+        ),
+        network,
+      };
+    case "write_contract":
+      return {
+        action: `Call ${args.functionName}(${(args.args || []).map(String).join(", ")}) on ${args.contractAddress}`,
+        recipient: args.contractAddress,
+        amount: args.value ? `${services.utils.fromSun(args.value)} TRX` : undefined,
+        estimatedFee: await estimateContractCost(
+          {
+            address: args.contractAddress,
+            functionName: args.functionName,
+            args: args.args || [],
+            abi: args.abi,
+            value: args.value,
+            from: sender,
+          },
+          args.feeLimit,
+          network,
+        ),
+        network,
+      };
+    case "transfer_nft":
+      return {
+        action: `Transfer NFT ${args.tokenId} of ${args.contractAddress}`,
+        recipient: args.to,
+        amount: `Token ID ${args.tokenId}`,
+        estimatedFee: await estimateContractCost(
+          {
+            address: args.contractAddress,
+            functionName: "safeTransferFrom",
+            args: [sender, args.to, args.tokenId],
+            abi: services.TRC721_ABI,
+            from: sender,
+          },
+          args.feeLimit,
+          network,
+        ),
+        network,
+      };
+    case "transfer_trc1155":
+      return {
+        action: `Transfer TRC1155 token ${args.tokenId} of ${args.contractAddress}`,
+        recipient: args.to,
+        amount: `${args.amount} of token ID ${args.tokenId} (raw units)`,
+        estimatedFee: await estimateContractCost(
+          {
+            address: args.contractAddress,
+            functionName: "safeTransferFrom",
+            args: [sender, args.to, args.tokenId, args.amount, args.data || "0x"],
+            abi: services.TRC1155_ABI,
+            from: sender,
+          },
+          args.feeLimit,
+          network,
+        ),
+        network,
+      };
+    case "batch_transfer_trc1155":
+      return {
+        action: `Transfer ${args.tokenIds.length} TRC1155 token IDs of ${args.contractAddress}`,
+        recipient: args.to,
+        amount: `${args.tokenIds.map((id: string, i: number) => `${args.amounts[i]} of token ID ${id}`).join(", ")} (raw units)`,
+        estimatedFee: await estimateContractCost(
+          {
+            address: args.contractAddress,
+            functionName: "safeBatchTransferFrom",
+            args: [sender, args.to, args.tokenIds, args.amounts, args.data || "0x"],
+            abi: services.TRC1155_ABI,
+            from: sender,
+          },
+          args.feeLimit,
+          network,
+        ),
+        network,
+      };
+    case "deploy_contract": {
+      const feeLimit = args.feeLimit ?? services.DEFAULT_DEPLOY_FEE_LIMIT;
+      return {
+        action: `Deploy contract${args.name ? ` ${args.name}` : ""} (${Math.ceil(String(args.bytecode).replace(/^0x/, "").length / 2)} bytes)`,
+        amount: args.callValue ? `${services.utils.fromSun(args.callValue)} TRX` : undefined,
+        estimatedFee: `Up to ${services.utils.fromSun(feeLimit)} TRX (fee limit; deployments are not estimated)`,
+        network,
+      };
+    }
+    case "update_contract_settings": {
+      const changes = [
+        args.userFeePercentage !== undefined && `userFeePercentage ${args.userFeePercentage}%`,
+        args.originEnergyLimit !== undefined &&
+          `originEnergyLimit ${args.originEnergyLimit} Energy`,
+      ].filter(Boolean);
+      return {
+        action: `Set ${changes.join(" and ")} on ${args.contractAddress}`,
+        recipient: args.contractAddress,
+        estimatedFee: await estimateBandwidthFee(
+          sender,
+          async () => [
+            ...(args.userFeePercentage !== undefined
+              ? [
+                  await builder().updateSetting(
+                    args.contractAddress,
+                    args.userFeePercentage,
+                    sender,
+                  ),
+                ]
+              : []),
+            ...(args.originEnergyLimit !== undefined
+              ? [
+                  await builder().updateEnergyLimit(
+                    args.contractAddress,
+                    args.originEnergyLimit,
+                    sender,
+                  ),
+                ]
+              : []),
+          ],
+          network,
+        ),
+        network,
+      };
+    }
+    case "freeze_balance_v2":
+      return {
+        action: `Stake ${args.amount} TRX for ${resource}`,
+        amount: `${args.amount} TRX`,
+        estimatedFee: await unsignedFee({ type: tool, amount: args.amount, resource }),
+        network,
+      };
+    case "unfreeze_balance_v2":
+      return {
+        action: `Unstake ${args.amount} TRX staked for ${resource} (withdrawable after the unbonding period)`,
+        amount: `${args.amount} TRX`,
+        estimatedFee: await unsignedFee({ type: tool, amount: args.amount, resource }),
+        network,
+      };
+    case "withdraw_expire_unfreeze":
+      return {
+        action: "Withdraw unstaked TRX whose unbonding period has expired",
+        estimatedFee: await unsignedFee({ type: tool }),
+        network,
+      };
+    case "cancel_all_unfreeze_v2":
+      return {
+        action: "Cancel all pending unstakes (expired amounts are withdrawn, the rest re-staked)",
+        estimatedFee: await unsignedFee({ type: tool }),
+        network,
+      };
+    case "delegate_resource":
+      return {
+        action: `Delegate ${resource} from ${args.amount} staked TRX${args.lock ? `, locked for ${args.lockPeriod ?? "the default"} blocks` : ""}`,
+        recipient: args.receiver,
+        amount: `${args.amount} TRX`,
+        estimatedFee: await unsignedFee({
+          type: tool,
+          receiver: args.receiver,
+          amount: args.amount,
+          resource,
+          lock: args.lock,
+          lockPeriod: args.lockPeriod,
+        }),
+        network,
+      };
+    case "undelegate_resource":
+      return {
+        action: `Reclaim ${resource} from ${args.amount} staked TRX delegated to ${args.receiver}`,
+        recipient: args.receiver,
+        amount: `${args.amount} TRX`,
+        estimatedFee: await unsignedFee({
+          type: tool,
+          receiver: args.receiver,
+          amount: args.amount,
+          resource,
+        }),
+        network,
+      };
+    case "vote_witness": {
+      const votes: { address: string; count: number }[] = args.votes || [];
+      const total = votes.reduce((sum, vote) => sum + vote.count, 0);
+      return {
+        action: `Vote for ${votes.length} witness(es), replacing the wallet's previous votes`,
+        recipient: votes.map((vote) => `${vote.address} (${vote.count})`).join(", "),
+        amount: `${total} votes (TRON Power)`,
+        estimatedFee: await estimateBandwidthFee(
+          sender,
+          async () => [
+            await builder().vote(
+              Object.fromEntries(votes.map((vote) => [vote.address, vote.count])),
+              sender,
+            ),
+          ],
+          network,
+        ),
+        network,
+      };
+    }
+    case "withdraw_reward": {
+      const reward = await services.getReward(sender, network).catch(() => undefined);
+      return {
+        action: "Withdraw voting and block rewards to the wallet's balance",
+        amount: reward ? `${reward.total.trx} TRX` : undefined,
+        estimatedFee: await estimateBandwidthFee(
+          sender,
+          async () => [await builder().withdrawBlockRewards(sender)],
+          network,
+        ),
+        network,
+      };
+    }
+    case "create_proposal": {
+      const parameters: { parameter: string | number; value: number }[] = args.parameters || [];
+      return {
+        action: `Create a proposal setting ${parameters.map(({ parameter, value }) => `${parameter} = ${value}`).join(", ")}`,
+        estimatedFee: await estimateBandwidthFee(
+          sender,
+          async () => [
+            await builder().createProposal(
+              parameters.map(({ parameter, value }) => ({
+                key: services.resolveProposalParameter(parameter),
+                value,
+              })),
+              sender,
+            ),
+          ],
+          network,
+        ),
+        network,
+      };
+    }
+    case "approve_proposal": {
+      const approve = args.approve ?? true;
+      return {
+        action: `${approve ? "Approve" : "Withdraw the approval of"} proposal ${args.proposalId}`,
+        estimatedFee: await estimateBandwidthFee(
+          sender,
+          async () => [await builder().voteProposal(args.proposalId, approve, sender)],
+          network,
+        ),
+        network,
+      };
+    }
+    case "delete_proposal":
+      return {
+        action: `Delete proposal ${args.proposalId}`,
+        estimatedFee: await estimateBandwidthFee(
+          sender,
+          async () => [await builder().deleteProposal(args.proposalId, sender)],
+          network,
+        ),
+        network,
+      };
+    case "update_account_permissions": {
+      const describe = (permission: any) =>
+        `threshold ${permission.threshold}: ${permission.keys.map((key: any) => `${key.address} (weight ${key.weight})`).join(", ")}`;
+      const changes = [
+        args.owner && `owner ${describe(args.owner)}`,
+        ...(args.actives || []).map(
+          (active: any) => `active${active.name ? ` "${active.name}"` : ""} ${describe(active)}`,
+        ),
+      ].filter(Boolean);
+      return {
+        action: `Replace account permissions with ${changes.join("; ")}`,
+        estimatedFee: await estimateFee(
+          async () =>
+            (
+              await services.previewPermissionUpdate(
+                sender,
+                { owner: args.owner, actives: args.actives },
+                { signer: sender, allowOwnerTransfer: args.allowOwnerTransfer },
+                network,
+              )
+            ).fee,
+        ),
+        network,
+      };
+    }
+    case "sign_transaction":
+    case "cosign_transaction":
+    case "broadcast_transaction":
+    case "broadcast_multisig_transaction": {
+      const verbs: Record<string, string> = {
+        sign_transaction: "Sign",
+        cosign_transaction: "Co-sign",
+      };
+      const verb = verbs[tool] || "Broadcast";
+      const input = args.transaction ?? args.rawDataHex;
+      const decoded = input
+        ? await services.decodeTransaction(input, undefined, network).catch(() => undefined)
+        : undefined;
+      const parameters: Record<string, any> = decoded?.parameters || {};
+      return {
+        action: decoded
+          ? `${verb} ${decoded.call ? `${decoded.call.function || decoded.call.selector} call` : decoded.contractType} from ${decoded.owner}`
+          : title,
+        recipient: parameters.to_address || parameters.receiver_address || decoded?.call?.contract,
+        amount: parameters.amount?.trx ? `${parameters.amount.trx} TRX` : undefined,
+        estimatedFee: decoded?.feeLimit ? `Up to ${decoded.feeLimit.trx} TRX` : "Not estimated",
+        // An offline signature is valid on every network
+        network: tool === "sign_transaction" ? "any" : network,
+      };
+    }
+    default: {
+      const amount = args.amount ?? args.callValue;
+      return {
+        action: title,
+        recipient: args.to || args.receiver || args.contractAddress,
+        amount: amount !== undefined ? String(amount) : undefined,
+        estimatedFee: "Not estimated",
+        network,
+      };
+    }
+  }
+}
+
+/**
+ * Whether a call only previews or simulates, so nothing is signed and no confirmation is needed
+ */
+function isPreviewCall(inputSchema: Record<string, unknown>, args: Record<string, any>) {
+  if ("dryRun" in inputSchema && (args.dryRun || isDryRunMode())) {
+    return true;
+  }
+  // Tools with their own confirm flag (update_account_permissions) only preview without it
+  return "confirm" in inputSchema && (args.confirm !== true || isDryRunMode());
+}
+
+function textResult(value: unknown, isError = false) {
+  return {
+    content: [{ type: "text" as const, text: services.helpers.formatJson(value) }],
+    ...(isError ? { isError: true } : {}),
+  };
+}
+
+/**
+ * Ask the user to approve a destructive tool call before it runs. Clients that support MCP
+ * elicitation show the summary and the call waits for the answer. Other clients get a
+ * confirmation token; calling the tool again with the same arguments and the token runs it.
+ */
+async function confirmAndRun(
+  server: McpServer,
+  tool: string,
+  title: string,
+  inputSchema: Record<string, unknown>,
+  args: Record<string, any>,
+  run: (args: Record<string, any>) => Promise<any>,
+  now = Date.now(),
+) {
+  const { confirmationToken, ...callArgs } = args;
+  if (!isConfirmationRequired() || isPreviewCall(inputSchema, callArgs)) {
+    return run(callArgs);
+  }
+
+  for (const [token, pending] of pendingActions) {
+    if (pending.expiresAt <= now) pendingActions.delete(token);
+  }
+
+  if (confirmationToken) {
+    const pending = pendingActions.get(confirmationToken);
+    if (!pending || pending.tool !== tool) {
+      return textResult(
+        { error: `Unknown or expired confirmation token. Call ${tool} again without it.` },
+        true,
+      );
+    }
+    if (canonicalArgs(pending.args) !== canonicalArgs(callArgs)) {
+      return textResult(
+        { error: "Arguments differ from the pending action. Call again without the token." },
+        true,
+      );
+    }
+    pendingActions.delete(confirmationToken);
+    return run(pending.args);
+  }
+
+  const summary = await summarizeAction(tool, title, callArgs);
+
+  if (server.server.getClientCapabilities()?.elicitation) {
+    const response = await server.server.elicitInput({
+      message: [
+        `Confirm ${title}`,
+        `Action: ${summary.action}`,
+        `Recipient: ${summary.recipient ?? "-"}`,
+        `Amount: ${summary.amount ?? "-"}`,
+        `Estimated fee: ${summary.estimatedFee}`,
+        `Network: ${summary.network}`,
+      ].join("\n"),
+      requestedSchema: {
+        type: "object",
+        properties: {
+          confirm: { type: "boolean", title: "Sign and send this transaction" },
+        },
+        required: ["confirm"],
+      },
+    });
+    if (response.action !== "accept" || response.content?.confirm !== true) {
+      return textResult({ cancelled: true, summary, message: "Cancelled by the user." });
+    }
+    return run(callArgs);
+  }
+
+  const token = randomUUID();
+  const expiresAt = now + PENDING_ACTION_TTL_MS;
+  pendingActions.set(token, { tool, args: callArgs, summary, expiresAt });
+  return textResult({
+    confirmationRequired: true,
+    confirmationToken: token,
+    expiresAt: new Date(expiresAt).toISOString(),
+    summary,
+    message: `Nothing was signed. Show this summary to the user and, once they approve, call ${tool} again with the same arguments and confirmationToken.`,
+  });
+}
+
+/**
+ * Wrap a server so every tool registered with destructiveHint: true asks for confirmation before
+ * running, and accepts a confirmationToken argument for the two-step flow
+ */
+export function withWriteConfirmation(server: McpServer): McpServer {
+  const registerTool = server.registerTool.bind(server);
+  const wrapped = Object.create(server) as McpServer;
+
+  wrapped.registerTool = ((name: string, config: any, handler: any) => {
+    if (!config.annotations?.destructiveHint) {
+      return registerTool(name, config, handler);
+    }
+    const inputSchema = config.inputSchema || {};
+    return registerTool(
+      name,
+      {
+        ...config,
+        inputSchema: {
+          ...inputSchema,
+          confirmationToken: z
+            .string()
+            .optional()
+            .describe(
+              "Token returned by a previous call that required confirmation; executes that pending action",
+            ),
+        },
+      },
+      ((args: Record<string, any>, extra: unknown) =>
+        confirmAndRun(
+          server,
+          name,
+          config.annotations.title || name,
+          inputSchema,
+          args,
+          (callArgs) => handler(callArgs, extra),
+        )) as any,
+    );
+  }) as McpServer["registerTool"];
+
+  return wrapped;
+}
@@ -251,7 +251,12 @@ Determine transaction state:
 - **Failed**: Execution failed (contractRet='REVERT' or other error)
 
 ### 3. Failure Analysis
-If transaction failed, investigate:
+If transaction failed, start from the \`failureReason\` field returned by \`get_transaction_info\`:
+- It decodes \`Error(string)\` messages, \`Panic(uint256)\` codes and custom errors from the contract ABI
+- The \`revert\` field holds the error name and decoded arguments
+- If the contract ABI is not on chain, pass it via the \`abi\` argument to decode custom errors
+
+Then investigate:
 
 **Out of Energy**:
 - Check energy_usage vs energy_limit
@@ -273,7 +278,7 @@ Provide structured diagnosis:
 - **Transaction Hash**: The hash analyzed
 - **From/To**: Addresses involved
 - **Resource Usage**: Energy / Bandwidth used
-- **Issue (if failed)**: Root cause and explanation
+- **Issue (if failed)**: Decoded failure reason, root cause and explanation
 - **Recommended Actions**: Next steps to resolve
 `,
           },
@@ -408,6 +413,10 @@ ${
     : `- If specific tokens provided: call \`get_token_balance\` for each`
 }
 
+### 4. Activity
+- Call \`get_account_transactions\` for recent transactions (TRX/TRC10 transfers, contract calls)
+- Call \`get_trc20_transfers\` for recent token transfers
+
 ## Output Format
 
 Provide analysis with clear sections:
@@ -427,6 +436,9 @@ Provide analysis with clear sections:
 - Balance: [formatted]
 - Decimals: [decimals]
 
+**Recent Activity**
+- Latest transactions and token transfers (direction, amount, counterparty)
+
 **Summary**
 - Primary holdings
 - Notable observations
@@ -0,0 +1,234 @@
+import { TronWeb, utils as tronWebUtils } from "tronweb";
+
+/**
+ * Service for decoding ABI-encoded data (return values, revert data) into readable values
+ */
+
+// Selectors of the built-in Solidity Error(string) and Panic(uint256) reverts
+const ERROR_STRING_SELECTOR = "08c379a0";
+const PANIC_SELECTOR = "4e487b71";
+
+// Solidity panic codes (https://docs.soliditylang.org/en/latest/control-structures.html#panic-via-assert-and-error-via-require)
+const PANIC_CODES: Record<number, string> = {
+  0x00: "Generic compiler panic",
+  0x01: "Assertion failed",
+  0x11: "Arithmetic overflow or underflow",
+  0x12: "Division or modulo by zero",
+  0x21: "Invalid enum value",
+  0x22: "Incorrectly encoded storage byte array",
+  0x31: "pop() on an empty array",
+  0x32: "Array index out of bounds",
+  0x41: "Out of memory",
+  0x51: "Call to an uninitialized function pointer",
+};
+
+export interface DecodedRevert {
+  type: "Error" | "Panic" | "CustomError" | "Unknown";
+  reason: string;
+  name?: string;
+  args?: Record<string, any>;
+  selector?: string;
+}
+
+/**
+ * Normalize a decoded value: addresses become Base58, tuples become named objects
+ */
+function normalizeValue(param: any, value: any): any {
+  const arrayMatch = /^(.*)\[(\d*)\]$/.exec(param.type);
+  if (arrayMatch && Array.isArray(value)) {
+    const elementParam = { ...param, type: arrayMatch[1] };
+    return value.map((item: any) => normalizeValue(elementParam, item));
+  }
+  if (param.type === "address" && typeof value === "string") {
+    const hex = value.replace(/^0x/, "");
+    return TronWeb.address.fromHex(hex.length === 40 ? "41" + hex : hex);
+  }
+  if (param.type.startsWith("tuple") && param.components) {
+    return toNamedValues(param.components, value);
+  }
+  return value;
+}
+
+/**
+ * Map decoded values onto their ABI parameter names (falling back to the position)
+ */
+export function toNamedValues(params: any[], values: any): Record<string, any> {
+  const named: Record<string, any> = {};
+  params.forEach((param, index) => {
+    named[param.name || String(index)] = normalizeValue(param, values[index]);
+  });
+  return named;
+}
+
+/**
+ * Decode ABI-encoded data against a list of ABI parameters (function inputs/outputs)
+ */
+export function decodeAbiParameters(params: any[], data: string): Record<string, any> {
+  const hex = data.startsWith("0x") ? data : "0x" + data;
+  const decoded = tronWebUtils.abi.decodeParamsV2ByABI({ outputs: params } as any, hex);
+  return toNamedValues(params, decoded);
+}
+
+/**
+ * Decode a function's return data. A single output is returned as a bare value.
+ */
+export function decodeReturnValue(func: any, data: string): any {
+  const outputs = func.outputs || [];
+  if (outputs.length === 0 || !data) return undefined;
+  const decoded = decodeAbiParameters(outputs, data);
+  return outputs.length === 1 ? Object.values(decoded)[0] : decoded;
+}
+
+/**
+ * Get the 4-byte selector (hex, no prefix) of a function, event or error signature
+ */
+export function getSelector(signature: string): string {
+  return TronWeb.sha3(signature, false).slice(0, 8);
+}
+
+/**
+ * Build the signature of an ABI entry, expanding tuples into their components
+ */
+export function getAbiEntrySignature(entry: any): string {
+  const canonical = (input: any): string =>
+    input.type.startsWith("tuple") && input.components
+      ? `(${input.components.map(canonical).join(",")})${input.type.slice("tuple".length)}`
+      : input.type;
+  return `${entry.name}(${(entry.inputs || []).map(canonical).join(",")})`;
+}
+
+/**
+ * Decode revert data from a failed call: Error(string), Panic(uint256), or a custom error
+ * declared in the supplied ABI
+ */
+export function decodeRevertData(data?: string, abi: any[] = []): DecodedRevert | undefined {
+  const hex = (data || "").replace(/^0x/, "");
+  if (hex.length < 8) return undefined;
+
+  const selector = hex.slice(0, 8).toLowerCase();
+  const payload = hex.slice(8);
+
+  try {
+    if (selector === ERROR_STRING_SELECTOR) {
+      const message = decodeAbiParameters([{ type: "string" }], payload)["0"];
+      return { type: "Error", reason: message, args: { message } };
+    }
+
+    if (selector === PANIC_SELECTOR) {
+      const code = Number(decodeAbiParameters([{ type: "uint256" }], payload)["0"]);
+      const description = PANIC_CODES[code] || "Unknown panic code";
+      return {
+        type: "Panic",
+        reason: `Panic(0x${code.toString(16).padStart(2, "0")}): ${description}`,
+        args: { code },
+      };
+    }
+
+    const errorEntry = abi.find(
+      (entry) =>
+        String(entry.type).toLowerCase() === "error" &&
+        getSelector(getAbiEntrySignature(entry)) === selector,
+    );
+    if (errorEntry) {
+      const args = decodeAbiParameters(errorEntry.inputs || [], payload);
+      const formattedArgs = Object.entries(args)
+        .map(([key, value]) => `${key}=${String(value)}`)
+        .join(", ");
+      return {
+        type: "CustomError",
+        reason: `${errorEntry.name}(${formattedArgs})`,
+        name: errorEntry.name,
+        args,
+        selector: "0x" + selector,
+      };
+    }
+  } catch (_e) {
+    // Malformed payload; fall through to the unknown selector result
+  }
+
+  return {
+    type: "Unknown",
+    reason: `Unknown error with selector 0x${selector}`,
+    selector: "0x" + selector,
+  };
+}
+
+/**
+ * Decode revert data into a human-readable reason
+ */
+export function decodeRevertReason(data?: string, abi: any[] = []): string | undefined {
+  return decodeRevertData(data, abi)?.reason;
+}
+
+/**
+ * Decode an event log ({ topics, data }) against the event entries of an ABI.
+ * Indexed parameters come from the topics; indexed dynamic types are only available as hashes.
+ */
+export function decodeEventLog(
+  log: { topics?: string[]; data?: string },
+  abi: any[],
+): { name: string; signature: string; args: Record<string, any> } | undefined {
+  const topics = (log.topics || []).map((topic) => topic.replace(/^0x/, "").toLowerCase());
+  if (topics.length === 0) return undefined;
+
+  const event = abi.find((entry) => {
+    if (String(entry.type).toLowerCase() !== "event" || entry.anonymous) return false;
+    const indexedCount = (entry.inputs || []).filter((input: any) => input.indexed).length;
+    return (
+      indexedCount === topics.length - 1 &&
+      TronWeb.sha3(getAbiEntrySignature(entry), false).toLowerCase() === topics[0]
+    );
+  });
+  if (!event) return undefined;
+
+  const inputs: any[] = event.inputs || [];
+  const nonIndexed = inputs.filter((input) => !input.indexed);
+  const dataValues = log.data ? Object.values(decodeAbiParameters(nonIndexed, log.data)) : [];
+
+  const args: Record<string, any> = {};
+  let topicIndex = 1;
+  let dataIndex = 0;
+  inputs.forEach((input, index) => {
+    const key = input.name || String(index);
+    if (!input.indexed) {
+      args[key] = dataValues[dataIndex++];
+      return;
+    }
+    const topic = topics[topicIndex++];
+    const isDynamic =
+      input.type === "string" ||
+      input.type === "bytes" ||
+      input.type.endsWith("]") ||
+      input.type.startsWith("tuple");
+    args[key] = isDynamic ? "0x" + topic : Object.values(decodeAbiParameters([input], topic))[0];
+  });
+
+  return { name: event.name, signature: getAbiEntrySignature(event), args };
+}
+
+/**
+ * Decode contract call data (selector + arguments) against the function entries of an ABI
+ */
+export function decodeFunctionCall(
+  data: string,
+  abi: any[],
+): { name: string; signature: string; selector: string; args: Record<string, any> } | undefined {
+  const hex = (data || "").replace(/^0x/, "");
+  if (hex.length < 8) return undefined;
+
+  const selector = hex.slice(0, 8).toLowerCase();
+  const func = abi.find(
+    (entry) =>
+      String(entry.type).toLowerCase() === "function" &&
+      getSelector(getAbiEntrySignature(entry)) === selector,
+  );
+  if (!func) return undefined;
+
+  const inputs: any[] = func.inputs || [];
+  return {
+    name: func.name,
+    signature: getAbiEntrySignature(func),
+    selector,
+    args: inputs.length > 0 ? decodeAbiParameters(inputs, hex.slice(8)) : {},
+  };
+}
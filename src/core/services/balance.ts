@@ -1,5 +1,8 @@
 import { getTronWeb } from "./clients.js";
 import { utils } from "./utils.js";
+import { getTRC10TokenInfo, substituteTokenId } from "./tokens.js";
+import { TRC1155_ABI } from "./nft-abi.js";
+import { toBase58Address } from "./address.js";
 
 /**
  * Get TRX balance for an address
@@ -73,3 +76,99 @@ export async function getTRC1155Balance(
     throw new Error(`Failed to get TRC1155 balance: ${error.message}`);
   }
 }
+
+/**
+ * Get TRC1155 balances for many owner/token ID pairs in one balanceOfBatch call.
+ * With `includeUri`, each distinct token ID's metadata URI is read and its `{id}` substituted.
+ */
+export async function getTRC1155Balances(
+  contractAddress: string,
+  pairs: { owner: string; tokenId: string }[],
+  network = "mainnet",
+  includeUri = false,
+) {
+  const tronWeb = getTronWeb(network);
+
+  try {
+    const contract = tronWeb.contract(TRC1155_ABI, contractAddress);
+    const balances: any[] = await contract.methods
+      .balanceOfBatch(
+        pairs.map((pair) => pair.owner),
+        pairs.map((pair) => pair.tokenId),
+      )
+      .call();
+
+    const uris = new Map<string, string | undefined>();
+    if (includeUri) {
+      const tokenIds = [...new Set(pairs.map((pair) => pair.tokenId))];
+      await Promise.all(
+        tokenIds.map(async (tokenId) => {
+          const uri = await contract.methods
+            .uri(tokenId)
+            .call()
+            .catch(() => undefined);
+          uris.set(tokenId, uri ? substituteTokenId(uri, tokenId) : undefined);
+        }),
+      );
+    }
+
+    return pairs.map((pair, index) => ({
+      owner: toBase58Address(pair.owner),
+      tokenId: pair.tokenId,
+      balance: BigInt(balances[index].toString()),
+      uri: includeUri ? uris.get(pair.tokenId) : undefined,
+    }));
+  } catch (error: any) {
+    throw new Error(`Failed to get TRC1155 balances: ${error.message}`);
+  }
+}
+
+/**
+ * Get the balance of one TRC10 asset
+ */
+export async function getTRC10Balance(address: string, tokenId: string, network = "mainnet") {
+  const tronWeb = getTronWeb(network);
+
+  try {
+    const [account, token] = await Promise.all([
+      tronWeb.trx.getAccount(address),
+      getTRC10TokenInfo(tokenId, network),
+    ]);
+    const entry = (account.assetV2 || []).find((asset: any) => asset.key === token.id);
+    const raw = BigInt(entry?.value ?? 0);
+
+    return {
+      raw,
+      formatted: utils.formatUnits(raw, token.precision),
+      token: { id: token.id, name: token.name, abbr: token.abbr, precision: token.precision },
+    };
+  } catch (error: any) {
+    throw new Error(`Failed to get TRC10 balance: ${error.message}`);
+  }
+}
+
+/**
+ * List every TRC10 asset an account holds, with balances normalized by each token's precision
+ */
+export async function getTRC10Balances(address: string, network = "mainnet") {
+  const tronWeb = getTronWeb(network);
+
+  try {
+    const account = await tronWeb.trx.getAccount(address);
+    const assets = (account.assetV2 || []).filter((asset: any) => Number(asset.value) > 0);
+
+    return await Promise.all(
+      assets.map(async (asset: any) => {
+        const token = await getTRC10TokenInfo(asset.key, network);
+        const raw = BigInt(asset.value);
+        return {
+          raw,
+          formatted: utils.formatUnits(raw, token.precision),
+          token: { id: token.id, name: token.name, abbr: token.abbr, precision: token.precision },
+        };
+      }),
+    );
+  } catch (error: any) {
+    throw new Error(`Failed to get TRC10 balances: ${error.message}`);
+  }
+}
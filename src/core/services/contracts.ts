@@ -1,5 +1,23 @@
 import { getTronWeb, getWallet } from "./clients.js";
 import { MULTICALL2_ABI, MULTICALL3_ABI } from "./multicall-abi.js";
+import { getResourcePrices } from "./resources.js";
+import { utils } from "./utils.js";
+import { toBase58Address, toHexAddress } from "./address.js";
+import {
+  broadcastSignedTransaction,
+  decodeTransactionFailure,
+  signAndBroadcast,
+  waitForTransaction,
+} from "./transactions.js";
+import { contractCallIntent, PolicyViolationError, withSpendingPolicy } from "./policy.js";
+import { decodeReturnValue, decodeRevertReason, getAbiEntrySignature } from "./abi.js";
+import { Signer, toSigner } from "./signer.js";
+
+// Safety margin added on top of the estimated energy cost when deriving a fee limit
+export const FEE_LIMIT_MARGIN = 0.2;
+
+// Fee limit for deployments when none is given (1000 TRX), since deployments are not estimated
+export const DEFAULT_DEPLOY_FEE_LIMIT = 1_000_000_000;
 
 /**
  * Read from a smart contract (view/pure functions)
@@ -37,44 +55,291 @@ export async function readContract(
 }
 
 /**
- * Write to a smart contract (state changing functions)
+ * Write to a smart contract (state changing functions). The call is built here and signed by
+ * `signer`, which may be a remote signing service.
  */
 export async function writeContract(
-  privateKey: string,
+  signer: Signer | string, // Signer, or a private key
   params: {
     address: string;
     functionName: string;
     args?: any[];
     value?: string; // TRX value to send (in Sun)
     abi?: any[];
+    feeLimit?: number; // Maximum TRX to burn for energy (in Sun)
   },
   network = "mainnet",
 ) {
-  const tronWeb = getWallet(privateKey, network);
+  const tronWeb = getTronWeb(network);
+  const account = toSigner(signer);
 
   try {
-    let contract;
-    if (params.abi) {
-      contract = tronWeb.contract(params.abi, params.address);
-    } else {
-      contract = await tronWeb.contract().at(params.address);
+    const abi = params.abi || (await fetchContractABI(params.address, network));
+    const args = params.args || [];
+    const func = findFunctionInABI(abi, params.functionName, args.length);
+
+    const options: any = {
+      callValue: params.value ? Number(params.value) : 0,
+      funcABIV2: func,
+      // The encoder rewrites addresses in place
+      parametersV2: JSON.parse(JSON.stringify(args)),
+    };
+    if (params.feeLimit) {
+      options.feeLimit = params.feeLimit;
     }
 
-    const method = contract.methods[params.functionName];
-    if (!method) {
-      throw new Error(`Function ${params.functionName} not found in contract`);
+    const txId = await withSpendingPolicy(
+      contractCallIntent(
+        "write_contract",
+        params.address,
+        params.functionName,
+        args,
+        params.value || 0,
+      ),
+      network,
+      async () => {
+        const result = await tronWeb.transactionBuilder.triggerSmartContract(
+          params.address,
+          getAbiEntrySignature(func),
+          options,
+          [],
+          account.address,
+        );
+        if (!result?.result?.result) {
+          throw new Error(`Failed to build contract call: ${JSON.stringify(result?.result)}`);
+        }
+        return broadcastSignedTransaction(
+          tronWeb,
+          await account.signTransaction(result.transaction),
+        );
+      },
+    );
+    return txId;
+  } catch (error: any) {
+    if (error instanceof PolicyViolationError) throw error;
+    throw new Error(`Write contract failed: ${error.message}`);
+  }
+}
+
+/**
+ * Deploy a smart contract from its ABI and bytecode, then wait for the deployment to be confirmed.
+ * Constructor arguments are encoded against the ABI's constructor. A dry run stops after the node
+ * has built the transaction and returns the address the contract would get.
+ */
+export async function deployContract(
+  privateKey: string,
+  params: {
+    abi: any[];
+    bytecode: string;
+    args?: any[]; // Constructor arguments
+    name?: string;
+    callValue?: number; // TRX sent to a payable constructor (in Sun)
+    feeLimit?: number; // Maximum TRX to burn for energy (in Sun)
+    userFeePercentage?: number; // Share of callers' energy paid by the caller (0-100)
+    originEnergyLimit?: number; // Maximum energy the deployer pays per call
+  },
+  network = "mainnet",
+  dryRun = false,
+) {
+  const tronWeb = getWallet(privateKey, network);
+  const owner = tronWeb.defaultAddress.base58 as string;
+  const feeLimit = params.feeLimit ?? DEFAULT_DEPLOY_FEE_LIMIT;
+
+  let txHash: string;
+  let contractAddress: string;
+  try {
+    const tx: any = await tronWeb.transactionBuilder.createSmartContract(
+      {
+        abi: params.abi,
+        bytecode: params.bytecode.replace(/^0x/, ""),
+        parameters: params.args || [],
+        name: params.name,
+        callValue: params.callValue,
+        feeLimit,
+        userFeePercentage: params.userFeePercentage ?? 100,
+        originEnergyLimit: params.originEnergyLimit,
+      },
+      owner,
+    );
+    contractAddress = tx.contract_address;
+    if (dryRun) {
+      const address = toHexAddress(contractAddress);
+      return {
+        txHash: undefined,
+        owner,
+        contractAddress: { base58: toBase58Address(address), hex: address },
+        feeLimit: { sun: feeLimit, trx: utils.fromSun(feeLimit) },
+      };
     }
+    txHash = await withSpendingPolicy(
+      { action: "deploy_contract", trxSun: params.callValue || 0 },
+      network,
+      () => signAndBroadcast(tronWeb, tx),
+    );
+  } catch (error: any) {
+    if (error instanceof PolicyViolationError) throw error;
+    throw new Error(`Deploy contract failed: ${error.message}`);
+  }
 
-    const args = params.args || [];
-    const options: any = {};
-    if (params.value) {
-      options.callValue = params.value;
+  const info = await waitForTransaction(txHash, network);
+  const failure = decodeTransactionFailure(info, params.abi);
+  if (failure.failed) {
+    throw new Error(`Deploy contract failed: ${failure.failureReason} (transaction ${txHash})`);
+  }
+
+  const address = toHexAddress(info.contract_address || contractAddress);
+  const fee = Number(info.fee || 0);
+  return {
+    txHash,
+    owner,
+    contractAddress: { base58: toBase58Address(address), hex: address },
+    blockNumber: info.blockNumber,
+    energyUsed: Number(info.receipt?.energy_usage_total || 0),
+    fee: { sun: fee, trx: utils.fromSun(fee) },
+  };
+}
+
+/**
+ * Get a contract's deployment details and energy-sharing settings. userFeePercentage is the share
+ * of energy callers pay; the origin (deployer) pays the rest, up to originEnergyLimit per call.
+ */
+export async function getContractInfo(contractAddress: string, network = "mainnet") {
+  const tronWeb = getTronWeb(network);
+
+  let response: any;
+  try {
+    // Query the node directly: trx.getContract caches results, which would hide setting updates
+    response = await tronWeb.fullNode.request(
+      "wallet/getcontractinfo",
+      { value: toHexAddress(contractAddress) },
+      "post",
+    );
+  } catch (error: any) {
+    throw new Error(`Failed to get contract info: ${error.message}`);
+  }
+  const contract = response?.smart_contract;
+  if (!contract?.origin_address) {
+    throw new Error(`No contract found at ${contractAddress}`);
+  }
+
+  const entries: any[] = contract.abi?.entrys || [];
+  const countType = (type: string) =>
+    entries.filter((entry) => String(entry.type).toLowerCase() === type).length;
+  const energyFactor = Number(response.contract_state?.energy_factor || 0);
+
+  return {
+    address: toBase58Address(contract.contract_address || toHexAddress(contractAddress)),
+    name: contract.name || undefined,
+    origin: toBase58Address(contract.origin_address),
+    deployTxID: contract.trx_hash,
+    // proto3 omits zero values
+    userFeePercentage: Number(contract.consume_user_resource_percent || 0),
+    originEnergyLimit: Number(contract.origin_energy_limit || 0),
+    abi: {
+      entries: entries.length,
+      functions: countType("function"),
+      events: countType("event"),
+    },
+    bytecodeOnChain: Boolean(response.runtimecode),
+    codeHash: contract.code_hash,
+    // Dynamic energy penalty on popular contracts, in units of 1/10000
+    energyFactor: energyFactor || undefined,
+  };
+}
+
+/**
+ * Update the energy-sharing settings of a contract the wallet deployed. Each setting is its own
+ * transaction (UpdateSettingContract / UpdateEnergyLimitContract); unchanged values are skipped.
+ * A dry run has the node build each transaction but signs none of them.
+ */
+export async function updateContractSettings(
+  privateKey: string,
+  contractAddress: string,
+  settings: { userFeePercentage?: number; originEnergyLimit?: number },
+  network = "mainnet",
+  dryRun = false,
+) {
+  const tronWeb = getWallet(privateKey, network);
+  const owner = tronWeb.defaultAddress.base58 as string;
+  const { userFeePercentage, originEnergyLimit } = settings;
+
+  if (userFeePercentage === undefined && originEnergyLimit === undefined) {
+    throw new Error("Provide userFeePercentage and/or originEnergyLimit");
+  }
+  if (
+    userFeePercentage !== undefined &&
+    (!Number.isInteger(userFeePercentage) || userFeePercentage < 0 || userFeePercentage > 100)
+  ) {
+    throw new Error("userFeePercentage must be an integer between 0 and 100");
+  }
+  if (
+    originEnergyLimit !== undefined &&
+    (!Number.isInteger(originEnergyLimit) || originEnergyLimit <= 0)
+  ) {
+    throw new Error("originEnergyLimit must be a positive integer");
+  }
+
+  const before = await getContractInfo(contractAddress, network);
+  if (before.origin !== owner) {
+    throw new Error(`Only the contract origin ${before.origin} can update its settings`);
+  }
+  const updateFee =
+    userFeePercentage !== undefined && userFeePercentage !== before.userFeePercentage;
+  const updateLimit =
+    originEnergyLimit !== undefined && originEnergyLimit !== before.originEnergyLimit;
+  if (!updateFee && !updateLimit) {
+    throw new Error("The contract already has these settings");
+  }
+
+  const intent = { action: "update_contract_settings", contract: before.address };
+  const send = (tx: any) => () => signAndBroadcast(tronWeb, tx);
+  const transactions: { setting: string; txHash?: string }[] = [];
+  try {
+    if (updateFee) {
+      const tx = await tronWeb.transactionBuilder.updateSetting(
+        before.address,
+        userFeePercentage,
+        owner,
+      );
+      transactions.push({
+        setting: "userFeePercentage",
+        txHash: dryRun ? undefined : await withSpendingPolicy(intent, network, send(tx)),
+      });
+    }
+    if (updateLimit) {
+      const tx = await tronWeb.transactionBuilder.updateEnergyLimit(
+        before.address,
+        originEnergyLimit,
+        owner,
+      );
+      transactions.push({
+        setting: "originEnergyLimit",
+        txHash: dryRun ? undefined : await withSpendingPolicy(intent, network, send(tx)),
+      });
     }
 
-    const txId = await method(...args).send(options);
-    return txId;
+    return {
+      contract: before.address,
+      owner,
+      transactions,
+      previous: {
+        userFeePercentage: before.userFeePercentage,
+        originEnergyLimit: before.originEnergyLimit,
+      },
+      updated: {
+        userFeePercentage: userFeePercentage ?? before.userFeePercentage,
+        originEnergyLimit: originEnergyLimit ?? before.originEnergyLimit,
+      },
+    };
   } catch (error: any) {
-    throw new Error(`Write contract failed: ${error.message}`);
+    if (error instanceof PolicyViolationError) throw error;
+    const sent = transactions
+      .filter(({ txHash }) => txHash)
+      .map(({ setting, txHash }) => `${setting} in ${txHash}`)
+      .join(", ");
+    throw new Error(
+      `Failed to update contract settings: ${error.message}${sent ? ` (already updated ${sent})` : ""}`,
+    );
   }
 }
 
@@ -132,6 +397,217 @@ export function getFunctionFromABI(abi: any[], functionName: string) {
   return func;
 }
 
+/**
+ * Find a function in an ABI, matching the argument count when the function is overloaded.
+ * Handles both Solidity ABIs ("function") and on-chain TRON ABIs ("Function").
+ */
+export function findFunctionInABI(abi: any[], functionName: string, argCount?: number) {
+  const candidates = abi.filter(
+    (item) => String(item.type).toLowerCase() === "function" && item.name === functionName,
+  );
+  const func =
+    candidates.find((item) => argCount === undefined || (item.inputs || []).length === argCount) ||
+    candidates[0];
+  if (!func) {
+    throw new Error(`Function ${functionName} not found in ABI`);
+  }
+  return func;
+}
+
+/**
+ * Derive a fee limit (in Sun) from an energy estimate plus a safety margin,
+ * capped at the network's maximum fee limit when known
+ */
+export function computeFeeLimit(
+  energy: number,
+  energyPriceSun: number,
+  margin = FEE_LIMIT_MARGIN,
+  maxFeeLimitSun?: number,
+): number {
+  const feeLimit = Math.ceil(energy * energyPriceSun * (1 + margin));
+  return maxFeeLimitSun ? Math.min(feeLimit, maxFeeLimitSun) : feeLimit;
+}
+
+/**
+ * Estimate the energy a contract call will consume and the resulting TRX cost.
+ * Uses the node's estimateEnergy API and falls back to a constant call (triggerConstantContract)
+ * on nodes where estimateEnergy is disabled.
+ */
+export async function estimateEnergy(
+  params: {
+    address: string;
+    functionName: string;
+    args?: any[];
+    abi?: any[];
+    value?: string; // TRX value to send (in Sun)
+    from?: string; // Caller address; affects balance/allowance checks in the simulated call
+  },
+  network = "mainnet",
+) {
+  const tronWeb = getTronWeb(network);
+  const args = params.args || [];
+
+  try {
+    const abi = params.abi || (await fetchContractABI(params.address, network));
+    const func = findFunctionInABI(abi, params.functionName, args.length);
+    const selector = getAbiEntrySignature(func);
+    const from = params.from || (tronWeb.defaultAddress.base58 as string);
+
+    // Encode via the function ABI so tuple and array arguments are handled.
+    // The encoder rewrites addresses in place, so each call gets its own copy.
+    const buildOptions = (): any => ({
+      callValue: params.value ? Number(params.value) : 0,
+      funcABIV2: func,
+      parametersV2: JSON.parse(JSON.stringify(args)),
+    });
+
+    let energy: number;
+    let source: "estimateEnergy" | "triggerConstantContract";
+    try {
+      const result: any = await tronWeb.transactionBuilder.estimateEnergy(
+        params.address,
+        selector,
+        buildOptions(),
+        [],
+        from,
+      );
+      energy = Number(result.energy_required);
+      source = "estimateEnergy";
+    } catch (_e) {
+      const result: any = await tronWeb.transactionBuilder.triggerConstantContract(
+        params.address,
+        selector,
+        buildOptions(),
+        [],
+        from,
+      );
+      energy = Number(result.energy_used || 0) + Number(result.energy_penalty || 0);
+      source = "triggerConstantContract";
+    }
+
+    const prices = await getResourcePrices(network);
+    const estimatedFeeSun = energy * prices.energyPriceSun;
+    const feeLimitSun = computeFeeLimit(
+      energy,
+      prices.energyPriceSun,
+      FEE_LIMIT_MARGIN,
+      prices.maxFeeLimitSun,
+    );
+
+    return {
+      energy,
+      source,
+      energyPriceSun: prices.energyPriceSun,
+      estimatedFee: { sun: estimatedFeeSun, trx: utils.fromSun(estimatedFeeSun) },
+      feeLimit: { sun: feeLimitSun, trx: utils.fromSun(feeLimitSun) },
+    };
+  } catch (error: any) {
+    throw new Error(`Energy estimation failed: ${error.message}`);
+  }
+}
+
+/**
+ * Work out the fee limit for a contract call. When no fee limit is given it is derived from the
+ * energy estimate; a failed estimate then aborts, since the call would most likely revert and
+ * still burn TRX. An explicit fee limit is used as-is even if estimation fails.
+ */
+export async function resolveFeeLimit(
+  call: Parameters<typeof estimateEnergy>[0],
+  feeLimit: number | undefined,
+  network = "mainnet",
+) {
+  try {
+    const estimate = await estimateEnergy(call, network);
+    return { feeLimit: feeLimit ?? estimate.feeLimit.sun, estimate };
+  } catch (error: any) {
+    if (feeLimit === undefined) {
+      throw error;
+    }
+    return { feeLimit, estimate: undefined, estimateError: error.message as string };
+  }
+}
+
+/**
+ * Simulate a state-changing contract call with a constant call (triggerConstantContract).
+ * Nothing is signed or broadcast; returns the decoded return value or revert reason,
+ * the energy used and the fee it would cost.
+ */
+export async function simulateContractCall(
+  params: {
+    address: string;
+    functionName: string;
+    args?: any[];
+    abi?: any[];
+    value?: string; // TRX value to send (in Sun)
+    from?: string;
+  },
+  network = "mainnet",
+) {
+  const tronWeb = getTronWeb(network);
+  const args = params.args || [];
+
+  try {
+    const abi = params.abi || (await fetchContractABI(params.address, network));
+    const func = findFunctionInABI(abi, params.functionName, args.length);
+    const from = params.from || (tronWeb.defaultAddress.base58 as string);
+
+    // The encoder rewrites addresses in place, so hand it a copy
+    const parameter = tronWeb.utils.abi
+      .encodeParamsV2ByABI(func, JSON.parse(JSON.stringify(args)))
+      .replace(/^0x/, "");
+
+    // Call the node directly: TronWeb's wrapper throws on revert and drops the revert data
+    const response: any = await tronWeb.fullNode.request(
+      "wallet/triggerconstantcontract",
+      {
+        owner_address: toHexAddress(from),
+        contract_address: toHexAddress(params.address),
+        function_selector: getAbiEntrySignature(func),
+        parameter,
+        call_value: params.value ? Number(params.value) : 0,
+      },
+      "post",
+    );
+
+    if (response?.Error) {
+      throw new Error(response.Error);
+    }
+
+    const output: string = response?.constant_result?.[0] || "";
+    const success =
+      response?.result?.result === true && response?.transaction?.ret?.[0]?.ret !== "FAILED";
+    const energyUsed = Number(response?.energy_used || 0) + Number(response?.energy_penalty || 0);
+
+    let revertReason: string | undefined;
+    if (!success) {
+      const message = response?.result?.message
+        ? Buffer.from(response.result.message, "hex").toString("utf8")
+        : undefined;
+      revertReason = decodeRevertReason(output, abi) || message || "Execution reverted";
+    }
+
+    const prices = await getResourcePrices(network);
+    const estimatedFeeSun = energyUsed * prices.energyPriceSun;
+    const feeLimitSun = computeFeeLimit(
+      energyUsed,
+      prices.energyPriceSun,
+      FEE_LIMIT_MARGIN,
+      prices.maxFeeLimitSun,
+    );
+
+    return {
+      success,
+      returnValue: success ? decodeReturnValue(func, output) : undefined,
+      revertReason,
+      energyUsed,
+      estimatedFee: { sun: estimatedFeeSun, trx: utils.fromSun(estimatedFeeSun) },
+      suggestedFeeLimit: { sun: feeLimitSun, trx: utils.fromSun(feeLimitSun) },
+    };
+  } catch (error: any) {
+    throw new Error(`Simulation failed: ${error.message}`);
+  }
+}
+
 /**
  * Multicall (Simulated or Native Multicall2/3)
  */
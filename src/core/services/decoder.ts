@@ -0,0 +1,272 @@
+import { utils as tronWebUtils } from "tronweb";
+import { getTronWeb } from "./clients.js";
+import { toBase58Address } from "./address.js";
+import { utils } from "./utils.js";
+import { decodeFunctionCall } from "./abi.js";
+import { fetchContractABI } from "./contracts.js";
+import { CONTRACT_TYPES } from "./permissions.js";
+import { TRC721_ABI, TRC1155_ABI } from "./nft-abi.js";
+
+// Common token functions, used to decode calls when a contract's ABI is unavailable
+const COMMON_FUNCTION_ABI = [
+  {
+    type: "function",
+    name: "transfer",
+    inputs: [
+      { name: "to", type: "address" },
+      { name: "value", type: "uint256" },
+    ],
+  },
+  {
+    type: "function",
+    name: "approve",
+    inputs: [
+      { name: "spender", type: "address" },
+      { name: "value", type: "uint256" },
+    ],
+  },
+  {
+    type: "function",
+    name: "transferFrom",
+    inputs: [
+      { name: "from", type: "address" },
+      { name: "to", type: "address" },
+      { name: "value", type: "uint256" },
+    ],
+  },
+  ...TRC721_ABI,
+  ...TRC1155_ABI,
+];
+
+// Contract parameters holding TRX amounts in Sun
+const SUN_FIELDS = new Set([
+  "amount",
+  "balance",
+  "call_value",
+  "frozen_balance",
+  "unfreeze_balance",
+]);
+
+function readVarint(buffer: Buffer, offset: number): [number, number] {
+  let value = 0;
+  let multiplier = 1;
+  let byte: number;
+  do {
+    if (offset >= buffer.length) throw new Error("Truncated protobuf data");
+    byte = buffer[offset++];
+    value += (byte & 0x7f) * multiplier;
+    multiplier *= 128;
+  } while (byte & 0x80);
+  return [value, offset];
+}
+
+/**
+ * Yield [field, wireType, value or bytes] for each field of a serialized protobuf message
+ */
+function* protobufFields(buffer: Buffer): Generator<[number, number, number | Buffer]> {
+  let offset = 0;
+  while (offset < buffer.length) {
+    let key: number;
+    [key, offset] = readVarint(buffer, offset);
+    const wireType = key & 7;
+    if (wireType === 0) {
+      let value: number;
+      [value, offset] = readVarint(buffer, offset);
+      yield [key >>> 3, wireType, value];
+    } else if (wireType === 2) {
+      let length: number;
+      [length, offset] = readVarint(buffer, offset);
+      yield [key >>> 3, wireType, buffer.subarray(offset, offset + length)];
+      offset += length;
+    } else if (wireType === 1 || wireType === 5) {
+      offset += wireType === 1 ? 8 : 4;
+    } else {
+      throw new Error(`Unsupported protobuf wire type ${wireType}`);
+    }
+  }
+}
+
+/**
+ * Read the contract type ID of a serialized raw_data. Only walks the protobuf far enough to reach
+ * the first contract's type (raw.contract = field 11, Contract.type = field 1).
+ */
+export function readContractType(rawDataHex: string): number | undefined {
+  const bytes = Buffer.from(rawDataHex.replace(/^0x/, ""), "hex");
+
+  for (const [field, wireType, value] of protobufFields(bytes)) {
+    if (field === 11 && wireType === 2) {
+      for (const [innerField, innerType, innerValue] of protobufFields(value as Buffer)) {
+        if (innerField === 1 && innerType === 0) return innerValue as number;
+      }
+      return 0; // proto3 omits the default type (AccountCreateContract)
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Turn a raw_data_hex into a transaction JSON. TronWeb can only deserialize the parameters of
+ * common contract types; other types keep their header fields only.
+ */
+function deserializeRawData(rawDataHex: string) {
+  const hex = rawDataHex.replace(/^0x/, "").toLowerCase();
+  const typeId = readContractType(hex);
+  if (typeId === undefined) {
+    throw new Error("raw_data_hex contains no contract");
+  }
+  const type = CONTRACT_TYPES[typeId] ?? `ContractType(${typeId})`;
+  const txID = tronWebUtils.code
+    .byteArray2hexStr(tronWebUtils.crypto.SHA256(tronWebUtils.code.hexStr2byteArray(hex)))
+    .toLowerCase();
+
+  try {
+    const rawData: any = tronWebUtils.deserializeTx.deserializeTransaction(type, hex);
+    return { txID, raw_data: rawData, raw_data_hex: hex, parametersDecoded: true };
+  } catch (_e) {
+    return {
+      txID,
+      raw_data: { contract: [{ type, parameter: { value: {} } }] },
+      raw_data_hex: hex,
+      parametersDecoded: false,
+    };
+  }
+}
+
+/**
+ * Parse a raw_data_hex into a transaction JSON, or undefined if it holds no contract
+ */
+export function parseRawDataHex(rawDataHex: string) {
+  try {
+    return deserializeRawData(rawDataHex);
+  } catch (_e) {
+    return undefined;
+  }
+}
+
+/**
+ * Parse a signed transaction serialized as protobuf hex (Transaction.raw_data = field 1,
+ * Transaction.signature = field 2) into a transaction JSON
+ */
+export function parseSignedTransactionHex(signedHex: string) {
+  const bytes = Buffer.from(signedHex.replace(/^0x/, ""), "hex");
+  let rawDataHex: string | undefined;
+  const signature: string[] = [];
+  for (const [field, wireType, value] of protobufFields(bytes)) {
+    if (field === 1 && wireType === 2) rawDataHex = (value as Buffer).toString("hex");
+    if (field === 2 && wireType === 2) signature.push((value as Buffer).toString("hex"));
+  }
+  if (!rawDataHex) {
+    throw new Error("Signed transaction hex contains no raw_data");
+  }
+  const { parametersDecoded: _parametersDecoded, ...tx } = deserializeRawData(rawDataHex);
+  return { ...tx, signature };
+}
+
+/**
+ * Convert a contract parameter to its readable form: Base58 addresses, TRX amounts (for TRX
+ * fields) and UTF-8 TRC10 token IDs
+ */
+function formatContractParameter(type: string, value: Record<string, any>) {
+  const formatted: Record<string, any> = {};
+  for (const [key, raw] of Object.entries(value)) {
+    if (raw === undefined || raw === "") continue;
+    if (key.endsWith("_address") && typeof raw === "string") {
+      formatted[key] = toBase58Address(raw.toLowerCase());
+    } else if (key === "asset_name" && /^[0-9a-fA-F]+$/.test(String(raw))) {
+      formatted[key] = Buffer.from(String(raw), "hex").toString("utf8");
+    } else if (key === "votes" && Array.isArray(raw)) {
+      formatted[key] = raw.map((vote: any) => ({
+        address: toBase58Address(vote.vote_address),
+        count: Number(vote.vote_count),
+      }));
+    } else if (SUN_FIELDS.has(key) && type !== "TransferAssetContract") {
+      formatted[key] = { sun: Number(raw), trx: utils.fromSun(Number(raw)) };
+    } else {
+      formatted[key] = raw;
+    }
+  }
+  return formatted;
+}
+
+/**
+ * Decode a transaction into its contract type and readable parameters. Contract calls are decoded
+ * against the supplied ABI, then the target's on-chain ABI, then common token functions.
+ *
+ * `input` is a transaction ID (looked up on `network`), a transaction JSON or a raw_data_hex.
+ */
+export async function decodeTransaction(
+  input: string | Record<string, any>,
+  abi?: any[],
+  network = "mainnet",
+) {
+  try {
+    let tx: any;
+    let parametersDecoded = true;
+    if (typeof input !== "string") {
+      tx = input;
+    } else if (/^(0x)?[0-9a-fA-F]{64}$/.test(input)) {
+      tx = await getTronWeb(network).trx.getTransaction(input.replace(/^0x/, ""));
+    } else if (/^(0x)?[0-9a-fA-F]+$/.test(input)) {
+      ({ parametersDecoded, ...tx } = deserializeRawData(input));
+    } else {
+      throw new Error("Expected a transaction ID, transaction JSON or raw_data_hex");
+    }
+
+    const rawData = tx.raw_data || {};
+    const contract = rawData.contract?.[0];
+    if (!contract) {
+      throw new Error("Transaction contains no contract");
+    }
+    const type: string = contract.type;
+    const value = contract.parameter?.value || {};
+    const feeLimit = rawData.fee_limit ? Number(rawData.fee_limit) : undefined;
+
+    let call: Record<string, any> | undefined;
+    if (type === "TriggerSmartContract" && value.data && value.contract_address) {
+      const target = toBase58Address(value.contract_address.toLowerCase());
+      const data = String(value.data).toLowerCase();
+      let decoded = abi ? decodeFunctionCall(data, abi) : undefined;
+      let abiSource = decoded ? "supplied" : undefined;
+      if (!decoded) {
+        const onChainAbi = await fetchContractABI(target, network).catch(() => undefined);
+        decoded = onChainAbi ? decodeFunctionCall(data, onChainAbi) : undefined;
+        abiSource = decoded ? "onchain" : undefined;
+      }
+      if (!decoded) {
+        decoded = decodeFunctionCall(data, COMMON_FUNCTION_ABI);
+        abiSource = decoded ? "common" : undefined;
+      }
+      call = decoded
+        ? {
+            contract: target,
+            function: decoded.name,
+            signature: decoded.signature,
+            selector: decoded.selector,
+            args: decoded.args,
+            abiSource,
+          }
+        : { contract: target, selector: data.slice(0, 8), data };
+    }
+
+    return {
+      txID: tx.txID,
+      contractType: type,
+      permissionId: contract.Permission_id || 0,
+      owner: value.owner_address ? toBase58Address(value.owner_address.toLowerCase()) : undefined,
+      parameters: parametersDecoded ? formatContractParameter(type, value) : undefined,
+      parametersNote: parametersDecoded
+        ? undefined
+        : `Parameters of ${type} cannot be decoded from raw_data_hex; pass the transaction JSON instead`,
+      call,
+      feeLimit:
+        feeLimit !== undefined ? { sun: feeLimit, trx: utils.fromSun(feeLimit) } : undefined,
+      memo: rawData.data ? Buffer.from(rawData.data, "hex").toString("utf8") : undefined,
+      timestamp: rawData.timestamp ? new Date(rawData.timestamp).toISOString() : undefined,
+      expiresAt: rawData.expiration ? new Date(rawData.expiration).toISOString() : undefined,
+      signatures: (tx.signature || []).length,
+      status: tx.ret?.[0]?.contractRet,
+    };
+  } catch (error: any) {
+    throw new Error(`Failed to decode transaction: ${error.message}`);
+  }
+}
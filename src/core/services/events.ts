@@ -0,0 +1,154 @@
+import { getTronWeb } from "./clients.js";
+import { toBase58Address } from "./address.js";
+
+// The event server caps a single page at 200 events
+const MAX_PAGE_SIZE = 200;
+
+export interface ContractEventQuery {
+  contractAddress?: string;
+  eventName?: string;
+  fromBlock?: number;
+  toBlock?: number;
+  minTimestamp?: number; // Milliseconds
+  maxTimestamp?: number; // Milliseconds
+  transactionId?: string;
+  onlyConfirmed?: boolean;
+  orderBy?: "block_timestamp,desc" | "block_timestamp,asc";
+  limit?: number; // Total number of events to return
+  fingerprint?: string; // Cursor returned by a previous query
+}
+
+/**
+ * Convert an event server value to its readable form using its declared Solidity type
+ */
+function normalizeEventValue(type: string | undefined, value: any): any {
+  if (type?.endsWith("[]") && Array.isArray(value)) {
+    return value.map((item) => normalizeEventValue(type.slice(0, -2), item));
+  }
+  if (type === "address" && typeof value === "string") {
+    const hex = value.replace(/^0x/, "");
+    return hex.length === 40 ? toBase58Address("41" + hex) : toBase58Address(value);
+  }
+  return value;
+}
+
+/**
+ * Decode an event server result into named arguments with Base58 addresses.
+ * The server repeats every argument under its position; those keys are dropped when names exist.
+ */
+export function decodeEventResult(
+  result: Record<string, any> = {},
+  resultType: Record<string, string> = {},
+): Record<string, any> {
+  const keys = Object.keys(result);
+  const hasNames = keys.some((key) => !/^\d+$/.test(key));
+
+  const args: Record<string, any> = {};
+  for (const key of keys) {
+    if (hasNames && /^\d+$/.test(key)) continue;
+    args[key] = normalizeEventValue(resultType[key], result[key]);
+  }
+  return args;
+}
+
+/**
+ * Format a raw event server entry
+ */
+export function formatContractEvent(event: any) {
+  return {
+    transactionId: event.transaction_id,
+    blockNumber: event.block_number,
+    blockTimestamp: event.block_timestamp,
+    timestamp: new Date(event.block_timestamp).toISOString(),
+    contractAddress: toBase58Address(event.contract_address),
+    eventName: event.event_name,
+    signature: event.event,
+    eventIndex: event.event_index,
+    args: decodeEventResult(event.result, event.result_type),
+    confirmed: !event._unconfirmed,
+  };
+}
+
+/**
+ * Look up the timestamp of a block, used to turn a block range into a time window
+ */
+async function getBlockTimestamp(blockNumber: number, network: string): Promise<number> {
+  const block: any = await getTronWeb(network).trx.getBlock(blockNumber);
+  return block.block_header.raw_data.timestamp;
+}
+
+/**
+ * Query contract events from the network's event server.
+ * Events can be filtered by contract, event name, block range or time window, or transaction ID.
+ * Pages are followed until `limit` events are collected; the returned fingerprint resumes the query.
+ */
+export async function getContractEvents(query: ContractEventQuery, network = "mainnet") {
+  const tronWeb = getTronWeb(network);
+  const {
+    contractAddress,
+    eventName,
+    fromBlock,
+    toBlock,
+    transactionId,
+    onlyConfirmed,
+    orderBy,
+    limit = 20,
+  } = query;
+
+  const matchesFilters = (event: ReturnType<typeof formatContractEvent>) =>
+    (!contractAddress || event.contractAddress === toBase58Address(contractAddress)) &&
+    (!eventName || event.eventName === eventName) &&
+    (fromBlock === undefined || event.blockNumber >= fromBlock) &&
+    (toBlock === undefined || event.blockNumber <= toBlock);
+
+  try {
+    if (transactionId) {
+      const response = await tronWeb.event.getEventsByTransactionID(transactionId, {
+        only_confirmed: onlyConfirmed,
+      });
+      const events = (response.data || []).map(formatContractEvent).filter(matchesFilters);
+      return { events, count: events.length, hasMore: false };
+    }
+
+    if (!contractAddress) {
+      throw new Error("Either contractAddress or transactionId is required");
+    }
+
+    // The event server filters by time, so a block range is narrowed to its blocks' timestamps
+    // and the block numbers are checked on the results
+    let { minTimestamp, maxTimestamp } = query;
+    if (fromBlock !== undefined && minTimestamp === undefined) {
+      minTimestamp = await getBlockTimestamp(fromBlock, network);
+    }
+    if (toBlock !== undefined && maxTimestamp === undefined) {
+      maxTimestamp = await getBlockTimestamp(toBlock, network);
+    }
+
+    const events: ReturnType<typeof formatContractEvent>[] = [];
+    let fingerprint = query.fingerprint;
+
+    do {
+      const response = await tronWeb.event.getEventsByContractAddress(contractAddress, {
+        eventName,
+        blockNumber: fromBlock !== undefined && fromBlock === toBlock ? fromBlock : undefined,
+        minBlockTimestamp: minTimestamp,
+        maxBlockTimestamp: maxTimestamp,
+        onlyConfirmed,
+        orderBy,
+        fingerprint,
+        limit: Math.min(MAX_PAGE_SIZE, limit - events.length),
+      });
+      events.push(...(response.data || []).map(formatContractEvent).filter(matchesFilters));
+      fingerprint = response.meta?.fingerprint;
+    } while (fingerprint && events.length < limit);
+
+    return {
+      events,
+      count: events.length,
+      hasMore: Boolean(fingerprint),
+      fingerprint,
+    };
+  } catch (error: any) {
+    throw new Error(`Failed to get contract events: ${error.message}`);
+  }
+}
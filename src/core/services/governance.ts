@@ -0,0 +1,584 @@
+import { getTronWeb, getWallet } from "./clients.js";
+import { utils } from "./utils.js";
+import { signAndBroadcast } from "./transactions.js";
+import { toBase58Address } from "./address.js";
+import { PolicyViolationError, withSpendingPolicy } from "./policy.js";
+
+// Only the top 27 witnesses produce blocks; ranks up to 127 share voting rewards as SR partners
+const SR_PARTNER_RANK_LIMIT = 127;
+
+// Rewards can be withdrawn once every 24 hours
+const WITHDRAW_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+export interface WitnessVote {
+  address: string;
+  count: number; // Votes, each backed by 1 TRON Power (1 staked TRX)
+}
+
+/**
+ * Get all witnesses ranked by vote count
+ */
+async function getRankedWitnesses(network: string) {
+  const witnesses: any[] = await getTronWeb(network).trx.listSuperRepresentatives();
+  return witnesses
+    .map((witness) => ({
+      address: toBase58Address(witness.address),
+      url: witness.url as string,
+      votes: Number(witness.voteCount || 0),
+      active: Boolean(witness.isJobs),
+      totalProduced: Number(witness.totalProduced || 0),
+      totalMissed: Number(witness.totalMissed || 0),
+    }))
+    .sort((a, b) => b.votes - a.votes);
+}
+
+/**
+ * List witnesses by rank with their votes, URL and role. Active SRs produce blocks; SR partners
+ * (ranks up to 127) only share voting rewards. Brokerage is the share of rewards a witness keeps;
+ * the rest goes to its voters.
+ */
+export async function listWitnesses(
+  options: { limit?: number; includeBrokerage?: boolean } = {},
+  network = "mainnet",
+) {
+  const tronWeb = getTronWeb(network);
+  const { limit = 30, includeBrokerage = true } = options;
+
+  try {
+    const ranked = await getRankedWitnesses(network);
+    const totalVotes = ranked.reduce((sum, witness) => sum + witness.votes, 0);
+
+    const witnesses = await Promise.all(
+      ranked.slice(0, limit).map(async (witness, index) => {
+        const rank = index + 1;
+        const brokerage = includeBrokerage
+          ? await tronWeb.trx.getBrokerage(witness.address).catch(() => undefined)
+          : undefined;
+        return {
+          rank,
+          ...witness,
+          role: witness.active
+            ? "SR"
+            : rank <= SR_PARTNER_RANK_LIMIT
+              ? "SR Partner"
+              : "SR Candidate",
+          votePercent: totalVotes ? ((witness.votes / totalVotes) * 100).toFixed(2) : "0.00",
+          brokerage: brokerage !== undefined ? Number(brokerage) : undefined,
+          voterShare: brokerage !== undefined ? 100 - Number(brokerage) : undefined,
+        };
+      }),
+    );
+
+    return { totalWitnesses: ranked.length, totalVotes, witnesses };
+  } catch (error: any) {
+    throw new Error(`Failed to list witnesses: ${error.message}`);
+  }
+}
+
+/**
+ * Get the votes an account has cast and its TRON Power. A new vote replaces all previous votes,
+ * so the full TRON Power limit is available to the next vote.
+ */
+export async function getAccountVotes(address: string, network = "mainnet") {
+  const tronWeb = getTronWeb(network);
+  const account = toBase58Address(address);
+
+  try {
+    const [raw, resources, witnesses] = await Promise.all([
+      tronWeb.trx.getAccount(account),
+      tronWeb.trx.getAccountResources(account),
+      getRankedWitnesses(network),
+    ]);
+
+    const urls = new Map(witnesses.map((witness) => [witness.address, witness.url]));
+    const votes = ((raw as any).votes || []).map((vote: any) => {
+      const witness = toBase58Address(vote.vote_address);
+      return { address: witness, url: urls.get(witness), count: Number(vote.vote_count) };
+    });
+    const limit = Number((resources as any).tronPowerLimit || 0);
+    const used = Number((resources as any).tronPowerUsed || 0);
+
+    return {
+      address: account,
+      votes,
+      totalVotes: votes.reduce((sum: number, vote: WitnessVote) => sum + vote.count, 0),
+      tronPower: { limit, used, available: limit - used },
+    };
+  } catch (error: any) {
+    throw new Error(`Failed to get account votes: ${error.message}`);
+  }
+}
+
+/**
+ * Vote for witnesses with the wallet's TRON Power. Replaces the wallet's previous votes. The
+ * votes are checked against the wallet's TRON Power and the witness list before signing. A dry
+ * run stops after the node has built the transaction.
+ */
+export async function voteWitness(
+  privateKey: string,
+  votes: WitnessVote[],
+  network = "mainnet",
+  dryRun = false,
+) {
+  const tronWeb = getWallet(privateKey, network);
+  const voter = tronWeb.defaultAddress.base58 as string;
+
+  if (votes.length === 0) {
+    throw new Error("At least one vote is required");
+  }
+  const voteMap: Record<string, number> = {};
+  for (const vote of votes) {
+    const witness = toBase58Address(vote.address);
+    if (!Number.isInteger(vote.count) || vote.count < 1) {
+      throw new Error(`Vote count for ${witness} must be a positive integer`);
+    }
+    if (voteMap[witness]) {
+      throw new Error(`Duplicate vote for ${witness}`);
+    }
+    voteMap[witness] = vote.count;
+  }
+
+  const [{ tronPower }, witnesses] = await Promise.all([
+    getAccountVotes(voter, network),
+    getRankedWitnesses(network),
+  ]);
+  const known = new Set(witnesses.map((witness) => witness.address));
+  const unknown = Object.keys(voteMap).filter((witness) => !known.has(witness));
+  if (unknown.length > 0) {
+    throw new Error(`Not a witness: ${unknown.join(", ")}`);
+  }
+  const totalVotes = Object.values(voteMap).reduce((sum, count) => sum + count, 0);
+  if (totalVotes > tronPower.limit) {
+    throw new Error(
+      `Insufficient TRON Power: ${totalVotes} votes requested but ${voter} has ${tronPower.limit}. Stake TRX with freeze_balance_v2 to gain TRON Power.`,
+    );
+  }
+
+  try {
+    const tx = await tronWeb.transactionBuilder.vote(voteMap, voter);
+    const txHash = dryRun
+      ? undefined
+      : await withSpendingPolicy({ action: "vote_witness" }, network, () =>
+          signAndBroadcast(tronWeb, tx),
+        );
+    return { txHash, voter, totalVotes, tronPower };
+  } catch (error: any) {
+    if (error instanceof PolicyViolationError) throw error;
+    throw new Error(`Failed to vote: ${error.message}`);
+  }
+}
+
+/**
+ * Get an account's unclaimed voting reward (plus block rewards for witnesses) and when it can
+ * next be withdrawn
+ */
+export async function getReward(address: string, network = "mainnet", now = Date.now()) {
+  const tronWeb = getTronWeb(network);
+  const account = toBase58Address(address);
+
+  try {
+    const [reward, raw] = await Promise.all([
+      tronWeb.trx.getReward(account),
+      tronWeb.trx.getAccount(account),
+    ]);
+    const rewardSun = Number(reward || 0);
+    const allowanceSun = Number((raw as any).allowance || 0);
+    const lastWithdrawal = Number((raw as any).latest_withdraw_time || 0);
+    const nextWithdrawal = lastWithdrawal ? lastWithdrawal + WITHDRAW_INTERVAL_MS : 0;
+    const totalSun = rewardSun + allowanceSun;
+
+    return {
+      address: account,
+      votingReward: { sun: rewardSun, trx: utils.fromSun(rewardSun) },
+      blockReward: allowanceSun
+        ? { sun: allowanceSun, trx: utils.fromSun(allowanceSun) }
+        : undefined,
+      total: { sun: totalSun, trx: utils.fromSun(totalSun) },
+      lastWithdrawal: lastWithdrawal ? new Date(lastWithdrawal).toISOString() : undefined,
+      nextWithdrawal: nextWithdrawal > now ? new Date(nextWithdrawal).toISOString() : undefined,
+      canWithdraw: totalSun > 0 && nextWithdrawal <= now,
+    };
+  } catch (error: any) {
+    throw new Error(`Failed to get reward: ${error.message}`);
+  }
+}
+
+/**
+ * Withdraw the wallet's voting and block rewards to its balance. A dry run stops after the node
+ * has built the transaction.
+ */
+export async function withdrawReward(privateKey: string, network = "mainnet", dryRun = false) {
+  const tronWeb = getWallet(privateKey, network);
+  const owner = tronWeb.defaultAddress.base58 as string;
+
+  const reward = await getReward(owner, network);
+  if (reward.total.sun === 0) {
+    throw new Error(`${owner} has no reward to withdraw`);
+  }
+  if (!reward.canWithdraw) {
+    throw new Error(
+      `Rewards can be withdrawn once every 24 hours; next at ${reward.nextWithdrawal}`,
+    );
+  }
+
+  try {
+    const tx = await tronWeb.transactionBuilder.withdrawBlockRewards(owner);
+    const txHash = dryRun
+      ? undefined
+      : await withSpendingPolicy({ action: "withdraw_reward" }, network, () =>
+          signAndBroadcast(tronWeb, tx),
+        );
+    return { txHash, owner, amount: reward.total };
+  } catch (error: any) {
+    if (error instanceof PolicyViolationError) throw error;
+    throw new Error(`Failed to withdraw reward: ${error.message}`);
+  }
+}
+
+// Proposal parameter IDs and the chain parameter each one changes (java-tron ProposalType)
+const PROPOSAL_PARAMETERS: Record<number, string> = {
+  0: "getMaintenanceTimeInterval",
+  1: "getAccountUpgradeCost",
+  2: "getCreateAccountFee",
+  3: "getTransactionFee",
+  4: "getAssetIssueFee",
+  5: "getWitnessPayPerBlock",
+  6: "getWitnessStandbyAllowance",
+  7: "getCreateNewAccountFeeInSystemContract",
+  8: "getCreateNewAccountBandwidthRate",
+  9: "getAllowCreationOfContracts",
+  10: "getRemoveThePowerOfTheGr",
+  11: "getEnergyFee",
+  12: "getExchangeCreateFee",
+  13: "getMaxCpuTimeOfOneTx",
+  14: "getAllowUpdateAccountName",
+  15: "getAllowSameTokenName",
+  16: "getAllowDelegateResource",
+  17: "getTotalEnergyLimit",
+  18: "getAllowTvmTransferTrc10",
+  19: "getTotalEnergyCurrentLimit",
+  20: "getAllowMultiSign",
+  21: "getAllowAdaptiveEnergy",
+  22: "getUpdateAccountPermissionFee",
+  23: "getMultiSignFee",
+  24: "getAllowProtoFilterNum",
+  25: "getAllowAccountStateRoot",
+  26: "getAllowTvmConstantinople",
+  28: "getShieldedTransactionFee",
+  29: "getAdaptiveResourceLimitMultiplier",
+  30: "getChangeDelegation",
+  31: "getWitness127PayPerBlock",
+  32: "getAllowTvmSolidity059",
+  33: "getAdaptiveResourceLimitTargetRatio",
+  34: "getShieldedTransactionCreateAccountFee",
+  35: "getForbidTransferToContract",
+  39: "getAllowShieldedTRC20Transaction",
+  40: "getAllowPBFT",
+  41: "getAllowTvmIstanbul",
+  44: "getAllowMarketTransaction",
+  45: "getMarketSellFee",
+  46: "getMarketCancelFee",
+  47: "getMaxFeeLimit",
+  48: "getAllowTransactionFeePool",
+  49: "getAllowOptimizeBlackHole",
+  51: "getAllowNewResourceModel",
+  52: "getAllowTvmFreeze",
+  53: "getAllowAccountAssetOptimization",
+  59: "getAllowTvmVote",
+  60: "getAllowTvmCompatibleEvm",
+  61: "getFreeNetLimit",
+  62: "getTotalNetLimit",
+  63: "getAllowTvmLondon",
+  65: "getAllowHigherLimitForMaxCpuTimeOfOneTx",
+  66: "getAllowAssetOptimization",
+  67: "getAllowNewReward",
+  68: "getMemoFee",
+  69: "getAllowDelegateOptimization",
+  70: "getUnfreezeDelayDays",
+  71: "getAllowOptimizedReturnValueOfChainId",
+  72: "getAllowDynamicEnergy",
+  73: "getDynamicEnergyThreshold",
+  74: "getDynamicEnergyIncreaseFactor",
+  75: "getDynamicEnergyMaxFactor",
+  76: "getAllowTvmShangHai",
+  77: "getAllowCancelAllUnfreezeV2",
+  78: "getMaxDelegateLockPeriod",
+  79: "getAllowOldRewardOpt",
+  81: "getAllowEnergyAdjustment",
+  82: "getMaxCreateAccountTxSize",
+  83: "getAllowTvmCancun",
+  87: "getAllowStrictMath",
+  88: "getConsensusLogicOptimization",
+  89: "getAllowTvmBlob",
+};
+
+// A proposal passes if at least 18 of the 27 active SRs approve it before it expires
+const PROPOSAL_APPROVAL_THRESHOLD = 18;
+
+export type ProposalState = "PENDING" | "APPROVED" | "DISAPPROVED" | "CANCELED";
+
+export interface ProposalParameterInput {
+  parameter: string | number; // Proposal parameter ID or chain parameter name
+  value: number;
+}
+
+/**
+ * Resolve a proposal parameter given by ID or chain parameter name (e.g. "getEnergyFee" or
+ * "energyFee")
+ */
+export function resolveProposalParameter(parameter: string | number): number {
+  if (typeof parameter === "number" || /^\d+$/.test(parameter)) {
+    const id = Number(parameter);
+    if (PROPOSAL_PARAMETERS[id] === undefined) {
+      throw new Error(`Unknown proposal parameter ID: ${id}`);
+    }
+    return id;
+  }
+  const normalized = parameter.toLowerCase().replace(/^get/, "");
+  const entry = Object.entries(PROPOSAL_PARAMETERS).find(
+    ([, name]) => name.toLowerCase().replace(/^get/, "") === normalized,
+  );
+  if (!entry) {
+    throw new Error(`Unknown proposal parameter: ${parameter}`);
+  }
+  return Number(entry[0]);
+}
+
+/**
+ * Format a raw proposal with parameter names, current vs proposed values and approval progress
+ */
+function formatProposal(
+  raw: any,
+  currentValues: Map<string, number | undefined>,
+  activeWitnesses: Set<string>,
+  now: number,
+) {
+  const approvals: string[] = (raw.approvals || []).map(toBase58Address);
+  const activeApprovals = approvals.filter((address) => activeWitnesses.has(address)).length;
+  const expiration = Number(raw.expiration_time || 0);
+
+  return {
+    id: Number(raw.proposal_id || 0),
+    proposer: toBase58Address(raw.proposer_address),
+    // proto3 omits the default PENDING state and parameter key 0
+    state: (raw.state || "PENDING") as ProposalState,
+    parameters: (raw.parameters || []).map((parameter: any) => {
+      const id = Number(parameter.key || 0);
+      const name = PROPOSAL_PARAMETERS[id] ?? `Parameter(${id})`;
+      return {
+        id,
+        name,
+        currentValue: currentValues.get(name) ?? 0,
+        proposedValue: Number(parameter.value || 0),
+      };
+    }),
+    approvals,
+    approvalCount: approvals.length,
+    activeApprovals,
+    requiredApprovals: PROPOSAL_APPROVAL_THRESHOLD,
+    createdAt: raw.create_time ? new Date(Number(raw.create_time)).toISOString() : undefined,
+    expiresAt: expiration ? new Date(expiration).toISOString() : undefined,
+    expired: expiration ? expiration <= now : undefined,
+  };
+}
+
+/**
+ * Get the lookups needed to format proposals: current chain parameter values and active SRs
+ */
+async function getProposalContext(network: string) {
+  const [parameters, witnesses] = await Promise.all([
+    getTronWeb(network).trx.getChainParameters(),
+    getRankedWitnesses(network),
+  ]);
+  const currentValues = new Map<string, number | undefined>(
+    parameters.map((parameter: any) => [parameter.key, parameter.value]),
+  );
+  const activeWitnesses = new Set(
+    witnesses.filter((witness) => witness.active).map((witness) => witness.address),
+  );
+  return { currentValues, activeWitnesses };
+}
+
+/**
+ * List network proposals, newest first, optionally filtered by state
+ */
+export async function listProposals(
+  options: { state?: ProposalState; limit?: number } = {},
+  network = "mainnet",
+  now = Date.now(),
+) {
+  const { state, limit = 20 } = options;
+
+  try {
+    const [raw, context] = await Promise.all([
+      getTronWeb(network).trx.listProposals(),
+      getProposalContext(network),
+    ]);
+    const proposals = raw
+      .map((proposal) =>
+        formatProposal(proposal, context.currentValues, context.activeWitnesses, now),
+      )
+      .filter((proposal) => !state || proposal.state === state)
+      .sort((a, b) => b.id - a.id);
+
+    return { total: proposals.length, proposals: proposals.slice(0, limit) };
+  } catch (error: any) {
+    throw new Error(`Failed to list proposals: ${error.message}`);
+  }
+}
+
+/**
+ * Get a proposal by ID
+ */
+export async function getProposal(proposalId: number, network = "mainnet", now = Date.now()) {
+  let raw: any;
+  let context: Awaited<ReturnType<typeof getProposalContext>>;
+  try {
+    [raw, context] = await Promise.all([
+      getTronWeb(network).trx.getProposal(proposalId),
+      getProposalContext(network),
+    ]);
+  } catch (error: any) {
+    throw new Error(`Failed to get proposal: ${error.message}`);
+  }
+  if (!raw?.proposer_address) {
+    throw new Error(`Proposal ${proposalId} not found`);
+  }
+  return formatProposal(raw, context.currentValues, context.activeWitnesses, now);
+}
+
+/**
+ * Check that an address is one of the 27 active SRs, the only accounts that may create or
+ * approve proposals
+ */
+async function assertActiveWitness(address: string, network: string) {
+  const witnesses = await getRankedWitnesses(network);
+  if (!witnesses.some((witness) => witness.address === address && witness.active)) {
+    throw new Error(
+      `${address} is not an active SR; only active SRs can create or vote on proposals`,
+    );
+  }
+}
+
+/**
+ * Create a proposal to change one or more network parameters. The wallet must be an active SR.
+ * A dry run stops after the node has built the transaction.
+ */
+export async function createProposal(
+  privateKey: string,
+  parameters: ProposalParameterInput[],
+  network = "mainnet",
+  dryRun = false,
+) {
+  const tronWeb = getWallet(privateKey, network);
+  const proposer = tronWeb.defaultAddress.base58 as string;
+
+  if (parameters.length === 0) {
+    throw new Error("At least one parameter is required");
+  }
+  const changes = parameters.map(({ parameter, value }) => {
+    const id = resolveProposalParameter(parameter);
+    if (!Number.isInteger(value) || value < 0) {
+      throw new Error(`Value for ${PROPOSAL_PARAMETERS[id]} must be a non-negative integer`);
+    }
+    return { id, name: PROPOSAL_PARAMETERS[id], value };
+  });
+  const ids = changes.map((change) => change.id);
+  const duplicate = ids.find((id, index) => ids.indexOf(id) !== index);
+  if (duplicate !== undefined) {
+    throw new Error(`Duplicate parameter: ${PROPOSAL_PARAMETERS[duplicate]}`);
+  }
+  await assertActiveWitness(proposer, network);
+
+  try {
+    const tx = await tronWeb.transactionBuilder.createProposal(
+      changes.map(({ id, value }) => ({ key: id, value })),
+      proposer,
+    );
+    const txHash = dryRun
+      ? undefined
+      : await withSpendingPolicy({ action: "create_proposal" }, network, () =>
+          signAndBroadcast(tronWeb, tx),
+        );
+    return { txHash, proposer, parameters: changes };
+  } catch (error: any) {
+    if (error instanceof PolicyViolationError) throw error;
+    throw new Error(`Failed to create proposal: ${error.message}`);
+  }
+}
+
+/**
+ * Approve a pending proposal, or withdraw an earlier approval. The wallet must be an active SR.
+ * A dry run stops after the node has built the transaction.
+ */
+export async function approveProposal(
+  privateKey: string,
+  proposalId: number,
+  approve = true,
+  network = "mainnet",
+  dryRun = false,
+) {
+  const tronWeb = getWallet(privateKey, network);
+  const voter = tronWeb.defaultAddress.base58 as string;
+
+  const proposal = await getProposal(proposalId, network);
+  if (proposal.state !== "PENDING" || proposal.expired) {
+    throw new Error(`Proposal ${proposalId} is no longer open for voting (${proposal.state})`);
+  }
+  const approved = proposal.approvals.includes(voter);
+  if (approve && approved) {
+    throw new Error(`${voter} has already approved proposal ${proposalId}`);
+  }
+  if (!approve && !approved) {
+    throw new Error(`${voter} has not approved proposal ${proposalId}`);
+  }
+  await assertActiveWitness(voter, network);
+
+  try {
+    const tx = await tronWeb.transactionBuilder.voteProposal(proposalId, approve, voter);
+    const txHash = dryRun
+      ? undefined
+      : await withSpendingPolicy({ action: "approve_proposal" }, network, () =>
+          signAndBroadcast(tronWeb, tx),
+        );
+    return { txHash, voter, proposalId, approve };
+  } catch (error: any) {
+    if (error instanceof PolicyViolationError) throw error;
+    throw new Error(`Failed to vote on proposal: ${error.message}`);
+  }
+}
+
+/**
+ * Cancel a pending proposal. Only the proposer can delete it. A dry run stops after the node has
+ * built the transaction.
+ */
+export async function deleteProposal(
+  privateKey: string,
+  proposalId: number,
+  network = "mainnet",
+  dryRun = false,
+) {
+  const tronWeb = getWallet(privateKey, network);
+  const owner = tronWeb.defaultAddress.base58 as string;
+
+  const proposal = await getProposal(proposalId, network);
+  if (proposal.proposer !== owner) {
+    throw new Error(`Proposal ${proposalId} was created by ${proposal.proposer}, not ${owner}`);
+  }
+  if (proposal.state !== "PENDING") {
+    throw new Error(`Proposal ${proposalId} is already ${proposal.state}`);
+  }
+
+  try {
+    const tx = await tronWeb.transactionBuilder.deleteProposal(proposalId, owner);
+    const txHash = dryRun
+      ? undefined
+      : await withSpendingPolicy({ action: "delete_proposal" }, network, () =>
+          signAndBroadcast(tronWeb, tx),
+        );
+    return { txHash, owner, proposalId };
+  } catch (error: any) {
+    if (error instanceof PolicyViolationError) throw error;
+    throw new Error(`Failed to delete proposal: ${error.message}`);
+  }
+}
@@ -0,0 +1,247 @@
+import { getTronWeb } from "./clients.js";
+import { toBase58Address } from "./address.js";
+import { utils } from "./utils.js";
+
+// TronGrid caps a single page at 200 entries
+const MAX_PAGE_SIZE = 200;
+
+// Pages scanned per call when filtering by token, which TronGrid cannot do server side
+const MAX_FILTERED_PAGES = 10;
+
+export type TransferDirection = "in" | "out" | "all";
+
+export interface AccountHistoryQuery {
+  direction?: TransferDirection;
+  minTimestamp?: number; // Milliseconds
+  maxTimestamp?: number; // Milliseconds
+  onlyConfirmed?: boolean;
+  order?: "desc" | "asc";
+  limit?: number;
+  fingerprint?: string; // Cursor returned by a previous query
+}
+
+/**
+ * Build the TronGrid v1 query parameters shared by the account history endpoints
+ */
+function toQueryParams(query: AccountHistoryQuery) {
+  const params: Record<string, string | number | boolean> = {
+    limit: Math.min(MAX_PAGE_SIZE, query.limit ?? 20),
+    order_by: `block_timestamp,${query.order ?? "desc"}`,
+  };
+  if (query.direction === "in") params.only_to = true;
+  if (query.direction === "out") params.only_from = true;
+  if (query.onlyConfirmed) params.only_confirmed = true;
+  if (query.minTimestamp !== undefined) params.min_timestamp = query.minTimestamp;
+  if (query.maxTimestamp !== undefined) params.max_timestamp = query.maxTimestamp;
+  if (query.fingerprint) params.fingerprint = query.fingerprint;
+  return params;
+}
+
+/**
+ * GET a TronGrid v1 endpoint through the network's full node client, so the configured
+ * TRON-PRO-API-KEY header is sent along
+ */
+async function requestTronGrid(network: string, path: string, params: Record<string, any>) {
+  const response: any = await getTronWeb(network).fullNode.request(path, params, "get");
+  if (response?.success === false) {
+    throw new Error(response.error || "TronGrid request failed");
+  }
+  return response;
+}
+
+function getDirection(address: string, from?: string, to?: string) {
+  if (from === address && to === address) return "self";
+  if (from === address) return "out";
+  return "in";
+}
+
+/**
+ * Summarize a TronGrid account transaction. Transfers report their amount normalized by the
+ * token's decimals; TRC10 precisions are looked up by the caller. TRC10 transfers whose
+ * precision is missing only report their raw amount.
+ */
+export function formatAccountTransaction(
+  tx: any,
+  address: string,
+  trc10Precisions: Record<string, number> = {},
+) {
+  const contract = tx.raw_data?.contract?.[0] || {};
+  const value = contract.parameter?.value || {};
+  const from = value.owner_address ? toBase58Address(value.owner_address) : undefined;
+  const to = value.to_address
+    ? toBase58Address(value.to_address)
+    : value.contract_address
+      ? toBase58Address(value.contract_address)
+      : value.receiver_address
+        ? toBase58Address(value.receiver_address)
+        : undefined;
+
+  let transfer: Record<string, any> | undefined;
+  if (contract.type === "TransferContract") {
+    transfer = {
+      token: "TRX",
+      rawAmount: String(value.amount ?? 0),
+      amount: utils.fromSun(value.amount ?? 0),
+      decimals: 6,
+    };
+  } else if (contract.type === "TransferAssetContract") {
+    const tokenId = String(value.asset_name);
+    const decimals = trc10Precisions[tokenId];
+    transfer = {
+      token: tokenId,
+      rawAmount: String(value.amount ?? 0),
+      // Without the token's precision only the raw amount can be reported
+      amount: decimals !== undefined ? utils.formatUnits(value.amount ?? 0, decimals) : undefined,
+      decimals,
+      precisionUnknown: decimals === undefined ? true : undefined,
+    };
+  }
+
+  return {
+    txID: tx.txID,
+    blockNumber: tx.blockNumber,
+    timestamp: new Date(tx.block_timestamp).toISOString(),
+    type: contract.type,
+    status: tx.ret?.[0]?.contractRet,
+    direction: getDirection(address, from, to),
+    from,
+    to,
+    transfer,
+    callValue: value.call_value ? utils.fromSun(value.call_value) : undefined,
+    fee: {
+      sun: Number(tx.ret?.[0]?.fee || 0),
+      trx: utils.fromSun(Number(tx.ret?.[0]?.fee || 0)),
+    },
+    energyUsed: tx.energy_usage_total,
+    bandwidthUsed: tx.net_usage,
+  };
+}
+
+/**
+ * List an account's transactions (TRX and TRC10 transfers, contract calls, staking, ...) from
+ * the TronGrid v1 account endpoint. `token` keeps only transactions involving a TRC10 token ID
+ * or a contract address; up to 10 pages are scanned for `limit` matches, so `count` can exceed
+ * `limit` (whole pages are kept) or fall short of it while `hasMore` is still true.
+ */
+export async function getAccountTransactions(
+  address: string,
+  query: AccountHistoryQuery & { token?: string } = {},
+  network = "mainnet",
+) {
+  const tronWeb = getTronWeb(network);
+  const account = toBase58Address(address);
+
+  try {
+    // TronGrid cannot filter by token, so keep scanning pages until `limit` matches are found.
+    // Pages are kept whole so the fingerprint resumes right after them.
+    const token = query.token ? toBase58Address(query.token) : undefined;
+    const matches = (tx: any) => {
+      const formatted = formatAccountTransaction(tx, account);
+      return !token || formatted.transfer?.token === token || formatted.to === token;
+    };
+    const limit = Math.min(MAX_PAGE_SIZE, query.limit ?? 20);
+    const transactions: any[] = [];
+    let fingerprint = query.fingerprint;
+    for (let page = 0; page < (token ? MAX_FILTERED_PAGES : 1); page++) {
+      const response = await requestTronGrid(
+        network,
+        `v1/accounts/${account}/transactions`,
+        toQueryParams({ ...query, fingerprint }),
+      );
+      // Internal transactions are listed alongside but carry no raw_data
+      transactions.push(...(response.data || []).filter((tx: any) => tx.raw_data && matches(tx)));
+      fingerprint = response.meta?.fingerprint;
+      if (!fingerprint || transactions.length >= limit) break;
+    }
+
+    const trc10Ids = new Set<string>();
+    for (const tx of transactions) {
+      const contract = tx.raw_data.contract?.[0];
+      if (contract?.type === "TransferAssetContract") {
+        trc10Ids.add(String(contract.parameter.value.asset_name));
+      }
+    }
+    const trc10Precisions: Record<string, number> = {};
+    await Promise.all(
+      [...trc10Ids].map(async (tokenId) => {
+        // A failed lookup leaves the precision unknown rather than guessing 0 decimals
+        const token: any = await tronWeb.trx.getTokenByID(tokenId).catch(() => undefined);
+        if (token?.id || token?.name) {
+          // Precision 0 is omitted from the response
+          trc10Precisions[tokenId] = Number(token.precision || 0);
+        }
+      }),
+    );
+
+    const formatted = transactions.map((tx) =>
+      formatAccountTransaction(tx, account, trc10Precisions),
+    );
+    return {
+      address: account,
+      transactions: formatted,
+      count: formatted.length,
+      hasMore: Boolean(fingerprint),
+      fingerprint,
+    };
+  } catch (error: any) {
+    throw new Error(`Failed to get account transactions: ${error.message}`);
+  }
+}
+
+/**
+ * Summarize a TronGrid TRC20 transfer with its amount normalized by the token's decimals
+ */
+export function formatTRC20Transfer(transfer: any, address: string) {
+  const decimals = Number(transfer.token_info?.decimals || 0);
+  return {
+    txID: transfer.transaction_id,
+    timestamp: new Date(transfer.block_timestamp).toISOString(),
+    direction: getDirection(address, transfer.from, transfer.to),
+    from: transfer.from,
+    to: transfer.to,
+    token: {
+      address: transfer.token_info?.address,
+      symbol: transfer.token_info?.symbol,
+      name: transfer.token_info?.name,
+      decimals,
+    },
+    rawAmount: transfer.value,
+    amount: utils.formatUnits(transfer.value, decimals),
+    type: transfer.type,
+  };
+}
+
+/**
+ * List an account's TRC20 transfers from the TronGrid v1 account endpoint
+ */
+export async function getTRC20Transfers(
+  address: string,
+  query: AccountHistoryQuery & { contractAddress?: string } = {},
+  network = "mainnet",
+) {
+  const account = toBase58Address(address);
+
+  try {
+    const params = toQueryParams(query);
+    if (query.contractAddress) params.contract_address = toBase58Address(query.contractAddress);
+
+    const response = await requestTronGrid(
+      network,
+      `v1/accounts/${account}/transactions/trc20`,
+      params,
+    );
+    const transfers = (response.data || []).map((transfer: any) =>
+      formatTRC20Transfer(transfer, account),
+    );
+
+    return {
+      address: account,
+      transfers,
+      count: transfers.length,
+      hasMore: Boolean(response.meta?.fingerprint),
+      fingerprint: response.meta?.fingerprint,
+    };
+  } catch (error: any) {
+    throw new Error(`Failed to get TRC20 transfers: ${error.message}`);
+  }
+}
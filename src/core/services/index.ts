@@ -2,24 +2,54 @@
 export * from "./clients.js";
 export * from "./balance.js";
 export * from "./transfer.js";
+export * from "./staking.js";
+export * from "./resources.js";
 export * from "./blocks.js";
 export * from "./transactions.js";
 export * from "./contracts.js";
+export * from "./abi.js";
+export * from "./events.js";
+export * from "./history.js";
+export * from "./nft.js";
+export * from "./metadata.js";
+export * from "./multisig.js";
+export * from "./permissions.js";
+export * from "./decoder.js";
+export * from "./governance.js";
+export * from "./policy.js";
 export * from "./tokens.js";
 export * from "./address.js";
 export * from "./wallet.js";
+export * from "./keystore.js";
+export * from "./signer.js";
 export * from "./multicall-abi.js";
+export * from "./event-abi.js";
+export * from "./nft-abi.js";
 export * from "./utils.js"; // Export utils as top level as well
 
 // Add a helper object for easier access to everything
 import * as clients from "./clients.js";
 import * as wallet from "./wallet.js";
+import * as keystore from "./keystore.js";
+import * as signer from "./signer.js";
 import * as balance from "./balance.js";
 import * as blocks from "./blocks.js";
 import * as transactions from "./transactions.js";
 import * as contracts from "./contracts.js";
+import * as abi from "./abi.js";
+import * as events from "./events.js";
+import * as history from "./history.js";
+import * as nft from "./nft.js";
+import * as metadata from "./metadata.js";
+import * as multisig from "./multisig.js";
+import * as permissions from "./permissions.js";
+import * as decoder from "./decoder.js";
+import * as governance from "./governance.js";
+import * as policy from "./policy.js";
 import * as tokens from "./tokens.js";
 import * as transfer from "./transfer.js";
+import * as staking from "./staking.js";
+import * as resources from "./resources.js";
 import * as utils from "./utils.js";
 import * as address from "./address.js";
 
@@ -27,12 +57,26 @@ import * as address from "./address.js";
 export const helpers = {
   ...clients,
   ...wallet,
+  ...keystore,
+  ...signer,
   ...balance,
   ...blocks,
   ...transactions,
   ...contracts,
+  ...abi,
+  ...events,
+  ...history,
+  ...nft,
+  ...metadata,
+  ...multisig,
+  ...permissions,
+  ...decoder,
+  ...governance,
+  ...policy,
   ...tokens,
   ...transfer,
+  ...staking,
+  ...resources,
   ...address,
   ...utils,
   // Specifically map formatJson from utils to helpers root as tools expect it there
@@ -0,0 +1,212 @@
+import {
+  createCipheriv,
+  createDecipheriv,
+  pbkdf2Sync,
+  randomBytes,
+  randomUUID,
+  scryptSync,
+  timingSafeEqual,
+} from "node:crypto";
+import { readFileSync } from "node:fs";
+import { TronWeb, utils as tronWebUtils } from "tronweb";
+
+// Web3 Secret Storage (version 3) keystore, as written by geth and TRON wallets
+export interface Keystore {
+  version: 3;
+  id: string;
+  address?: string;
+  crypto: {
+    cipher: "aes-128-ctr";
+    cipherparams: { iv: string };
+    ciphertext: string;
+    kdf: "scrypt" | "pbkdf2";
+    kdfparams: Record<string, any>;
+    mac: string;
+  };
+}
+
+export type KeystoreKdf = "scrypt" | "pbkdf2";
+
+// Default work factors of geth's standard (non-light) keystores
+const DEFAULT_SCRYPT_N = 262144;
+const DEFAULT_PBKDF2_ITERATIONS = 262144;
+
+/**
+ * Derive the 32-byte key from the password with the keystore's KDF
+ */
+function deriveKey(password: string, kdf: string, params: Record<string, any>): Buffer {
+  const salt = Buffer.from(String(params.salt || ""), "hex");
+  const dklen = Number(params.dklen || 32);
+  if (dklen < 32) {
+    throw new Error(`dklen must be at least 32, got ${dklen}`);
+  }
+
+  if (kdf === "scrypt") {
+    const N = Number(params.n);
+    const r = Number(params.r);
+    const p = Number(params.p);
+    try {
+      // scrypt needs 128 * N * r bytes; lift Node's 32 MB default for standard keystores
+      return scryptSync(password, salt, dklen, { N, r, p, maxmem: 256 * N * r + 1024 * 1024 });
+    } catch (error: any) {
+      // OpenSSL also requires N < 2^(16 * r)
+      throw new Error(`Unsupported scrypt parameters (n=${N}, r=${r}, p=${p}): ${error.message}`);
+    }
+  }
+  if (kdf === "pbkdf2") {
+    if (params.prf !== "hmac-sha256") {
+      throw new Error(`Unsupported pbkdf2 prf: ${params.prf}`);
+    }
+    return pbkdf2Sync(password, salt, Number(params.c), dklen, "sha256");
+  }
+  throw new Error(`Unsupported KDF: ${kdf}`);
+}
+
+/**
+ * MAC over the second half of the derived key and the ciphertext
+ */
+function computeMac(derivedKey: Buffer, ciphertext: Buffer): Buffer {
+  const digest = tronWebUtils.ethersUtils.keccak256(
+    Buffer.concat([derivedKey.subarray(16, 32), ciphertext]),
+  );
+  return Buffer.from(digest.replace(/^0x/, ""), "hex");
+}
+
+/**
+ * Encrypt a private key into a Web3 Secret Storage keystore. `workFactor` overrides scrypt's N or
+ * pbkdf2's iteration count.
+ */
+export function encryptKeystore(
+  privateKey: string,
+  password: string,
+  options: { kdf?: KeystoreKdf; workFactor?: number } = {},
+): Keystore {
+  const key = Buffer.from(privateKey.replace(/^0x/, ""), "hex");
+  const address = key.length === 32 ? TronWeb.address.fromPrivateKey(key.toString("hex")) : false;
+  if (!address) {
+    throw new Error("Invalid private key");
+  }
+
+  const kdf = options.kdf || "scrypt";
+  const salt = randomBytes(32).toString("hex");
+  const kdfparams =
+    kdf === "scrypt"
+      ? { dklen: 32, n: options.workFactor || DEFAULT_SCRYPT_N, r: 8, p: 1, salt }
+      : { dklen: 32, c: options.workFactor || DEFAULT_PBKDF2_ITERATIONS, prf: "hmac-sha256", salt };
+  const derivedKey = deriveKey(password, kdf, kdfparams);
+
+  const iv = randomBytes(16);
+  const cipher = createCipheriv("aes-128-ctr", derivedKey.subarray(0, 16), iv);
+  const ciphertext = Buffer.concat([cipher.update(key), cipher.final()]);
+
+  return {
+    version: 3,
+    id: randomUUID(),
+    address,
+    crypto: {
+      cipher: "aes-128-ctr",
+      cipherparams: { iv: iv.toString("hex") },
+      ciphertext: ciphertext.toString("hex"),
+      kdf,
+      kdfparams,
+      mac: computeMac(derivedKey, ciphertext).toString("hex"),
+    },
+  };
+}
+
+/**
+ * Parse and validate a keystore's structure without decrypting it
+ */
+export function parseKeystore(input: string | Record<string, any>): Keystore {
+  let keystore: any;
+  try {
+    keystore = typeof input === "string" ? JSON.parse(input) : input;
+  } catch (_e) {
+    throw new Error("Keystore is not valid JSON");
+  }
+  // Some wallets capitalize the crypto section
+  const cryptoSection = keystore?.crypto || keystore?.Crypto;
+  if (keystore?.version !== 3 || !cryptoSection) {
+    throw new Error("Not a version 3 keystore");
+  }
+  if (cryptoSection.cipher !== "aes-128-ctr") {
+    throw new Error(`Unsupported cipher: ${cryptoSection.cipher}`);
+  }
+  if (!["scrypt", "pbkdf2"].includes(cryptoSection.kdf)) {
+    throw new Error(`Unsupported KDF: ${cryptoSection.kdf}`);
+  }
+  for (const field of ["ciphertext", "mac"]) {
+    if (!/^[0-9a-fA-F]+$/.test(String(cryptoSection[field] || ""))) {
+      throw new Error(`Keystore crypto.${field} must be hex`);
+    }
+  }
+  return { ...keystore, crypto: cryptoSection };
+}
+
+/**
+ * Decrypt a keystore and return the private key as hex (without 0x)
+ */
+export function decryptKeystore(input: string | Record<string, any>, password: string): string {
+  const keystore = parseKeystore(input);
+  const { crypto } = keystore;
+  const derivedKey = deriveKey(password, crypto.kdf, crypto.kdfparams || {});
+  const ciphertext = Buffer.from(crypto.ciphertext, "hex");
+
+  const mac = Buffer.from(crypto.mac, "hex");
+  const expected = computeMac(derivedKey, ciphertext);
+  if (mac.length !== expected.length || !timingSafeEqual(mac, expected)) {
+    throw new Error("Wrong keystore password (MAC mismatch)");
+  }
+
+  const decipher = createDecipheriv(
+    "aes-128-ctr",
+    derivedKey.subarray(0, 16),
+    Buffer.from(crypto.cipherparams?.iv || "", "hex"),
+  );
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString("hex");
+}
+
+/**
+ * Describe a keystore without decrypting it: its address (when recorded), ID and KDF settings
+ */
+export function inspectKeystore(input: string | Record<string, any>) {
+  const keystore = parseKeystore(input);
+  const { salt: _salt, ...kdfparams } = keystore.crypto.kdfparams || {};
+  // Ethereum-style keystores record the 20-byte hex address without the 41 prefix
+  const recorded = String(keystore.address || "").replace(/^0x/, "");
+  const address = TronWeb.isAddress(recorded)
+    ? TronWeb.address.fromHex(recorded)
+    : /^[0-9a-fA-F]{40}$/.test(recorded)
+      ? TronWeb.address.fromHex("41" + recorded)
+      : undefined;
+  return {
+    version: keystore.version,
+    id: keystore.id,
+    address,
+    cipher: keystore.crypto.cipher,
+    kdf: keystore.crypto.kdf,
+    kdfparams,
+  };
+}
+
+/**
+ * Read a keystore file and decrypt it with the given password
+ */
+export function loadKeystoreFile(path: string, password: string) {
+  let contents: string;
+  try {
+    contents = readFileSync(path, "utf8");
+  } catch (error: any) {
+    throw new Error(`Cannot read keystore file ${path}: ${error.message}`);
+  }
+  const privateKey = decryptKeystore(contents, password);
+  const address = TronWeb.address.fromPrivateKey(privateKey);
+  if (!address) {
+    throw new Error(`Keystore ${path} does not contain a valid private key`);
+  }
+  const recorded = inspectKeystore(contents).address;
+  if (recorded && recorded !== address) {
+    throw new Error(`Keystore ${path} records address ${recorded} but decrypts to ${address}`);
+  }
+  return { privateKey, address };
+}
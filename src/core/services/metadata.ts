@@ -0,0 +1,185 @@
+import { lookup } from "node:dns/promises";
+import { request as httpRequest, IncomingMessage } from "node:http";
+import { request as httpsRequest } from "node:https";
+import { isIP, LookupFunction } from "node:net";
+import { getIpfsGateway } from "../config.js";
+
+/**
+ * Fetches and parses the JSON document behind a token metadata URL
+ */
+export type MetadataFetcher = (url: string) => Promise<unknown>;
+
+const METADATA_TIMEOUT_MS = 10_000;
+const METADATA_MAX_BYTES = 1024 * 1024;
+const METADATA_MAX_REDIRECTS = 3;
+
+/**
+ * Whether an IP address is loopback, private, link-local or otherwise not publicly routable
+ */
+export function isPrivateAddress(ip: string): boolean {
+  if (isIP(ip) === 4) {
+    const [a, b] = ip.split(".").map(Number);
+    return (
+      a === 0 ||
+      a === 10 ||
+      a === 127 ||
+      (a === 100 && b >= 64 && b <= 127) || // Carrier-grade NAT
+      (a === 169 && b === 254) ||
+      (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && b === 168) ||
+      (a === 198 && (b === 18 || b === 19)) ||
+      a >= 224 // Multicast and reserved
+    );
+  }
+
+  const address = ip.toLowerCase();
+  // IPv4-mapped addresses, written either dotted or as two hex groups
+  const dotted = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/.exec(address);
+  if (dotted) return isPrivateAddress(dotted[1]);
+  const hex = /^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/.exec(address);
+  if (hex) {
+    const [high, low] = [parseInt(hex[1], 16), parseInt(hex[2], 16)];
+    return isPrivateAddress([high >> 8, high & 0xff, low >> 8, low & 0xff].join("."));
+  }
+  return (
+    address === "::" ||
+    address === "::1" ||
+    /^f[cd]/.test(address) || // Unique local
+    /^fe[89ab]/.test(address) || // Link-local
+    address.startsWith("ff") // Multicast
+  );
+}
+
+/**
+ * Refuse URLs the server should not fetch on a token's behalf: anything but https (the
+ * configured IPFS gateway is trusted as is), and hosts that resolve to private addresses.
+ * Returns the vetted address to connect to, so the host cannot resolve differently afterwards
+ * (DNS rebinding); undefined for the gateway.
+ */
+async function assertFetchableURL(url: URL) {
+  if (url.href.startsWith(getIpfsGateway())) return undefined;
+  if (url.protocol !== "https:") {
+    throw new Error(`Only https:// and ipfs:// metadata URIs are fetched, got ${url.protocol}`);
+  }
+  const host = url.hostname.replace(/^\[|\]$/g, "");
+  const addresses = await lookup(host, { all: true });
+  if (addresses.length === 0 || addresses.some(({ address }) => isPrivateAddress(address))) {
+    throw new Error(`Refusing to fetch metadata from private address ${host}`);
+  }
+  return addresses[0];
+}
+
+/**
+ * GET a URL, connecting to `pinned` (when given) instead of resolving the host again. The
+ * hostname is still used for TLS certificate checks and the Host header.
+ */
+function get(url: URL, pinned?: { address: string; family: number }) {
+  const pinnedLookup: LookupFunction = (_hostname, options, callback) => {
+    if (options.all) {
+      (callback as any)(null, [pinned]);
+    } else {
+      callback(null, pinned!.address, pinned!.family);
+    }
+  };
+  const request = url.protocol === "https:" ? httpsRequest : httpRequest;
+  return new Promise<IncomingMessage>((resolve, reject) => {
+    request(url, {
+      method: "GET",
+      lookup: pinned ? pinnedLookup : undefined,
+      signal: AbortSignal.timeout(METADATA_TIMEOUT_MS),
+    })
+      .on("response", resolve)
+      .on("error", reject)
+      .end();
+  });
+}
+
+/**
+ * Read a response body, giving up once it grows past `limit` bytes
+ */
+async function readBody(response: IncomingMessage, limit: number) {
+  if (Number(response.headers["content-length"] || 0) > limit) {
+    response.destroy();
+    throw new Error(`Metadata is larger than ${limit} bytes`);
+  }
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of response) {
+    size += chunk.length;
+    if (size > limit) {
+      response.destroy();
+      throw new Error(`Metadata is larger than ${limit} bytes`);
+    }
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks).toString("utf8");
+}
+
+const defaultFetcher: MetadataFetcher = async (url) => {
+  let current = new URL(url);
+  // Redirects are followed by hand so every hop is checked and pinned
+  for (let redirects = 0; ; redirects++) {
+    const response = await get(current, await assertFetchableURL(current));
+    const status = response.statusCode || 0;
+    const location = response.headers.location;
+    if (status >= 300 && status < 400 && location) {
+      response.resume();
+      if (redirects >= METADATA_MAX_REDIRECTS) {
+        throw new Error(`Too many redirects from ${url}`);
+      }
+      current = new URL(location, current);
+      continue;
+    }
+    if (status < 200 || status >= 300) {
+      response.resume();
+      throw new Error(`HTTP ${status} from ${current.href}`);
+    }
+    return JSON.parse(await readBody(response, METADATA_MAX_BYTES));
+  }
+};
+
+let metadataFetcher: MetadataFetcher = defaultFetcher;
+
+/**
+ * Replace the fetcher used for token metadata. Passing nothing restores the default HTTP fetcher.
+ */
+export function setMetadataFetcher(fetcher?: MetadataFetcher) {
+  metadataFetcher = fetcher || defaultFetcher;
+}
+
+/**
+ * Turn a token URI into a fetchable URL: ipfs:// URIs go through the configured gateway
+ */
+export function resolveTokenURI(uri: string): string {
+  if (uri.startsWith("ipfs://")) {
+    return getIpfsGateway() + uri.slice("ipfs://".length).replace(/^ipfs\//, "");
+  }
+  return uri;
+}
+
+/**
+ * Fetch and parse the JSON metadata behind a token URI. Inline data: URIs are decoded locally.
+ * The default fetcher only fetches https:// URLs on public hosts and ipfs:// URIs through the
+ * gateway, and caps the body size. Failures are reported in `error` rather than thrown, since
+ * metadata is supplementary.
+ */
+export async function fetchTokenMetadata(
+  uri?: string,
+): Promise<{ uri?: string; url?: string; metadata?: any; error?: string }> {
+  if (!uri) return { uri, error: "Token has no metadata URI" };
+
+  try {
+    const dataMatch = /^data:application\/json(;base64)?,(.*)$/s.exec(uri);
+    if (dataMatch) {
+      const body = dataMatch[1]
+        ? Buffer.from(dataMatch[2], "base64").toString("utf8")
+        : decodeURIComponent(dataMatch[2]);
+      return { uri, metadata: JSON.parse(body) };
+    }
+
+    const url = resolveTokenURI(uri);
+    return { uri, url, metadata: await metadataFetcher(url) };
+  } catch (error: any) {
+    return { uri, error: `Failed to fetch metadata: ${error.message}` };
+  }
+}
@@ -0,0 +1,359 @@
+import { getTronWeb, getWallet } from "./clients.js";
+import { utils } from "./utils.js";
+import { toBase58Address } from "./address.js";
+import { fetchContractABI, findFunctionInABI, resolveFeeLimit } from "./contracts.js";
+import { getAbiEntrySignature } from "./abi.js";
+import { TRC20_TRANSFER_ABI } from "./transfer.js";
+import { broadcastSignedTransaction } from "./transactions.js";
+import {
+  checkSigningPolicy,
+  PolicyViolationError,
+  transactionIntent,
+  withSpendingPolicy,
+} from "./policy.js";
+import type { StakeResource } from "./staking.js";
+
+// The network rejects transactions that expire more than 24 hours after creation
+const MAX_EXPIRATION_SECONDS = 24 * 60 * 60;
+
+/**
+ * Actions that can be built as unsigned transactions. TRX amounts are in TRX (not Sun);
+ * token amounts are raw (accounting for decimals).
+ */
+export type UnsignedAction =
+  | { type: "transfer_trx"; to: string; amount: string }
+  | { type: "transfer_trc10"; to: string; tokenId: string; amount: string }
+  | { type: "transfer_trc20"; tokenAddress: string; to: string; amount: string; feeLimit?: number }
+  | {
+      type: "trigger_contract";
+      contractAddress: string;
+      functionName: string;
+      args?: any[];
+      abi?: any[];
+      callValue?: string; // Sun
+      feeLimit?: number;
+    }
+  | { type: "freeze_balance_v2"; amount: string; resource?: StakeResource }
+  | { type: "unfreeze_balance_v2"; amount: string; resource?: StakeResource }
+  | { type: "withdraw_expire_unfreeze" }
+  | { type: "cancel_all_unfreeze_v2" }
+  | {
+      type: "delegate_resource";
+      receiver: string;
+      amount: string;
+      resource?: StakeResource;
+      lock?: boolean;
+      lockPeriod?: number;
+    }
+  | { type: "undelegate_resource"; receiver: string; amount: string; resource?: StakeResource };
+
+/**
+ * Build a contract call transaction for `owner`, deriving the fee limit when none is given
+ */
+async function buildContractCall(
+  tronWeb: any,
+  owner: string,
+  call: {
+    address: string;
+    functionName: string;
+    args: any[];
+    abi?: any[];
+    callValue?: string;
+    feeLimit?: number;
+  },
+  options: { permissionId: number },
+  network: string,
+) {
+  const abi = call.abi || (await fetchContractABI(call.address, network));
+  const func = findFunctionInABI(abi, call.functionName, call.args.length);
+  const fee = await resolveFeeLimit(
+    {
+      address: call.address,
+      functionName: call.functionName,
+      args: call.args,
+      abi,
+      value: call.callValue,
+      from: owner,
+    },
+    call.feeLimit,
+    network,
+  );
+
+  const result = await tronWeb.transactionBuilder.triggerSmartContract(
+    call.address,
+    getAbiEntrySignature(func),
+    {
+      ...options,
+      feeLimit: fee.feeLimit,
+      callValue: call.callValue ? utils.toSafeInteger(call.callValue, "callValue") : 0,
+      funcABIV2: func,
+      // The encoder rewrites addresses in place
+      parametersV2: JSON.parse(JSON.stringify(call.args)),
+    },
+    [],
+    owner,
+  );
+  if (!result?.result?.result) {
+    throw new Error(`Failed to build contract call: ${JSON.stringify(result?.result)}`);
+  }
+  return result.transaction;
+}
+
+/**
+ * Build an unsigned transaction for `owner` under the given permission. Nothing is signed, so
+ * the transaction can be passed around to each key holder of a multisig account.
+ */
+export async function buildUnsignedTransaction(
+  owner: string,
+  action: UnsignedAction,
+  permissionId = 0,
+  expirationSeconds?: number, // Extend the default 60 second expiration to leave time to collect signatures
+  network = "mainnet",
+) {
+  const tronWeb = getTronWeb(network);
+  const options = { permissionId };
+
+  try {
+    let tx: any;
+    switch (action.type) {
+      case "transfer_trx":
+        tx = await tronWeb.transactionBuilder.sendTrx(
+          action.to,
+          Number(utils.toSun(action.amount)),
+          owner,
+          options,
+        );
+        break;
+      case "transfer_trc10":
+        tx = await tronWeb.transactionBuilder.sendToken(
+          action.to,
+          utils.toSafeInteger(action.amount),
+          action.tokenId,
+          owner,
+          options,
+        );
+        break;
+      case "transfer_trc20":
+        tx = await buildContractCall(
+          tronWeb,
+          owner,
+          {
+            address: action.tokenAddress,
+            functionName: "transfer",
+            args: [action.to, action.amount],
+            abi: TRC20_TRANSFER_ABI,
+            feeLimit: action.feeLimit,
+          },
+          options,
+          network,
+        );
+        break;
+      case "trigger_contract":
+        tx = await buildContractCall(
+          tronWeb,
+          owner,
+          {
+            address: action.contractAddress,
+            functionName: action.functionName,
+            args: action.args || [],
+            abi: action.abi,
+            callValue: action.callValue,
+            feeLimit: action.feeLimit,
+          },
+          options,
+          network,
+        );
+        break;
+      case "freeze_balance_v2":
+        tx = await tronWeb.transactionBuilder.freezeBalanceV2(
+          Number(utils.toSun(action.amount)),
+          action.resource || "ENERGY",
+          owner,
+          options,
+        );
+        break;
+      case "unfreeze_balance_v2":
+        tx = await tronWeb.transactionBuilder.unfreezeBalanceV2(
+          Number(utils.toSun(action.amount)),
+          action.resource || "ENERGY",
+          owner,
+          options,
+        );
+        break;
+      case "withdraw_expire_unfreeze":
+        tx = await tronWeb.transactionBuilder.withdrawExpireUnfreeze(owner, options);
+        break;
+      case "cancel_all_unfreeze_v2":
+        tx = await tronWeb.transactionBuilder.cancelUnfreezeBalanceV2(owner, options);
+        break;
+      case "delegate_resource":
+        tx = await tronWeb.transactionBuilder.delegateResource(
+          Number(utils.toSun(action.amount)),
+          action.receiver,
+          action.resource || "ENERGY",
+          owner,
+          action.lock || false,
+          action.lock ? action.lockPeriod : undefined,
+          options,
+        );
+        break;
+      case "undelegate_resource":
+        tx = await tronWeb.transactionBuilder.undelegateResource(
+          Number(utils.toSun(action.amount)),
+          action.receiver,
+          action.resource || "ENERGY",
+          owner,
+          options,
+        );
+        break;
+      default:
+        throw new Error(`Unsupported action: ${(action as any).type}`);
+    }
+
+    if (expirationSeconds) {
+      if (expirationSeconds > MAX_EXPIRATION_SECONDS) {
+        throw new Error(`expirationSeconds cannot exceed ${MAX_EXPIRATION_SECONDS} (24 hours)`);
+      }
+      // Rebuild the txID locally; the default expiration already covers the first 60 seconds
+      tx = await tronWeb.transactionBuilder.extendExpiration(tx, expirationSeconds - 60, {
+        txLocal: true,
+      });
+    }
+
+    return {
+      transaction: tx,
+      txID: tx.txID,
+      owner: toBase58Address(owner),
+      permissionId,
+      expiresAt: new Date(tx.raw_data.expiration).toISOString(),
+    };
+  } catch (error: any) {
+    throw new Error(`Failed to build transaction: ${error.message}`);
+  }
+}
+
+/**
+ * Summarize a wallet/getsignweight response: who may sign, who has signed and how much weight
+ * is still missing
+ */
+export function summarizeSignWeight(response: any, now = Date.now()) {
+  const permission = response?.permission || {};
+  const approvedBy: string[] = (response?.approved_list || []).map(toBase58Address);
+  const threshold = Number(permission.threshold || 0);
+  const currentWeight = Number(response?.current_weight || 0);
+  const expiration = response?.transaction?.transaction?.raw_data?.expiration;
+  const code = response?.result?.code;
+  const keys: { address: string; weight: number; signed: boolean }[] = (permission.keys || []).map(
+    (key: any) => {
+      const address = toBase58Address(key.address);
+      return { address, weight: Number(key.weight || 0), signed: approvedBy.includes(address) };
+    },
+  );
+
+  return {
+    permissionId: Number(permission.id || 0),
+    permissionName: permission.permission_name,
+    threshold,
+    currentWeight,
+    remainingWeight: Math.max(0, threshold - currentWeight),
+    thresholdMet: threshold > 0 && currentWeight >= threshold,
+    approvedBy,
+    keys,
+    expiresAt: expiration ? new Date(expiration).toISOString() : undefined,
+    expired: expiration ? expiration <= now : undefined,
+    // ENOUGH_PERMISSION / NOT_ENOUGH_PERMISSION are normal states; anything else is an error
+    error:
+      code && !["ENOUGH_PERMISSION", "NOT_ENOUGH_PERMISSION"].includes(code)
+        ? `${code}: ${response.result.message || ""}`.trim()
+        : undefined,
+  };
+}
+
+/**
+ * Report a transaction's current signature weight against its permission threshold
+ */
+export async function getSignatureWeight(transaction: any, network = "mainnet") {
+  const tronWeb = getTronWeb(network);
+
+  try {
+    // getSignWeight fills in a missing Permission_id, so work on a copy
+    const response = await tronWeb.trx.getSignWeight(JSON.parse(JSON.stringify(transaction)));
+    return { txID: transaction.txID, ...summarizeSignWeight(response) };
+  } catch (error: any) {
+    throw new Error(`Failed to get signature weight: ${error.message}`);
+  }
+}
+
+/**
+ * Add the wallet's signature to a (partially) signed transaction. The wallet must be a key of the
+ * transaction's permission and must not have signed already. The transaction is checked against
+ * every network's spending policy, since the signature is not tied to a network.
+ */
+export async function addTransactionSignature(
+  transaction: any,
+  privateKey: string,
+  network = "mainnet",
+) {
+  const tronWeb = getWallet(privateKey, network);
+  const signer = tronWeb.defaultAddress.base58 as string;
+
+  const before = await getSignatureWeight(transaction, network);
+  if (before.error) {
+    throw new Error(`Cannot sign: ${before.error}`);
+  }
+  if (!before.keys.some((key) => key.address === signer)) {
+    throw new Error(
+      `${signer} is not a key of permission ${before.permissionId} (${before.permissionName})`,
+    );
+  }
+  if (before.approvedBy.includes(signer)) {
+    throw new Error(`${signer} has already signed this transaction`);
+  }
+
+  try {
+    await checkSigningPolicy(transactionIntent("cosign_transaction", transaction));
+    const signed: any = await tronWeb.trx.multiSign(
+      JSON.parse(JSON.stringify(transaction)),
+      privateKey.replace(/^0x/, ""),
+      before.permissionId,
+    );
+    const after = await getSignatureWeight(signed, network);
+    return { transaction: signed, signer, ...after };
+  } catch (error: any) {
+    if (error instanceof PolicyViolationError) throw error;
+    // TronWeb may echo its inputs, which include the private key
+    const key = privateKey.replace(/^0x/, "");
+    const message = /^[0-9a-fA-F]+$/.test(key)
+      ? String(error?.message ?? error).replace(new RegExp(key, "gi"), "[redacted]")
+      : "the private key was rejected";
+    throw new Error(`Failed to sign transaction: ${message}`);
+  }
+}
+
+/**
+ * Broadcast a multisig transaction once its signatures reach the permission threshold
+ */
+export async function broadcastMultisigTransaction(transaction: any, network = "mainnet") {
+  const status = await getSignatureWeight(transaction, network);
+  if (status.error) {
+    throw new Error(`Cannot broadcast: ${status.error}`);
+  }
+  if (!status.thresholdMet) {
+    throw new Error(
+      `Signature weight ${status.currentWeight}/${status.threshold} is below the permission threshold`,
+    );
+  }
+
+  try {
+    // Checked against the network it is actually sent to, whatever the signers were told
+    const txID = await withSpendingPolicy(
+      transactionIntent("broadcast_multisig_transaction", transaction),
+      network,
+      () => broadcastSignedTransaction(getTronWeb(network), transaction),
+    );
+    return { ...status, txID };
+  } catch (error: any) {
+    if (error instanceof PolicyViolationError) throw error;
+    throw new Error(`Failed to broadcast transaction: ${error.message}`);
+  }
+}
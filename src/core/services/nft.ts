@@ -0,0 +1,184 @@
+import { getTronWeb, getWallet } from "./clients.js";
+import { toBase58Address } from "./address.js";
+import { getContractEvents } from "./events.js";
+import { fetchTokenMetadata } from "./metadata.js";
+import { TRC721_ABI, TRC721_ENUMERABLE_INTERFACE_ID } from "./nft-abi.js";
+import { PolicyViolationError, withSpendingPolicy } from "./policy.js";
+
+/**
+ * Read the tokenURI of an NFT and fetch its JSON metadata
+ */
+async function getTokenMetadata(contract: any, tokenId: string) {
+  let tokenURI: string | undefined;
+  try {
+    tokenURI = await contract.methods.tokenURI(tokenId).call();
+  } catch (error: any) {
+    return { tokenURI, metadataError: `Failed to read tokenURI: ${error.message}` };
+  }
+  const { url, metadata, error } = await fetchTokenMetadata(tokenURI);
+  return { tokenURI, metadataUrl: url, metadata, metadataError: error };
+}
+
+/**
+ * Get the current owner of a TRC721 token
+ */
+export async function getNFTOwner(contractAddress: string, tokenId: string, network = "mainnet") {
+  const tronWeb = getTronWeb(network);
+
+  try {
+    const contract = tronWeb.contract(TRC721_ABI, contractAddress);
+    const owner = await contract.methods.ownerOf(tokenId).call();
+    return toBase58Address(owner);
+  } catch (error: any) {
+    throw new Error(`Failed to get NFT owner: ${error.message}`);
+  }
+}
+
+/**
+ * Get a TRC721 token's collection name and symbol, owner, tokenURI and parsed metadata
+ */
+export async function getNFTInfo(contractAddress: string, tokenId: string, network = "mainnet") {
+  const tronWeb = getTronWeb(network);
+  const contract = tronWeb.contract(TRC721_ABI, contractAddress);
+
+  // name() and symbol() belong to the optional metadata extension
+  const [name, symbol, owner, metadata] = await Promise.all([
+    contract.methods
+      .name()
+      .call()
+      .catch(() => undefined),
+    contract.methods
+      .symbol()
+      .call()
+      .catch(() => undefined),
+    getNFTOwner(contractAddress, tokenId, network),
+    getTokenMetadata(contract, tokenId),
+  ]);
+
+  return { contractAddress, tokenId, name, symbol, owner, ...metadata };
+}
+
+/**
+ * Whether a contract implements ERC721Enumerable. Contracts without ERC-165 count as not.
+ */
+async function supportsEnumerable(contract: any): Promise<boolean> {
+  try {
+    return Boolean(await contract.methods.supportsInterface(TRC721_ENUMERABLE_INTERFACE_ID).call());
+  } catch (_e) {
+    return false;
+  }
+}
+
+/**
+ * Read the recipient and token ID of a Transfer(from, to, tokenId) event by position, since
+ * collections name the parameters differently (`to` or `_to`, `tokenId` or `_tokenId`, ...)
+ */
+function readTransferEvent(args: Record<string, any>) {
+  const [, to, tokenId] = Object.values(args);
+  return { to, tokenId };
+}
+
+/**
+ * List the TRC721 tokens an address owns in a collection. Uses ERC721Enumerable when the contract
+ * implements it; otherwise replays the collection's Transfer events and confirms each candidate
+ * with ownerOf. Event replay stops after `maxEvents`, in which case the list may be incomplete.
+ */
+export async function listNFTsOwned(
+  contractAddress: string,
+  ownerAddress: string,
+  options: { limit?: number; includeMetadata?: boolean; maxEvents?: number } = {},
+  network = "mainnet",
+) {
+  const tronWeb = getTronWeb(network);
+  const { limit = 20, includeMetadata = true, maxEvents = 2000 } = options;
+  const owner = toBase58Address(ownerAddress);
+
+  try {
+    const contract = tronWeb.contract(TRC721_ABI, contractAddress);
+    const balance = Number(await contract.methods.balanceOf(owner).call());
+
+    let tokenIds: string[];
+    let source: "enumerable" | "events";
+    let complete: boolean;
+
+    if (await supportsEnumerable(contract)) {
+      source = "enumerable";
+      const count = Math.min(balance, limit);
+      tokenIds = await Promise.all(
+        Array.from({ length: count }, async (_, index) =>
+          String(await contract.methods.tokenOfOwnerByIndex(owner, index).call()),
+        ),
+      );
+      complete = count === balance;
+    } else {
+      source = "events";
+      const { events, hasMore } = await getContractEvents(
+        {
+          contractAddress,
+          eventName: "Transfer",
+          orderBy: "block_timestamp,asc",
+          limit: maxEvents,
+        },
+        network,
+      );
+      const received = [
+        ...new Set(
+          events
+            .map((event) => readTransferEvent(event.args))
+            .filter((transfer) => transfer.to === owner && transfer.tokenId !== undefined)
+            .map((transfer) => String(transfer.tokenId)),
+        ),
+      ];
+      const owners = await Promise.all(
+        received.map((tokenId) => getNFTOwner(contractAddress, tokenId, network).catch(() => "")),
+      );
+      const owned = received.filter((_, index) => owners[index] === owner);
+      tokenIds = owned.slice(0, limit);
+      complete = !hasMore && owned.length <= limit;
+    }
+
+    const tokens = await Promise.all(
+      tokenIds.map(async (tokenId) =>
+        includeMetadata ? { tokenId, ...(await getTokenMetadata(contract, tokenId)) } : { tokenId },
+      ),
+    );
+
+    return { contractAddress, owner, balance, source, complete, tokens };
+  } catch (error: any) {
+    throw new Error(`Failed to list NFTs: ${error.message}`);
+  }
+}
+
+/**
+ * Transfer a TRC721 token from the wallet with safeTransferFrom, which rejects contract
+ * recipients that cannot receive NFTs
+ */
+export async function transferNFT(
+  privateKey: string,
+  params: {
+    contractAddress: string;
+    to: string;
+    tokenId: string;
+    feeLimit?: number; // Maximum TRX to burn for energy (in Sun)
+  },
+  network = "mainnet",
+) {
+  const tronWeb = getWallet(privateKey, network);
+  const from = tronWeb.defaultAddress.base58 as string;
+
+  try {
+    const contract = tronWeb.contract(TRC721_ABI, params.contractAddress);
+    const txHash = await withSpendingPolicy(
+      { action: "transfer_nft", recipient: params.to, contract: params.contractAddress },
+      network,
+      () =>
+        contract.methods
+          .safeTransferFrom(from, params.to, params.tokenId)
+          .send(params.feeLimit ? { feeLimit: params.feeLimit } : {}),
+    );
+    return { txHash, from };
+  } catch (error: any) {
+    if (error instanceof PolicyViolationError) throw error;
+    throw new Error(`Failed to transfer NFT: ${error.message}`);
+  }
+}
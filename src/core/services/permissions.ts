@@ -0,0 +1,439 @@
+import { getTronWeb, getWallet } from "./clients.js";
+import { utils } from "./utils.js";
+import { signAndBroadcast } from "./transactions.js";
+import { toBase58Address } from "./address.js";
+import { PolicyViolationError, transactionIntent, withSpendingPolicy } from "./policy.js";
+
+// Contract type IDs from the TRON protocol (Transaction.Contract.ContractType). An active
+// permission's operations field is a 32-byte bitmask indexed by these IDs.
+export const CONTRACT_TYPES: Record<number, string> = {
+  0: "AccountCreateContract",
+  1: "TransferContract",
+  2: "TransferAssetContract",
+  3: "VoteAssetContract",
+  4: "VoteWitnessContract",
+  5: "WitnessCreateContract",
+  6: "AssetIssueContract",
+  8: "WitnessUpdateContract",
+  9: "ParticipateAssetIssueContract",
+  10: "AccountUpdateContract",
+  11: "FreezeBalanceContract",
+  12: "UnfreezeBalanceContract",
+  13: "WithdrawBalanceContract",
+  14: "UnfreezeAssetContract",
+  15: "UpdateAssetContract",
+  16: "ProposalCreateContract",
+  17: "ProposalApproveContract",
+  18: "ProposalDeleteContract",
+  19: "SetAccountIdContract",
+  20: "CustomContract",
+  30: "CreateSmartContract",
+  31: "TriggerSmartContract",
+  32: "GetContract",
+  33: "UpdateSettingContract",
+  41: "ExchangeCreateContract",
+  42: "ExchangeInjectContract",
+  43: "ExchangeWithdrawContract",
+  44: "ExchangeTransactionContract",
+  45: "UpdateEnergyLimitContract",
+  46: "AccountPermissionUpdateContract",
+  48: "ClearABIContract",
+  49: "UpdateBrokerageContract",
+  51: "ShieldedTransferContract",
+  52: "MarketSellAssetContract",
+  53: "MarketCancelOrderContract",
+  54: "FreezeBalanceV2Contract",
+  55: "UnfreezeBalanceV2Contract",
+  56: "WithdrawExpireUnfreezeContract",
+  57: "DelegateResourceContract",
+  58: "UnDelegateResourceContract",
+  59: "CancelAllUnfreezeV2Contract",
+};
+
+// Protocol limits enforced by AccountPermissionUpdateContract
+const MAX_ACTIVE_PERMISSIONS = 8;
+const MAX_PERMISSION_NAME_LENGTH = 32;
+
+export interface PermissionKey {
+  address: string;
+  weight: number;
+}
+
+export interface PermissionInput {
+  name?: string;
+  threshold: number;
+  keys: PermissionKey[];
+  operations?: (string | number)[]; // Active permissions only: contract type names or IDs
+}
+
+export interface PermissionUpdate {
+  owner?: PermissionInput;
+  actives?: PermissionInput[];
+}
+
+export type FormattedPermission = ReturnType<typeof formatPermission>;
+
+/**
+ * Decode an operations bitmask into contract type names. Bit i of byte j stands for type 8j + i.
+ */
+export function decodeOperations(operations: string): string[] {
+  const bytes = Buffer.from(operations.replace(/^0x/, ""), "hex");
+  const names: string[] = [];
+  bytes.forEach((byte, index) => {
+    for (let bit = 0; bit < 8; bit++) {
+      if (byte & (1 << bit)) {
+        const id = index * 8 + bit;
+        names.push(CONTRACT_TYPES[id] ?? `ContractType(${id})`);
+      }
+    }
+  });
+  return names;
+}
+
+/**
+ * Resolve a contract type by ID or name. Names are case-insensitive and the "Contract" suffix is
+ * optional, so "transfer" and "TransferContract" both resolve to 1.
+ */
+function resolveContractType(operation: string | number): number {
+  // IDs without a name here (decoded as "ContractType(n)") are passed through as-is
+  const numeric = String(operation).match(/^(?:ContractType\()?(\d+)\)?$/);
+  if (numeric) {
+    const id = Number(numeric[1]);
+    if (id > 255) throw new Error(`Invalid contract type ID: ${operation}`);
+    return id;
+  }
+  operation = String(operation);
+  const wanted = operation.toLowerCase().replace(/contract$/, "");
+  const entry = Object.entries(CONTRACT_TYPES).find(
+    ([, name]) => name.toLowerCase().replace(/contract$/, "") === wanted,
+  );
+  if (!entry) throw new Error(`Unknown contract type: ${operation}`);
+  return Number(entry[0]);
+}
+
+/**
+ * Encode contract type names or IDs into a 32-byte operations bitmask (hex, no 0x prefix)
+ */
+export function encodeOperations(operations: (string | number)[]): string {
+  const bytes = Buffer.alloc(32);
+  for (const operation of operations) {
+    const id = resolveContractType(operation);
+    bytes[id >> 3] |= 1 << (id & 7);
+  }
+  return bytes.toString("hex");
+}
+
+/**
+ * Format a permission from getAccount with Base58 keys and decoded operations
+ */
+export function formatPermission(permission: any, type: "owner" | "witness" | "active") {
+  const keys: PermissionKey[] = (permission.keys || []).map((key: any) => ({
+    address: toBase58Address(key.address),
+    weight: Number(key.weight || 0),
+  }));
+  return {
+    type,
+    id: Number(permission.id || 0),
+    name: permission.permission_name as string,
+    threshold: Number(permission.threshold || 0),
+    totalWeight: keys.reduce((sum, key) => sum + key.weight, 0),
+    keys,
+    operations: permission.operations ? decodeOperations(permission.operations) : undefined,
+  };
+}
+
+/**
+ * Get an account's owner, witness and active permissions. Accounts that never updated their
+ * permissions are controlled by their own key with threshold 1.
+ */
+export async function getAccountPermissions(address: string, network = "mainnet") {
+  const tronWeb = getTronWeb(network);
+  const account = toBase58Address(address);
+
+  try {
+    const raw: any = await tronWeb.trx.getAccount(account);
+    if (!raw || !raw.address) {
+      throw new Error(`Account ${account} is not activated`);
+    }
+
+    const owner = formatPermission(
+      raw.owner_permission || {
+        permission_name: "owner",
+        threshold: 1,
+        keys: [{ address: account, weight: 1 }],
+      },
+      "owner",
+    );
+    const actives = (raw.active_permission || []).map((permission: any) =>
+      formatPermission(permission, "active"),
+    ) as FormattedPermission[];
+    const witness = raw.witness_permission
+      ? formatPermission(raw.witness_permission, "witness")
+      : undefined;
+
+    return {
+      address: account,
+      multisig: owner.threshold > 1 || owner.keys.some((key) => key.address !== account),
+      owner,
+      actives,
+      witness,
+    };
+  } catch (error: any) {
+    throw new Error(`Failed to get account permissions: ${error.message}`);
+  }
+}
+
+/**
+ * Check a permission against the protocol rules and make sure its threshold can be reached
+ */
+function validatePermission(label: string, permission: PermissionInput, maxKeys: number) {
+  const name = permission.name ?? "";
+  if (name.length > MAX_PERMISSION_NAME_LENGTH) {
+    throw new Error(`${label}: name cannot exceed ${MAX_PERMISSION_NAME_LENGTH} characters`);
+  }
+  if (!Number.isInteger(permission.threshold) || permission.threshold < 1) {
+    throw new Error(`${label}: threshold must be a positive integer`);
+  }
+  if (permission.keys.length === 0 || permission.keys.length > maxKeys) {
+    throw new Error(`${label}: must have between 1 and ${maxKeys} keys`);
+  }
+
+  const seen = new Set<string>();
+  for (const key of permission.keys) {
+    if (!utils.isAddress(key.address)) {
+      throw new Error(`${label}: invalid key address ${key.address}`);
+    }
+    const address = toBase58Address(key.address);
+    if (seen.has(address)) {
+      throw new Error(`${label}: duplicate key ${address}`);
+    }
+    seen.add(address);
+    if (!Number.isInteger(key.weight) || key.weight < 1) {
+      throw new Error(`${label}: key ${address} weight must be a positive integer`);
+    }
+    // Enforced by TronWeb when building the transaction
+    if (key.weight > permission.threshold) {
+      throw new Error(`${label}: key ${address} weight cannot exceed the threshold`);
+    }
+  }
+
+  const totalWeight = permission.keys.reduce((sum, key) => sum + key.weight, 0);
+  if (totalWeight < permission.threshold) {
+    throw new Error(
+      `${label}: threshold ${permission.threshold} is unreachable (keys only add up to ${totalWeight})`,
+    );
+  }
+}
+
+/**
+ * Normalize a permission input into the getAccount shape so it can be formatted and diffed
+ */
+function toRawPermission(permission: PermissionInput, defaultName: string, id?: number) {
+  return {
+    id,
+    permission_name: permission.name || defaultName,
+    threshold: permission.threshold,
+    keys: permission.keys.map((key) => ({
+      address: toBase58Address(key.address),
+      weight: key.weight,
+    })),
+    operations: permission.operations ? encodeOperations(permission.operations) : undefined,
+  };
+}
+
+/**
+ * Compare two permissions field by field
+ */
+function diffPermission(label: string, before?: FormattedPermission, after?: FormattedPermission) {
+  if (!before && after) return { permission: label, status: "added" as const, after };
+  if (before && !after) return { permission: label, status: "removed" as const, before };
+
+  const oldKeys = new Map(before!.keys.map((key) => [key.address, key.weight]));
+  const newKeys = new Map(after!.keys.map((key) => [key.address, key.weight]));
+  const oldOps = new Set(before!.operations || []);
+  const newOps = new Set(after!.operations || []);
+
+  const diff = {
+    permission: label,
+    name: before!.name !== after!.name ? { from: before!.name, to: after!.name } : undefined,
+    threshold:
+      before!.threshold !== after!.threshold
+        ? { from: before!.threshold, to: after!.threshold }
+        : undefined,
+    keysAdded: after!.keys.filter((key) => !oldKeys.has(key.address)),
+    keysRemoved: before!.keys.filter((key) => !newKeys.has(key.address)),
+    weightsChanged: after!.keys
+      .filter((key) => oldKeys.has(key.address) && oldKeys.get(key.address) !== key.weight)
+      .map((key) => ({ address: key.address, from: oldKeys.get(key.address), to: key.weight })),
+    operationsAdded: [...newOps].filter((op) => !oldOps.has(op)),
+    operationsRemoved: [...oldOps].filter((op) => !newOps.has(op)),
+  };
+  const changed =
+    diff.name ||
+    diff.threshold ||
+    diff.keysAdded.length ||
+    diff.keysRemoved.length ||
+    diff.weightsChanged.length ||
+    diff.operationsAdded.length ||
+    diff.operationsRemoved.length;
+  return { ...diff, status: changed ? ("changed" as const) : ("unchanged" as const) };
+}
+
+/**
+ * Diff current and proposed permissions. Active permissions are matched by ID, which is assigned
+ * in list order starting at 2.
+ */
+export function diffPermissions(
+  current: { owner: FormattedPermission; actives: FormattedPermission[] },
+  proposed: { owner: FormattedPermission; actives: FormattedPermission[] },
+) {
+  const ids = new Set([...current.actives, ...proposed.actives].map((p) => p.id));
+  return [
+    diffPermission("owner", current.owner, proposed.owner),
+    ...[...ids]
+      .sort((a, b) => a - b)
+      .map((id) =>
+        diffPermission(
+          `active #${id}`,
+          current.actives.find((p) => p.id === id),
+          proposed.actives.find((p) => p.id === id),
+        ),
+      ),
+  ];
+}
+
+/**
+ * Validate a permission update for `address` and preview it against the current permissions.
+ * Omitted sections keep their current value. Throws if a threshold is unreachable, the update
+ * exceeds protocol limits, the owner would lock itself out, or `signer` cannot approve it alone.
+ *
+ * Removing `signer` from the owner permission hands control of the account to the other keys and
+ * is refused unless `allowOwnerTransfer` is set.
+ */
+export async function previewPermissionUpdate(
+  address: string,
+  update: PermissionUpdate,
+  options: { signer?: string; allowOwnerTransfer?: boolean } = {},
+  network = "mainnet",
+) {
+  if (!update.owner && !update.actives) {
+    throw new Error("Nothing to update: provide owner and/or actives");
+  }
+
+  const tronWeb = getTronWeb(network);
+  const current = await getAccountPermissions(address, network);
+  const parameters = await tronWeb.trx.getChainParameters();
+  const param = (key: string) => parameters.find((p: any) => p.key === key)?.value;
+  const maxKeys = Number(param("getTotalSignNum") ?? 5);
+  const feeSun = Number(param("getUpdateAccountPermissionFee") ?? 100_000_000);
+
+  if (update.owner) {
+    if (update.owner.operations) {
+      throw new Error("owner: operations only apply to active permissions");
+    }
+    validatePermission("owner", update.owner, maxKeys);
+  }
+  if (update.actives) {
+    if (update.actives.length === 0 || update.actives.length > MAX_ACTIVE_PERMISSIONS) {
+      throw new Error(`actives: must have between 1 and ${MAX_ACTIVE_PERMISSIONS} permissions`);
+    }
+    update.actives.forEach((active, index) => {
+      const label = `active #${index + 2}`;
+      if (!active.operations || active.operations.length === 0) {
+        throw new Error(`${label}: operations are required`);
+      }
+      validatePermission(label, active, maxKeys);
+      encodeOperations(active.operations);
+    });
+  }
+
+  const owner = update.owner
+    ? formatPermission(toRawPermission(update.owner, "owner"), "owner")
+    : current.owner;
+  const actives = update.actives
+    ? update.actives.map((active, index) =>
+        formatPermission(toRawPermission(active, "active", index + 2), "active"),
+      )
+    : current.actives;
+
+  // The update itself needs the current owner permission; a wallet that cannot meet it alone
+  // cannot send it through this tool
+  if (options.signer) {
+    const signer = toBase58Address(options.signer);
+    const signerWeight = current.owner.keys.find((key) => key.address === signer)?.weight ?? 0;
+    if (signerWeight < current.owner.threshold) {
+      throw new Error(
+        `Wallet ${signer} has owner weight ${signerWeight}, below the owner threshold ${current.owner.threshold}`,
+      );
+    }
+    if (
+      update.owner &&
+      !owner.keys.some((key) => key.address === signer) &&
+      !options.allowOwnerTransfer
+    ) {
+      throw new Error(
+        `The new owner permission does not include wallet ${signer}, which would lock it out of the account. Set allowOwnerTransfer to hand control to the listed keys.`,
+      );
+    }
+  }
+
+  return {
+    address: current.address,
+    current: { owner: current.owner, actives: current.actives },
+    proposed: { owner, actives },
+    changes: diffPermissions(current, { owner, actives }),
+    fee: { sun: feeSun, trx: utils.fromSun(feeSun) },
+    witness: current.witness,
+  };
+}
+
+/**
+ * Update the wallet's owner and active permissions (AccountPermissionUpdateContract). The update
+ * is validated with previewPermissionUpdate first and burns the network's permission update fee.
+ */
+export async function updateAccountPermissions(
+  privateKey: string,
+  update: PermissionUpdate,
+  options: { allowOwnerTransfer?: boolean } = {},
+  network = "mainnet",
+) {
+  const tronWeb = getWallet(privateKey, network);
+  const address = tronWeb.defaultAddress.base58 as string;
+
+  const preview = await previewPermissionUpdate(
+    address,
+    update,
+    { signer: address, allowOwnerTransfer: options.allowOwnerTransfer },
+    network,
+  );
+
+  try {
+    const toBuilderPermission = (permission: FormattedPermission, type: number) => ({
+      type,
+      permission_name: permission.name,
+      threshold: permission.threshold,
+      keys: permission.keys,
+      operations: permission.operations ? encodeOperations(permission.operations) : undefined,
+    });
+    // Witness accounts must resubmit their witness permission unchanged
+    const witness = preview.witness
+      ? { ...toBuilderPermission(preview.witness, 1), operations: undefined }
+      : undefined;
+
+    const tx = await tronWeb.transactionBuilder.updateAccountPermissions(
+      address,
+      toBuilderPermission(preview.proposed.owner, 0) as any,
+      witness as any,
+      preview.proposed.actives.map((active) => toBuilderPermission(active, 2)) as any,
+    );
+    const txHash = await withSpendingPolicy(
+      transactionIntent("update_account_permissions", tx),
+      network,
+      () => signAndBroadcast(tronWeb, tx),
+    );
+    return { txHash, ...preview };
+  } catch (error: any) {
+    if (error instanceof PolicyViolationError) throw error;
+    throw new Error(`Failed to update account permissions: ${error.message}`);
+  }
+}
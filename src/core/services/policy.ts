@@ -0,0 +1,487 @@
+import { readFile, writeFile } from "node:fs/promises";
+import { getSpendingPolicyFile } from "../config.js";
+import { toBase58Address } from "./address.js";
+import { utils } from "./utils.js";
+import { decodeFunctionCall } from "./abi.js";
+
+// Window of the rolling spend caps
+const SPEND_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+// TRC20 functions that move tokens or let another address move them
+const TOKEN_FUNCTION_ABI = [
+  {
+    type: "function",
+    name: "transfer",
+    inputs: [
+      { name: "to", type: "address" },
+      { name: "value", type: "uint256" },
+    ],
+  },
+  {
+    type: "function",
+    name: "approve",
+    inputs: [
+      { name: "spender", type: "address" },
+      { name: "value", type: "uint256" },
+    ],
+  },
+  {
+    type: "function",
+    name: "transferFrom",
+    inputs: [
+      { name: "from", type: "address" },
+      { name: "to", type: "address" },
+      { name: "value", type: "uint256" },
+    ],
+  },
+];
+
+// TRX spend caps are in TRX; token caps are raw amounts (accounting for decimals)
+export interface SpendLimit {
+  maxPerTransaction?: string;
+  maxPer24h?: string;
+}
+
+// An empty or missing allowlist allows every address not on the denylist
+export interface AddressRules {
+  allow?: string[];
+  deny?: string[];
+}
+
+export interface NetworkPolicy {
+  trx?: SpendLimit;
+  tokens?: Record<string, SpendLimit>; // Keyed by TRC20 contract address or TRC10 token ID
+  recipients?: AddressRules;
+  contracts?: AddressRules;
+}
+
+/**
+ * Spending policy file. `networks` is keyed by network name; "*" applies to networks without
+ * their own entry. `ledgerFile` keeps the 24h spend history across restarts.
+ */
+export interface SpendingPolicy {
+  networks: Record<string, NetworkPolicy>;
+  ledgerFile?: string;
+}
+
+/**
+ * What a write is about to do, as far as the policy is concerned
+ */
+export interface SpendIntent {
+  action: string;
+  recipient?: string;
+  keys?: string[]; // Addresses a permission update gives control of the account, checked as recipients
+  contract?: string;
+  trxSun?: bigint | number | string;
+  token?: { id: string; amount: bigint | number | string }; // TRC20 address or TRC10 ID, raw amount
+  undecoded?: boolean; // A transaction whose effect could not be decoded
+}
+
+interface LedgerEntry {
+  network: string;
+  asset: string; // "TRX" or the token ID
+  amount: string; // Sun for TRX, raw amount for tokens
+  time: number;
+}
+
+/**
+ * Thrown when a write is blocked by the spending policy. `details` names the rule and the values
+ * it was checked against.
+ */
+export class PolicyViolationError extends Error {
+  constructor(
+    message: string,
+    public readonly details: {
+      rule: string;
+      network: string;
+      action: string;
+      address?: string;
+      limit?: string;
+      attempted?: string;
+      spentLast24h?: string;
+    },
+  ) {
+    super(message);
+    this.name = "PolicyViolationError";
+  }
+}
+
+let policyCache: { file: string; policy: SpendingPolicy } | undefined;
+let ledger: LedgerEntry[] | undefined;
+let queue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Forget the loaded policy and the in-memory spend history; the policy file is read again on
+ * next use
+ */
+export function resetSpendingPolicy() {
+  policyCache = undefined;
+  ledger = undefined;
+}
+
+function normalizeAddress(address: string) {
+  return toBase58Address(address.trim());
+}
+
+/**
+ * Describe a contract call for the policy. Token transfers and approvals also count against the
+ * token's caps, with the receiving (or approved) address as recipient.
+ */
+export function contractCallIntent(
+  action: string,
+  contract: string,
+  functionName: string,
+  args: any[] = [],
+  callValueSun?: bigint | number | string,
+): SpendIntent {
+  const intent: SpendIntent = { action, contract, trxSun: callValueSun };
+  const func = TOKEN_FUNCTION_ABI.find(
+    (entry) => entry.name === functionName && entry.inputs.length === args.length,
+  );
+  if (!func) {
+    return intent;
+  }
+  const [recipient, amount] = functionName === "transferFrom" ? args.slice(1) : args;
+  return {
+    ...intent,
+    recipient: String(recipient),
+    token: { id: contract, amount: String(amount) },
+  };
+}
+
+/**
+ * Describe a transaction for the policy from its first contract. Contract types that move no funds
+ * to another address (staking, voting, permission updates) only carry the action.
+ */
+export function transactionIntent(action: string, transaction: any): SpendIntent {
+  const contract = transaction?.raw_data?.contract?.[0];
+  const value = contract?.parameter?.value;
+  // parametersDecoded is false (and the value empty) when a raw_data_hex could only be parsed
+  // down to its contract type
+  if (!value || Object.keys(value).length === 0 || transaction.parametersDecoded === false) {
+    return { action, undecoded: true };
+  }
+
+  switch (contract.type) {
+    case "TransferContract":
+      return { action, recipient: value.to_address, trxSun: value.amount || 0 };
+    case "TransferAssetContract":
+      return {
+        action,
+        recipient: value.to_address,
+        token: {
+          id: Buffer.from(String(value.asset_name), "hex").toString("utf8"),
+          amount: value.amount || 0,
+        },
+      };
+    case "TriggerSmartContract": {
+      const call = decodeFunctionCall(value.data || "", TOKEN_FUNCTION_ABI);
+      return contractCallIntent(
+        action,
+        value.contract_address,
+        call?.name || "",
+        call ? Object.values(call.args) : [],
+        value.call_value || 0,
+      );
+    }
+    case "CreateSmartContract":
+      return { action, trxSun: value.new_contract?.call_value || 0 };
+    case "DelegateResourceContract":
+      return { action, recipient: value.receiver_address };
+    case "AccountPermissionUpdateContract": {
+      // Keys other than the account itself take control of it, so they count as recipients
+      const owner = value.owner_address && toBase58Address(value.owner_address);
+      const keys = [value.owner, value.witness, ...(value.actives || [])]
+        .flatMap((permission) => permission?.keys || [])
+        .map((key: any) => toBase58Address(key.address))
+        .filter((address: string) => address !== owner);
+      return { action, keys: [...new Set(keys)] };
+    }
+    case "UpdateSettingContract":
+    case "UpdateEnergyLimitContract":
+      return { action, contract: value.contract_address };
+    default:
+      return { action };
+  }
+}
+
+/**
+ * Check a policy file's shape and normalize its addresses, so bad configuration fails loudly
+ * instead of silently allowing everything
+ */
+function validatePolicy(raw: any): SpendingPolicy {
+  if (!raw || typeof raw !== "object" || !raw.networks || typeof raw.networks !== "object") {
+    throw new Error('expected an object with a "networks" map');
+  }
+
+  const validateLimit = (limit: any, path: string): SpendLimit => {
+    for (const key of ["maxPerTransaction", "maxPer24h"]) {
+      if (limit?.[key] !== undefined && !/^\d+(\.\d+)?$/.test(String(limit[key]))) {
+        throw new Error(`${path}.${key} must be a non-negative number`);
+      }
+    }
+    return {
+      maxPerTransaction: limit?.maxPerTransaction?.toString(),
+      maxPer24h: limit?.maxPer24h?.toString(),
+    };
+  };
+
+  const validateRules = (rules: any, path: string): AddressRules => {
+    for (const key of ["allow", "deny"]) {
+      if (rules?.[key] !== undefined && !Array.isArray(rules[key])) {
+        throw new Error(`${path}.${key} must be an array of addresses`);
+      }
+    }
+    return {
+      allow: rules?.allow?.map(normalizeAddress),
+      deny: rules?.deny?.map(normalizeAddress),
+    };
+  };
+
+  const networks: Record<string, NetworkPolicy> = {};
+  for (const [network, rules] of Object.entries<any>(raw.networks)) {
+    const path = `networks.${network}`;
+    const tokens: Record<string, SpendLimit> = {};
+    for (const [id, limit] of Object.entries<any>(rules.tokens || {})) {
+      // TRC10 tokens are keyed by numeric ID, TRC20 tokens by contract address
+      tokens[/^\d+$/.test(id) ? id : normalizeAddress(id)] = validateLimit(
+        limit,
+        `${path}.tokens.${id}`,
+      );
+    }
+    networks[network] = {
+      trx: rules.trx ? validateLimit(rules.trx, `${path}.trx`) : undefined,
+      tokens,
+      recipients: validateRules(rules.recipients, `${path}.recipients`),
+      contracts: validateRules(rules.contracts, `${path}.contracts`),
+    };
+  }
+  return { networks, ledgerFile: raw.ledgerFile };
+}
+
+/**
+ * Load the spending policy from TRON_POLICY_FILE. Returns undefined when no policy is configured.
+ * A configured file that is missing or invalid is an error, so writes fail closed.
+ */
+export async function getSpendingPolicy(): Promise<SpendingPolicy | undefined> {
+  const file = getSpendingPolicyFile();
+  if (!file) {
+    return undefined;
+  }
+  if (policyCache?.file !== file) {
+    try {
+      const policy = validatePolicy(JSON.parse(await readFile(file, "utf8")));
+      policyCache = { file, policy };
+    } catch (error: any) {
+      throw new Error(`Invalid spending policy file ${file}: ${error.message}`);
+    }
+  }
+  return policyCache.policy;
+}
+
+async function loadLedger(policy: SpendingPolicy): Promise<LedgerEntry[]> {
+  if (!ledger) {
+    ledger = [];
+    if (policy.ledgerFile) {
+      try {
+        ledger = JSON.parse(await readFile(policy.ledgerFile, "utf8"));
+      } catch (error: any) {
+        if (error.code !== "ENOENT") {
+          throw new Error(`Cannot read spend ledger ${policy.ledgerFile}: ${error.message}`);
+        }
+      }
+    }
+  }
+  return ledger!;
+}
+
+/**
+ * Sum what was spent of an asset on a network within the last 24 hours
+ */
+function spentInWindow(entries: LedgerEntry[], network: string, asset: string, now: number) {
+  return entries
+    .filter((entry) => entry.network === network && entry.asset === asset)
+    .filter((entry) => entry.time > now - SPEND_WINDOW_MS)
+    .reduce((sum, entry) => sum + BigInt(entry.amount), 0n);
+}
+
+/**
+ * Check a write against the spending policy of its network. Throws a PolicyViolationError naming
+ * the first rule it breaks: denylists, then allowlists, then per-transaction and 24h caps.
+ */
+export async function checkSpendingPolicy(
+  intent: SpendIntent,
+  network = "mainnet",
+  now = Date.now(),
+) {
+  const policy = await getSpendingPolicy();
+  const rules = policy && (policy.networks[network] || policy.networks["*"]);
+  if (!policy || !rules) {
+    return;
+  }
+  const violation = (message: string, details: Record<string, string | undefined>) =>
+    new PolicyViolationError(`Blocked by spending policy: ${message}`, {
+      rule: details.rule!,
+      network,
+      action: intent.action,
+      ...details,
+    });
+
+  if (intent.undecoded) {
+    throw violation("the transaction's contract could not be decoded", {
+      rule: "transaction.undecoded",
+    });
+  }
+
+  const addressChecks: Array<[string, string | undefined, AddressRules | undefined]> = [
+    ["recipients", intent.recipient, rules.recipients],
+    ...(intent.keys || []).map((key): [string, string, AddressRules | undefined] => [
+      "recipients",
+      key,
+      rules.recipients,
+    ]),
+    ["contracts", intent.contract, rules.contracts],
+  ];
+  for (const [kind, address, list] of addressChecks) {
+    if (!address) continue;
+    const normalized = normalizeAddress(address);
+    if (list?.deny?.includes(normalized)) {
+      throw violation(`${normalized} is on the ${kind} denylist`, {
+        rule: `${kind}.deny`,
+        address: normalized,
+      });
+    }
+    if (list?.allow?.length && !list.allow.includes(normalized)) {
+      throw violation(`${normalized} is not on the ${kind} allowlist`, {
+        rule: `${kind}.allow`,
+        address: normalized,
+      });
+    }
+  }
+
+  const entries = await loadLedger(policy);
+  const checkLimit = (
+    path: string,
+    limit: SpendLimit | undefined,
+    asset: string,
+    amount: bigint,
+    toRaw: (value: string) => bigint,
+    format: (value: bigint) => string,
+  ) => {
+    if (!limit || amount === 0n) return;
+    if (limit.maxPerTransaction !== undefined && amount > toRaw(limit.maxPerTransaction)) {
+      throw violation(
+        `${format(amount)} exceeds the per-transaction cap of ${limit.maxPerTransaction}`,
+        {
+          rule: `${path}.maxPerTransaction`,
+          limit: limit.maxPerTransaction,
+          attempted: format(amount),
+        },
+      );
+    }
+    if (limit.maxPer24h !== undefined) {
+      const spent = spentInWindow(entries, network, asset, now);
+      if (spent + amount > toRaw(limit.maxPer24h)) {
+        throw violation(
+          `${format(amount)} would bring the last 24h total to ${format(spent + amount)}, over the cap of ${limit.maxPer24h}`,
+          {
+            rule: `${path}.maxPer24h`,
+            limit: limit.maxPer24h,
+            attempted: format(amount),
+            spentLast24h: format(spent),
+          },
+        );
+      }
+    }
+  };
+
+  if (intent.trxSun !== undefined) {
+    checkLimit(
+      "trx",
+      rules.trx,
+      "TRX",
+      BigInt(intent.trxSun),
+      (trx) => BigInt(utils.toSun(trx)),
+      (sun) => utils.fromSun(sun),
+    );
+  }
+  if (intent.token) {
+    const id = /^\d+$/.test(intent.token.id) ? intent.token.id : normalizeAddress(intent.token.id);
+    checkLimit(
+      `tokens.${id}`,
+      rules.tokens?.[id],
+      id,
+      BigInt(intent.token.amount),
+      (raw) => BigInt(raw),
+      (raw) => raw.toString(),
+    );
+  }
+}
+
+/**
+ * Check a transaction that is signed here but broadcast elsewhere. A signature is valid on every
+ * network, so the transaction must pass the policy of each configured network. Nothing is
+ * recorded; the spend counts once the transaction is broadcast.
+ */
+export async function checkSigningPolicy(intent: SpendIntent, now = Date.now()) {
+  const policy = await getSpendingPolicy();
+  for (const network of Object.keys(policy?.networks || {})) {
+    await checkSpendingPolicy(intent, network, now);
+  }
+}
+
+/**
+ * Record a sent write against the rolling 24h caps. Only assets with a cap are tracked.
+ */
+export async function recordSpend(intent: SpendIntent, network = "mainnet", now = Date.now()) {
+  const policy = await getSpendingPolicy();
+  const rules = policy && (policy.networks[network] || policy.networks["*"]);
+  if (!policy || !rules) {
+    return;
+  }
+
+  const entries = await loadLedger(policy);
+  if (intent.trxSun !== undefined && rules.trx?.maxPer24h && BigInt(intent.trxSun) > 0n) {
+    entries.push({ network, asset: "TRX", amount: BigInt(intent.trxSun).toString(), time: now });
+  }
+  if (intent.token) {
+    const id = /^\d+$/.test(intent.token.id) ? intent.token.id : normalizeAddress(intent.token.id);
+    if (rules.tokens?.[id]?.maxPer24h) {
+      entries.push({
+        network,
+        asset: id,
+        amount: BigInt(intent.token.amount).toString(),
+        time: now,
+      });
+    }
+  }
+
+  // Drop entries that no longer count towards any cap
+  ledger = entries.filter((entry) => entry.time > now - SPEND_WINDOW_MS);
+  if (policy.ledgerFile) {
+    // The in-memory history still counts the spend; a failed write must not hide a sent transaction
+    await writeFile(policy.ledgerFile, JSON.stringify(ledger)).catch(() => undefined);
+  }
+}
+
+/**
+ * Run a write under the spending policy: check it first, then record it once sent. While a policy
+ * is configured, writes run one at a time so concurrent calls cannot each pass the same 24h cap.
+ */
+export async function withSpendingPolicy<T>(
+  intent: SpendIntent,
+  network: string,
+  send: () => Promise<T>,
+): Promise<T> {
+  if (!(await getSpendingPolicy())) {
+    return send();
+  }
+  const run = queue.then(async () => {
+    await checkSpendingPolicy(intent, network);
+    const result = await send();
+    await recordSpend(intent, network);
+    return result;
+  });
+  queue = run.catch(() => undefined);
+  return run;
+}
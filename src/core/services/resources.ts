@@ -0,0 +1,189 @@
+import { getTronWeb } from "./clients.js";
+import { utils } from "./utils.js";
+
+/**
+ * Get the current Energy and Bandwidth unit prices (in Sun) and the network's maximum fee limit
+ */
+export async function getResourcePrices(network = "mainnet") {
+  const tronWeb = getTronWeb(network);
+  const parameters = await tronWeb.trx.getChainParameters();
+
+  const paramMap = new Map<string, number | undefined>();
+  for (const param of parameters) {
+    if (param.key) {
+      paramMap.set(param.key, param.value);
+    }
+  }
+
+  return {
+    energyPriceSun: paramMap.get("getEnergyFee") ?? 0, // Energy unit price (sun per unit)
+    bandwidthPriceSun: paramMap.get("getTransactionFee") ?? 0, // Bandwidth unit price (sun per byte)
+    maxFeeLimitSun: paramMap.get("getMaxFeeLimit"),
+    // Fees for activating a new account; fall back to the mainnet values so they are never 0
+    createAccountFeeSun: paramMap.get("getCreateAccountFee") ?? 100_000, // Burned when staked Bandwidth cannot cover the activation
+    createNewAccountFeeSun: paramMap.get("getCreateNewAccountFeeInSystemContract") ?? 1_000_000, // Always burned on activation
+  };
+}
+
+/**
+ * Resources a transaction needs. `createsAccount` marks a transfer that activates its recipient.
+ */
+export type ResourceRequirement = { energy?: number; bandwidth?: number; createsAccount?: boolean };
+
+/**
+ * Build a resource summary from raw getAccount / getAccountResources responses.
+ * Kept free of network calls so the arithmetic can be tested in isolation.
+ *
+ * A transaction's Bandwidth comes from a single pool: staked Bandwidth first, then the daily free
+ * Bandwidth. If neither pool covers the whole transaction, its full size is paid in TRX. Activating
+ * an account cannot use free Bandwidth and burns a fixed fee instead, on top of the activation fee.
+ */
+export function summarizeAccountResources(
+  account: any,
+  resources: any,
+  prices: {
+    energyPriceSun: number;
+    bandwidthPriceSun: number;
+    createAccountFeeSun?: number;
+    createNewAccountFeeSun?: number;
+  },
+  required: ResourceRequirement = {},
+  now = Date.now(),
+) {
+  const freeBandwidthLimit = Number(resources.freeNetLimit || 0);
+  const freeBandwidthUsed = Number(resources.freeNetUsed || 0);
+  const stakedBandwidthLimit = Number(resources.NetLimit || 0);
+  const stakedBandwidthUsed = Number(resources.NetUsed || 0);
+  const energyLimit = Number(resources.EnergyLimit || 0);
+  const energyUsed = Number(resources.EnergyUsed || 0);
+
+  const freeBandwidth = Math.max(0, freeBandwidthLimit - freeBandwidthUsed);
+  const stakedBandwidth = Math.max(0, stakedBandwidthLimit - stakedBandwidthUsed);
+  const availableBandwidth = freeBandwidth + stakedBandwidth;
+  const availableEnergy = Math.max(0, energyLimit - energyUsed);
+
+  // Stake 2.0 frozen balances; an entry without a type is BANDWIDTH
+  const frozen = { bandwidth: 0, energy: 0, tronPower: 0 };
+  for (const entry of account.frozenV2 || []) {
+    const amount = Number(entry.amount || 0);
+    if (entry.type === "ENERGY") frozen.energy += amount;
+    else if (entry.type === "TRON_POWER") frozen.tronPower += amount;
+    else frozen.bandwidth += amount;
+  }
+
+  const unfreezing = (account.unfrozenV2 || []).map((entry: any) => ({
+    resource: entry.type || "BANDWIDTH",
+    sun: Number(entry.unfreeze_amount || 0),
+    trx: utils.fromSun(Number(entry.unfreeze_amount || 0)),
+    expiresAt: new Date(Number(entry.unfreeze_expire_time || 0)).toISOString(),
+    withdrawable: Number(entry.unfreeze_expire_time || 0) <= now,
+  }));
+  const withdrawableSun = unfreezing
+    .filter((entry: any) => entry.withdrawable)
+    .reduce((sum: number, entry: any) => sum + entry.sun, 0);
+
+  const accountResource = account.account_resource || {};
+  const delegatedOut = {
+    energy: Number(accountResource.delegated_frozenV2_balance_for_energy || 0),
+    bandwidth: Number(account.delegated_frozenV2_balance_for_bandwidth || 0),
+  };
+  const delegatedIn = {
+    energy: Number(accountResource.acquired_delegated_frozenV2_balance_for_energy || 0),
+    bandwidth: Number(account.acquired_delegated_frozenV2_balance_for_bandwidth || 0),
+  };
+
+  const toAmount = (sun: number) => ({ sun, trx: utils.fromSun(sun) });
+
+  const missingEnergy = Math.max(0, (required.energy || 0) - availableEnergy);
+  const energyCostSun = missingEnergy * prices.energyPriceSun;
+
+  const requiredBandwidth = required.bandwidth || 0;
+  let bandwidthSource: "none" | "staked" | "free" | "burn" = "none";
+  let bandwidthCostSun = 0;
+  if (requiredBandwidth > 0 && stakedBandwidth >= requiredBandwidth) {
+    bandwidthSource = "staked";
+  } else if (
+    requiredBandwidth > 0 &&
+    !required.createsAccount &&
+    freeBandwidth >= requiredBandwidth
+  ) {
+    bandwidthSource = "free";
+  } else if (requiredBandwidth > 0) {
+    bandwidthSource = "burn";
+    bandwidthCostSun = required.createsAccount
+      ? (prices.createAccountFeeSun ?? 0)
+      : requiredBandwidth * prices.bandwidthPriceSun;
+  }
+  const missingBandwidth = bandwidthSource === "burn" ? requiredBandwidth : 0;
+  const activationCostSun = required.createsAccount ? (prices.createNewAccountFeeSun ?? 0) : 0;
+
+  return {
+    balance: toAmount(Number(account.balance || 0)),
+    bandwidth: {
+      free: { limit: freeBandwidthLimit, used: freeBandwidthUsed, available: freeBandwidth },
+      staked: {
+        limit: stakedBandwidthLimit,
+        used: stakedBandwidthUsed,
+        available: stakedBandwidth,
+      },
+      available: availableBandwidth,
+    },
+    energy: {
+      limit: energyLimit,
+      used: energyUsed,
+      available: availableEnergy,
+    },
+    tronPower: {
+      limit: Number(resources.tronPowerLimit || 0),
+      used: Number(resources.tronPowerUsed || 0),
+    },
+    frozen: {
+      bandwidth: toAmount(frozen.bandwidth),
+      energy: toAmount(frozen.energy),
+      tronPower: toAmount(frozen.tronPower),
+    },
+    delegated: {
+      out: { energy: toAmount(delegatedOut.energy), bandwidth: toAmount(delegatedOut.bandwidth) },
+      in: { energy: toAmount(delegatedIn.energy), bandwidth: toAmount(delegatedIn.bandwidth) },
+    },
+    unfreezing,
+    pendingWithdrawal: toAmount(withdrawableSun),
+    prices: {
+      energySun: prices.energyPriceSun,
+      bandwidthSun: prices.bandwidthPriceSun,
+    },
+    shortfall: {
+      energy: missingEnergy,
+      bandwidth: missingBandwidth,
+      bandwidthSource,
+      activationFee: toAmount(activationCostSun),
+      burnCost: toAmount(energyCostSun + bandwidthCostSun + activationCostSun),
+    },
+  };
+}
+
+/**
+ * Get Energy/Bandwidth usage and limits, staking state and the TRX cost of any missing resources
+ */
+export async function getAccountResourceSummary(
+  address: string,
+  required: ResourceRequirement = {},
+  network = "mainnet",
+) {
+  const tronWeb = getTronWeb(network);
+
+  try {
+    const [account, resources, prices] = await Promise.all([
+      tronWeb.trx.getAccount(address),
+      tronWeb.trx.getAccountResources(address),
+      getResourcePrices(network),
+    ]);
+
+    return {
+      address,
+      ...summarizeAccountResources(account, resources, prices, required),
+    };
+  } catch (error: any) {
+    throw new Error(`Failed to get account resources: ${error.message}`);
+  }
+}
@@ -0,0 +1,165 @@
+import { TronWeb, Trx, utils as tronWebUtils } from "tronweb";
+import { getRemoteSignerConfig } from "../config.js";
+import { getConfiguredWallet } from "./wallet.js";
+
+/**
+ * Signs on behalf of one account. The key may live in this process (createLocalSigner) or in an
+ * external service (createRemoteSigner).
+ */
+export interface Signer {
+  /** Base58 address of the signing account */
+  address: string;
+  /** Sign a transaction built by the TransactionBuilder; returns it with the signature appended */
+  signTransaction(transaction: any): Promise<any>;
+  /** Sign a hex message with the TRON message header */
+  signMessage(message: string): Promise<string>;
+  /** Sign TIP-712 typed data */
+  signTypedData(domain: object, types: object, value: object): Promise<string>;
+}
+
+/**
+ * TronWeb instance holding the key; signing never touches the network
+ */
+function getSigningTronWeb(privateKey: string) {
+  const apiKey = process.env.TRONGRID_API_KEY;
+  return new TronWeb({
+    fullHost: "https://api.trongrid.io", // Dummy host for signing
+    privateKey,
+    headers: apiKey ? { "TRON-PRO-API-KEY": apiKey } : undefined,
+  });
+}
+
+/**
+ * Signer backed by a private key held in this process
+ */
+export function createLocalSigner(privateKey: string): Signer {
+  const cleanKey = privateKey.replace(/^0x/, "");
+  const address = TronWeb.address.fromPrivateKey(cleanKey);
+  if (!address) {
+    throw new Error("Invalid private key");
+  }
+
+  return {
+    address,
+    signTransaction: async (transaction) =>
+      tronWebUtils.crypto.signTransaction(cleanKey, JSON.parse(JSON.stringify(transaction))),
+    // Note: TronWeb signing prefixes messages with the standard TRON message header
+    signMessage: async (message) => getSigningTronWeb(cleanKey).trx.sign(message),
+    signTypedData: async (domain, types, value) => {
+      const tronWeb = getSigningTronWeb(cleanKey);
+      // @ts-ignore - TronWeb types might be missing signTypedData
+      if (typeof tronWeb.trx._signTypedData === "function") {
+        // @ts-ignore
+        return await tronWeb.trx._signTypedData(domain, types, value);
+      }
+      throw new Error("signTypedData not supported by this TronWeb version or configuration");
+    },
+  };
+}
+
+/**
+ * Signer backed by an HTTP signing service. Each request is a JSON POST to `url`:
+ *
+ * - `{ kind: "transaction", address, txID, rawDataHex, transaction }`
+ * - `{ kind: "message", address, message }`
+ * - `{ kind: "typedData", address, domain, types, value }`
+ *
+ * The service answers `{ signature }` (hex). Signatures are checked against `address` before use,
+ * so a misconfigured service cannot make this process broadcast someone else's transaction.
+ */
+export function createRemoteSigner(options: {
+  url: string;
+  address: string;
+  token?: string; // Sent as a Bearer token
+  timeoutMs?: number;
+}): Signer {
+  if (!TronWeb.isAddress(options.address)) {
+    throw new Error(`Invalid remote signer address: ${options.address}`);
+  }
+  const address = TronWeb.address.fromHex(options.address);
+
+  const requestSignature = async (body: Record<string, unknown>): Promise<string> => {
+    let response: Response;
+    try {
+      response = await fetch(options.url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(options.token ? { Authorization: `Bearer ${options.token}` } : {}),
+        },
+        body: JSON.stringify({ ...body, address }),
+        signal: AbortSignal.timeout(options.timeoutMs ?? 30_000),
+      });
+    } catch (error: any) {
+      throw new Error(`Remote signer unreachable: ${error.message}`);
+    }
+
+    const result: any = await response.json().catch(() => undefined);
+    if (!response.ok) {
+      throw new Error(
+        `Remote signer refused to sign (HTTP ${response.status}): ${result?.error || response.statusText}`,
+      );
+    }
+    const signature = String(result?.signature || "").replace(/^0x/, "");
+    if (!/^[0-9a-fA-F]{130}$/.test(signature)) {
+      throw new Error("Remote signer returned no valid signature");
+    }
+    return signature;
+  };
+
+  const assertSignedBy = (valid: boolean) => {
+    if (!valid) {
+      throw new Error(`Remote signer returned a signature that was not made by ${address}`);
+    }
+  };
+
+  return {
+    address,
+    signTransaction: async (transaction) => {
+      const signature = await requestSignature({
+        kind: "transaction",
+        txID: transaction.txID,
+        rawDataHex: transaction.raw_data_hex,
+        transaction,
+      });
+      assertSignedBy(
+        // ecRecover returns the checksummed (mixed-case) hex address
+        tronWebUtils.crypto.ecRecover(transaction.txID, signature).toLowerCase() ===
+          TronWeb.address.toHex(address).toLowerCase(),
+      );
+      return { ...transaction, signature: [...(transaction.signature || []), signature] };
+    },
+    signMessage: async (message) => {
+      const signature = "0x" + (await requestSignature({ kind: "message", message }));
+      assertSignedBy(Trx.verifySignature(message, address, signature));
+      return signature;
+    },
+    signTypedData: async (domain, types, value) => {
+      const signature =
+        "0x" + (await requestSignature({ kind: "typedData", domain, types, value }));
+      assertSignedBy(Trx.verifyTypedData(domain, types as any, value, signature, address));
+      return signature;
+    },
+  };
+}
+
+/**
+ * The server's signer: the remote signing service when TRON_REMOTE_SIGNER_URL is set, otherwise
+ * the configured wallet's key
+ */
+export function getConfiguredSigner(): Signer {
+  const remote = getRemoteSignerConfig();
+  if (remote) {
+    return createRemoteSigner(remote);
+  }
+  return createLocalSigner(getConfiguredWallet().privateKey);
+}
+
+/**
+ * Accept a Signer or, for existing callers, a private key
+ */
+export function toSigner(signerOrPrivateKey: Signer | string): Signer {
+  return typeof signerOrPrivateKey === "string"
+    ? createLocalSigner(signerOrPrivateKey)
+    : signerOrPrivateKey;
+}
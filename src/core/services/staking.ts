@@ -0,0 +1,251 @@
+import { getTronWeb, getWallet } from "./clients.js";
+import { utils } from "./utils.js";
+import { signAndBroadcast } from "./transactions.js";
+import { toBase58Address } from "./address.js";
+import { PolicyViolationError, withSpendingPolicy } from "./policy.js";
+
+export type StakeResource = "BANDWIDTH" | "ENERGY";
+
+/**
+ * Stake TRX for Energy or Bandwidth (Stake 2.0)
+ */
+export async function freezeBalanceV2(
+  privateKey: string,
+  amount: string, // Amount in TRX (not Sun)
+  resource: StakeResource = "ENERGY",
+  network = "mainnet",
+) {
+  const tronWeb = getWallet(privateKey, network);
+
+  try {
+    const amountSun = Number(utils.toSun(amount));
+    const tx = await tronWeb.transactionBuilder.freezeBalanceV2(
+      amountSun,
+      resource,
+      tronWeb.defaultAddress.base58 as string,
+    );
+    return await withSpendingPolicy({ action: "freeze_balance_v2" }, network, () =>
+      signAndBroadcast(tronWeb, tx),
+    );
+  } catch (error: any) {
+    if (error instanceof PolicyViolationError) throw error;
+    throw new Error(`Failed to freeze balance: ${error.message}`);
+  }
+}
+
+/**
+ * Unstake TRX (Stake 2.0). Unstaked TRX becomes withdrawable after the unbonding period.
+ */
+export async function unfreezeBalanceV2(
+  privateKey: string,
+  amount: string, // Amount in TRX (not Sun)
+  resource: StakeResource = "ENERGY",
+  network = "mainnet",
+) {
+  const tronWeb = getWallet(privateKey, network);
+
+  try {
+    const amountSun = Number(utils.toSun(amount));
+    const tx = await tronWeb.transactionBuilder.unfreezeBalanceV2(
+      amountSun,
+      resource,
+      tronWeb.defaultAddress.base58 as string,
+    );
+    return await withSpendingPolicy({ action: "unfreeze_balance_v2" }, network, () =>
+      signAndBroadcast(tronWeb, tx),
+    );
+  } catch (error: any) {
+    if (error instanceof PolicyViolationError) throw error;
+    throw new Error(`Failed to unfreeze balance: ${error.message}`);
+  }
+}
+
+/**
+ * Withdraw unstaked TRX whose unbonding period has expired
+ */
+export async function withdrawExpireUnfreeze(privateKey: string, network = "mainnet") {
+  const tronWeb = getWallet(privateKey, network);
+
+  try {
+    const tx = await tronWeb.transactionBuilder.withdrawExpireUnfreeze(
+      tronWeb.defaultAddress.base58 as string,
+    );
+    return await withSpendingPolicy({ action: "withdraw_expire_unfreeze" }, network, () =>
+      signAndBroadcast(tronWeb, tx),
+    );
+  } catch (error: any) {
+    if (error instanceof PolicyViolationError) throw error;
+    throw new Error(`Failed to withdraw expired unfreeze: ${error.message}`);
+  }
+}
+
+/**
+ * Cancel all pending unstakes. Expired amounts are withdrawn, the rest is re-staked.
+ */
+export async function cancelAllUnfreezeV2(privateKey: string, network = "mainnet") {
+  const tronWeb = getWallet(privateKey, network);
+
+  try {
+    const tx = await tronWeb.transactionBuilder.cancelUnfreezeBalanceV2(
+      tronWeb.defaultAddress.base58 as string,
+    );
+    return await withSpendingPolicy({ action: "cancel_all_unfreeze_v2" }, network, () =>
+      signAndBroadcast(tronWeb, tx),
+    );
+  } catch (error: any) {
+    if (error instanceof PolicyViolationError) throw error;
+    throw new Error(`Failed to cancel unfreeze: ${error.message}`);
+  }
+}
+
+/**
+ * Delegate staked Energy or Bandwidth to another account
+ */
+export async function delegateResource(
+  privateKey: string,
+  params: {
+    receiver: string;
+    amount: string; // Amount of staked TRX to delegate (not Sun)
+    resource?: StakeResource;
+    lock?: boolean;
+    lockPeriod?: number; // Lock period in blocks (3 seconds each)
+  },
+  network = "mainnet",
+) {
+  const tronWeb = getWallet(privateKey, network);
+  const { receiver, amount, resource = "ENERGY", lock = false, lockPeriod } = params;
+
+  try {
+    const amountSun = Number(utils.toSun(amount));
+    const tx = await tronWeb.transactionBuilder.delegateResource(
+      amountSun,
+      receiver,
+      resource,
+      tronWeb.defaultAddress.base58 as string,
+      lock,
+      lock ? lockPeriod : undefined,
+    );
+    return await withSpendingPolicy(
+      { action: "delegate_resource", recipient: receiver },
+      network,
+      () => signAndBroadcast(tronWeb, tx),
+    );
+  } catch (error: any) {
+    if (error instanceof PolicyViolationError) throw error;
+    throw new Error(`Failed to delegate resource: ${error.message}`);
+  }
+}
+
+/**
+ * Reclaim Energy or Bandwidth previously delegated to another account
+ */
+export async function undelegateResource(
+  privateKey: string,
+  params: {
+    receiver: string;
+    amount: string; // Amount of delegated TRX to reclaim (not Sun)
+    resource?: StakeResource;
+  },
+  network = "mainnet",
+) {
+  const tronWeb = getWallet(privateKey, network);
+  const { receiver, amount, resource = "ENERGY" } = params;
+
+  try {
+    const amountSun = Number(utils.toSun(amount));
+    const tx = await tronWeb.transactionBuilder.undelegateResource(
+      amountSun,
+      receiver,
+      resource,
+      tronWeb.defaultAddress.base58 as string,
+    );
+    return await withSpendingPolicy({ action: "undelegate_resource" }, network, () =>
+      signAndBroadcast(tronWeb, tx),
+    );
+  } catch (error: any) {
+    if (error instanceof PolicyViolationError) throw error;
+    throw new Error(`Failed to undelegate resource: ${error.message}`);
+  }
+}
+
+/**
+ * Convert an amount of staked Sun into the Energy/Bandwidth units it currently yields.
+ * The network shares its total daily limit pro rata over the total staked weight (in TRX).
+ */
+export function sunToResourceUnits(sun: number, totalLimit?: number, totalWeight?: number): number {
+  if (!totalLimit || !totalWeight) return 0;
+  return Math.floor((sun / 1_000_000) * (totalLimit / totalWeight));
+}
+
+/**
+ * List the resource delegations an address has made and received (Stake 2.0)
+ */
+export async function getDelegatedResources(address: string, network = "mainnet") {
+  const tronWeb = getTronWeb(network);
+
+  try {
+    const [index, resources] = await Promise.all([
+      tronWeb.trx.getDelegatedResourceAccountIndexV2(address),
+      tronWeb.trx.getAccountResources(address),
+    ]);
+
+    const toAccounts: string[] = (index as any)?.toAccounts || [];
+    const fromAccounts: string[] = (index as any)?.fromAccounts || [];
+
+    const formatDelegation = (entry: any) => {
+      const energySun = Number(entry.frozen_balance_for_energy || 0);
+      const bandwidthSun = Number(entry.frozen_balance_for_bandwidth || 0);
+      return {
+        from: toBase58Address(entry.from),
+        to: toBase58Address(entry.to),
+        energy: energySun
+          ? {
+              sun: energySun,
+              trx: utils.fromSun(energySun),
+              units: sunToResourceUnits(
+                energySun,
+                resources.TotalEnergyLimit,
+                resources.TotalEnergyWeight,
+              ),
+              lockExpiresAt: entry.expire_time_for_energy
+                ? new Date(entry.expire_time_for_energy).toISOString()
+                : undefined,
+            }
+          : undefined,
+        bandwidth: bandwidthSun
+          ? {
+              sun: bandwidthSun,
+              trx: utils.fromSun(bandwidthSun),
+              units: sunToResourceUnits(
+                bandwidthSun,
+                resources.TotalNetLimit,
+                resources.TotalNetWeight,
+              ),
+              lockExpiresAt: entry.expire_time_for_bandwidth
+                ? new Date(entry.expire_time_for_bandwidth).toISOString()
+                : undefined,
+            }
+          : undefined,
+      };
+    };
+
+    const fetchDelegations = async (from: string, to: string) => {
+      const result: any = await tronWeb.trx.getDelegatedResourceV2(from, to);
+      const entries = result?.delegatedResource || [];
+      return (Array.isArray(entries) ? entries : [entries]).map(formatDelegation);
+    };
+
+    const [outgoing, incoming] = await Promise.all([
+      Promise.all(toAccounts.map((to) => fetchDelegations(address, to))),
+      Promise.all(fromAccounts.map((from) => fetchDelegations(from, address))),
+    ]);
+
+    return {
+      address,
+      delegatedTo: outgoing.flat(),
+      delegatedFrom: incoming.flat(),
+    };
+  } catch (error: any) {
+    throw new Error(`Failed to get delegated resources: ${error.message}`);
+  }
+}
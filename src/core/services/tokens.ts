@@ -1,4 +1,6 @@
 import { getTronWeb } from "./clients.js";
+import { toBase58Address } from "./address.js";
+import { utils } from "./utils.js";
 
 /**
  * Get TRC20 token information
@@ -78,7 +80,15 @@ export async function getTRC721TokenMetadata(
 }
 
 /**
- * Get TRC1155 token URI
+ * Replace the `{id}` placeholder of a TRC1155 URI with the token ID as the standard defines it:
+ * lowercase hex, zero-padded to 64 characters, without a 0x prefix
+ */
+export function substituteTokenId(uri: string, tokenId: bigint | string): string {
+  return uri.replace(/\{id\}/g, BigInt(tokenId).toString(16).padStart(64, "0"));
+}
+
+/**
+ * Get TRC1155 token URI, with the `{id}` placeholder substituted
  */
 export async function getTRC1155TokenURI(
   tokenAddress: string,
@@ -90,8 +100,57 @@ export async function getTRC1155TokenURI(
   try {
     const contract = await tronWeb.contract().at(tokenAddress);
     const uri = await contract.methods.uri(tokenId.toString()).call();
-    return uri;
+    return substituteTokenId(uri, tokenId);
   } catch (error: any) {
     throw new Error(`Failed to get TRC1155 URI: ${error.message}`);
   }
 }
+
+/**
+ * Normalize a TRC10 asset record returned by the node
+ */
+function formatTRC10Token(token: any) {
+  const precision = Number(token.precision || 0);
+  const totalSupply = BigInt(token.total_supply || 0);
+  return {
+    id: String(token.id),
+    name: token.name,
+    abbr: token.abbr,
+    description: token.description,
+    url: token.url,
+    owner: token.owner_address ? toBase58Address(token.owner_address) : undefined,
+    precision,
+    totalSupply,
+    formattedTotalSupply: utils.formatUnits(totalSupply, precision),
+    startTime: token.start_time ? new Date(token.start_time).toISOString() : undefined,
+    endTime: token.end_time ? new Date(token.end_time).toISOString() : undefined,
+  };
+}
+
+/**
+ * Get TRC10 token information by asset ID
+ */
+export async function getTRC10TokenInfo(tokenId: string, network = "mainnet") {
+  const tronWeb = getTronWeb(network);
+
+  try {
+    const token = await tronWeb.trx.getTokenByID(tokenId);
+    return formatTRC10Token(token);
+  } catch (error: any) {
+    throw new Error(`Failed to get TRC10 token info: ${error.message}`);
+  }
+}
+
+/**
+ * Find TRC10 tokens by name. Names are not unique, so every match is returned.
+ */
+export async function findTRC10TokensByName(name: string, network = "mainnet") {
+  const tronWeb = getTronWeb(network);
+
+  try {
+    const result: any = await tronWeb.trx.getTokenListByName(name);
+    return (Array.isArray(result) ? result : [result]).map(formatTRC10Token);
+  } catch (error: any) {
+    throw new Error(`Failed to find TRC10 token: ${error.message}`);
+  }
+}
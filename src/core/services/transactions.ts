@@ -1,4 +1,10 @@
 import { getTronWeb } from "./clients.js";
+import { decodeEventLog, decodeRevertData, DecodedRevert } from "./abi.js";
+import { COMMON_EVENT_ABI } from "./event-abi.js";
+import { fetchContractABI } from "./contracts.js";
+import { toBase58Address } from "./address.js";
+import { parseSignedTransactionHex } from "./decoder.js";
+import { PolicyViolationError, transactionIntent, withSpendingPolicy } from "./policy.js";
 
 type Transaction = any;
 type TransactionInfo = any;
@@ -24,6 +30,199 @@ export async function getTransactionInfo(
   return info;
 }
 
+/**
+ * Sign a transaction built by the TransactionBuilder and broadcast it
+ */
+export async function signAndBroadcast(tronWeb: any, transaction: any): Promise<string> {
+  const signedTx = await tronWeb.trx.sign(transaction);
+  return broadcastSignedTransaction(tronWeb, signedTx);
+}
+
+/**
+ * Broadcast an already signed transaction and return its ID
+ */
+export async function broadcastSignedTransaction(tronWeb: any, signedTx: any): Promise<string> {
+  const result = await tronWeb.trx.sendRawTransaction(signedTx);
+
+  if (result && result.result) {
+    return result.transaction?.txID || signedTx.txID;
+  }
+
+  const message = result?.message ? decodeBroadcastMessage(result.message) : undefined;
+  throw new Error(`Broadcast failed: ${message || result?.code || JSON.stringify(result)}`);
+}
+
+/**
+ * Broadcast a transaction signed elsewhere, given as JSON or as serialized protobuf hex
+ */
+export async function broadcastTransaction(
+  signed: Record<string, any> | string,
+  network = "mainnet",
+): Promise<string> {
+  const tronWeb = getTronWeb(network);
+
+  try {
+    if (typeof signed !== "string") {
+      if (!Array.isArray(signed.signature) || signed.signature.length === 0) {
+        throw new Error("Transaction is not signed");
+      }
+      return await withSpendingPolicy(
+        transactionIntent("broadcast_transaction", signed),
+        network,
+        () => broadcastSignedTransaction(tronWeb, signed),
+      );
+    }
+
+    const hex = signed.replace(/^0x/, "");
+    return await withSpendingPolicy(
+      transactionIntent("broadcast_transaction", parseSignedTransactionHex(hex)),
+      network,
+      async () => {
+        const result: any = await tronWeb.trx.sendHexTransaction(hex);
+        if (result && result.result) {
+          return result.txid || result.transaction?.txID;
+        }
+        const message = result?.message ? decodeBroadcastMessage(result.message) : undefined;
+        throw new Error(`Broadcast failed: ${message || result?.code || JSON.stringify(result)}`);
+      },
+    );
+  } catch (error: any) {
+    if (error instanceof PolicyViolationError) throw error;
+    throw new Error(`Failed to broadcast transaction: ${error.message}`);
+  }
+}
+
+/**
+ * Broadcast errors from the full node come back as hex-encoded strings
+ */
+function decodeBroadcastMessage(message: string): string {
+  if (/^[0-9a-fA-F]+$/.test(message) && message.length % 2 === 0) {
+    return Buffer.from(message, "hex").toString("utf8");
+  }
+  return message;
+}
+
+// Human-readable descriptions of the contract result codes in a transaction receipt
+const CONTRACT_RESULT_DESCRIPTIONS: Record<string, string> = {
+  REVERT: "Contract execution reverted",
+  OUT_OF_ENERGY:
+    "Ran out of energy: the fee limit was too low or the account could not burn enough TRX",
+  OUT_OF_TIME: "Execution exceeded the maximum CPU time",
+  BAD_JUMP_DESTINATION: "Invalid jump destination",
+  ILLEGAL_OPERATION: "Illegal operation (invalid opcode)",
+  STACK_TOO_SMALL: "Stack underflow",
+  STACK_TOO_LARGE: "Stack overflow",
+  JVM_STACK_OVER_FLOW: "Call depth limit exceeded",
+  TRANSFER_FAILED: "TRX or token transfer inside the contract failed",
+  INVALID_CODE: "Invalid contract code",
+  UNKNOWN: "Unknown execution error",
+};
+
+/**
+ * Decode why a transaction failed from its transaction info (receipt).
+ * resMessage is hex-encoded and contractResult holds the raw revert data.
+ */
+export function decodeTransactionFailure(
+  info: TransactionInfo,
+  abi: any[] = [],
+): { failed: boolean; failureReason?: string; revert?: DecodedRevert; resMessage?: string } {
+  const receiptResult: string | undefined = info?.receipt?.result;
+  const failed =
+    info?.result === "FAILED" || (receiptResult !== undefined && receiptResult !== "SUCCESS");
+  if (!failed) {
+    return { failed: false };
+  }
+
+  const resMessage = info.resMessage
+    ? Buffer.from(info.resMessage, "hex").toString("utf8")
+    : undefined;
+  const revert = decodeRevertData(info.contractResult?.[0], abi);
+  const description = receiptResult ? CONTRACT_RESULT_DESCRIPTIONS[receiptResult] : undefined;
+
+  const failureReason =
+    (revert && revert.type !== "Unknown" ? revert.reason : undefined) ||
+    (receiptResult && receiptResult !== "REVERT" ? description : undefined) ||
+    resMessage ||
+    revert?.reason ||
+    description ||
+    "Transaction failed";
+
+  return { failed: true, failureReason, revert, resMessage };
+}
+
+/**
+ * Explain a failed transaction, resolving custom errors against the supplied ABI or the
+ * called contract's on-chain ABI
+ */
+export async function explainTransactionFailure(
+  info: TransactionInfo,
+  abi?: any[],
+  network = "mainnet",
+) {
+  let errorAbi = abi;
+  if (!errorAbi && info?.contract_address && info?.contractResult?.[0]) {
+    try {
+      errorAbi = await fetchContractABI(toBase58Address(info.contract_address), network);
+    } catch (_e) {
+      // Unverified contract or no ABI on chain; built-in errors can still be decoded
+    }
+  }
+  return decodeTransactionFailure(info, errorAbi || []);
+}
+
+/**
+ * Decode the event logs of a transaction. Each log's ABI is taken from the caller-supplied map
+ * (keyed by Base58 or hex contract address), then the contract's on-chain ABI, then the built-in
+ * table of common TRC20/TRC721/TRC1155 events.
+ */
+export async function decodeTransactionLogs(
+  info: TransactionInfo,
+  abis: Record<string, any[]> = {},
+  network = "mainnet",
+) {
+  const onChainAbis = new Map<string, Promise<any[] | undefined>>();
+  const getOnChainAbi = (address: string) => {
+    if (!onChainAbis.has(address)) {
+      onChainAbis.set(
+        address,
+        fetchContractABI(address, network).catch(() => undefined),
+      );
+    }
+    return onChainAbis.get(address)!;
+  };
+
+  const logs: any[] = info?.log || [];
+  return Promise.all(
+    logs.map(async (log, index) => {
+      const hexAddress = log.address.length === 40 ? "41" + log.address : log.address;
+      const address = toBase58Address(hexAddress);
+
+      const supplied = abis[address] || abis[hexAddress] || abis["0x" + log.address];
+      const candidates: Array<[string, any[] | undefined]> = [
+        ["supplied", supplied],
+        ["contract", supplied ? undefined : await getOnChainAbi(address)],
+        ["builtin", COMMON_EVENT_ABI],
+      ];
+
+      for (const [source, abi] of candidates) {
+        const decoded = abi ? decodeEventLog(log, abi) : undefined;
+        if (decoded) {
+          return {
+            index,
+            address,
+            event: decoded.name,
+            signature: decoded.signature,
+            args: decoded.args,
+            abiSource: source,
+          };
+        }
+      }
+
+      return { index, address, event: undefined, topics: log.topics, data: log.data };
+    }),
+  );
+}
+
 // Alias for tools expecting 'receipt'
 export const getTransactionReceipt = getTransactionInfo;
 
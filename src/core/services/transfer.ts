@@ -1,51 +1,153 @@
-import { getWallet } from "./clients.js";
+import { getTronWeb, getWallet } from "./clients.js";
 import { utils } from "./utils.js";
+import { getAccountResourceSummary } from "./resources.js";
+import { broadcastSignedTransaction, signAndBroadcast } from "./transactions.js";
+import { getTRC10Balance } from "./balance.js";
+import { getTRC10TokenInfo } from "./tokens.js";
+import { TRC1155_ABI } from "./nft-abi.js";
+import { contractCallIntent, PolicyViolationError, withSpendingPolicy } from "./policy.js";
+import { Signer, toSigner } from "./signer.js";
+
+// Bytes a signed transaction occupies beyond its raw_data: signature, protobuf framing and the
+// result field the network reserves, used to estimate Bandwidth before signing
+export const SIGNED_TX_OVERHEAD_BYTES = 134;
+
+// Minimal ABI used to estimate TRC20 transfers when the token's on-chain ABI is not needed
+export const TRC20_TRANSFER_ABI = [
+  {
+    type: "function",
+    name: "transfer",
+    inputs: [
+      { name: "to", type: "address" },
+      { name: "value", type: "uint256" },
+    ],
+    outputs: [{ name: "", type: "bool" }],
+    stateMutability: "nonpayable",
+  },
+];
 
 /**
- * Transfer TRX to an address
+ * Transfer TRX to an address, signed by `signer` (which may be a remote signing service)
  */
 export async function transferTRX(
-  privateKey: string,
+  signer: Signer | string, // Signer, or a private key
   to: string,
   amount: string, // Amount in TRX (not Sun)
   network = "mainnet",
 ) {
-  const tronWeb = getWallet(privateKey, network);
+  const tronWeb = getTronWeb(network);
+  const account = toSigner(signer);
 
   // Convert TRX to Sun
   const amountSun = utils.toSun(amount as any);
 
-  const tx = await tronWeb.trx.sendTransaction(to, amountSun as any);
+  return withSpendingPolicy(
+    { action: "transfer_trx", recipient: to, trxSun: amountSun },
+    network,
+    async () => {
+      const tx = await tronWeb.transactionBuilder.sendTrx(to, Number(amountSun), account.address);
+      return broadcastSignedTransaction(tronWeb, await account.signTransaction(tx));
+    },
+  );
+}
 
-  // If result is just true/false (older TronWeb), handle it?
-  // Newer TronWeb returns transaction object usually.
-  if ((tx as any).result === true && (tx as any).transaction) {
-    return (tx as any).transaction.txID;
-  }
-  // If it returns the tx object directly
-  if ((tx as any).txID) {
-    return (tx as any).txID;
-  }
+/**
+ * Simulate a TRX transfer without signing or broadcasting it. Builds the transaction to size its
+ * Bandwidth and checks the sender can cover the amount plus any TRX burned for missing Bandwidth
+ * and for activating a recipient that does not exist yet.
+ */
+export async function simulateTRXTransfer(
+  from: string,
+  to: string,
+  amount: string, // Amount in TRX (not Sun)
+  network = "mainnet",
+) {
+  const tronWeb = getTronWeb(network);
+
+  try {
+    const amountSun = Number(utils.toSun(amount));
+    const tx = await tronWeb.transactionBuilder.sendTrx(to, amountSun, from);
+    const bandwidth = tx.raw_data_hex.length / 2 + SIGNED_TX_OVERHEAD_BYTES;
+
+    // Sending to an account that does not exist yet activates it, which costs extra TRX
+    const recipient = await tronWeb.trx.getAccount(to);
+    const activatesRecipient = !recipient || Object.keys(recipient).length === 0;
+    const summary = await getAccountResourceSummary(
+      from,
+      { bandwidth, createsAccount: activatesRecipient },
+      network,
+    );
+
+    const feeSun = summary.shortfall.burnCost.sun;
+    const balanceSun = summary.balance.sun;
+    const success = balanceSun >= amountSun + feeSun;
 
-  throw new Error(`Transaction failed: ${JSON.stringify(tx)}`);
+    return {
+      success,
+      revertReason: success
+        ? undefined
+        : `Insufficient balance: ${summary.balance.trx} TRX available, ${utils.fromSun(amountSun + feeSun)} TRX required`,
+      bandwidthUsed: bandwidth,
+      estimatedFee: { sun: feeSun, trx: utils.fromSun(feeSun) },
+      activatesRecipient,
+      activationFee: summary.shortfall.activationFee,
+      balanceAfter: success
+        ? {
+            sun: balanceSun - amountSun - feeSun,
+            trx: utils.fromSun(balanceSun - amountSun - feeSun),
+          }
+        : undefined,
+    };
+  } catch (error: any) {
+    throw new Error(`Simulation failed: ${error.message}`);
+  }
 }
 
 /**
- * Transfer TRC20 tokens
+ * Transfer TRC20 tokens, signed by `signer` (which may be a remote signing service)
  */
 export async function transferTRC20(
   tokenAddress: string,
   to: string,
   amount: string, // Raw amount (accounting for decimals)
-  privateKey: string,
+  signer: Signer | string, // Signer, or a private key
   network = "mainnet",
+  feeLimit?: number, // Maximum TRX to burn for energy (in Sun)
 ) {
-  const tronWeb = getWallet(privateKey, network);
+  const tronWeb = getTronWeb(network);
+  const account = toSigner(signer);
 
   try {
     const contract = await tronWeb.contract().at(tokenAddress);
     // TRC20 transfer(to, amount)
-    const txId = await contract.methods.transfer(to, amount).send();
+    const txId = await withSpendingPolicy(
+      {
+        action: "transfer_trc20",
+        recipient: to,
+        contract: tokenAddress,
+        token: { id: tokenAddress, amount },
+      },
+      network,
+      async () => {
+        const result = await tronWeb.transactionBuilder.triggerSmartContract(
+          tokenAddress,
+          "transfer(address,uint256)",
+          feeLimit ? { feeLimit } : {},
+          [
+            { type: "address", value: to },
+            { type: "uint256", value: amount },
+          ],
+          account.address,
+        );
+        if (!result?.result?.result) {
+          throw new Error(`Failed to build transfer: ${JSON.stringify(result?.result)}`);
+        }
+        return broadcastSignedTransaction(
+          tronWeb,
+          await account.signTransaction(result.transaction),
+        );
+      },
+    );
 
     // Fetch token info for return
     const symbol = await contract.methods.symbol().call();
@@ -68,10 +170,182 @@ export async function transferTRC20(
       },
     };
   } catch (error: any) {
+    if (error instanceof PolicyViolationError) throw error;
     throw new Error(`Failed to transfer TRC20: ${error.message}`);
   }
 }
 
+/**
+ * Transfer TRC10 tokens
+ */
+export async function transferTRC10(
+  tokenId: string,
+  to: string,
+  amount: string, // Raw amount (accounting for precision)
+  privateKey: string,
+  network = "mainnet",
+) {
+  const tronWeb = getWallet(privateKey, network);
+
+  try {
+    const tx = await tronWeb.transactionBuilder.sendToken(
+      to,
+      utils.toSafeInteger(amount),
+      tokenId,
+      tronWeb.defaultAddress.base58 as string,
+    );
+    const txHash = await withSpendingPolicy(
+      { action: "transfer_trc10", recipient: to, token: { id: tokenId, amount } },
+      network,
+      () => signAndBroadcast(tronWeb, tx),
+    );
+    const token = await getTRC10TokenInfo(tokenId, network);
+
+    return {
+      txHash,
+      amount: {
+        raw: amount,
+        formatted: utils.formatUnits(amount, token.precision),
+      },
+      token: { id: token.id, name: token.name, abbr: token.abbr, precision: token.precision },
+    };
+  } catch (error: any) {
+    if (error instanceof PolicyViolationError) throw error;
+    throw new Error(`Failed to transfer TRC10: ${error.message}`);
+  }
+}
+
+/**
+ * Simulate a TRC10 transfer without signing or broadcasting it. Checks the sender's token balance
+ * and the TRX burned for any missing Bandwidth and for activating a new recipient.
+ */
+export async function simulateTRC10Transfer(
+  from: string,
+  to: string,
+  tokenId: string,
+  amount: string, // Raw amount (accounting for precision)
+  network = "mainnet",
+) {
+  const tronWeb = getTronWeb(network);
+
+  try {
+    const tx = await tronWeb.transactionBuilder.sendToken(
+      to,
+      utils.toSafeInteger(amount),
+      tokenId,
+      from,
+    );
+    const bandwidth = tx.raw_data_hex.length / 2 + SIGNED_TX_OVERHEAD_BYTES;
+
+    const recipient = await tronWeb.trx.getAccount(to);
+    const activatesRecipient = !recipient || Object.keys(recipient).length === 0;
+    const [summary, balance] = await Promise.all([
+      getAccountResourceSummary(from, { bandwidth, createsAccount: activatesRecipient }, network),
+      getTRC10Balance(from, tokenId, network),
+    ]);
+
+    const feeSun = summary.shortfall.burnCost.sun;
+    const hasTokens = balance.raw >= BigInt(amount);
+    const hasFee = summary.balance.sun >= feeSun;
+
+    return {
+      success: hasTokens && hasFee,
+      revertReason: !hasTokens
+        ? `Insufficient token balance: ${balance.formatted} ${balance.token.abbr || balance.token.name} available`
+        : !hasFee
+          ? `Insufficient TRX for fees: ${summary.balance.trx} TRX available, ${utils.fromSun(feeSun)} TRX required`
+          : undefined,
+      bandwidthUsed: bandwidth,
+      estimatedFee: { sun: feeSun, trx: utils.fromSun(feeSun) },
+      activatesRecipient,
+      token: balance.token,
+      amount: { raw: amount, formatted: utils.formatUnits(amount, balance.token.precision) },
+    };
+  } catch (error: any) {
+    throw new Error(`Simulation failed: ${error.message}`);
+  }
+}
+
+/**
+ * Transfer TRC1155 tokens from the wallet with safeTransferFrom
+ */
+export async function transferTRC1155(
+  privateKey: string,
+  params: {
+    contractAddress: string;
+    to: string;
+    tokenId: string;
+    amount: string;
+    data?: string; // Hex data forwarded to the recipient's onERC1155Received hook
+    feeLimit?: number; // Maximum TRX to burn for energy (in Sun)
+  },
+  network = "mainnet",
+) {
+  const tronWeb = getWallet(privateKey, network);
+  const from = tronWeb.defaultAddress.base58 as string;
+
+  try {
+    const contract = tronWeb.contract(TRC1155_ABI, params.contractAddress);
+    const txHash = await withSpendingPolicy(
+      { action: "transfer_trc1155", recipient: params.to, contract: params.contractAddress },
+      network,
+      () =>
+        contract.methods
+          .safeTransferFrom(from, params.to, params.tokenId, params.amount, params.data || "0x")
+          .send(params.feeLimit ? { feeLimit: params.feeLimit } : {}),
+    );
+    return { txHash, from };
+  } catch (error: any) {
+    if (error instanceof PolicyViolationError) throw error;
+    throw new Error(`Failed to transfer TRC1155: ${error.message}`);
+  }
+}
+
+/**
+ * Transfer several TRC1155 token IDs from the wallet in one safeBatchTransferFrom call
+ */
+export async function batchTransferTRC1155(
+  privateKey: string,
+  params: {
+    contractAddress: string;
+    to: string;
+    tokenIds: string[];
+    amounts: string[];
+    data?: string; // Hex data forwarded to the recipient's onERC1155BatchReceived hook
+    feeLimit?: number; // Maximum TRX to burn for energy (in Sun)
+  },
+  network = "mainnet",
+) {
+  if (params.tokenIds.length !== params.amounts.length) {
+    throw new Error("tokenIds and amounts must have the same length");
+  }
+
+  const tronWeb = getWallet(privateKey, network);
+  const from = tronWeb.defaultAddress.base58 as string;
+
+  try {
+    const contract = tronWeb.contract(TRC1155_ABI, params.contractAddress);
+    const txHash = await withSpendingPolicy(
+      { action: "batch_transfer_trc1155", recipient: params.to, contract: params.contractAddress },
+      network,
+      () =>
+        contract.methods
+          .safeBatchTransferFrom(
+            from,
+            params.to,
+            params.tokenIds,
+            params.amounts,
+            params.data || "0x",
+          )
+          .send(params.feeLimit ? { feeLimit: params.feeLimit } : {}),
+    );
+    return { txHash, from };
+  } catch (error: any) {
+    if (error instanceof PolicyViolationError) throw error;
+    throw new Error(`Failed to batch transfer TRC1155: ${error.message}`);
+  }
+}
+
 /**
  * Approve token spending
  */
@@ -86,9 +360,14 @@ export async function approveTRC20(
 
   try {
     const contract = await tronWeb.contract().at(tokenAddress);
-    const txId = await contract.methods.approve(spenderAddress, amount).send();
+    const txId = await withSpendingPolicy(
+      contractCallIntent("approve_trc20", tokenAddress, "approve", [spenderAddress, amount]),
+      network,
+      () => contract.methods.approve(spenderAddress, amount).send(),
+    );
     return txId;
   } catch (error: any) {
+    if (error instanceof PolicyViolationError) throw error;
     throw new Error(`Failed to approve TRC20: ${error.message}`);
   }
 }
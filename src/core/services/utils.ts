@@ -27,6 +27,31 @@ export const utils = {
   formatJson: (obj: unknown): string =>
     JSON.stringify(obj, (_, value) => (typeof value === "bigint" ? value.toString() : value), 2),
 
+  // Format an integer amount with the given number of decimals, e.g. (1500000n, 6) -> "1.5"
+  formatUnits: (value: bigint | number | string, decimals: number): string => {
+    const raw = BigInt(value);
+    const negative = raw < 0n;
+    const digits = (negative ? -raw : raw).toString().padStart(decimals + 1, "0");
+    const whole = digits.slice(0, digits.length - decimals);
+    const fraction = digits.slice(digits.length - decimals).replace(/0+$/, "");
+    return (negative ? "-" : "") + whole + (fraction ? "." + fraction : "");
+  },
+
+  // Parse a raw integer amount for TronWeb builders that only take numbers, refusing values
+  // above Number.MAX_SAFE_INTEGER that would be silently rounded
+  toSafeInteger: (value: string | number, name = "amount"): number => {
+    const text = String(value).trim();
+    if (!/^\d+$/.test(text)) {
+      throw new Error(`${name} must be a non-negative integer, got "${value}"`);
+    }
+    if (BigInt(text) > BigInt(Number.MAX_SAFE_INTEGER)) {
+      throw new Error(
+        `${name} ${text} exceeds the largest supported value ${Number.MAX_SAFE_INTEGER}`,
+      );
+    }
+    return Number(text);
+  },
+
   // Format a number with commas
   formatNumber: (value: number | string): string => {
     return Number(value).toLocaleString();
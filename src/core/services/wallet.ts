@@ -1,7 +1,11 @@
-import { TronWeb } from "tronweb";
+import { TronWeb, utils as tronWebUtils } from "tronweb";
 import * as bip39 from "@scure/bip39";
 import { wordlist } from "@scure/bip39/wordlists/english.js";
 import { HDKey } from "@scure/bip32";
+import { readFileSync } from "node:fs";
+import { getRemoteSignerConfig, getWatchAddress, isReadOnlyMode } from "../config.js";
+import { loadKeystoreFile } from "./keystore.js";
+import { getConfiguredSigner } from "./signer.js";
 
 /**
  * Get the configured account from environment (private key or mnemonic)
@@ -10,6 +14,8 @@ import { HDKey } from "@scure/bip32";
  * - TRON_PRIVATE_KEY: Hex private key (with or without 0x prefix)
  * - TRON_MNEMONIC: BIP-39 mnemonic phrase (12 or 24 words)
  * - TRON_ACCOUNT_INDEX: Optional account index for HD wallet derivation (default: 0)
+ * - TRON_KEYSTORE_FILE: Encrypted Web3 Secret Storage keystore (scrypt or pbkdf2, AES-128-CTR)
+ * - TRON_KEYSTORE_PASSWORD_FILE / TRON_KEYSTORE_PASSWORD: Password of the keystore
  */
 
 export interface ConfiguredWallet {
@@ -17,7 +23,66 @@ export interface ConfiguredWallet {
   address: string;
 }
 
+// Keystore KDFs are deliberately slow, so the decrypted wallet is kept per file and password
+let cachedKeystoreWallet: { key: string; wallet: ConfiguredWallet } | undefined;
+
+/**
+ * Whether any wallet source (private key, mnemonic, keystore or remote signer) is configured
+ */
+export const hasConfiguredWallet = (): boolean =>
+  Boolean(
+    process.env.TRON_PRIVATE_KEY ||
+    process.env.TRON_MNEMONIC ||
+    process.env.TRON_KEYSTORE_FILE ||
+    process.env.TRON_REMOTE_SIGNER_URL,
+  );
+
+/**
+ * Read the keystore password from TRON_KEYSTORE_PASSWORD_FILE (trailing newline ignored) or
+ * TRON_KEYSTORE_PASSWORD
+ */
+const getKeystorePassword = (): string => {
+  const passwordFile = process.env.TRON_KEYSTORE_PASSWORD_FILE;
+  if (passwordFile) {
+    try {
+      return readFileSync(passwordFile, "utf8").replace(/\r?\n$/, "");
+    } catch (error: any) {
+      throw new Error(`Cannot read TRON_KEYSTORE_PASSWORD_FILE: ${error.message}`);
+    }
+  }
+  const password = process.env.TRON_KEYSTORE_PASSWORD;
+  if (password === undefined) {
+    throw new Error(
+      "TRON_KEYSTORE_FILE is set but neither TRON_KEYSTORE_PASSWORD_FILE nor TRON_KEYSTORE_PASSWORD is",
+    );
+  }
+  return password;
+};
+
+/**
+ * Decrypt the keystore named by TRON_KEYSTORE_FILE
+ */
+const getKeystoreWallet = (keystoreFile: string): ConfiguredWallet => {
+  const password = getKeystorePassword();
+  const key = `${keystoreFile}\0${password}`;
+  if (cachedKeystoreWallet?.key !== key) {
+    try {
+      cachedKeystoreWallet = { key, wallet: loadKeystoreFile(keystoreFile, password) };
+    } catch (error: any) {
+      throw new Error(`Failed to unlock TRON_KEYSTORE_FILE: ${error.message}`);
+    }
+  }
+  return cachedKeystoreWallet.wallet;
+};
+
 export const getConfiguredWallet = (): ConfiguredWallet => {
+  if (getRemoteSignerConfig()) {
+    throw new Error(
+      "Local keys are disabled while TRON_REMOTE_SIGNER_URL is set. The remote signer handles " +
+        "transfer_trx, transfer_trc20, write_contract and message signing; other write tools " +
+        "need a local key.",
+    );
+  }
   const privateKey = process.env.TRON_PRIVATE_KEY;
   const mnemonic = process.env.TRON_MNEMONIC;
   const accountIndexStr = process.env.TRON_ACCOUNT_INDEX || "0";
@@ -67,13 +132,16 @@ export const getConfiguredWallet = (): ConfiguredWallet => {
       privateKey: privateKeyHex,
       address: address as string, // TronWeb returns false or string
     };
+  } else if (process.env.TRON_KEYSTORE_FILE) {
+    return getKeystoreWallet(process.env.TRON_KEYSTORE_FILE);
   } else {
     throw new Error(
-      "Neither TRON_PRIVATE_KEY nor TRON_MNEMONIC environment variable is set. " +
+      "None of TRON_PRIVATE_KEY, TRON_MNEMONIC or TRON_KEYSTORE_FILE environment variables is set. " +
         "Configure one of them to enable write operations.\n" +
         "- TRON_PRIVATE_KEY: Your private key in hex format\n" +
         "- TRON_MNEMONIC: Your 12 or 24 word mnemonic phrase\n" +
-        "- TRON_ACCOUNT_INDEX: (Optional) Account index for HD wallet (default: 0)",
+        "- TRON_ACCOUNT_INDEX: (Optional) Account index for HD wallet (default: 0)\n" +
+        "- TRON_KEYSTORE_FILE: Encrypted keystore, unlocked with TRON_KEYSTORE_PASSWORD_FILE or TRON_KEYSTORE_PASSWORD",
     );
   }
 };
@@ -90,63 +158,154 @@ export const getConfiguredPrivateKey = (): string => {
  * Helper to get wallet address
  */
 export const getWalletAddressFromKey = (): string => {
+  // A remote signer keeps the key elsewhere; the wallet is its account
+  const remote = getRemoteSignerConfig();
+  if (remote) {
+    return remote.address;
+  }
   const wallet = getConfiguredWallet();
   return wallet.address;
 };
 
 /**
- * Sign an arbitrary message using the configured wallet
- * @param message The message to sign (can be a string or hex data)
+ * Account that read tools default to: the configured wallet, or the watch-only address when no
+ * wallet is configured. Read-only servers always use the watch-only address and never load the
+ * wallet.
+ */
+export const getDefaultAccount = (): { address: string; watchOnly: boolean } => {
+  const readOnly = isReadOnlyMode();
+  if (!readOnly && hasConfiguredWallet()) {
+    return { address: getWalletAddressFromKey(), watchOnly: false };
+  }
+
+  const watchAddress = getWatchAddress();
+  if (!watchAddress) {
+    if (readOnly) {
+      throw new Error(
+        "The server is read-only and no watch-only address is configured. " +
+          "Pass an address or set TRON_WATCH_ADDRESS.",
+      );
+    }
+    // Report the missing wallet configuration
+    return { address: getWalletAddressFromKey(), watchOnly: false };
+  }
+  if (!TronWeb.isAddress(watchAddress)) {
+    throw new Error(`Invalid watch-only address: ${watchAddress}`);
+  }
+  return { address: watchAddress, watchOnly: true };
+};
+
+/**
+ * Sign an arbitrary message with the configured signer (local key or remote signing service)
+ * @param message The message to sign (hex data)
  * @returns The signature as a hex string
  */
 export const signMessage = async (message: string): Promise<string> => {
-  const { privateKey } = getConfiguredWallet();
-  const apiKey = process.env.TRONGRID_API_KEY;
-
-  // Create a temporary TronWeb instance for signing (network doesn't matter for pure signing usually, but good practice)
-  // Actually we can use TronWeb.Trx.signString equivalent if available statically, or instance.
-  const tronWeb = new TronWeb({
-    fullHost: "https://api.trongrid.io", // Dummy host for signing
-    privateKey: privateKey,
-    headers: apiKey ? { "TRON-PRO-API-KEY": apiKey } : undefined,
-  });
-
-  // Sign the message
   // Note: TronWeb signing usually prefixes with standard Tron message prefix
-  const signature = await tronWeb.trx.sign(message);
-
-  return signature;
+  return getConfiguredSigner().signMessage(message);
 };
 
 /**
- * Sign typed data (EIP-712 equivalent in Tron / TRON-712)
+ * Sign typed data (EIP-712 equivalent in Tron / TRON-712) with the configured signer
  * Note: Tron support for EIP-712 is limited/specific.
- * This implementation assumes standard EIP-712 compatible signing if supported by TronWeb version.
  */
 export const signTypedData = async (
   domain: object,
   types: object,
   value: object,
 ): Promise<string> => {
-  const { privateKey } = getConfiguredWallet();
-  const apiKey = process.env.TRONGRID_API_KEY;
-
-  // TronWeb might support _signTypedData or similar.
-  // For now, we'll use a generic implementation if TronWeb exposes it,
-  // otherwise we might need to construct the hash manually or use a specific library.
-
-  // Checking TronWeb docs, it supports signTypedData since recently.
-  const tronWeb = new TronWeb({
-    fullHost: "https://api.trongrid.io",
-    privateKey: privateKey,
-    headers: apiKey ? { "TRON-PRO-API-KEY": apiKey } : undefined,
-  });
-
-  // @ts-ignore - TronWeb types might be missing signTypedData
-  if (typeof tronWeb.trx._signTypedData === "function") {
-    // @ts-ignore
-    return await tronWeb.trx._signTypedData(domain, types, value);
+  return getConfiguredSigner().signTypedData(domain, types, value);
+};
+
+/**
+ * Serialize a signed transaction as protobuf hex (Transaction: raw_data = field 1,
+ * signature = field 2), the format accepted by wallet/broadcasthex
+ */
+export const serializeSignedTransaction = (rawDataHex: string, signatures: string[]): string => {
+  const field = (tag: number, hex: string) => {
+    let length = hex.length / 2;
+    let varint = "";
+    do {
+      const byte = length & 0x7f;
+      length >>>= 7;
+      varint += (length ? byte | 0x80 : byte).toString(16).padStart(2, "0");
+    } while (length);
+    return tag.toString(16).padStart(2, "0") + varint + hex;
+  };
+  return (
+    field(0x0a, rawDataHex.toLowerCase()) +
+    signatures.map((signature) => field(0x12, signature.toLowerCase())).join("")
+  );
+};
+
+/**
+ * Sign a transaction offline with the configured wallet. Accepts a transaction JSON or its
+ * raw_data_hex. No network call is made, so this works on air-gapped machines.
+ *
+ * A transaction JSON is only signed if its txID matches both raw_data_hex and raw_data, so the
+ * signed content is what the JSON shows. Existing signatures are kept (multisig co-signing).
+ */
+export const signTransaction = (input: Record<string, any> | string) => {
+  const { privateKey, address } = getConfiguredWallet();
+  const sha256 = (hex: string) =>
+    tronWebUtils.code.byteArray2hexStr(
+      tronWebUtils.crypto.SHA256(tronWebUtils.code.hexStr2byteArray(hex)),
+    );
+
+  if (typeof input === "string") {
+    const rawDataHex = input.replace(/^0x/, "").toLowerCase();
+    if (!/^[0-9a-f]+$/.test(rawDataHex) || rawDataHex.length % 2 !== 0) {
+      throw new Error("raw_data_hex must be a hex string");
+    }
+    const txID = sha256(rawDataHex).toLowerCase();
+    const signature = tronWebUtils.crypto.ECKeySign(
+      tronWebUtils.code.hexStr2byteArray(txID),
+      tronWebUtils.code.hexStr2byteArray(privateKey),
+    );
+    return {
+      txID,
+      signer: address,
+      rawDataHex,
+      signature: [signature],
+      signedHex: serializeSignedTransaction(rawDataHex, [signature]),
+    };
+  }
+
+  const transaction = JSON.parse(JSON.stringify(input));
+  if (!transaction.txID || (!transaction.raw_data && !transaction.raw_data_hex)) {
+    throw new Error("Transaction JSON must include txID and raw_data or raw_data_hex");
   }
 
-  throw new Error("signTypedData not supported by this TronWeb version or configuration");
+  let rawDataHex: string | undefined = transaction.raw_data_hex;
+  if (transaction.raw_data) {
+    // Re-encode raw_data so a JSON edited after building cannot be signed under the old txID
+    let matches: boolean;
+    try {
+      matches = tronWebUtils.transaction.txCheck(transaction);
+    } catch (error: any) {
+      throw new Error(`Cannot verify raw_data against txID: ${error.message}`);
+    }
+    if (!matches) {
+      throw new Error("raw_data does not match txID");
+    }
+    rawDataHex ??= tronWebUtils.transaction.txPbToRawDataHex(
+      tronWebUtils.transaction.txJsonToPb(transaction),
+    );
+  }
+  rawDataHex = rawDataHex!.toLowerCase();
+  if (sha256(rawDataHex).toLowerCase() !== transaction.txID.toLowerCase()) {
+    throw new Error("raw_data_hex does not match txID");
+  }
+
+  const signed: any = tronWebUtils.crypto.signTransaction(privateKey, transaction);
+  const expiration = transaction.raw_data?.expiration;
+
+  return {
+    txID: signed.txID as string,
+    signer: address,
+    transaction: signed,
+    signatureCount: signed.signature.length as number,
+    signedHex: serializeSignedTransaction(rawDataHex, signed.signature),
+    expiresAt: expiration ? new Date(expiration).toISOString() : undefined,
+  };
 };
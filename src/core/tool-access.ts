@@ -0,0 +1,33 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { getToolFilter, isReadOnlyMode } from "./config.js";
+
+/**
+ * Whether a tool should be registered under the current configuration. Deny lists win over
+ * allow lists; a read-only server only registers tools annotated readOnlyHint: true.
+ */
+export function isToolEnabled(name: string, annotations?: { readOnlyHint?: boolean }): boolean {
+  const { allow, deny } = getToolFilter();
+  if (deny.includes(name)) {
+    return false;
+  }
+  if (allow.length > 0 && !allow.includes(name)) {
+    return false;
+  }
+  return !isReadOnlyMode() || annotations?.readOnlyHint === true;
+}
+
+/**
+ * Wrap a server so tools disabled by TRON_READ_ONLY or the allow/deny tool lists are never
+ * registered. Skipped registrations return undefined.
+ */
+export function withToolAccess(server: McpServer): McpServer {
+  const registerTool = server.registerTool.bind(server);
+  const wrapped = Object.create(server) as McpServer;
+
+  wrapped.registerTool = ((name: string, config: any, handler: any) =>
+    isToolEnabled(name, config.annotations)
+      ? registerTool(name, config, handler)
+      : undefined) as McpServer["registerTool"];
+
+  return wrapped;
+}
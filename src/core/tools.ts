@@ -1,12 +1,52 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import { getSupportedNetworks, getRpcUrl } from "./chains.js";
+import { isDryRunMode } from "./config.js";
+import { withWriteConfirmation } from "./confirmation.js";
+import { withToolAccess } from "./tool-access.js";
 import * as services from "./services/index.js";
 
+/**
+ * Tool result for a write blocked by the spending policy, naming the rule that blocked it
+ */
+function policyViolationResult(error: InstanceType<typeof services.PolicyViolationError>) {
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text: services.helpers.formatJson({
+          error: "SpendingPolicyViolation",
+          message: error.message,
+          ...error.details,
+        }),
+      },
+    ],
+    isError: true,
+  };
+}
+
+const DRY_RUN_MESSAGE =
+  "Dry run only. The transaction was built and validated but not signed or broadcast.";
+
+/**
+ * Tool result for a dry run that had the node build, and so validate, the unsigned transaction
+ */
+function dryRunResult(fields: Record<string, unknown>) {
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text: services.helpers.formatJson({ ...fields, dryRun: true, message: DRY_RUN_MESSAGE }),
+      },
+    ],
+  };
+}
+
 /**
  * Register all TRON-related tools with the MCP server
  *
- * SECURITY: Either TRON_PRIVATE_KEY or TRON_MNEMONIC environment variable must be set for write operations.
+ * SECURITY: TRON_PRIVATE_KEY, TRON_MNEMONIC, TRON_KEYSTORE_FILE or TRON_REMOTE_SIGNER_URL must be set
+ * for write operations.
  * Private keys and mnemonics are never passed as tool arguments for security reasons.
  * Tools will use the configured wallet for all transactions.
  *
@@ -14,12 +54,29 @@ import * as services from "./services/index.js";
  * - TRON_PRIVATE_KEY: Hex private key (with or without 0x prefix)
  * - TRON_MNEMONIC: BIP-39 mnemonic phrase (12 or 24 words)
  * - TRON_ACCOUNT_INDEX: Optional account index for HD wallet derivation (default: 0)
+ * - TRON_KEYSTORE_FILE: Encrypted keystore, unlocked with TRON_KEYSTORE_PASSWORD_FILE or
+ *   TRON_KEYSTORE_PASSWORD
+ * - TRON_REMOTE_SIGNER_URL / TRON_REMOTE_SIGNER_ADDRESS: Remote signing service and its account;
+ *   replaces local keys (optional TRON_REMOTE_SIGNER_TOKEN, TRON_REMOTE_SIGNER_TIMEOUT_MS)
+ * - TRON_DRY_RUN: When "true", write tools only simulate transactions and never sign or broadcast
+ * - TRON_IPFS_GATEWAY: Optional gateway for ipfs:// token metadata (default: https://ipfs.io/ipfs/)
+ * - TRON_POLICY_FILE: Optional JSON spending policy (caps, allow/deny lists) applied to write tools
+ * - TRON_REQUIRE_CONFIRMATION: Set to "false" to run destructive tools without asking the user
+ *   to confirm (via MCP elicitation or a confirmation token) first
+ * - TRON_READ_ONLY: When "true", only read-only tools are registered and the wallet is never loaded
+ * - TRON_WATCH_ADDRESS: Optional watch-only address read tools default to without a wallet
+ * - TRON_TOOLS_ALLOW / TRON_TOOLS_DENY: Comma-separated tool names to register or skip
+ * - TRON_CONFIG_FILE: Optional JSON file with readOnly, watchAddress and tools.allow/tools.deny
  *
- * @param server The MCP server instance
+ * @param mcpServer The MCP server instance
  */
-export function registerTRONTools(server: McpServer) {
+export function registerTRONTools(mcpServer: McpServer) {
+  // Disabled tools are skipped; destructive tools ask for confirmation before signing
+  const server = withWriteConfirmation(withToolAccess(mcpServer));
   // Helpers are now imported from services/wallet.ts
   const { getConfiguredPrivateKey, getWalletAddressFromKey } = services;
+  // Read tools default to the wallet, or the watch-only address on read-only servers
+  const getDefaultAddress = () => services.getDefaultAccount().address;
 
   // ============================================================================
   // WALLET INFORMATION TOOLS (Read-only)
@@ -29,7 +86,7 @@ export function registerTRONTools(server: McpServer) {
     "get_wallet_address",
     {
       description:
-        "Get the address of the configured wallet. Use this to verify which wallet is active.",
+        "Get the address of the configured wallet, or the watch-only address when no wallet is configured or the server is read-only. Use this to verify which wallet is active.",
       inputSchema: {},
       annotations: {
         title: "Get Wallet Address",
@@ -41,7 +98,7 @@ export function registerTRONTools(server: McpServer) {
     },
     async () => {
       try {
-        const address = getWalletAddressFromKey();
+        const { address, watchOnly } = services.getDefaultAccount();
         return {
           content: [
             {
@@ -51,7 +108,10 @@ export function registerTRONTools(server: McpServer) {
                   address,
                   base58: services.toBase58Address(address),
                   hex: services.toHexAddress(address),
-                  message: "This is the wallet that will be used for all transactions",
+                  watchOnly,
+                  message: watchOnly
+                    ? "This is a watch-only address; no wallet is available to sign transactions"
+                    : "This is the wallet that will be used for all transactions",
                 },
                 null,
                 2,
@@ -360,9 +420,13 @@ export function registerTRONTools(server: McpServer) {
   server.registerTool(
     "get_balance",
     {
-      description: "Get the TRX balance for an address",
+      description: "Get the TRX balance for an address, optionally with every TRC10 asset it holds",
       inputSchema: {
         address: z.string().describe("The wallet address (Base58)"),
+        includeTrc10: z
+          .boolean()
+          .optional()
+          .describe("Also list every TRC10 asset the account holds"),
         network: z.string().optional().describe("Network name. Defaults to mainnet."),
       },
       annotations: {
@@ -373,9 +437,19 @@ export function registerTRONTools(server: McpServer) {
         openWorldHint: true,
       },
     },
-    async ({ address, network = "mainnet" }) => {
+    async ({ address, includeTrc10 = false, network = "mainnet" }) => {
       try {
         const balance = await services.getTRXBalance(address, network);
+        const trc10 = includeTrc10
+          ? (await services.getTRC10Balances(address, network)).map((asset) => ({
+              tokenId: asset.token.id,
+              name: asset.token.name,
+              abbr: asset.token.abbr,
+              precision: asset.token.precision,
+              raw: asset.raw.toString(),
+              formatted: asset.formatted,
+            }))
+          : undefined;
         return {
           content: [
             {
@@ -385,6 +459,7 @@ export function registerTRONTools(server: McpServer) {
                   network,
                   address,
                   balance: { sun: balance.wei.toString(), trx: balance.formatted },
+                  trc10,
                 },
                 null,
                 2,
@@ -462,36 +537,55 @@ export function registerTRONTools(server: McpServer) {
     },
   );
 
-  // ============================================================================
-  // TRANSACTION TOOLS (Read-only)
-  // ============================================================================
-
   server.registerTool(
-    "get_transaction",
+    "get_trc10_balance",
     {
-      description: "Get transaction details by transaction hash",
+      description: "Get the balance of a TRC10 token for an address",
       inputSchema: {
-        txHash: z.string().describe("Transaction hash"),
+        address: z.string().describe("The wallet address"),
+        tokenId: z.string().describe("The TRC10 asset ID, e.g. '1002000'"),
         network: z.string().optional().describe("Network name. Defaults to mainnet."),
       },
       annotations: {
-        title: "Get Transaction",
+        title: "Get TRC10 Token Balance",
         readOnlyHint: true,
         destructiveHint: false,
         idempotentHint: true,
         openWorldHint: true,
       },
     },
-    async ({ txHash, network = "mainnet" }) => {
+    async ({ address, tokenId, network = "mainnet" }) => {
       try {
-        const tx = await services.getTransaction(txHash, network);
-        return { content: [{ type: "text", text: services.helpers.formatJson(tx) }] };
+        const balance = await services.getTRC10Balance(address, tokenId, network);
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(
+                {
+                  network,
+                  tokenId,
+                  address,
+                  balance: {
+                    raw: balance.raw.toString(),
+                    formatted: balance.formatted,
+                    name: balance.token.name,
+                    abbr: balance.token.abbr,
+                    precision: balance.token.precision,
+                  },
+                },
+                null,
+                2,
+              ),
+            },
+          ],
+        };
       } catch (error) {
         return {
           content: [
             {
               type: "text",
-              text: `Error fetching transaction: ${error instanceof Error ? error.message : String(error)}`,
+              text: `Error fetching TRC10 balance: ${error instanceof Error ? error.message : String(error)}`,
             },
           ],
           isError: true,
@@ -501,31 +595,36 @@ export function registerTRONTools(server: McpServer) {
   );
 
   server.registerTool(
-    "get_transaction_info",
+    "get_trc10_token_info",
     {
-      description: "Get transaction info (receipt/confirmation status, energy usage, logs).",
+      description:
+        "Get TRC10 token metadata (name, abbreviation, precision, supply, issuer) by asset ID or name. Names are not unique, so a name lookup can return several tokens.",
       inputSchema: {
-        txHash: z.string().describe("Transaction hash"),
+        token: z.string().describe("The TRC10 asset ID (e.g. '1002000') or token name"),
         network: z.string().optional().describe("Network name. Defaults to mainnet."),
       },
       annotations: {
-        title: "Get Transaction Info",
+        title: "Get TRC10 Token Info",
         readOnlyHint: true,
         destructiveHint: false,
         idempotentHint: true,
         openWorldHint: true,
       },
     },
-    async ({ txHash, network = "mainnet" }) => {
+    async ({ token, network = "mainnet" }) => {
       try {
-        const info = await services.getTransactionInfo(txHash, network);
-        return { content: [{ type: "text", text: services.helpers.formatJson(info) }] };
+        const tokens = /^\d+$/.test(token)
+          ? [await services.getTRC10TokenInfo(token, network)]
+          : await services.findTRC10TokensByName(token, network);
+        return {
+          content: [{ type: "text", text: services.helpers.formatJson({ network, tokens }) }],
+        };
       } catch (error) {
         return {
           content: [
             {
               type: "text",
-              text: `Error fetching transaction info: ${error instanceof Error ? error.message : String(error)}`,
+              text: `Error fetching TRC10 token info: ${error instanceof Error ? error.message : String(error)}`,
             },
           ],
           isError: true,
@@ -535,67 +634,50 @@ export function registerTRONTools(server: McpServer) {
   );
 
   // ============================================================================
-  // SMART CONTRACT TOOLS
+  // RESOURCE TOOLS (Read-only)
   // ============================================================================
 
   server.registerTool(
-    "read_contract",
+    "get_account_resources",
     {
-      description: "Call read-only functions on a smart contract.",
+      description:
+        "Get an account's free and staked Bandwidth, Energy limit/usage, TRON Power, frozen and unfreezing TRX, and pending withdrawals. Optionally pass the Energy/Bandwidth a call needs to get the TRX that would be burned for the shortfall.",
       inputSchema: {
-        contractAddress: z.string().describe("The contract address"),
-        functionName: z.string().describe("Function name (e.g., 'name', 'symbol', 'balanceOf')"),
-        args: z
-          .array(
-            z.union([
-              z.string(),
-              z.number(),
-              z.boolean(),
-              z.array(z.string()), // String array
-              z.array(z.number()), // Number array
-              z.record(z.unknown()), // Object (tuple)
-            ]),
-          )
+        address: z.string().describe("The account address"),
+        energyRequired: z
+          .number()
+          .int()
+          .nonnegative()
           .optional()
-          .describe("Function arguments (supports arrays and objects for complex types)"),
-        abi: z
-          .array(z.record(z.unknown()))
+          .describe("Energy the planned transaction needs (e.g., from estimate_energy)"),
+        bandwidthRequired: z
+          .number()
+          .int()
+          .nonnegative()
           .optional()
-          .describe(
-            "Optional contract ABI array. If not provided, will fetch from chain. Use for contracts with incomplete on-chain ABI.",
-          ),
+          .describe("Bandwidth (bytes) the planned transaction needs"),
         network: z.string().optional().describe("Network name. Defaults to mainnet."),
       },
       annotations: {
-        title: "Read Smart Contract",
+        title: "Get Account Resources",
         readOnlyHint: true,
         destructiveHint: false,
-        idempotentHint: true,
+        idempotentHint: false,
         openWorldHint: true,
       },
     },
-    async ({ contractAddress, functionName, args = [], abi, network = "mainnet" }) => {
+    async ({ address, energyRequired, bandwidthRequired, network = "mainnet" }) => {
       try {
-        const result = await services.readContract(
-          {
-            address: contractAddress,
-            functionName,
-            args,
-            abi,
-          },
+        const summary = await services.getAccountResourceSummary(
+          address,
+          { energy: energyRequired, bandwidth: bandwidthRequired },
           network,
         );
-
         return {
           content: [
             {
               type: "text",
-              text: services.helpers.formatJson({
-                contractAddress,
-                function: functionName,
-                args: args.length > 0 ? args : undefined,
-                result,
-              }),
+              text: services.helpers.formatJson({ network, ...summary }),
             },
           ],
         };
@@ -604,7 +686,7 @@ export function registerTRONTools(server: McpServer) {
           content: [
             {
               type: "text",
-              text: `Error reading contract: ${error instanceof Error ? error.message : String(error)}`,
+              text: `Error fetching account resources: ${error instanceof Error ? error.message : String(error)}`,
             },
           ],
           isError: true,
@@ -614,86 +696,30 @@ export function registerTRONTools(server: McpServer) {
   );
 
   server.registerTool(
-    "multicall",
+    "get_delegated_resources",
     {
-      description: "Execute multiple read-only functions in a single batch call.",
+      description:
+        "List Energy and Bandwidth delegations made by and to an address, with amounts in Sun, TRX and resource units, and lock expiry times.",
       inputSchema: {
-        calls: z
-          .array(
-            z.object({
-              address: z.string().describe("Target contract address"),
-              functionName: z.string().describe("Function name"),
-              args: z
-                .array(
-                  z.union([
-                    z.string(),
-                    z.number(),
-                    z.boolean(),
-                    z.array(z.string()), // String array
-                    z.array(z.number()), // Number array
-                    z.record(z.unknown()), // Object (tuple)
-                  ]),
-                )
-                .optional()
-                .describe("Function arguments (supports arrays and objects for complex types)"),
-              abi: z.array(z.record(z.unknown())).describe("Function ABI (required for multicall)"),
-              allowFailure: z
-                .boolean()
-                .optional()
-                .describe("Whether to allow this specific call to fail"),
-            }),
-          )
-          .describe("Array of calls to execute"),
+        address: z.string().describe("The account address"),
         network: z.string().optional().describe("Network name. Defaults to mainnet."),
-        multicallAddress: z
-          .string()
-          .optional()
-          .describe("Optional Multicall contract address override"),
-        version: z
-          .enum(["2", "3"])
-          .optional()
-          .describe("Multicall version (2 or 3). Defaults to 3."),
-        allowFailure: z
-          .boolean()
-          .optional()
-          .describe("Whether to allow individual calls to fail. Defaults to true."),
       },
       annotations: {
-        title: "Multicall",
+        title: "Get Delegated Resources",
         readOnlyHint: true,
         destructiveHint: false,
         idempotentHint: true,
         openWorldHint: true,
       },
     },
-    async ({
-      calls,
-      network = "mainnet",
-      multicallAddress,
-      version: versionArg,
-      allowFailure = true,
-    }) => {
+    async ({ address, network = "mainnet" }) => {
       try {
-        const version = versionArg ? (parseInt(versionArg) as 2 | 3) : 3;
-        const results = await services.multicall(
-          {
-            calls,
-            multicallAddress,
-            version: version,
-            allowFailure,
-          },
-          network,
-        );
-
+        const delegations = await services.getDelegatedResources(address, network);
         return {
           content: [
             {
               type: "text",
-              text: services.helpers.formatJson({
-                network,
-                count: calls.length,
-                results,
-              }),
+              text: services.helpers.formatJson({ network, ...delegations }),
             },
           ],
         };
@@ -702,7 +728,7 @@ export function registerTRONTools(server: McpServer) {
           content: [
             {
               type: "text",
-              text: `Error executing multicall: ${error instanceof Error ? error.message : String(error)}`,
+              text: `Error fetching delegated resources: ${error instanceof Error ? error.message : String(error)}`,
             },
           ],
           isError: true,
@@ -711,88 +737,36 @@ export function registerTRONTools(server: McpServer) {
     },
   );
 
+  // ============================================================================
+  // TRANSACTION TOOLS (Read-only)
+  // ============================================================================
+
   server.registerTool(
-    "write_contract",
+    "get_transaction",
     {
-      description:
-        "Execute state-changing functions on a smart contract. Requires configured wallet.",
+      description: "Get transaction details by transaction hash",
       inputSchema: {
-        contractAddress: z.string().describe("The contract address"),
-        functionName: z.string().describe("Function name to call"),
-        args: z
-          .array(
-            z.union([
-              z.string(),
-              z.number(),
-              z.boolean(),
-              z.array(z.string()), // String array
-              z.array(z.number()), // Number array
-              z.record(z.unknown()), // Object (tuple)
-            ]),
-          )
-          .optional()
-          .describe("Function arguments (supports arrays and objects for complex types)"),
-        abi: z
-          .array(z.record(z.unknown()))
-          .optional()
-          .describe(
-            "Optional contract ABI array. If not provided, will fetch from chain. Use for contracts with incomplete on-chain ABI.",
-          ),
-        value: z.string().optional().describe("TRX value to send (in Sun)"),
+        txHash: z.string().describe("Transaction hash"),
         network: z.string().optional().describe("Network name. Defaults to mainnet."),
       },
       annotations: {
-        title: "Write to Smart Contract",
-        readOnlyHint: false,
-        destructiveHint: true,
-        idempotentHint: false,
+        title: "Get Transaction",
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
         openWorldHint: true,
       },
     },
-    async ({ contractAddress, functionName, args = [], abi, value, network = "mainnet" }) => {
+    async ({ txHash, network = "mainnet" }) => {
       try {
-        const privateKey = getConfiguredPrivateKey();
-        const senderAddress = getWalletAddressFromKey();
-
-        const txHash = await services.writeContract(
-          privateKey,
-          {
-            address: contractAddress,
-            functionName,
-            args,
-            abi,
-            value,
-          },
-          network,
-        );
-
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(
-                {
-                  network,
-                  contractAddress,
-                  function: functionName,
-                  args: args.length > 0 ? args : undefined,
-                  value: value || undefined,
-                  from: senderAddress,
-                  txHash,
-                  message: "Transaction sent. Use get_transaction_info to check confirmation.",
-                },
-                null,
-                2,
-              ),
-            },
-          ],
-        };
+        const tx = await services.getTransaction(txHash, network);
+        return { content: [{ type: "text", text: services.helpers.formatJson(tx) }] };
       } catch (error) {
         return {
           content: [
             {
               type: "text",
-              text: `Error writing to contract: ${error instanceof Error ? error.message : String(error)}`,
+              text: `Error fetching transaction: ${error instanceof Error ? error.message : String(error)}`,
             },
           ],
           isError: true,
@@ -801,57 +775,3284 @@ export function registerTRONTools(server: McpServer) {
     },
   );
 
-  // ============================================================================
-  // TRANSFER TOOLS (Write operations)
-  // ============================================================================
-
   server.registerTool(
-    "transfer_trx",
+    "get_transaction_info",
     {
-      description: "Transfer TRX to an address.",
+      description:
+        "Get transaction info (receipt/confirmation status, energy usage, logs). Failed transactions include a decoded failureReason (Error(string), Panic(uint256) or custom errors).",
       inputSchema: {
-        to: z.string().describe("Recipient address"),
-        amount: z.string().describe("Amount to send in TRX (e.g., '10.5')"),
-        network: z.string().optional().describe("Network name. Defaults to mainnet."),
-      },
+        txHash: z.string().describe("Transaction hash"),
+        abi: z
+          .array(z.record(z.unknown()))
+          .optional()
+          .describe(
+            "Optional ABI used to decode custom errors. If not provided, the called contract's on-chain ABI is used.",
+          ),
+        decodeLogs: z
+          .boolean()
+          .optional()
+          .describe("Decode event logs into event name and typed arguments with Base58 addresses"),
+        abis: z
+          .record(z.array(z.record(z.unknown())))
+          .optional()
+          .describe(
+            "Optional ABIs for log decoding, keyed by contract address. Falls back to on-chain ABIs and common TRC20/TRC721 events.",
+          ),
+        network: z.string().optional().describe("Network name. Defaults to mainnet."),
+      },
+      annotations: {
+        title: "Get Transaction Info",
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async ({ txHash, abi, decodeLogs = false, abis, network = "mainnet" }) => {
+      try {
+        const info = await services.getTransactionInfo(txHash, network);
+        const failure = await services.explainTransactionFailure(info, abi, network);
+        let result = failure.failed
+          ? {
+              ...info,
+              failureReason: failure.failureReason,
+              revert: failure.revert,
+              resMessageDecoded: failure.resMessage,
+            }
+          : info;
+        if (decodeLogs) {
+          result = {
+            ...result,
+            decodedLogs: await services.decodeTransactionLogs(info, abis, network),
+          };
+        }
+        return { content: [{ type: "text", text: services.helpers.formatJson(result) }] };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error fetching transaction info: ${error instanceof Error ? error.message : String(error)}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    },
+  );
+
+  server.registerTool(
+    "decode_transaction",
+    {
+      description:
+        "Decode a transaction into its contract type (TransferContract, TriggerSmartContract, FreezeBalanceV2Contract, ...) and readable parameters with Base58 addresses and TRX amounts. Contract calls are decoded into function name and arguments using the supplied ABI, the contract's on-chain ABI, or common token functions.",
+      inputSchema: {
+        txID: z.string().optional().describe("Transaction ID to look up on the network"),
+        transaction: z.record(z.unknown()).optional().describe("Transaction JSON"),
+        rawDataHex: z.string().optional().describe("The transaction's raw_data_hex"),
+        abi: z
+          .array(z.record(z.unknown()))
+          .optional()
+          .describe("Optional ABI of the called contract. Defaults to its on-chain ABI."),
+        network: z.string().optional().describe("Network name. Defaults to mainnet."),
+      },
+      annotations: {
+        title: "Decode Transaction",
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async ({ txID, transaction, rawDataHex, abi, network = "mainnet" }) => {
+      try {
+        const inputs = [txID, transaction, rawDataHex].filter((input) => input !== undefined);
+        if (inputs.length !== 1) {
+          throw new Error("Provide exactly one of txID, transaction or rawDataHex");
+        }
+        const result = await services.decodeTransaction(inputs[0]!, abi, network);
+        return {
+          content: [{ type: "text", text: services.helpers.formatJson({ network, ...result }) }],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error decoding transaction: ${error instanceof Error ? error.message : String(error)}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    },
+  );
+
+  server.registerTool(
+    "get_account_transactions",
+    {
+      description:
+        "List an address's transactions (TRX and TRC10 transfers, contract calls, staking, ...) with direction, status, fee and amounts normalized by token decimals. Pass the returned fingerprint to fetch the next page.",
+      inputSchema: {
+        address: z.string().describe("The account address"),
+        token: z
+          .string()
+          .optional()
+          .describe(
+            "Only transactions involving this TRC10 token ID or contract address. Pages are scanned (up to 10) until limit matches are found, so fewer or slightly more than limit can come back.",
+          ),
+        direction: z
+          .enum(["in", "out", "all"])
+          .optional()
+          .describe("Only incoming ('in') or outgoing ('out') transfers. Defaults to all."),
+        minTimestamp: z
+          .number()
+          .int()
+          .optional()
+          .describe("Earliest block timestamp in milliseconds"),
+        maxTimestamp: z
+          .number()
+          .int()
+          .optional()
+          .describe("Latest block timestamp in milliseconds"),
+        onlyConfirmed: z.boolean().optional().describe("Only return confirmed transactions"),
+        order: z
+          .enum(["desc", "asc"])
+          .optional()
+          .describe("Order by block timestamp. Defaults to desc (newest first)."),
+        limit: z
+          .number()
+          .int()
+          .positive()
+          .max(200)
+          .optional()
+          .describe("Page size (max 200). Defaults to 20."),
+        fingerprint: z
+          .string()
+          .optional()
+          .describe("Pagination cursor returned by a previous call"),
+        network: z.string().optional().describe("Network name. Defaults to mainnet."),
+      },
+      annotations: {
+        title: "Get Account Transactions",
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async ({ address, network = "mainnet", ...query }) => {
+      try {
+        const result = await services.getAccountTransactions(address, query, network);
+        return {
+          content: [{ type: "text", text: services.helpers.formatJson({ network, ...result }) }],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error fetching account transactions: ${error instanceof Error ? error.message : String(error)}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    },
+  );
+
+  server.registerTool(
+    "get_trc20_transfers",
+    {
+      description:
+        "List an address's TRC20 token transfers with token symbol and amounts normalized by token decimals. Pass the returned fingerprint to fetch the next page.",
+      inputSchema: {
+        address: z.string().describe("The account address"),
+        contractAddress: z.string().optional().describe("Only transfers of this TRC20 token"),
+        direction: z
+          .enum(["in", "out", "all"])
+          .optional()
+          .describe("Only incoming ('in') or outgoing ('out') transfers. Defaults to all."),
+        minTimestamp: z
+          .number()
+          .int()
+          .optional()
+          .describe("Earliest block timestamp in milliseconds"),
+        maxTimestamp: z
+          .number()
+          .int()
+          .optional()
+          .describe("Latest block timestamp in milliseconds"),
+        onlyConfirmed: z.boolean().optional().describe("Only return confirmed transactions"),
+        order: z
+          .enum(["desc", "asc"])
+          .optional()
+          .describe("Order by block timestamp. Defaults to desc (newest first)."),
+        limit: z
+          .number()
+          .int()
+          .positive()
+          .max(200)
+          .optional()
+          .describe("Page size (max 200). Defaults to 20."),
+        fingerprint: z
+          .string()
+          .optional()
+          .describe("Pagination cursor returned by a previous call"),
+        network: z.string().optional().describe("Network name. Defaults to mainnet."),
+      },
+      annotations: {
+        title: "Get TRC20 Transfers",
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async ({ address, network = "mainnet", ...query }) => {
+      try {
+        const result = await services.getTRC20Transfers(address, query, network);
+        return {
+          content: [{ type: "text", text: services.helpers.formatJson({ network, ...result }) }],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error fetching TRC20 transfers: ${error instanceof Error ? error.message : String(error)}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    },
+  );
+
+  // ============================================================================
+  // EVENT TOOLS (Read-only)
+  // ============================================================================
+
+  server.registerTool(
+    "get_contract_events",
+    {
+      description:
+        "Query contract events from the event server by contract address, event name, block range or time window, or transaction ID. Event arguments are decoded with Base58 addresses. Pass the returned fingerprint to fetch the next page.",
+      inputSchema: {
+        contractAddress: z
+          .string()
+          .optional()
+          .describe("Contract address. Required unless transactionId is given."),
+        eventName: z.string().optional().describe("Event name, e.g. 'Transfer'"),
+        fromBlock: z.number().int().optional().describe("First block number (inclusive)"),
+        toBlock: z.number().int().optional().describe("Last block number (inclusive)"),
+        minTimestamp: z
+          .number()
+          .int()
+          .optional()
+          .describe("Earliest block timestamp in milliseconds"),
+        maxTimestamp: z
+          .number()
+          .int()
+          .optional()
+          .describe("Latest block timestamp in milliseconds"),
+        transactionId: z.string().optional().describe("Only return events of this transaction"),
+        onlyConfirmed: z.boolean().optional().describe("Only return confirmed events"),
+        order: z
+          .enum(["desc", "asc"])
+          .optional()
+          .describe("Order by block timestamp. Defaults to desc (newest first)."),
+        limit: z
+          .number()
+          .int()
+          .positive()
+          .optional()
+          .describe("Maximum number of events to return. Defaults to 20."),
+        fingerprint: z
+          .string()
+          .optional()
+          .describe("Pagination cursor returned by a previous call"),
+        network: z.string().optional().describe("Network name. Defaults to mainnet."),
+      },
+      annotations: {
+        title: "Get Contract Events",
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async ({ order, network = "mainnet", ...query }) => {
+      try {
+        const result = await services.getContractEvents(
+          { ...query, orderBy: order ? `block_timestamp,${order}` : undefined },
+          network,
+        );
+        return {
+          content: [{ type: "text", text: services.helpers.formatJson({ network, ...result }) }],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error fetching contract events: ${error instanceof Error ? error.message : String(error)}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    },
+  );
+
+  // ============================================================================
+  // NFT TOOLS (Read-only)
+  // ============================================================================
+
+  server.registerTool(
+    "get_nft_info",
+    {
+      description:
+        "Get a TRC721 token's collection name and symbol, current owner, tokenURI and parsed JSON metadata",
+      inputSchema: {
+        contractAddress: z.string().describe("The TRC721 contract address"),
+        tokenId: z.string().describe("The token ID"),
+        network: z.string().optional().describe("Network name. Defaults to mainnet."),
+      },
+      annotations: {
+        title: "Get NFT Info",
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async ({ contractAddress, tokenId, network = "mainnet" }) => {
+      try {
+        const info = await services.getNFTInfo(contractAddress, tokenId, network);
+        return {
+          content: [{ type: "text", text: services.helpers.formatJson({ network, ...info }) }],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error fetching NFT info: ${error instanceof Error ? error.message : String(error)}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    },
+  );
+
+  server.registerTool(
+    "get_nft_owner",
+    {
+      description:
+        "Get the current owner of a TRC721 token, with its tokenURI and parsed JSON metadata",
+      inputSchema: {
+        contractAddress: z.string().describe("The TRC721 contract address"),
+        tokenId: z.string().describe("The token ID"),
+        includeMetadata: z
+          .boolean()
+          .optional()
+          .describe("Fetch the tokenURI metadata. Defaults to true."),
+        network: z.string().optional().describe("Network name. Defaults to mainnet."),
+      },
+      annotations: {
+        title: "Get NFT Owner",
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async ({ contractAddress, tokenId, includeMetadata = true, network = "mainnet" }) => {
+      try {
+        if (includeMetadata) {
+          const { owner, tokenURI, metadataUrl, metadata, metadataError } =
+            await services.getNFTInfo(contractAddress, tokenId, network);
+          return {
+            content: [
+              {
+                type: "text",
+                text: services.helpers.formatJson({
+                  network,
+                  contractAddress,
+                  tokenId,
+                  owner,
+                  tokenURI,
+                  metadataUrl,
+                  metadata,
+                  metadataError,
+                }),
+              },
+            ],
+          };
+        }
+        const owner = await services.getNFTOwner(contractAddress, tokenId, network);
+        return {
+          content: [
+            {
+              type: "text",
+              text: services.helpers.formatJson({ network, contractAddress, tokenId, owner }),
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error fetching NFT owner: ${error instanceof Error ? error.message : String(error)}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    },
+  );
+
+  server.registerTool(
+    "list_nfts_owned",
+    {
+      description:
+        "List the TRC721 tokens an address owns in a collection, with parsed metadata. Uses ERC721Enumerable when the contract supports it, otherwise Transfer events (check 'complete' in the result).",
+      inputSchema: {
+        contractAddress: z.string().describe("The TRC721 contract address"),
+        owner: z.string().describe("The owner address"),
+        limit: z
+          .number()
+          .int()
+          .positive()
+          .optional()
+          .describe("Maximum number of tokens to return. Defaults to 20."),
+        includeMetadata: z
+          .boolean()
+          .optional()
+          .describe("Fetch each token's tokenURI metadata. Defaults to true."),
+        network: z.string().optional().describe("Network name. Defaults to mainnet."),
+      },
+      annotations: {
+        title: "List NFTs Owned",
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async ({ contractAddress, owner, limit, includeMetadata, network = "mainnet" }) => {
+      try {
+        const result = await services.listNFTsOwned(
+          contractAddress,
+          owner,
+          { limit, includeMetadata },
+          network,
+        );
+        return {
+          content: [{ type: "text", text: services.helpers.formatJson({ network, ...result }) }],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error listing NFTs: ${error instanceof Error ? error.message : String(error)}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    },
+  );
+
+  server.registerTool(
+    "get_trc1155_balances",
+    {
+      description:
+        "Get TRC1155 balances for many owner/token ID pairs in a single balanceOfBatch call, optionally with each token's metadata URI ({id} substituted).",
+      inputSchema: {
+        contractAddress: z.string().describe("The TRC1155 contract address"),
+        pairs: z
+          .array(
+            z.object({
+              owner: z.string().describe("Owner address"),
+              tokenId: z.string().describe("Token ID"),
+            }),
+          )
+          .min(1)
+          .describe("Owner/token ID pairs to query"),
+        includeUri: z.boolean().optional().describe("Also return each token ID's metadata URI"),
+        network: z.string().optional().describe("Network name. Defaults to mainnet."),
+      },
+      annotations: {
+        title: "Get TRC1155 Balances",
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async ({ contractAddress, pairs, includeUri = false, network = "mainnet" }) => {
+      try {
+        const balances = await services.getTRC1155Balances(
+          contractAddress,
+          pairs,
+          network,
+          includeUri,
+        );
+        return {
+          content: [
+            {
+              type: "text",
+              text: services.helpers.formatJson({ network, contractAddress, balances }),
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error fetching TRC1155 balances: ${error instanceof Error ? error.message : String(error)}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    },
+  );
+
+  // ============================================================================
+  // SMART CONTRACT TOOLS
+  // ============================================================================
+
+  server.registerTool(
+    "read_contract",
+    {
+      description: "Call read-only functions on a smart contract.",
+      inputSchema: {
+        contractAddress: z.string().describe("The contract address"),
+        functionName: z.string().describe("Function name (e.g., 'name', 'symbol', 'balanceOf')"),
+        args: z
+          .array(
+            z.union([
+              z.string(),
+              z.number(),
+              z.boolean(),
+              z.array(z.string()), // String array
+              z.array(z.number()), // Number array
+              z.record(z.unknown()), // Object (tuple)
+            ]),
+          )
+          .optional()
+          .describe("Function arguments (supports arrays and objects for complex types)"),
+        abi: z
+          .array(z.record(z.unknown()))
+          .optional()
+          .describe(
+            "Optional contract ABI array. If not provided, will fetch from chain. Use for contracts with incomplete on-chain ABI.",
+          ),
+        network: z.string().optional().describe("Network name. Defaults to mainnet."),
+      },
+      annotations: {
+        title: "Read Smart Contract",
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async ({ contractAddress, functionName, args = [], abi, network = "mainnet" }) => {
+      try {
+        const result = await services.readContract(
+          {
+            address: contractAddress,
+            functionName,
+            args,
+            abi,
+          },
+          network,
+        );
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: services.helpers.formatJson({
+                contractAddress,
+                function: functionName,
+                args: args.length > 0 ? args : undefined,
+                result,
+              }),
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error reading contract: ${error instanceof Error ? error.message : String(error)}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    },
+  );
+
+  server.registerTool(
+    "multicall",
+    {
+      description: "Execute multiple read-only functions in a single batch call.",
+      inputSchema: {
+        calls: z
+          .array(
+            z.object({
+              address: z.string().describe("Target contract address"),
+              functionName: z.string().describe("Function name"),
+              args: z
+                .array(
+                  z.union([
+                    z.string(),
+                    z.number(),
+                    z.boolean(),
+                    z.array(z.string()), // String array
+                    z.array(z.number()), // Number array
+                    z.record(z.unknown()), // Object (tuple)
+                  ]),
+                )
+                .optional()
+                .describe("Function arguments (supports arrays and objects for complex types)"),
+              abi: z.array(z.record(z.unknown())).describe("Function ABI (required for multicall)"),
+              allowFailure: z
+                .boolean()
+                .optional()
+                .describe("Whether to allow this specific call to fail"),
+            }),
+          )
+          .describe("Array of calls to execute"),
+        network: z.string().optional().describe("Network name. Defaults to mainnet."),
+        multicallAddress: z
+          .string()
+          .optional()
+          .describe("Optional Multicall contract address override"),
+        version: z
+          .enum(["2", "3"])
+          .optional()
+          .describe("Multicall version (2 or 3). Defaults to 3."),
+        allowFailure: z
+          .boolean()
+          .optional()
+          .describe("Whether to allow individual calls to fail. Defaults to true."),
+      },
+      annotations: {
+        title: "Multicall",
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async ({
+      calls,
+      network = "mainnet",
+      multicallAddress,
+      version: versionArg,
+      allowFailure = true,
+    }) => {
+      try {
+        const version = versionArg ? (parseInt(versionArg) as 2 | 3) : 3;
+        const results = await services.multicall(
+          {
+            calls,
+            multicallAddress,
+            version: version,
+            allowFailure,
+          },
+          network,
+        );
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: services.helpers.formatJson({
+                network,
+                count: calls.length,
+                results,
+              }),
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error executing multicall: ${error instanceof Error ? error.message : String(error)}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    },
+  );
+
+  server.registerTool(
+    "estimate_energy",
+    {
+      description:
+        "Estimate the Energy a contract call will consume, its TRX cost at current prices and a suggested fee limit. Nothing is signed or broadcast.",
+      inputSchema: {
+        contractAddress: z.string().describe("The contract address"),
+        functionName: z.string().describe("Function name to call"),
+        args: z
+          .array(
+            z.union([
+              z.string(),
+              z.number(),
+              z.boolean(),
+              z.array(z.string()), // String array
+              z.array(z.number()), // Number array
+              z.record(z.unknown()), // Object (tuple)
+            ]),
+          )
+          .optional()
+          .describe("Function arguments (supports arrays and objects for complex types)"),
+        abi: z
+          .array(z.record(z.unknown()))
+          .optional()
+          .describe("Optional contract ABI array. If not provided, will fetch from chain."),
+        value: z.string().optional().describe("TRX value to send (in Sun)"),
+        ownerAddress: z
+          .string()
+          .optional()
+          .describe("Caller address to simulate from. Defaults to the configured wallet."),
+        network: z.string().optional().describe("Network name. Defaults to mainnet."),
+      },
+      annotations: {
+        title: "Estimate Energy",
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: true,
+      },
+    },
+    async ({
+      contractAddress,
+      functionName,
+      args = [],
+      abi,
+      value,
+      ownerAddress,
+      network = "mainnet",
+    }) => {
+      try {
+        let from = ownerAddress;
+        if (!from) {
+          try {
+            from = getDefaultAddress();
+          } catch (_e) {
+            // No wallet configured; simulate from the default read-only address
+          }
+        }
+
+        const estimate = await services.estimateEnergy(
+          { address: contractAddress, functionName, args, abi, value, from },
+          network,
+        );
+        return {
+          content: [
+            {
+              type: "text",
+              text: services.helpers.formatJson({
+                network,
+                contractAddress,
+                function: functionName,
+                from,
+                ...estimate,
+              }),
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error estimating energy: ${error instanceof Error ? error.message : String(error)}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    },
+  );
+
+  server.registerTool(
+    "write_contract",
+    {
+      description:
+        "Execute state-changing functions on a smart contract. Requires configured wallet. The expected TRX cost is shown in the confirmation prompt before signing and returned with the result; use dryRun or estimate_energy to get it without sending.",
+      inputSchema: {
+        contractAddress: z.string().describe("The contract address"),
+        functionName: z.string().describe("Function name to call"),
+        args: z
+          .array(
+            z.union([
+              z.string(),
+              z.number(),
+              z.boolean(),
+              z.array(z.string()), // String array
+              z.array(z.number()), // Number array
+              z.record(z.unknown()), // Object (tuple)
+            ]),
+          )
+          .optional()
+          .describe("Function arguments (supports arrays and objects for complex types)"),
+        abi: z
+          .array(z.record(z.unknown()))
+          .optional()
+          .describe(
+            "Optional contract ABI array. If not provided, will fetch from chain. Use for contracts with incomplete on-chain ABI.",
+          ),
+        value: z.string().optional().describe("TRX value to send (in Sun)"),
+        feeLimit: z
+          .number()
+          .int()
+          .positive()
+          .optional()
+          .describe(
+            "Maximum TRX to burn for energy (in Sun). If omitted, derived from an energy estimate plus a safety margin.",
+          ),
+        dryRun: z
+          .boolean()
+          .optional()
+          .describe(
+            "Simulate only: return the expected result and fees without signing or broadcasting",
+          ),
+        network: z.string().optional().describe("Network name. Defaults to mainnet."),
+      },
+      annotations: {
+        title: "Write to Smart Contract",
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: false,
+        openWorldHint: true,
+      },
+    },
+    async ({
+      contractAddress,
+      functionName,
+      args = [],
+      abi,
+      value,
+      feeLimit,
+      dryRun = false,
+      network = "mainnet",
+    }) => {
+      try {
+        if (dryRun || isDryRunMode()) {
+          const senderAddress = getWalletAddressFromKey();
+          const simulation = await services.simulateContractCall(
+            { address: contractAddress, functionName, args, abi, value, from: senderAddress },
+            network,
+          );
+          return {
+            content: [
+              {
+                type: "text",
+                text: services.helpers.formatJson({
+                  network,
+                  dryRun: true,
+                  contractAddress,
+                  function: functionName,
+                  args: args.length > 0 ? args : undefined,
+                  value: value || undefined,
+                  from: senderAddress,
+                  ...simulation,
+                  message: "Dry run only. Nothing was signed or broadcast.",
+                }),
+              },
+            ],
+          };
+        }
+
+        const signer = services.getConfiguredSigner();
+        const senderAddress = getWalletAddressFromKey();
+
+        const fee = await services.resolveFeeLimit(
+          { address: contractAddress, functionName, args, abi, value, from: senderAddress },
+          feeLimit,
+          network,
+        );
+
+        const txHash = await services.writeContract(
+          signer,
+          {
+            address: contractAddress,
+            functionName,
+            args,
+            abi,
+            value,
+            feeLimit: fee.feeLimit,
+          },
+          network,
+        );
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(
+                {
+                  network,
+                  contractAddress,
+                  function: functionName,
+                  args: args.length > 0 ? args : undefined,
+                  value: value || undefined,
+                  from: senderAddress,
+                  feeLimit: { sun: fee.feeLimit, trx: services.utils.fromSun(fee.feeLimit) },
+                  estimatedEnergy: fee.estimate?.energy,
+                  estimatedCost: fee.estimate?.estimatedFee,
+                  estimateError: fee.estimateError,
+                  txHash,
+                  message: "Transaction sent. Use get_transaction_info to check confirmation.",
+                },
+                null,
+                2,
+              ),
+            },
+          ],
+        };
+      } catch (error) {
+        if (error instanceof services.PolicyViolationError) {
+          return policyViolationResult(error);
+        }
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error writing to contract: ${error instanceof Error ? error.message : String(error)}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    },
+  );
+
+  server.registerTool(
+    "deploy_contract",
+    {
+      description:
+        "Deploy a smart contract from its ABI and bytecode with the configured wallet. Waits for confirmation and returns the new contract address.",
+      inputSchema: {
+        abi: z.array(z.record(z.unknown())).describe("Contract ABI array"),
+        bytecode: z.string().describe("Compiled contract bytecode (hex)"),
+        args: z
+          .array(
+            z.union([
+              z.string(),
+              z.number(),
+              z.boolean(),
+              z.array(z.string()), // String array
+              z.array(z.number()), // Number array
+              z.record(z.unknown()), // Object (tuple)
+            ]),
+          )
+          .optional()
+          .describe("Constructor arguments"),
+        name: z.string().optional().describe("Contract name recorded on chain"),
+        callValue: z
+          .number()
+          .int()
+          .nonnegative()
+          .optional()
+          .describe("TRX to send to a payable constructor (in Sun)"),
+        feeLimit: z
+          .number()
+          .int()
+          .positive()
+          .optional()
+          .describe("Maximum TRX to burn for energy (in Sun). Defaults to 1000 TRX."),
+        userFeePercentage: z
+          .number()
+          .int()
+          .min(0)
+          .max(100)
+          .optional()
+          .describe(
+            "Percentage of energy paid by callers; the deployer pays the rest. Defaults to 100.",
+          ),
+        originEnergyLimit: z
+          .number()
+          .int()
+          .positive()
+          .optional()
+          .describe(
+            "Maximum energy the deployer pays per call when userFeePercentage is below 100. Defaults to 10,000,000.",
+          ),
+        dryRun: z
+          .boolean()
+          .optional()
+          .describe("Validate the transaction without signing or broadcasting it"),
+        network: z.string().optional().describe("Network name. Defaults to mainnet."),
+      },
+      annotations: {
+        title: "Deploy Smart Contract",
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: false,
+        openWorldHint: true,
+      },
+    },
+    async ({ dryRun = false, network = "mainnet", ...params }) => {
+      try {
+        const simulate = dryRun || isDryRunMode();
+        const privateKey = getConfiguredPrivateKey();
+        const result = await services.deployContract(privateKey, params, network, simulate);
+        return {
+          content: [
+            {
+              type: "text",
+              text: services.helpers.formatJson({
+                network,
+                ...result,
+                dryRun: simulate || undefined,
+                message: simulate ? DRY_RUN_MESSAGE : "Contract deployed and confirmed.",
+              }),
+            },
+          ],
+        };
+      } catch (error) {
+        if (error instanceof services.PolicyViolationError) {
+          return policyViolationResult(error);
+        }
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error deploying contract: ${error instanceof Error ? error.message : String(error)}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    },
+  );
+
+  server.registerTool(
+    "get_contract_info",
+    {
+      description:
+        "Get a smart contract's origin (deployer) address, deploy transaction, ABI size, whether its bytecode is on chain, and its energy-sharing settings (userFeePercentage and originEnergyLimit).",
+      inputSchema: {
+        contractAddress: z.string().describe("The contract address"),
+        network: z.string().optional().describe("Network name. Defaults to mainnet."),
+      },
+      annotations: {
+        title: "Get Contract Info",
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async ({ contractAddress, network = "mainnet" }) => {
+      try {
+        const result = await services.getContractInfo(contractAddress, network);
+        return {
+          content: [{ type: "text", text: services.helpers.formatJson({ network, ...result }) }],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error fetching contract info: ${error instanceof Error ? error.message : String(error)}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    },
+  );
+
+  server.registerTool(
+    "update_contract_settings",
+    {
+      description:
+        "Update the energy-sharing settings of a contract deployed by the configured wallet: the percentage of energy callers pay (userFeePercentage) and the maximum energy the deployer pays per call (originEnergyLimit). Each changed setting is sent as its own transaction.",
+      inputSchema: {
+        contractAddress: z.string().describe("The contract address"),
+        userFeePercentage: z
+          .number()
+          .int()
+          .min(0)
+          .max(100)
+          .optional()
+          .describe("Percentage of energy paid by callers; the deployer pays the rest"),
+        originEnergyLimit: z
+          .number()
+          .int()
+          .positive()
+          .optional()
+          .describe("Maximum energy the deployer pays per call"),
+        dryRun: z
+          .boolean()
+          .optional()
+          .describe("Validate the transactions without signing or broadcasting them"),
+        network: z.string().optional().describe("Network name. Defaults to mainnet."),
+      },
+      annotations: {
+        title: "Update Contract Settings",
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async ({
+      contractAddress,
+      userFeePercentage,
+      originEnergyLimit,
+      dryRun = false,
+      network = "mainnet",
+    }) => {
+      try {
+        const simulate = dryRun || isDryRunMode();
+        const privateKey = getConfiguredPrivateKey();
+        const result = await services.updateContractSettings(
+          privateKey,
+          contractAddress,
+          { userFeePercentage, originEnergyLimit },
+          network,
+          simulate,
+        );
+        return {
+          content: [
+            {
+              type: "text",
+              text: services.helpers.formatJson({
+                network,
+                ...result,
+                dryRun: simulate || undefined,
+                message: simulate
+                  ? DRY_RUN_MESSAGE
+                  : "Settings transactions sent. Use get_transaction_info to check confirmation.",
+              }),
+            },
+          ],
+        };
+      } catch (error) {
+        if (error instanceof services.PolicyViolationError) {
+          return policyViolationResult(error);
+        }
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error updating contract settings: ${error instanceof Error ? error.message : String(error)}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    },
+  );
+
+  // ============================================================================
+  // TRANSFER TOOLS (Write operations)
+  // ============================================================================
+
+  server.registerTool(
+    "transfer_trx",
+    {
+      description:
+        "Transfer TRX to an address. The estimated fee (Bandwidth and any account activation) is shown in the confirmation prompt before signing and returned with the result; use dryRun to get it without sending.",
+      inputSchema: {
+        to: z.string().describe("Recipient address"),
+        amount: z.string().describe("Amount to send in TRX (e.g., '10.5')"),
+        dryRun: z
+          .boolean()
+          .optional()
+          .describe(
+            "Simulate only: return the expected result and fees without signing or broadcasting",
+          ),
+        network: z.string().optional().describe("Network name. Defaults to mainnet."),
+      },
+      annotations: {
+        title: "Transfer TRX",
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: false,
+        openWorldHint: true,
+      },
+    },
+    async ({ to, amount, dryRun = false, network = "mainnet" }) => {
+      try {
+        if (dryRun || isDryRunMode()) {
+          const senderAddress = getWalletAddressFromKey();
+          const simulation = await services.simulateTRXTransfer(senderAddress, to, amount, network);
+          return {
+            content: [
+              {
+                type: "text",
+                text: services.helpers.formatJson({
+                  network,
+                  dryRun: true,
+                  from: senderAddress,
+                  to,
+                  amount: `${amount} TRX`,
+                  ...simulation,
+                  message: "Dry run only. Nothing was signed or broadcast.",
+                }),
+              },
+            ],
+          };
+        }
+
+        const signer = services.getConfiguredSigner();
+        const senderAddress = getWalletAddressFromKey();
+        // Estimated before signing, so the cost is reported even without a confirmation step
+        let estimatedFee: { sun: number; trx: string } | undefined;
+        let estimateError: string | undefined;
+        try {
+          estimatedFee = (await services.simulateTRXTransfer(senderAddress, to, amount, network))
+            .estimatedFee;
+        } catch (error) {
+          estimateError = error instanceof Error ? error.message : String(error);
+        }
+        const txHash = await services.transferTRX(signer, to, amount, network);
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(
+                {
+                  network,
+                  from: senderAddress,
+                  to,
+                  amount: `${amount} TRX`,
+                  estimatedFee,
+                  estimateError,
+                  txHash,
+                  message: "Transaction sent. Use get_transaction_info to check confirmation.",
+                },
+                null,
+                2,
+              ),
+            },
+          ],
+        };
+      } catch (error) {
+        if (error instanceof services.PolicyViolationError) {
+          return policyViolationResult(error);
+        }
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error transferring TRX: ${error instanceof Error ? error.message : String(error)}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    },
+  );
+
+  server.registerTool(
+    "transfer_trc20",
+    {
+      description:
+        "Transfer TRC20 tokens to an address. The expected TRX cost is shown in the confirmation prompt before signing and returned with the result; use dryRun to get it without sending.",
+      inputSchema: {
+        tokenAddress: z.string().describe("The TRC20 token contract address"),
+        to: z.string().describe("Recipient address"),
+        amount: z.string().describe("Amount to send (raw amount with decimals)"),
+        feeLimit: z
+          .number()
+          .int()
+          .positive()
+          .optional()
+          .describe(
+            "Maximum TRX to burn for energy (in Sun). If omitted, derived from an energy estimate plus a safety margin.",
+          ),
+        dryRun: z
+          .boolean()
+          .optional()
+          .describe(
+            "Simulate only: return the expected result and fees without signing or broadcasting",
+          ),
+        network: z.string().optional().describe("Network name. Defaults to mainnet."),
+      },
+      annotations: {
+        title: "Transfer TRC20 Tokens",
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: false,
+        openWorldHint: true,
+      },
+    },
+    async ({ tokenAddress, to, amount, feeLimit, dryRun = false, network = "mainnet" }) => {
+      try {
+        if (dryRun || isDryRunMode()) {
+          const senderAddress = getWalletAddressFromKey();
+          const simulation = await services.simulateContractCall(
+            {
+              address: tokenAddress,
+              functionName: "transfer",
+              args: [to, amount],
+              abi: services.TRC20_TRANSFER_ABI,
+              from: senderAddress,
+            },
+            network,
+          );
+          return {
+            content: [
+              {
+                type: "text",
+                text: services.helpers.formatJson({
+                  network,
+                  dryRun: true,
+                  tokenAddress,
+                  from: senderAddress,
+                  to,
+                  amount,
+                  ...simulation,
+                  message: "Dry run only. Nothing was signed or broadcast.",
+                }),
+              },
+            ],
+          };
+        }
+
+        const signer = services.getConfiguredSigner();
+        const senderAddress = getWalletAddressFromKey();
+        const fee = await services.resolveFeeLimit(
+          {
+            address: tokenAddress,
+            functionName: "transfer",
+            args: [to, amount],
+            abi: services.TRC20_TRANSFER_ABI,
+            from: senderAddress,
+          },
+          feeLimit,
+          network,
+        );
+        const result = await services.transferTRC20(
+          tokenAddress,
+          to,
+          amount,
+          signer,
+          network,
+          fee.feeLimit,
+        );
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(
+                {
+                  network,
+                  tokenAddress,
+                  from: senderAddress,
+                  to,
+                  amount: result.amount.formatted,
+                  symbol: result.token.symbol,
+                  decimals: result.token.decimals,
+                  feeLimit: { sun: fee.feeLimit, trx: services.utils.fromSun(fee.feeLimit) },
+                  estimatedEnergy: fee.estimate?.energy,
+                  estimatedCost: fee.estimate?.estimatedFee,
+                  estimateError: fee.estimateError,
+                  txHash: result.txHash,
+                  message: "Transaction sent.",
+                },
+                null,
+                2,
+              ),
+            },
+          ],
+        };
+      } catch (error) {
+        if (error instanceof services.PolicyViolationError) {
+          return policyViolationResult(error);
+        }
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error transferring TRC20 tokens: ${error instanceof Error ? error.message : String(error)}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    },
+  );
+
+  server.registerTool(
+    "transfer_trc10",
+    {
+      description: "Transfer TRC10 tokens to an address.",
+      inputSchema: {
+        tokenId: z.string().describe("The TRC10 asset ID, e.g. '1002000'"),
+        to: z.string().describe("Recipient address"),
+        amount: z
+          .string()
+          .describe("Amount to send (raw amount with precision, at most 9007199254740991)"),
+        dryRun: z
+          .boolean()
+          .optional()
+          .describe(
+            "Simulate only: return the expected result and fees without signing or broadcasting",
+          ),
+        network: z.string().optional().describe("Network name. Defaults to mainnet."),
+      },
+      annotations: {
+        title: "Transfer TRC10 Tokens",
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: false,
+        openWorldHint: true,
+      },
+    },
+    async ({ tokenId, to, amount, dryRun = false, network = "mainnet" }) => {
+      try {
+        if (dryRun || isDryRunMode()) {
+          const senderAddress = getWalletAddressFromKey();
+          const simulation = await services.simulateTRC10Transfer(
+            senderAddress,
+            to,
+            tokenId,
+            amount,
+            network,
+          );
+          return {
+            content: [
+              {
+                type: "text",
+                text: services.helpers.formatJson({
+                  network,
+                  dryRun: true,
+                  tokenId,
+                  from: senderAddress,
+                  to,
+                  ...simulation,
+                  message: "Dry run only. Nothing was signed or broadcast.",
+                }),
+              },
+            ],
+          };
+        }
+
+        const privateKey = getConfiguredPrivateKey();
+        const senderAddress = getWalletAddressFromKey();
+        const result = await services.transferTRC10(tokenId, to, amount, privateKey, network);
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(
+                {
+                  network,
+                  tokenId,
+                  from: senderAddress,
+                  to,
+                  amount: result.amount.formatted,
+                  name: result.token.name,
+                  precision: result.token.precision,
+                  txHash: result.txHash,
+                  message: "Transaction sent. Use get_transaction_info to check confirmation.",
+                },
+                null,
+                2,
+              ),
+            },
+          ],
+        };
+      } catch (error) {
+        if (error instanceof services.PolicyViolationError) {
+          return policyViolationResult(error);
+        }
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error transferring TRC10 tokens: ${error instanceof Error ? error.message : String(error)}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    },
+  );
+
+  server.registerTool(
+    "transfer_nft",
+    {
+      description:
+        "Transfer a TRC721 token from the configured wallet using safeTransferFrom (contract recipients must accept TRC721 tokens).",
+      inputSchema: {
+        contractAddress: z.string().describe("The TRC721 contract address"),
+        to: z.string().describe("Recipient address"),
+        tokenId: z.string().describe("The token ID"),
+        feeLimit: z
+          .number()
+          .int()
+          .positive()
+          .optional()
+          .describe(
+            "Maximum TRX to burn for energy (in Sun). If omitted, derived from an energy estimate plus a safety margin.",
+          ),
+        dryRun: z
+          .boolean()
+          .optional()
+          .describe(
+            "Simulate only: return the expected result and fees without signing or broadcasting",
+          ),
+        network: z.string().optional().describe("Network name. Defaults to mainnet."),
+      },
+      annotations: {
+        title: "Transfer NFT",
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: false,
+        openWorldHint: true,
+      },
+    },
+    async ({ contractAddress, to, tokenId, feeLimit, dryRun = false, network = "mainnet" }) => {
+      try {
+        const senderAddress = getWalletAddressFromKey();
+        const call = {
+          address: contractAddress,
+          functionName: "safeTransferFrom",
+          args: [senderAddress, to, tokenId],
+          abi: services.TRC721_ABI,
+          from: senderAddress,
+        };
+
+        if (dryRun || isDryRunMode()) {
+          const simulation = await services.simulateContractCall(call, network);
+          return {
+            content: [
+              {
+                type: "text",
+                text: services.helpers.formatJson({
+                  network,
+                  dryRun: true,
+                  contractAddress,
+                  tokenId,
+                  from: senderAddress,
+                  to,
+                  ...simulation,
+                  message: "Dry run only. Nothing was signed or broadcast.",
+                }),
+              },
+            ],
+          };
+        }
+
+        const privateKey = getConfiguredPrivateKey();
+        const fee = await services.resolveFeeLimit(call, feeLimit, network);
+        const result = await services.transferNFT(
+          privateKey,
+          { contractAddress, to, tokenId, feeLimit: fee.feeLimit },
+          network,
+        );
+        return {
+          content: [
+            {
+              type: "text",
+              text: services.helpers.formatJson({
+                network,
+                contractAddress,
+                tokenId,
+                from: result.from,
+                to,
+                feeLimit: { sun: fee.feeLimit, trx: services.utils.fromSun(fee.feeLimit) },
+                estimatedEnergy: fee.estimate?.energy,
+                estimatedCost: fee.estimate?.estimatedFee,
+                estimateError: fee.estimateError,
+                txHash: result.txHash,
+                message: "Transaction sent. Use get_transaction_info to check confirmation.",
+              }),
+            },
+          ],
+        };
+      } catch (error) {
+        if (error instanceof services.PolicyViolationError) {
+          return policyViolationResult(error);
+        }
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error transferring NFT: ${error instanceof Error ? error.message : String(error)}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    },
+  );
+
+  server.registerTool(
+    "transfer_trc1155",
+    {
+      description: "Transfer TRC1155 tokens from the configured wallet using safeTransferFrom.",
+      inputSchema: {
+        contractAddress: z.string().describe("The TRC1155 contract address"),
+        to: z.string().describe("Recipient address"),
+        tokenId: z.string().describe("The token ID"),
+        amount: z.string().describe("Number of tokens to send"),
+        data: z
+          .string()
+          .optional()
+          .describe("Hex data passed to the recipient's receive hook. Defaults to 0x."),
+        feeLimit: z
+          .number()
+          .int()
+          .positive()
+          .optional()
+          .describe(
+            "Maximum TRX to burn for energy (in Sun). If omitted, derived from an energy estimate plus a safety margin.",
+          ),
+        dryRun: z
+          .boolean()
+          .optional()
+          .describe(
+            "Simulate only: return the expected result and fees without signing or broadcasting",
+          ),
+        network: z.string().optional().describe("Network name. Defaults to mainnet."),
+      },
+      annotations: {
+        title: "Transfer TRC1155 Tokens",
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: false,
+        openWorldHint: true,
+      },
+    },
+    async ({
+      contractAddress,
+      to,
+      tokenId,
+      amount,
+      data = "0x",
+      feeLimit,
+      dryRun = false,
+      network = "mainnet",
+    }) => {
+      try {
+        const senderAddress = getWalletAddressFromKey();
+        const call = {
+          address: contractAddress,
+          functionName: "safeTransferFrom",
+          args: [senderAddress, to, tokenId, amount, data],
+          abi: services.TRC1155_ABI,
+          from: senderAddress,
+        };
+
+        if (dryRun || isDryRunMode()) {
+          const simulation = await services.simulateContractCall(call, network);
+          return {
+            content: [
+              {
+                type: "text",
+                text: services.helpers.formatJson({
+                  network,
+                  dryRun: true,
+                  contractAddress,
+                  tokenId,
+                  amount,
+                  from: senderAddress,
+                  to,
+                  ...simulation,
+                  message: "Dry run only. Nothing was signed or broadcast.",
+                }),
+              },
+            ],
+          };
+        }
+
+        const privateKey = getConfiguredPrivateKey();
+        const fee = await services.resolveFeeLimit(call, feeLimit, network);
+        const result = await services.transferTRC1155(
+          privateKey,
+          { contractAddress, to, tokenId, amount, data, feeLimit: fee.feeLimit },
+          network,
+        );
+        return {
+          content: [
+            {
+              type: "text",
+              text: services.helpers.formatJson({
+                network,
+                contractAddress,
+                tokenId,
+                amount,
+                from: result.from,
+                to,
+                feeLimit: { sun: fee.feeLimit, trx: services.utils.fromSun(fee.feeLimit) },
+                estimatedEnergy: fee.estimate?.energy,
+                estimatedCost: fee.estimate?.estimatedFee,
+                estimateError: fee.estimateError,
+                txHash: result.txHash,
+                message: "Transaction sent. Use get_transaction_info to check confirmation.",
+              }),
+            },
+          ],
+        };
+      } catch (error) {
+        if (error instanceof services.PolicyViolationError) {
+          return policyViolationResult(error);
+        }
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error transferring TRC1155 tokens: ${error instanceof Error ? error.message : String(error)}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    },
+  );
+
+  server.registerTool(
+    "batch_transfer_trc1155",
+    {
+      description:
+        "Transfer several TRC1155 token IDs from the configured wallet in one safeBatchTransferFrom call.",
+      inputSchema: {
+        contractAddress: z.string().describe("The TRC1155 contract address"),
+        to: z.string().describe("Recipient address"),
+        tokenIds: z.array(z.string()).min(1).describe("Token IDs to send"),
+        amounts: z
+          .array(z.string())
+          .min(1)
+          .describe("Number of tokens to send for each token ID, in the same order"),
+        data: z
+          .string()
+          .optional()
+          .describe("Hex data passed to the recipient's receive hook. Defaults to 0x."),
+        feeLimit: z
+          .number()
+          .int()
+          .positive()
+          .optional()
+          .describe(
+            "Maximum TRX to burn for energy (in Sun). If omitted, derived from an energy estimate plus a safety margin.",
+          ),
+        dryRun: z
+          .boolean()
+          .optional()
+          .describe(
+            "Simulate only: return the expected result and fees without signing or broadcasting",
+          ),
+        network: z.string().optional().describe("Network name. Defaults to mainnet."),
+      },
+      annotations: {
+        title: "Batch Transfer TRC1155 Tokens",
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: false,
+        openWorldHint: true,
+      },
+    },
+    async ({
+      contractAddress,
+      to,
+      tokenIds,
+      amounts,
+      data = "0x",
+      feeLimit,
+      dryRun = false,
+      network = "mainnet",
+    }) => {
+      try {
+        if (tokenIds.length !== amounts.length) {
+          throw new Error("tokenIds and amounts must have the same length");
+        }
+        const senderAddress = getWalletAddressFromKey();
+        const call = {
+          address: contractAddress,
+          functionName: "safeBatchTransferFrom",
+          args: [senderAddress, to, tokenIds, amounts, data],
+          abi: services.TRC1155_ABI,
+          from: senderAddress,
+        };
+
+        if (dryRun || isDryRunMode()) {
+          const simulation = await services.simulateContractCall(call, network);
+          return {
+            content: [
+              {
+                type: "text",
+                text: services.helpers.formatJson({
+                  network,
+                  dryRun: true,
+                  contractAddress,
+                  tokenIds,
+                  amounts,
+                  from: senderAddress,
+                  to,
+                  ...simulation,
+                  message: "Dry run only. Nothing was signed or broadcast.",
+                }),
+              },
+            ],
+          };
+        }
+
+        const privateKey = getConfiguredPrivateKey();
+        const fee = await services.resolveFeeLimit(call, feeLimit, network);
+        const result = await services.batchTransferTRC1155(
+          privateKey,
+          { contractAddress, to, tokenIds, amounts, data, feeLimit: fee.feeLimit },
+          network,
+        );
+        return {
+          content: [
+            {
+              type: "text",
+              text: services.helpers.formatJson({
+                network,
+                contractAddress,
+                tokenIds,
+                amounts,
+                from: result.from,
+                to,
+                feeLimit: { sun: fee.feeLimit, trx: services.utils.fromSun(fee.feeLimit) },
+                estimatedEnergy: fee.estimate?.energy,
+                estimatedCost: fee.estimate?.estimatedFee,
+                estimateError: fee.estimateError,
+                txHash: result.txHash,
+                message: "Transaction sent. Use get_transaction_info to check confirmation.",
+              }),
+            },
+          ],
+        };
+      } catch (error) {
+        if (error instanceof services.PolicyViolationError) {
+          return policyViolationResult(error);
+        }
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error batch transferring TRC1155 tokens: ${error instanceof Error ? error.message : String(error)}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    },
+  );
+
+  // ============================================================================
+  // STAKING TOOLS (Write operations)
+  // ============================================================================
+
+  server.registerTool(
+    "freeze_balance_v2",
+    {
+      description:
+        "Stake TRX to obtain Energy or Bandwidth (Stake 2.0). Requires configured wallet.",
+      inputSchema: {
+        amount: z.string().describe("Amount to stake in TRX (e.g., '100')"),
+        resource: z
+          .enum(["ENERGY", "BANDWIDTH"])
+          .optional()
+          .describe("Resource to obtain. Defaults to ENERGY."),
+        dryRun: z
+          .boolean()
+          .optional()
+          .describe("Validate the transaction without signing or broadcasting it"),
+        network: z.string().optional().describe("Network name. Defaults to mainnet."),
+      },
+      annotations: {
+        title: "Freeze Balance (Stake 2.0)",
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: false,
+        openWorldHint: true,
+      },
+    },
+    async ({ amount, resource = "ENERGY", dryRun = false, network = "mainnet" }) => {
+      try {
+        if (dryRun || isDryRunMode()) {
+          const ownerAddress = getWalletAddressFromKey();
+          await services.buildUnsignedTransaction(
+            ownerAddress,
+            { type: "freeze_balance_v2", amount, resource },
+            0,
+            undefined,
+            network,
+          );
+          return dryRunResult({ network, owner: ownerAddress, amount: `${amount} TRX`, resource });
+        }
+
+        const privateKey = getConfiguredPrivateKey();
+        const ownerAddress = getWalletAddressFromKey();
+        const txHash = await services.freezeBalanceV2(privateKey, amount, resource, network);
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(
+                {
+                  network,
+                  owner: ownerAddress,
+                  amount: `${amount} TRX`,
+                  resource,
+                  txHash,
+                  message:
+                    "Stake transaction sent. Use get_transaction_info to check confirmation.",
+                },
+                null,
+                2,
+              ),
+            },
+          ],
+        };
+      } catch (error) {
+        if (error instanceof services.PolicyViolationError) {
+          return policyViolationResult(error);
+        }
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error freezing balance: ${error instanceof Error ? error.message : String(error)}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    },
+  );
+
+  server.registerTool(
+    "unfreeze_balance_v2",
+    {
+      description:
+        "Unstake TRX staked for Energy or Bandwidth (Stake 2.0). The TRX can be withdrawn with withdraw_expire_unfreeze once the unbonding period has passed. Requires configured wallet.",
+      inputSchema: {
+        amount: z.string().describe("Amount to unstake in TRX (e.g., '100')"),
+        resource: z
+          .enum(["ENERGY", "BANDWIDTH"])
+          .optional()
+          .describe("Resource the TRX was staked for. Defaults to ENERGY."),
+        dryRun: z
+          .boolean()
+          .optional()
+          .describe("Validate the transaction without signing or broadcasting it"),
+        network: z.string().optional().describe("Network name. Defaults to mainnet."),
+      },
+      annotations: {
+        title: "Unfreeze Balance (Stake 2.0)",
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: false,
+        openWorldHint: true,
+      },
+    },
+    async ({ amount, resource = "ENERGY", dryRun = false, network = "mainnet" }) => {
+      try {
+        if (dryRun || isDryRunMode()) {
+          const ownerAddress = getWalletAddressFromKey();
+          await services.buildUnsignedTransaction(
+            ownerAddress,
+            { type: "unfreeze_balance_v2", amount, resource },
+            0,
+            undefined,
+            network,
+          );
+          return dryRunResult({ network, owner: ownerAddress, amount: `${amount} TRX`, resource });
+        }
+
+        const privateKey = getConfiguredPrivateKey();
+        const ownerAddress = getWalletAddressFromKey();
+        const txHash = await services.unfreezeBalanceV2(privateKey, amount, resource, network);
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(
+                {
+                  network,
+                  owner: ownerAddress,
+                  amount: `${amount} TRX`,
+                  resource,
+                  txHash,
+                  message:
+                    "Unstake transaction sent. Funds become withdrawable after the unbonding period.",
+                },
+                null,
+                2,
+              ),
+            },
+          ],
+        };
+      } catch (error) {
+        if (error instanceof services.PolicyViolationError) {
+          return policyViolationResult(error);
+        }
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error unfreezing balance: ${error instanceof Error ? error.message : String(error)}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    },
+  );
+
+  server.registerTool(
+    "withdraw_expire_unfreeze",
+    {
+      description:
+        "Withdraw unstaked TRX whose unbonding period has expired back to the available balance. Requires configured wallet.",
+      inputSchema: {
+        dryRun: z
+          .boolean()
+          .optional()
+          .describe("Validate the transaction without signing or broadcasting it"),
+        network: z.string().optional().describe("Network name. Defaults to mainnet."),
+      },
+      annotations: {
+        title: "Withdraw Expired Unfreeze",
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: false,
+        openWorldHint: true,
+      },
+    },
+    async ({ dryRun = false, network = "mainnet" }) => {
+      try {
+        if (dryRun || isDryRunMode()) {
+          const ownerAddress = getWalletAddressFromKey();
+          await services.buildUnsignedTransaction(
+            ownerAddress,
+            { type: "withdraw_expire_unfreeze" },
+            0,
+            undefined,
+            network,
+          );
+          return dryRunResult({ network, owner: ownerAddress });
+        }
+
+        const privateKey = getConfiguredPrivateKey();
+        const ownerAddress = getWalletAddressFromKey();
+        const txHash = await services.withdrawExpireUnfreeze(privateKey, network);
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(
+                {
+                  network,
+                  owner: ownerAddress,
+                  txHash,
+                  message:
+                    "Withdraw transaction sent. Use get_transaction_info to check confirmation.",
+                },
+                null,
+                2,
+              ),
+            },
+          ],
+        };
+      } catch (error) {
+        if (error instanceof services.PolicyViolationError) {
+          return policyViolationResult(error);
+        }
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error withdrawing expired unfreeze: ${error instanceof Error ? error.message : String(error)}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    },
+  );
+
+  server.registerTool(
+    "cancel_all_unfreeze_v2",
+    {
+      description:
+        "Cancel all pending unstakes. Amounts past their unbonding period are withdrawn, the rest is staked again. Requires configured wallet.",
+      inputSchema: {
+        dryRun: z
+          .boolean()
+          .optional()
+          .describe("Validate the transaction without signing or broadcasting it"),
+        network: z.string().optional().describe("Network name. Defaults to mainnet."),
+      },
+      annotations: {
+        title: "Cancel All Unfreeze (Stake 2.0)",
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: false,
+        openWorldHint: true,
+      },
+    },
+    async ({ dryRun = false, network = "mainnet" }) => {
+      try {
+        if (dryRun || isDryRunMode()) {
+          const ownerAddress = getWalletAddressFromKey();
+          await services.buildUnsignedTransaction(
+            ownerAddress,
+            { type: "cancel_all_unfreeze_v2" },
+            0,
+            undefined,
+            network,
+          );
+          return dryRunResult({ network, owner: ownerAddress });
+        }
+
+        const privateKey = getConfiguredPrivateKey();
+        const ownerAddress = getWalletAddressFromKey();
+        const txHash = await services.cancelAllUnfreezeV2(privateKey, network);
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(
+                {
+                  network,
+                  owner: ownerAddress,
+                  txHash,
+                  message:
+                    "Cancel unstake transaction sent. Use get_transaction_info to check confirmation.",
+                },
+                null,
+                2,
+              ),
+            },
+          ],
+        };
+      } catch (error) {
+        if (error instanceof services.PolicyViolationError) {
+          return policyViolationResult(error);
+        }
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error cancelling unfreeze: ${error instanceof Error ? error.message : String(error)}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    },
+  );
+
+  server.registerTool(
+    "delegate_resource",
+    {
+      description:
+        "Delegate staked Energy or Bandwidth to another account (Stake 2.0). Requires configured wallet.",
+      inputSchema: {
+        receiver: z.string().describe("Address receiving the delegated resource"),
+        amount: z.string().describe("Amount of staked TRX to delegate (e.g., '1000')"),
+        resource: z
+          .enum(["ENERGY", "BANDWIDTH"])
+          .optional()
+          .describe("Resource to delegate. Defaults to ENERGY."),
+        lock: z
+          .boolean()
+          .optional()
+          .describe("Lock the delegation so it cannot be reclaimed before the lock period ends"),
+        lockPeriod: z
+          .number()
+          .int()
+          .positive()
+          .optional()
+          .describe("Lock period in blocks (1 block = 3 seconds). Only used when lock is true."),
+        dryRun: z
+          .boolean()
+          .optional()
+          .describe("Validate the transaction without signing or broadcasting it"),
+        network: z.string().optional().describe("Network name. Defaults to mainnet."),
+      },
+      annotations: {
+        title: "Delegate Resource",
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: false,
+        openWorldHint: true,
+      },
+    },
+    async ({
+      receiver,
+      amount,
+      resource = "ENERGY",
+      lock = false,
+      lockPeriod,
+      dryRun = false,
+      network = "mainnet",
+    }) => {
+      try {
+        if (dryRun || isDryRunMode()) {
+          const ownerAddress = getWalletAddressFromKey();
+          await services.buildUnsignedTransaction(
+            ownerAddress,
+            { type: "delegate_resource", receiver, amount, resource, lock, lockPeriod },
+            0,
+            undefined,
+            network,
+          );
+          return dryRunResult({
+            network,
+            from: ownerAddress,
+            to: receiver,
+            amount: `${amount} TRX`,
+            resource,
+            lock,
+            lockPeriod: lock ? lockPeriod : undefined,
+          });
+        }
+
+        const privateKey = getConfiguredPrivateKey();
+        const ownerAddress = getWalletAddressFromKey();
+        const txHash = await services.delegateResource(
+          privateKey,
+          { receiver, amount, resource, lock, lockPeriod },
+          network,
+        );
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(
+                {
+                  network,
+                  from: ownerAddress,
+                  to: receiver,
+                  amount: `${amount} TRX`,
+                  resource,
+                  lock,
+                  lockPeriod: lock ? lockPeriod : undefined,
+                  txHash,
+                  message:
+                    "Delegation transaction sent. Use get_transaction_info to check confirmation.",
+                },
+                null,
+                2,
+              ),
+            },
+          ],
+        };
+      } catch (error) {
+        if (error instanceof services.PolicyViolationError) {
+          return policyViolationResult(error);
+        }
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error delegating resource: ${error instanceof Error ? error.message : String(error)}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    },
+  );
+
+  server.registerTool(
+    "undelegate_resource",
+    {
+      description:
+        "Reclaim Energy or Bandwidth previously delegated to another account (Stake 2.0). Requires configured wallet.",
+      inputSchema: {
+        receiver: z.string().describe("Address the resource was delegated to"),
+        amount: z.string().describe("Amount of delegated TRX to reclaim (e.g., '1000')"),
+        resource: z
+          .enum(["ENERGY", "BANDWIDTH"])
+          .optional()
+          .describe("Resource to reclaim. Defaults to ENERGY."),
+        dryRun: z
+          .boolean()
+          .optional()
+          .describe("Validate the transaction without signing or broadcasting it"),
+        network: z.string().optional().describe("Network name. Defaults to mainnet."),
+      },
+      annotations: {
+        title: "Undelegate Resource",
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: false,
+        openWorldHint: true,
+      },
+    },
+    async ({ receiver, amount, resource = "ENERGY", dryRun = false, network = "mainnet" }) => {
+      try {
+        if (dryRun || isDryRunMode()) {
+          const ownerAddress = getWalletAddressFromKey();
+          await services.buildUnsignedTransaction(
+            ownerAddress,
+            { type: "undelegate_resource", receiver, amount, resource },
+            0,
+            undefined,
+            network,
+          );
+          return dryRunResult({
+            network,
+            from: ownerAddress,
+            to: receiver,
+            amount: `${amount} TRX`,
+            resource,
+          });
+        }
+
+        const privateKey = getConfiguredPrivateKey();
+        const ownerAddress = getWalletAddressFromKey();
+        const txHash = await services.undelegateResource(
+          privateKey,
+          { receiver, amount, resource },
+          network,
+        );
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(
+                {
+                  network,
+                  owner: ownerAddress,
+                  receiver,
+                  amount: `${amount} TRX`,
+                  resource,
+                  txHash,
+                  message:
+                    "Undelegation transaction sent. Use get_transaction_info to check confirmation.",
+                },
+                null,
+                2,
+              ),
+            },
+          ],
+        };
+      } catch (error) {
+        if (error instanceof services.PolicyViolationError) {
+          return policyViolationResult(error);
+        }
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error undelegating resource: ${error instanceof Error ? error.message : String(error)}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    },
+  );
+
+  // ============================================================================
+  // GOVERNANCE TOOLS
+  // ============================================================================
+
+  server.registerTool(
+    "list_witnesses",
+    {
+      description:
+        "List witnesses (Super Representatives) ranked by votes, with URL, vote share, brokerage (share of rewards the witness keeps) and whether each is an active SR, SR partner or candidate.",
+      inputSchema: {
+        limit: z
+          .number()
+          .int()
+          .positive()
+          .optional()
+          .describe("Number of top-ranked witnesses to return. Defaults to 30."),
+        includeBrokerage: z
+          .boolean()
+          .optional()
+          .describe("Look up each witness's brokerage ratio (one request each). Defaults to true."),
+        network: z.string().optional().describe("Network name. Defaults to mainnet."),
+      },
+      annotations: {
+        title: "List Witnesses",
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async ({ limit, includeBrokerage, network = "mainnet" }) => {
+      try {
+        const result = await services.listWitnesses({ limit, includeBrokerage }, network);
+        return {
+          content: [{ type: "text", text: services.helpers.formatJson({ network, ...result }) }],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error listing witnesses: ${error instanceof Error ? error.message : String(error)}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    },
+  );
+
+  server.registerTool(
+    "get_account_votes",
+    {
+      description: "Get the witness votes an account has cast and its TRON Power.",
+      inputSchema: {
+        address: z
+          .string()
+          .optional()
+          .describe("The account address. Defaults to the configured wallet."),
+        network: z.string().optional().describe("Network name. Defaults to mainnet."),
+      },
+      annotations: {
+        title: "Get Account Votes",
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async ({ address, network = "mainnet" }) => {
+      try {
+        const result = await services.getAccountVotes(address || getDefaultAddress(), network);
+        return {
+          content: [{ type: "text", text: services.helpers.formatJson({ network, ...result }) }],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error fetching account votes: ${error instanceof Error ? error.message : String(error)}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    },
+  );
+
+  server.registerTool(
+    "vote_witness",
+    {
+      description:
+        "Vote for witnesses with the configured wallet's TRON Power (1 vote = 1 staked TRX). Replaces all previous votes. Fails before signing if the votes exceed the wallet's TRON Power or target a non-witness.",
+      inputSchema: {
+        votes: z
+          .array(
+            z.object({
+              address: z.string().describe("Witness address"),
+              count: z.number().int().positive().describe("Number of votes"),
+            }),
+          )
+          .min(1)
+          .describe("Votes to cast"),
+        dryRun: z
+          .boolean()
+          .optional()
+          .describe("Validate the transaction without signing or broadcasting it"),
+        network: z.string().optional().describe("Network name. Defaults to mainnet."),
+      },
+      annotations: {
+        title: "Vote for Witnesses",
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: false,
+        openWorldHint: true,
+      },
+    },
+    async ({ votes, dryRun = false, network = "mainnet" }) => {
+      try {
+        const simulate = dryRun || isDryRunMode();
+        const privateKey = getConfiguredPrivateKey();
+        const result = await services.voteWitness(privateKey, votes, network, simulate);
+        return {
+          content: [
+            {
+              type: "text",
+              text: services.helpers.formatJson({
+                network,
+                ...result,
+                votes,
+                dryRun: simulate || undefined,
+                message: simulate
+                  ? DRY_RUN_MESSAGE
+                  : "Vote transaction sent. Use get_transaction_info to check confirmation.",
+              }),
+            },
+          ],
+        };
+      } catch (error) {
+        if (error instanceof services.PolicyViolationError) {
+          return policyViolationResult(error);
+        }
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error voting for witnesses: ${error instanceof Error ? error.message : String(error)}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    },
+  );
+
+  server.registerTool(
+    "get_reward",
+    {
+      description:
+        "Get an account's unclaimed voting reward (and block reward for witnesses) and when it can next be withdrawn.",
+      inputSchema: {
+        address: z
+          .string()
+          .optional()
+          .describe("The account address. Defaults to the configured wallet."),
+        network: z.string().optional().describe("Network name. Defaults to mainnet."),
+      },
+      annotations: {
+        title: "Get Reward",
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async ({ address, network = "mainnet" }) => {
+      try {
+        const result = await services.getReward(address || getDefaultAddress(), network);
+        return {
+          content: [{ type: "text", text: services.helpers.formatJson({ network, ...result }) }],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error fetching reward: ${error instanceof Error ? error.message : String(error)}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    },
+  );
+
+  server.registerTool(
+    "withdraw_reward",
+    {
+      description:
+        "Withdraw the configured wallet's voting and block rewards to its balance. Allowed once every 24 hours.",
+      inputSchema: {
+        dryRun: z
+          .boolean()
+          .optional()
+          .describe("Validate the transaction without signing or broadcasting it"),
+        network: z.string().optional().describe("Network name. Defaults to mainnet."),
+      },
+      annotations: {
+        title: "Withdraw Reward",
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: false,
+        openWorldHint: true,
+      },
+    },
+    async ({ dryRun = false, network = "mainnet" }) => {
+      try {
+        const simulate = dryRun || isDryRunMode();
+        const privateKey = getConfiguredPrivateKey();
+        const result = await services.withdrawReward(privateKey, network, simulate);
+        return {
+          content: [
+            {
+              type: "text",
+              text: services.helpers.formatJson({
+                network,
+                ...result,
+                dryRun: simulate || undefined,
+                message: simulate
+                  ? DRY_RUN_MESSAGE
+                  : "Withdrawal transaction sent. Use get_transaction_info to check confirmation.",
+              }),
+            },
+          ],
+        };
+      } catch (error) {
+        if (error instanceof services.PolicyViolationError) {
+          return policyViolationResult(error);
+        }
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error withdrawing reward: ${error instanceof Error ? error.message : String(error)}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    },
+  );
+
+  server.registerTool(
+    "list_proposals",
+    {
+      description:
+        "List network proposals (newest first) with the parameters each one changes, their current vs proposed values, approvals and expiration.",
+      inputSchema: {
+        state: z
+          .enum(["PENDING", "APPROVED", "DISAPPROVED", "CANCELED"])
+          .optional()
+          .describe("Only return proposals in this state"),
+        limit: z
+          .number()
+          .int()
+          .positive()
+          .optional()
+          .describe("Maximum number of proposals to return. Defaults to 20."),
+        network: z.string().optional().describe("Network name. Defaults to mainnet."),
+      },
+      annotations: {
+        title: "List Proposals",
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async ({ state, limit, network = "mainnet" }) => {
+      try {
+        const result = await services.listProposals({ state, limit }, network);
+        return {
+          content: [{ type: "text", text: services.helpers.formatJson({ network, ...result }) }],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error listing proposals: ${error instanceof Error ? error.message : String(error)}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    },
+  );
+
+  server.registerTool(
+    "get_proposal",
+    {
+      description:
+        "Get a network proposal by ID: the parameters it changes (current vs proposed values), its state, the SRs that approved it and when it expires.",
+      inputSchema: {
+        proposalId: z.number().int().nonnegative().describe("The proposal ID"),
+        network: z.string().optional().describe("Network name. Defaults to mainnet."),
+      },
+      annotations: {
+        title: "Get Proposal",
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async ({ proposalId, network = "mainnet" }) => {
+      try {
+        const result = await services.getProposal(proposalId, network);
+        return {
+          content: [{ type: "text", text: services.helpers.formatJson({ network, ...result }) }],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error fetching proposal: ${error instanceof Error ? error.message : String(error)}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    },
+  );
+
+  server.registerTool(
+    "create_proposal",
+    {
+      description:
+        "Create a proposal to change network parameters. The configured wallet must be an active SR. Parameters are given by proposal ID or chain parameter name (as shown by get_chain_parameters, e.g. getEnergyFee).",
+      inputSchema: {
+        parameters: z
+          .array(
+            z.object({
+              parameter: z
+                .union([z.string(), z.number().int().nonnegative()])
+                .describe("Proposal parameter ID or chain parameter name"),
+              value: z.number().int().nonnegative().describe("Proposed value"),
+            }),
+          )
+          .min(1)
+          .describe("Parameters to change"),
+        dryRun: z
+          .boolean()
+          .optional()
+          .describe("Validate the transaction without signing or broadcasting it"),
+        network: z.string().optional().describe("Network name. Defaults to mainnet."),
+      },
+      annotations: {
+        title: "Create Proposal",
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: false,
+        openWorldHint: true,
+      },
+    },
+    async ({ parameters, dryRun = false, network = "mainnet" }) => {
+      try {
+        const simulate = dryRun || isDryRunMode();
+        const privateKey = getConfiguredPrivateKey();
+        const result = await services.createProposal(privateKey, parameters, network, simulate);
+        return {
+          content: [
+            {
+              type: "text",
+              text: services.helpers.formatJson({
+                network,
+                ...result,
+                dryRun: simulate || undefined,
+                message: simulate
+                  ? DRY_RUN_MESSAGE
+                  : "Proposal transaction sent. Use get_transaction_info to check confirmation, then list_proposals to find its ID.",
+              }),
+            },
+          ],
+        };
+      } catch (error) {
+        if (error instanceof services.PolicyViolationError) {
+          return policyViolationResult(error);
+        }
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error creating proposal: ${error instanceof Error ? error.message : String(error)}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    },
+  );
+
+  server.registerTool(
+    "approve_proposal",
+    {
+      description:
+        "Approve a pending proposal with the configured wallet, or withdraw an earlier approval. The wallet must be an active SR.",
+      inputSchema: {
+        proposalId: z.number().int().nonnegative().describe("The proposal ID"),
+        approve: z
+          .boolean()
+          .optional()
+          .describe("Set to false to withdraw an earlier approval. Defaults to true."),
+        dryRun: z
+          .boolean()
+          .optional()
+          .describe("Validate the transaction without signing or broadcasting it"),
+        network: z.string().optional().describe("Network name. Defaults to mainnet."),
+      },
+      annotations: {
+        title: "Approve Proposal",
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: false,
+        openWorldHint: true,
+      },
+    },
+    async ({ proposalId, approve = true, dryRun = false, network = "mainnet" }) => {
+      try {
+        const simulate = dryRun || isDryRunMode();
+        const privateKey = getConfiguredPrivateKey();
+        const result = await services.approveProposal(
+          privateKey,
+          proposalId,
+          approve,
+          network,
+          simulate,
+        );
+        return {
+          content: [
+            {
+              type: "text",
+              text: services.helpers.formatJson({
+                network,
+                ...result,
+                dryRun: simulate || undefined,
+                message: simulate
+                  ? DRY_RUN_MESSAGE
+                  : `${approve ? "Approval" : "Approval withdrawal"} sent. Use get_transaction_info to check confirmation.`,
+              }),
+            },
+          ],
+        };
+      } catch (error) {
+        if (error instanceof services.PolicyViolationError) {
+          return policyViolationResult(error);
+        }
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error voting on proposal: ${error instanceof Error ? error.message : String(error)}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    },
+  );
+
+  server.registerTool(
+    "delete_proposal",
+    {
+      description: "Cancel a pending proposal created by the configured wallet.",
+      inputSchema: {
+        proposalId: z.number().int().nonnegative().describe("The proposal ID"),
+        dryRun: z
+          .boolean()
+          .optional()
+          .describe("Validate the transaction without signing or broadcasting it"),
+        network: z.string().optional().describe("Network name. Defaults to mainnet."),
+      },
+      annotations: {
+        title: "Delete Proposal",
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: false,
+        openWorldHint: true,
+      },
+    },
+    async ({ proposalId, dryRun = false, network = "mainnet" }) => {
+      try {
+        const simulate = dryRun || isDryRunMode();
+        const privateKey = getConfiguredPrivateKey();
+        const result = await services.deleteProposal(privateKey, proposalId, network, simulate);
+        return {
+          content: [
+            {
+              type: "text",
+              text: services.helpers.formatJson({
+                network,
+                ...result,
+                dryRun: simulate || undefined,
+                message: simulate
+                  ? DRY_RUN_MESSAGE
+                  : "Delete transaction sent. Use get_transaction_info to check confirmation.",
+              }),
+            },
+          ],
+        };
+      } catch (error) {
+        if (error instanceof services.PolicyViolationError) {
+          return policyViolationResult(error);
+        }
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error deleting proposal: ${error instanceof Error ? error.message : String(error)}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    },
+  );
+
+  // ============================================================================
+  // ACCOUNT PERMISSION TOOLS
+  // ============================================================================
+
+  server.registerTool(
+    "get_account_permissions",
+    {
+      description:
+        "Get an account's owner, active and witness permissions: thresholds, keys with weights, and the contract types each active permission may sign (decoded from its operations bitmask).",
+      inputSchema: {
+        address: z
+          .string()
+          .optional()
+          .describe("The account address. Defaults to the configured wallet."),
+        network: z.string().optional().describe("Network name. Defaults to mainnet."),
+      },
+      annotations: {
+        title: "Get Account Permissions",
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async ({ address, network = "mainnet" }) => {
+      try {
+        const result = await services.getAccountPermissions(
+          address || getDefaultAddress(),
+          network,
+        );
+        return {
+          content: [{ type: "text", text: services.helpers.formatJson({ network, ...result }) }],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error fetching account permissions: ${error instanceof Error ? error.message : String(error)}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    },
+  );
+
+  const permissionKeysSchema = z
+    .array(
+      z.object({
+        address: z.string().describe("Key address"),
+        weight: z.number().int().positive().describe("Key weight"),
+      }),
+    )
+    .min(1)
+    .describe("Keys allowed to sign and their weights");
+
+  server.registerTool(
+    "update_account_permissions",
+    {
+      description:
+        "Replace the configured wallet's owner and/or active permissions, e.g. to set up a multisig wallet. Thresholds must be reachable and the wallet cannot remove itself from the owner permission unless allowOwnerTransfer is set. Returns a preview diff of old vs new permissions and the update fee; nothing is signed until called again with confirm: true.",
+      inputSchema: {
+        owner: z
+          .object({
+            name: z.string().optional().describe("Permission name. Defaults to 'owner'."),
+            threshold: z.number().int().positive(),
+            keys: permissionKeysSchema,
+          })
+          .optional()
+          .describe("New owner permission. Omit to keep the current one."),
+        actives: z
+          .array(
+            z.object({
+              name: z.string().optional().describe("Permission name. Defaults to 'active'."),
+              threshold: z.number().int().positive(),
+              keys: permissionKeysSchema,
+              operations: z
+                .array(z.union([z.string(), z.number().int()]))
+                .min(1)
+                .describe(
+                  "Contract types this permission may sign, by name (e.g. 'TransferContract', 'TriggerSmartContract') or ID",
+                ),
+            }),
+          )
+          .optional()
+          .describe(
+            "New active permissions, replacing all current ones. IDs are assigned in order starting at 2. Omit to keep the current ones.",
+          ),
+        allowOwnerTransfer: z
+          .boolean()
+          .optional()
+          .describe(
+            "Allow an owner permission that does not include the configured wallet, handing control to the listed keys",
+          ),
+        confirm: z
+          .boolean()
+          .optional()
+          .describe("Sign and broadcast the update. Defaults to false (preview only)."),
+        network: z.string().optional().describe("Network name. Defaults to mainnet."),
+      },
+      annotations: {
+        title: "Update Account Permissions",
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: false,
+        openWorldHint: true,
+      },
+    },
+    async ({
+      owner,
+      actives,
+      allowOwnerTransfer = false,
+      confirm = false,
+      network = "mainnet",
+    }) => {
+      try {
+        const address = getWalletAddressFromKey();
+        const update = { owner, actives };
+
+        if (!confirm || isDryRunMode()) {
+          const preview = await services.previewPermissionUpdate(
+            address,
+            update,
+            { signer: address, allowOwnerTransfer },
+            network,
+          );
+          return {
+            content: [
+              {
+                type: "text",
+                text: services.helpers.formatJson({
+                  network,
+                  preview: true,
+                  ...preview,
+                  message: `Nothing was sent. Review the changes, then call again with confirm: true to apply them (fee: ${preview.fee.trx} TRX).`,
+                }),
+              },
+            ],
+          };
+        }
+
+        const privateKey = getConfiguredPrivateKey();
+        const result = await services.updateAccountPermissions(
+          privateKey,
+          update,
+          { allowOwnerTransfer },
+          network,
+        );
+        return {
+          content: [
+            {
+              type: "text",
+              text: services.helpers.formatJson({
+                network,
+                ...result,
+                message: "Permission update sent. Use get_transaction_info to check confirmation.",
+              }),
+            },
+          ],
+        };
+      } catch (error) {
+        if (error instanceof services.PolicyViolationError) {
+          return policyViolationResult(error);
+        }
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error updating account permissions: ${error instanceof Error ? error.message : String(error)}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    },
+  );
+
+  // ============================================================================
+  // MULTISIG TOOLS (Write operations)
+  // ============================================================================
+
+  const stakeResourceSchema = z
+    .enum(["ENERGY", "BANDWIDTH"])
+    .optional()
+    .describe("Resource type. Defaults to ENERGY.");
+
+  server.registerTool(
+    "build_unsigned_transaction",
+    {
+      description:
+        "Build an unsigned transaction for a multisig account under a given permission ID. Pass the returned transaction to each key holder's cosign_transaction, then broadcast_multisig_transaction once the threshold is met.",
+      inputSchema: {
+        owner: z
+          .string()
+          .optional()
+          .describe("Account the transaction acts on. Defaults to the configured wallet."),
+        action: z
+          .discriminatedUnion("type", [
+            z.object({
+              type: z.literal("transfer_trx"),
+              to: z.string(),
+              amount: z.string().describe("Amount in TRX"),
+            }),
+            z.object({
+              type: z.literal("transfer_trc10"),
+              to: z.string(),
+              tokenId: z.string(),
+              amount: z.string().describe("Raw amount (accounting for precision)"),
+            }),
+            z.object({
+              type: z.literal("transfer_trc20"),
+              tokenAddress: z.string(),
+              to: z.string(),
+              amount: z.string().describe("Raw amount (accounting for decimals)"),
+              feeLimit: z.number().int().positive().optional().describe("Fee limit in Sun"),
+            }),
+            z.object({
+              type: z.literal("trigger_contract"),
+              contractAddress: z.string(),
+              functionName: z.string(),
+              args: z.array(z.any()).optional(),
+              abi: z
+                .array(z.record(z.unknown()))
+                .optional()
+                .describe("Contract ABI. If not provided, the on-chain ABI is used."),
+              callValue: z.string().optional().describe("TRX to send with the call, in Sun"),
+              feeLimit: z.number().int().positive().optional().describe("Fee limit in Sun"),
+            }),
+            z.object({
+              type: z.literal("freeze_balance_v2"),
+              amount: z.string().describe("Amount in TRX"),
+              resource: stakeResourceSchema,
+            }),
+            z.object({
+              type: z.literal("unfreeze_balance_v2"),
+              amount: z.string().describe("Amount in TRX"),
+              resource: stakeResourceSchema,
+            }),
+            z.object({ type: z.literal("withdraw_expire_unfreeze") }),
+            z.object({ type: z.literal("cancel_all_unfreeze_v2") }),
+            z.object({
+              type: z.literal("delegate_resource"),
+              receiver: z.string(),
+              amount: z.string().describe("Amount of staked TRX"),
+              resource: stakeResourceSchema,
+              lock: z.boolean().optional(),
+              lockPeriod: z.number().int().positive().optional().describe("Lock period in blocks"),
+            }),
+            z.object({
+              type: z.literal("undelegate_resource"),
+              receiver: z.string(),
+              amount: z.string().describe("Amount of delegated TRX"),
+              resource: stakeResourceSchema,
+            }),
+          ])
+          .describe("The action to build, selected by its 'type'"),
+        permissionId: z
+          .number()
+          .int()
+          .min(0)
+          .optional()
+          .describe(
+            "Permission ID to sign under: 0 = owner, 2+ = active permissions. Defaults to 0.",
+          ),
+        expirationSeconds: z
+          .number()
+          .int()
+          .min(60)
+          .max(86400)
+          .optional()
+          .describe(
+            "Seconds until the transaction expires (max 24 hours). Defaults to 60; raise it to leave time to collect signatures.",
+          ),
+        network: z.string().optional().describe("Network name. Defaults to mainnet."),
+      },
       annotations: {
-        title: "Transfer TRX",
+        title: "Build Unsigned Transaction",
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: true,
+      },
+    },
+    async ({ owner, action, permissionId = 0, expirationSeconds, network = "mainnet" }) => {
+      try {
+        const result = await services.buildUnsignedTransaction(
+          owner || getDefaultAddress(),
+          action,
+          permissionId,
+          expirationSeconds,
+          network,
+        );
+        return {
+          content: [{ type: "text", text: services.helpers.formatJson({ network, ...result }) }],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error building transaction: ${error instanceof Error ? error.message : String(error)}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    },
+  );
+
+  server.registerTool(
+    "cosign_transaction",
+    {
+      description:
+        "Add the configured wallet's signature to a multisig transaction and report the signature weight collected so far. The wallet must be a key of the transaction's permission.",
+      inputSchema: {
+        transaction: z
+          .record(z.unknown())
+          .describe("Transaction JSON from build_unsigned_transaction or a previous cosign"),
+        network: z.string().optional().describe("Network name. Defaults to mainnet."),
+      },
+      annotations: {
+        title: "Co-sign Transaction",
         readOnlyHint: false,
         destructiveHint: true,
         idempotentHint: false,
         openWorldHint: true,
       },
     },
-    async ({ to, amount, network = "mainnet" }) => {
+    async ({ transaction, network = "mainnet" }) => {
       try {
         const privateKey = getConfiguredPrivateKey();
-        const senderAddress = getWalletAddressFromKey();
-        const txHash = await services.transferTRX(privateKey, to, amount, network);
+        const result = await services.addTransactionSignature(transaction, privateKey, network);
         return {
           content: [
             {
               type: "text",
-              text: JSON.stringify(
-                {
-                  network,
-                  from: senderAddress,
-                  to,
-                  amount: `${amount} TRX`,
-                  txHash,
-                  message: "Transaction sent. Use get_transaction_info to check confirmation.",
-                },
-                null,
-                2,
-              ),
+              text: services.helpers.formatJson({
+                network,
+                ...result,
+                message: result.thresholdMet
+                  ? "Threshold met. Use broadcast_multisig_transaction to submit."
+                  : `${result.remainingWeight} more signature weight needed.`,
+              }),
             },
           ],
         };
       } catch (error) {
+        if (error instanceof services.PolicyViolationError) {
+          return policyViolationResult(error);
+        }
         return {
           content: [
             {
               type: "text",
-              text: `Error transferring TRX: ${error instanceof Error ? error.message : String(error)}`,
+              text: `Error signing transaction: ${error instanceof Error ? error.message : String(error)}`,
             },
           ],
           isError: true,
@@ -861,56 +4062,108 @@ export function registerTRONTools(server: McpServer) {
   );
 
   server.registerTool(
-    "transfer_trc20",
+    "get_signature_weight",
     {
-      description: "Transfer TRC20 tokens to an address.",
+      description:
+        "Report a multisig transaction's collected signature weight against its permission threshold: which keys have signed, which have not, and whether it has expired.",
       inputSchema: {
-        tokenAddress: z.string().describe("The TRC20 token contract address"),
-        to: z.string().describe("Recipient address"),
-        amount: z.string().describe("Amount to send (raw amount with decimals)"),
+        transaction: z.record(z.unknown()).describe("Transaction JSON (signed or unsigned)"),
         network: z.string().optional().describe("Network name. Defaults to mainnet."),
       },
       annotations: {
-        title: "Transfer TRC20 Tokens",
+        title: "Get Signature Weight",
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async ({ transaction, network = "mainnet" }) => {
+      try {
+        const result = await services.getSignatureWeight(transaction, network);
+        return {
+          content: [{ type: "text", text: services.helpers.formatJson({ network, ...result }) }],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error fetching signature weight: ${error instanceof Error ? error.message : String(error)}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    },
+  );
+
+  server.registerTool(
+    "broadcast_multisig_transaction",
+    {
+      description:
+        "Broadcast a multisig transaction. Refuses to submit until the collected signature weight meets the permission threshold.",
+      inputSchema: {
+        transaction: z.record(z.unknown()).describe("Signed transaction JSON"),
+        dryRun: z
+          .boolean()
+          .optional()
+          .describe("Only decode the transaction and check its signature weight; do not broadcast"),
+        network: z.string().optional().describe("Network name. Defaults to mainnet."),
+      },
+      annotations: {
+        title: "Broadcast Multisig Transaction",
         readOnlyHint: false,
         destructiveHint: true,
         idempotentHint: false,
         openWorldHint: true,
       },
     },
-    async ({ tokenAddress, to, amount, network = "mainnet" }) => {
+    async ({ transaction, dryRun = false, network = "mainnet" }) => {
       try {
-        const privateKey = getConfiguredPrivateKey();
-        const senderAddress = getWalletAddressFromKey();
-        const result = await services.transferTRC20(tokenAddress, to, amount, privateKey, network);
+        if (dryRun || isDryRunMode()) {
+          const [status, decoded] = await Promise.all([
+            services.getSignatureWeight(transaction, network),
+            services.decodeTransaction(transaction, undefined, network),
+          ]);
+          return {
+            content: [
+              {
+                type: "text",
+                text: services.helpers.formatJson({
+                  network,
+                  dryRun: true,
+                  ...status,
+                  transaction: decoded,
+                  message: "Dry run only. The transaction was not broadcast.",
+                }),
+              },
+            ],
+          };
+        }
+
+        const result = await services.broadcastMultisigTransaction(transaction, network);
         return {
           content: [
             {
               type: "text",
-              text: JSON.stringify(
-                {
-                  network,
-                  tokenAddress,
-                  from: senderAddress,
-                  to,
-                  amount: result.amount.formatted,
-                  symbol: result.token.symbol,
-                  decimals: result.token.decimals,
-                  txHash: result.txHash,
-                  message: "Transaction sent.",
-                },
-                null,
-                2,
-              ),
+              text: services.helpers.formatJson({
+                network,
+                ...result,
+                message: "Transaction sent. Use get_transaction_info to check confirmation.",
+              }),
             },
           ],
         };
       } catch (error) {
+        if (error instanceof services.PolicyViolationError) {
+          return policyViolationResult(error);
+        }
         return {
           content: [
             {
               type: "text",
-              text: `Error transferring TRC20 tokens: ${error instanceof Error ? error.message : String(error)}`,
+              text: `Error broadcasting transaction: ${error instanceof Error ? error.message : String(error)}`,
             },
           ],
           isError: true,
@@ -972,4 +4225,146 @@ export function registerTRONTools(server: McpServer) {
       }
     },
   );
+
+  // ============================================================================
+  // RAW TRANSACTION TOOLS
+  // ============================================================================
+
+  server.registerTool(
+    "sign_transaction",
+    {
+      description:
+        "Sign an unsigned transaction offline with the configured wallet. Accepts a transaction JSON (txID must match its raw_data) or a raw_data_hex. Makes no network call, so it works on air-gapped machines. Returns the signed JSON (when given JSON) and the signed protobuf hex for broadcast_transaction.",
+      inputSchema: {
+        transaction: z
+          .record(z.unknown())
+          .optional()
+          .describe("Unsigned (or partially signed) transaction JSON"),
+        rawDataHex: z
+          .string()
+          .optional()
+          .describe("The transaction's raw_data_hex, as an alternative to the JSON"),
+      },
+      annotations: {
+        title: "Sign Transaction",
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: true,
+        openWorldHint: false,
+      },
+    },
+    async ({ transaction, rawDataHex }) => {
+      try {
+        if (!transaction === !rawDataHex) {
+          throw new Error("Provide exactly one of transaction or rawDataHex");
+        }
+        // The signature is valid on any network, so every network's spending policy applies
+        await services.checkSigningPolicy(
+          services.transactionIntent(
+            "sign_transaction",
+            transaction ?? services.parseRawDataHex(rawDataHex!),
+          ),
+        );
+        const result = await services.signTransaction(transaction ?? rawDataHex!);
+        return {
+          content: [
+            {
+              type: "text",
+              text: services.helpers.formatJson({
+                ...result,
+                message: "Signed offline. Submit it with broadcast_transaction.",
+              }),
+            },
+          ],
+        };
+      } catch (error) {
+        if (error instanceof services.PolicyViolationError) {
+          return policyViolationResult(error);
+        }
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error signing transaction: ${error instanceof Error ? error.message : String(error)}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    },
+  );
+
+  server.registerTool(
+    "broadcast_transaction",
+    {
+      description:
+        "Broadcast a transaction signed elsewhere (e.g. by sign_transaction on an offline machine), given as signed JSON or signed protobuf hex.",
+      inputSchema: {
+        transaction: z.record(z.unknown()).optional().describe("Signed transaction JSON"),
+        signedHex: z.string().optional().describe("Signed transaction as protobuf hex"),
+        dryRun: z.boolean().optional().describe("Only decode the transaction; do not broadcast it"),
+        network: z.string().optional().describe("Network name. Defaults to mainnet."),
+      },
+      annotations: {
+        title: "Broadcast Transaction",
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: false,
+        openWorldHint: true,
+      },
+    },
+    async ({ transaction, signedHex, dryRun = false, network = "mainnet" }) => {
+      try {
+        if (!transaction === !signedHex) {
+          throw new Error("Provide exactly one of transaction or signedHex");
+        }
+        if (dryRun || isDryRunMode()) {
+          const decoded = await services.decodeTransaction(
+            transaction ?? services.parseSignedTransactionHex(signedHex!),
+            undefined,
+            network,
+          );
+          return {
+            content: [
+              {
+                type: "text",
+                text: services.helpers.formatJson({
+                  network,
+                  dryRun: true,
+                  transaction: decoded,
+                  message: "Dry run only. The transaction was not broadcast.",
+                }),
+              },
+            ],
+          };
+        }
+        const txHash = await services.broadcastTransaction(transaction ?? signedHex!, network);
+        return {
+          content: [
+            {
+              type: "text",
+              text: services.helpers.formatJson({
+                network,
+                txHash,
+                message: "Transaction sent. Use get_transaction_info to check confirmation.",
+              }),
+            },
+          ],
+        };
+      } catch (error) {
+        if (error instanceof services.PolicyViolationError) {
+          return policyViolationResult(error);
+        }
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error broadcasting transaction: ${error instanceof Error ? error.message : String(error)}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    },
+  );
 }
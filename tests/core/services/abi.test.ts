@@ -0,0 +1,194 @@
+import { describe, it, expect } from "vitest";
+import { TronWeb, utils as tronWebUtils } from "tronweb";
+import {
+  decodeAbiParameters,
+  decodeEventLog,
+  decodeFunctionCall,
+  decodeReturnValue,
+  decodeRevertData,
+  decodeRevertReason,
+  getSelector,
+} from "../../../src/core/services/abi";
+import { COMMON_EVENT_ABI } from "../../../src/core/services/event-abi";
+
+const TEST_ADDRESS = "T9yD14Nj9j7xAB4dbGeiX9h8unkKHxuWwb";
+
+describe("ABI Decoding", () => {
+  it("should decode named parameters with Base58 addresses and tuples", () => {
+    const params = [
+      { name: "owner", type: "address" },
+      { name: "amount", type: "uint256" },
+      {
+        name: "orders",
+        type: "tuple[]",
+        components: [
+          { name: "maker", type: "address" },
+          { name: "filled", type: "bool" },
+        ],
+      },
+    ];
+    const data = tronWebUtils.abi.encodeParamsV2ByABI({ inputs: params } as any, [
+      TEST_ADDRESS,
+      42,
+      [[TEST_ADDRESS, true]],
+    ]);
+
+    expect(decodeAbiParameters(params, data)).toEqual({
+      owner: TEST_ADDRESS,
+      amount: 42n,
+      orders: [{ maker: TEST_ADDRESS, filled: true }],
+    });
+  });
+
+  it("should return a single output as a bare value", () => {
+    const func = { outputs: [{ name: "", type: "bool" }] };
+    expect(decodeReturnValue(func, "0".repeat(63) + "1")).toBe(true);
+    expect(decodeReturnValue({ outputs: [] }, "")).toBeUndefined();
+  });
+
+  it("should decode Error(string) revert data", () => {
+    const data = "08c379a0" + tronWebUtils.abi.encodeParams(["string"], ["Insufficient"]).slice(2);
+    expect(decodeRevertReason(data)).toBe("Insufficient");
+    expect(decodeRevertReason("0x")).toBeUndefined();
+  });
+
+  it("should decode Panic(uint256) codes", () => {
+    const data = "4e487b71" + tronWebUtils.abi.encodeParams(["uint256"], [0x11]).slice(2);
+    expect(decodeRevertData(data)).toEqual({
+      type: "Panic",
+      reason: "Panic(0x11): Arithmetic overflow or underflow",
+      args: { code: 17 },
+    });
+  });
+
+  it("should decode custom errors declared in the ABI", () => {
+    const abi = [
+      {
+        type: "error",
+        name: "InsufficientBalance",
+        inputs: [
+          { name: "available", type: "uint256" },
+          { name: "required", type: "uint256" },
+        ],
+      },
+    ];
+    const selector = getSelector("InsufficientBalance(uint256,uint256)");
+    const data = selector + tronWebUtils.abi.encodeParams(["uint256", "uint256"], [1, 2]).slice(2);
+
+    const decoded = decodeRevertData(data, abi);
+    expect(decoded?.type).toBe("CustomError");
+    expect(decoded?.reason).toBe("InsufficientBalance(available=1, required=2)");
+    expect(decoded?.args).toEqual({ available: 1n, required: 2n });
+  });
+
+  it("should report unknown selectors", () => {
+    expect(decodeRevertData("0xdeadbeef")).toEqual({
+      type: "Unknown",
+      reason: "Unknown error with selector 0xdeadbeef",
+      selector: "0xdeadbeef",
+    });
+  });
+
+  describe("Event logs", () => {
+    const TRANSFER_TOPIC = "ddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef";
+    const addressTopic = (address: string) =>
+      tronWebUtils.abi.encodeParams(["address"], [address]).slice(2);
+    const uintWord = (value: number) =>
+      tronWebUtils.abi.encodeParams(["uint256"], [value]).slice(2);
+
+    it("should decode a TRC20 Transfer with the value in data", () => {
+      const decoded = decodeEventLog(
+        {
+          topics: [TRANSFER_TOPIC, addressTopic(TEST_ADDRESS), addressTopic(TEST_ADDRESS)],
+          data: uintWord(1000),
+        },
+        COMMON_EVENT_ABI,
+      );
+      expect(decoded).toEqual({
+        name: "Transfer",
+        signature: "Transfer(address,address,uint256)",
+        args: { from: TEST_ADDRESS, to: TEST_ADDRESS, value: 1000n },
+      });
+    });
+
+    it("should decode a TRC721 Transfer with an indexed tokenId", () => {
+      const decoded = decodeEventLog(
+        {
+          topics: [
+            TRANSFER_TOPIC,
+            addressTopic(TEST_ADDRESS),
+            addressTopic(TEST_ADDRESS),
+            uintWord(7),
+          ],
+          data: "",
+        },
+        COMMON_EVENT_ABI,
+      );
+      expect(decoded?.args).toEqual({ from: TEST_ADDRESS, to: TEST_ADDRESS, tokenId: 7n });
+    });
+
+    it("should key unnamed inputs by position and skip unknown events", () => {
+      const abi = [
+        {
+          type: "event",
+          name: "Ping",
+          inputs: [
+            { type: "uint256", indexed: true },
+            { type: "string", indexed: false },
+          ],
+        },
+      ];
+      const topic0 = getSelector("Ping(uint256,string)");
+      const decoded = decodeEventLog(
+        {
+          topics: ["0x" + topic0 + "0".repeat(56), uintWord(3)],
+          data: tronWebUtils.abi.encodeParams(["string"], ["pong"]).slice(2),
+        },
+        abi,
+      );
+      expect(decoded).toBeUndefined();
+
+      const fullTopic = TronWeb.sha3("Ping(uint256,string)", false);
+      expect(
+        decodeEventLog(
+          {
+            topics: [fullTopic, uintWord(3)],
+            data: tronWebUtils.abi.encodeParams(["string"], ["pong"]).slice(2),
+          },
+          abi,
+        )?.args,
+      ).toEqual({ "0": 3n, "1": "pong" });
+    });
+  });
+
+  describe("Function calls", () => {
+    const abi = [
+      {
+        type: "Function",
+        name: "transfer",
+        inputs: [
+          { name: "to", type: "address" },
+          { name: "value", type: "uint256" },
+        ],
+      },
+    ];
+
+    it("should decode a call by selector with named arguments", () => {
+      const data =
+        getSelector("transfer(address,uint256)") +
+        tronWebUtils.abi
+          .encodeParamsV2ByABI({ inputs: abi[0].inputs } as any, [TEST_ADDRESS, 42])
+          .replace(/^0x/, "");
+      expect(decodeFunctionCall("0x" + data, abi)).toEqual({
+        name: "transfer",
+        signature: "transfer(address,uint256)",
+        selector: "a9059cbb",
+        args: { to: TEST_ADDRESS, value: 42n },
+      });
+    });
+
+    it("should return undefined for unknown selectors", () => {
+      expect(decodeFunctionCall("0xdeadbeef", abi)).toBeUndefined();
+    });
+  });
+});
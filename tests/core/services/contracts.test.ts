@@ -0,0 +1,275 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { TronWeb } from "tronweb";
+import { getTronWeb, getWallet } from "../../../src/core/services/clients";
+import {
+  computeFeeLimit,
+  deployContract,
+  findFunctionInABI,
+  getContractInfo,
+  updateContractSettings,
+} from "../../../src/core/services/contracts";
+import { getAbiEntrySignature } from "../../../src/core/services/abi";
+
+vi.mock("../../../src/core/services/clients", () => ({
+  getTronWeb: vi.fn(),
+  getWallet: vi.fn(),
+}));
+
+const ABI = [
+  {
+    type: "function",
+    name: "transfer",
+    inputs: [
+      { name: "to", type: "address" },
+      { name: "value", type: "uint256" },
+    ],
+  },
+  {
+    type: "Function",
+    name: "swap",
+    inputs: [
+      {
+        name: "params",
+        type: "tuple[]",
+        components: [
+          { name: "path", type: "address[]" },
+          { name: "amountIn", type: "uint256" },
+        ],
+      },
+    ],
+  },
+  { type: "function", name: "mint", inputs: [{ name: "to", type: "address" }] },
+  {
+    type: "function",
+    name: "mint",
+    inputs: [
+      { name: "to", type: "address" },
+      { name: "amount", type: "uint256" },
+    ],
+  },
+];
+
+describe("Contract Helpers", () => {
+  it("should build function signatures", () => {
+    expect(getAbiEntrySignature(ABI[0])).toBe("transfer(address,uint256)");
+  });
+
+  it("should expand tuple components in signatures", () => {
+    expect(getAbiEntrySignature(findFunctionInABI(ABI, "swap"))).toBe(
+      "swap((address[],uint256)[])",
+    );
+  });
+
+  it("should pick overloaded functions by argument count", () => {
+    expect(findFunctionInABI(ABI, "mint", 2).inputs).toHaveLength(2);
+    expect(findFunctionInABI(ABI, "mint", 1).inputs).toHaveLength(1);
+  });
+
+  it("should throw for unknown functions", () => {
+    expect(() => findFunctionInABI(ABI, "burn")).toThrow("Function burn not found in ABI");
+  });
+
+  it("should add the safety margin to the fee limit", () => {
+    // 65,000 energy at 100 sun = 6.5 TRX, plus 20%
+    expect(computeFeeLimit(65_000, 100)).toBe(7_800_000);
+    expect(computeFeeLimit(65_000, 100, 0.5)).toBe(9_750_000);
+  });
+
+  it("should cap the fee limit at the network maximum", () => {
+    expect(computeFeeLimit(200_000_000, 100, 0.2, 15_000_000_000)).toBe(15_000_000_000);
+  });
+});
+
+describe("Contract Deployment", () => {
+  const OWNER = "T9yD14Nj9j7xAB4dbGeiX9h8unkKHxuWwb";
+  const CONTRACT = "TR7NHqjeKQxGTCi8q8ZY4pL8otSzgjLj6t";
+  const CONTRACT_HEX = TronWeb.address.toHex(CONTRACT);
+  const DEPLOY_ABI = [
+    {
+      type: "constructor",
+      inputs: [{ name: "supply", type: "uint256" }],
+      stateMutability: "nonpayable",
+    },
+  ];
+  let trx: Record<string, ReturnType<typeof vi.fn>>;
+  let transactionBuilder: Record<string, ReturnType<typeof vi.fn>>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    trx = {
+      sign: vi.fn(async (tx) => ({ ...tx, signature: ["sig"] })),
+      sendRawTransaction: vi.fn().mockResolvedValue({ result: true }),
+      getTransactionInfo: vi.fn().mockResolvedValue({
+        id: "deploy",
+        blockNumber: 100,
+        fee: 2_500_000,
+        contract_address: CONTRACT_HEX,
+        receipt: { energy_usage_total: 250_000, result: "SUCCESS" },
+      }),
+    };
+    transactionBuilder = {
+      createSmartContract: vi
+        .fn()
+        .mockResolvedValue({ txID: "deploy", contract_address: CONTRACT_HEX }),
+    };
+    (getTronWeb as any).mockReturnValue({ trx });
+    (getWallet as any).mockReturnValue({
+      defaultAddress: { base58: OWNER },
+      trx,
+      transactionBuilder,
+    });
+  });
+
+  it("should deploy with constructor args and return the confirmed address", async () => {
+    const result = await deployContract("pk", {
+      abi: DEPLOY_ABI,
+      bytecode: "0x6080",
+      args: [1000],
+      userFeePercentage: 0,
+      originEnergyLimit: 1_000_000,
+    });
+    expect(transactionBuilder.createSmartContract).toHaveBeenCalledWith(
+      expect.objectContaining({
+        bytecode: "6080",
+        parameters: [1000],
+        userFeePercentage: 0,
+        originEnergyLimit: 1_000_000,
+        feeLimit: 1_000_000_000,
+      }),
+      OWNER,
+    );
+    expect(result).toMatchObject({
+      txHash: "deploy",
+      contractAddress: { base58: CONTRACT, hex: CONTRACT_HEX },
+      energyUsed: 250_000,
+      fee: { sun: 2_500_000, trx: "2.5" },
+    });
+  });
+
+  it("should only build the deployment in a dry run", async () => {
+    const result = await deployContract(
+      "pk",
+      { abi: DEPLOY_ABI, bytecode: "6080" },
+      "mainnet",
+      true,
+    );
+    expect(trx.sendRawTransaction).not.toHaveBeenCalled();
+    expect(trx.getTransactionInfo).not.toHaveBeenCalled();
+    expect(result).toMatchObject({
+      txHash: undefined,
+      contractAddress: { base58: CONTRACT, hex: CONTRACT_HEX },
+      feeLimit: { sun: 1_000_000_000, trx: "1000" },
+    });
+  });
+
+  it("should fail when the deployment reverts", async () => {
+    trx.getTransactionInfo.mockResolvedValue({
+      id: "deploy",
+      result: "FAILED",
+      receipt: { result: "OUT_OF_ENERGY" },
+    });
+    await expect(deployContract("pk", { abi: DEPLOY_ABI, bytecode: "6080" })).rejects.toThrow(
+      "Deploy contract failed: Ran out of energy",
+    );
+  });
+});
+
+describe("Contract Settings", () => {
+  const ORIGIN = "T9yD14Nj9j7xAB4dbGeiX9h8unkKHxuWwb";
+  const CONTRACT = "TR7NHqjeKQxGTCi8q8ZY4pL8otSzgjLj6t";
+  let request: ReturnType<typeof vi.fn>;
+  let transactionBuilder: Record<string, ReturnType<typeof vi.fn>>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    request = vi.fn().mockResolvedValue({
+      runtimecode: "6080",
+      smart_contract: {
+        origin_address: TronWeb.address.toHex(ORIGIN),
+        contract_address: TronWeb.address.toHex(CONTRACT),
+        abi: {
+          entrys: [
+            { type: "Function", name: "transfer" },
+            { type: "Event", name: "Transfer" },
+            { type: "Constructor" },
+          ],
+        },
+        origin_energy_limit: 10_000_000,
+        trx_hash: "deploytx",
+        name: "Token",
+      },
+    });
+    transactionBuilder = {
+      updateSetting: vi.fn().mockResolvedValue({ txID: "setting" }),
+      updateEnergyLimit: vi.fn().mockResolvedValue({ txID: "limit" }),
+    };
+    const trx = {
+      sign: vi.fn(async (tx) => ({ ...tx, signature: ["sig"] })),
+      sendRawTransaction: vi.fn().mockResolvedValue({ result: true }),
+    };
+    (getTronWeb as any).mockReturnValue({ fullNode: { request } });
+    (getWallet as any).mockReturnValue({
+      defaultAddress: { base58: ORIGIN },
+      trx,
+      transactionBuilder,
+    });
+  });
+
+  it("getContractInfo should report origin, settings, ABI size and bytecode", async () => {
+    expect(await getContractInfo(CONTRACT)).toMatchObject({
+      address: CONTRACT,
+      name: "Token",
+      origin: ORIGIN,
+      deployTxID: "deploytx",
+      userFeePercentage: 0,
+      originEnergyLimit: 10_000_000,
+      abi: { entries: 3, functions: 1, events: 1 },
+      bytecodeOnChain: true,
+    });
+  });
+
+  it("getContractInfo should report missing contracts", async () => {
+    request.mockResolvedValue({});
+    await expect(getContractInfo(CONTRACT)).rejects.toThrow(`No contract found at ${CONTRACT}`);
+  });
+
+  it("updateContractSettings should only send changed settings", async () => {
+    const result = await updateContractSettings("pk", CONTRACT, {
+      userFeePercentage: 60,
+      originEnergyLimit: 10_000_000,
+    });
+    expect(transactionBuilder.updateSetting).toHaveBeenCalledWith(CONTRACT, 60, ORIGIN);
+    expect(transactionBuilder.updateEnergyLimit).not.toHaveBeenCalled();
+    expect(result).toMatchObject({
+      transactions: [{ setting: "userFeePercentage", txHash: "setting" }],
+      previous: { userFeePercentage: 0 },
+      updated: { userFeePercentage: 60, originEnergyLimit: 10_000_000 },
+    });
+  });
+
+  it("updateContractSettings should build but not send settings in a dry run", async () => {
+    const result = await updateContractSettings(
+      "pk",
+      CONTRACT,
+      { userFeePercentage: 60, originEnergyLimit: 5_000_000 },
+      "mainnet",
+      true,
+    );
+    expect(transactionBuilder.updateSetting).toHaveBeenCalled();
+    expect(transactionBuilder.updateEnergyLimit).toHaveBeenCalled();
+    expect(result.transactions).toEqual([
+      { setting: "userFeePercentage", txHash: undefined },
+      { setting: "originEnergyLimit", txHash: undefined },
+    ]);
+  });
+
+  it("updateContractSettings should refuse wallets other than the origin", async () => {
+    (getWallet as any).mockReturnValue({
+      defaultAddress: { base58: CONTRACT },
+      transactionBuilder,
+    });
+    await expect(
+      updateContractSettings("pk", CONTRACT, { originEnergyLimit: 1_000_000 }),
+    ).rejects.toThrow(`Only the contract origin ${ORIGIN} can update its settings`);
+  });
+});
@@ -0,0 +1,197 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { TronWeb, utils as tronWebUtils } from "tronweb";
+import { getTronWeb } from "../../../src/core/services/clients";
+import { getSelector } from "../../../src/core/services/abi";
+import {
+  decodeTransaction,
+  parseSignedTransactionHex,
+  readContractType,
+} from "../../../src/core/services/decoder";
+
+vi.mock("../../../src/core/services/clients", () => ({
+  getTronWeb: vi.fn(),
+  getWallet: vi.fn(),
+}));
+
+const OWNER = "T9yD14Nj9j7xAB4dbGeiX9h8unkKHxuWwb";
+const TOKEN = "TR7NHqjeKQxGTCi8q8ZY4pL8otSzgjLj6t";
+const RECIPIENT = "TEkxiTehnzSmSe2XqrBj4w32RUN966rdz8";
+const hex = (address: string) => TronWeb.address.toHex(address);
+
+const header = {
+  ref_block_bytes: "1234",
+  ref_block_hash: "0123456789abcdef",
+  expiration: 1_700_000_060_000,
+  timestamp: 1_700_000_000_000,
+};
+
+const buildTransfer = () => {
+  const pb = tronWebUtils.transaction.txJsonToPb({
+    raw_data: {
+      ...header,
+      contract: [
+        {
+          parameter: {
+            value: { amount: 1_500_000, owner_address: hex(OWNER), to_address: hex(RECIPIENT) },
+            type_url: "type.googleapis.com/protocol.TransferContract",
+          },
+          type: "TransferContract",
+        },
+      ],
+    },
+  });
+  return {
+    rawDataHex: tronWebUtils.transaction.txPbToRawDataHex(pb).toLowerCase(),
+    txID: tronWebUtils.transaction.txPbToTxID(pb).replace(/^0x/, ""),
+  };
+};
+
+const trc20Call = () => ({
+  txID: "ab".repeat(32),
+  raw_data: {
+    ...header,
+    fee_limit: 30_000_000,
+    contract: [
+      {
+        type: "TriggerSmartContract",
+        parameter: {
+          value: {
+            owner_address: hex(OWNER),
+            contract_address: hex(TOKEN),
+            data:
+              getSelector("transfer(address,uint256)") +
+              tronWebUtils.abi
+                .encodeParamsV2ByABI(
+                  {
+                    inputs: [
+                      { name: "to", type: "address" },
+                      { name: "value", type: "uint256" },
+                    ],
+                  } as any,
+                  [RECIPIENT, 1_000_000],
+                )
+                .replace(/^0x/, ""),
+          },
+        },
+      },
+    ],
+  },
+});
+
+describe("Transaction Decoder", () => {
+  let getContract: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    getContract = vi.fn().mockRejectedValue(new Error("contract not found"));
+    (getTronWeb as any).mockReturnValue({ trx: { getContract } });
+  });
+
+  it("readContractType should find the contract type in raw_data_hex", () => {
+    expect(readContractType(buildTransfer().rawDataHex)).toBe(1);
+  });
+
+  it("parseSignedTransactionHex should split the raw data from the signatures", () => {
+    const { rawDataHex, txID } = buildTransfer();
+    const signature = "ab".repeat(65);
+    // Transaction { raw_data = 1; signature = 2 }, lengths as protobuf varints
+    const length = (hexString: string) => {
+      let size = hexString.length / 2;
+      let out = "";
+      while (size >= 0x80) {
+        out += ((size & 0x7f) | 0x80).toString(16).padStart(2, "0");
+        size >>>= 7;
+      }
+      return out + size.toString(16).padStart(2, "0");
+    };
+    const signedHex = `0a${length(rawDataHex)}${rawDataHex}12${length(signature)}${signature}`;
+
+    const tx = parseSignedTransactionHex(signedHex);
+    expect(tx.txID).toBe(txID);
+    expect(tx.raw_data_hex).toBe(rawDataHex);
+    expect(tx.signature).toEqual([signature]);
+    expect(() => parseSignedTransactionHex("12" + length(signature) + signature)).toThrow(
+      "no raw_data",
+    );
+  });
+
+  it("should decode a TRX transfer from raw_data_hex offline", async () => {
+    const { rawDataHex, txID } = buildTransfer();
+    const result = await decodeTransaction(rawDataHex);
+    expect(result).toMatchObject({
+      txID,
+      contractType: "TransferContract",
+      owner: OWNER,
+      parameters: {
+        owner_address: OWNER,
+        to_address: RECIPIENT,
+        amount: { sun: 1_500_000, trx: "1.5" },
+      },
+      expiresAt: new Date(header.expiration).toISOString(),
+    });
+  });
+
+  it("should decode contract calls with common token functions when no ABI is available", async () => {
+    const result = await decodeTransaction(trc20Call(), undefined, "nile");
+    expect(getContract).toHaveBeenCalled();
+    expect(result.feeLimit).toEqual({ sun: 30_000_000, trx: "30" });
+    expect(result.call).toMatchObject({
+      contract: TOKEN,
+      function: "transfer",
+      signature: "transfer(address,uint256)",
+      args: { to: RECIPIENT, value: 1_000_000n },
+      abiSource: "common",
+    });
+  });
+
+  it("should prefer the supplied ABI", async () => {
+    const abi = [
+      {
+        type: "function",
+        name: "transfer",
+        inputs: [
+          { name: "recipient", type: "address" },
+          { name: "amount", type: "uint256" },
+        ],
+      },
+    ];
+    const result = await decodeTransaction(trc20Call(), abi);
+    expect(getContract).not.toHaveBeenCalled();
+    expect(result.call).toMatchObject({
+      abiSource: "supplied",
+      args: { recipient: RECIPIENT, amount: 1_000_000n },
+    });
+  });
+
+  it("should format votes and look up transaction IDs", async () => {
+    const getTransaction = vi.fn().mockResolvedValue({
+      txID: "cd".repeat(32),
+      ret: [{ contractRet: "SUCCESS" }],
+      signature: ["sig"],
+      raw_data: {
+        ...header,
+        contract: [
+          {
+            type: "VoteWitnessContract",
+            parameter: {
+              value: {
+                owner_address: hex(OWNER),
+                votes: [{ vote_address: hex(RECIPIENT), vote_count: 10 }],
+              },
+            },
+          },
+        ],
+      },
+    });
+    (getTronWeb as any).mockReturnValue({ trx: { getTransaction } });
+
+    const result = await decodeTransaction("cd".repeat(32));
+    expect(getTransaction).toHaveBeenCalledWith("cd".repeat(32));
+    expect(result).toMatchObject({
+      contractType: "VoteWitnessContract",
+      status: "SUCCESS",
+      signatures: 1,
+      parameters: { votes: [{ address: RECIPIENT, count: 10 }] },
+    });
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { TronWeb } from "tronweb";
+import { getTronWeb } from "../../../src/core/services/clients";
+import {
+  decodeEventResult,
+  formatContractEvent,
+  getContractEvents,
+} from "../../../src/core/services/events";
+
+vi.mock("../../../src/core/services/clients", () => ({
+  getTronWeb: vi.fn(),
+}));
+
+const CONTRACT = "TR7NHqjeKQxGTCi8q8ZY4pL8otSzgjLj6t";
+const HOLDER = "T9yD14Nj9j7xAB4dbGeiX9h8unkKHxuWwb";
+const HOLDER_HEX = "0x" + TronWeb.address.toHex(HOLDER).slice(2);
+
+const rawEvent = (blockNumber: number) => ({
+  block_number: blockNumber,
+  block_timestamp: 1_700_000_000_000,
+  contract_address: CONTRACT,
+  event_index: 0,
+  event_name: "Transfer",
+  event: "Transfer(address indexed from, address indexed to, uint256 value)",
+  transaction_id: "tx" + blockNumber,
+  result: {
+    "0": HOLDER_HEX,
+    "1": HOLDER_HEX,
+    "2": "5",
+    from: HOLDER_HEX,
+    to: HOLDER_HEX,
+    value: "5",
+  },
+  result_type: { from: "address", to: "address", value: "uint256" },
+});
+
+describe("Event Service", () => {
+  it("should keep named arguments and convert addresses to Base58", () => {
+    const event = rawEvent(1);
+    expect(decodeEventResult(event.result, event.result_type)).toEqual({
+      from: HOLDER,
+      to: HOLDER,
+      value: "5",
+    });
+  });
+
+  it("should keep positional arguments when the event has no names", () => {
+    expect(decodeEventResult({ "0": "1", "1": [HOLDER_HEX] }, { "1": "address[]" })).toEqual({
+      "0": "1",
+      "1": [HOLDER],
+    });
+  });
+
+  it("should format event server entries", () => {
+    const formatted = formatContractEvent({ ...rawEvent(7), _unconfirmed: true });
+    expect(formatted.transactionId).toBe("tx7");
+    expect(formatted.timestamp).toBe("2023-11-14T22:13:20.000Z");
+    expect(formatted.confirmed).toBe(false);
+  });
+
+  describe("getContractEvents", () => {
+    const event = {
+      getEventsByContractAddress: vi.fn(),
+      getEventsByTransactionID: vi.fn(),
+    };
+    const trx = { getBlock: vi.fn() };
+
+    beforeEach(() => {
+      vi.clearAllMocks();
+      (getTronWeb as any).mockReturnValue({ event, trx });
+    });
+
+    it("should follow fingerprints until the limit is reached", async () => {
+      event.getEventsByContractAddress
+        .mockResolvedValueOnce({ data: [rawEvent(1), rawEvent(2)], meta: { fingerprint: "p2" } })
+        .mockResolvedValueOnce({ data: [rawEvent(3)], meta: { fingerprint: "p3" } });
+
+      const result = await getContractEvents({ contractAddress: CONTRACT, limit: 3 }, "nile");
+
+      expect(event.getEventsByContractAddress).toHaveBeenCalledTimes(2);
+      expect(event.getEventsByContractAddress.mock.calls[1][1]).toMatchObject({
+        fingerprint: "p2",
+        limit: 1,
+      });
+      expect(result.count).toBe(3);
+      expect(result.hasMore).toBe(true);
+      expect(result.fingerprint).toBe("p3");
+    });
+
+    it("should turn a block range into a time window and filter by block number", async () => {
+      trx.getBlock
+        .mockResolvedValueOnce({ block_header: { raw_data: { timestamp: 1000 } } })
+        .mockResolvedValueOnce({ block_header: { raw_data: { timestamp: 2000 } } });
+      event.getEventsByContractAddress.mockResolvedValue({
+        data: [rawEvent(9), rawEvent(10), rawEvent(21)],
+        meta: {},
+      });
+
+      const result = await getContractEvents({
+        contractAddress: CONTRACT,
+        fromBlock: 10,
+        toBlock: 20,
+      });
+
+      expect(event.getEventsByContractAddress.mock.calls[0][1]).toMatchObject({
+        minBlockTimestamp: 1000,
+        maxBlockTimestamp: 2000,
+      });
+      expect(result.events.map((e) => e.blockNumber)).toEqual([10]);
+      expect(result.hasMore).toBe(false);
+    });
+
+    it("should query by transaction ID and apply the event name filter", async () => {
+      event.getEventsByTransactionID.mockResolvedValue({
+        data: [rawEvent(1), { ...rawEvent(1), event_name: "Approval" }],
+      });
+
+      const result = await getContractEvents({ transactionId: "tx1", eventName: "Approval" });
+
+      expect(event.getEventsByTransactionID).toHaveBeenCalledWith("tx1", {
+        only_confirmed: undefined,
+      });
+      expect(result.events.map((e) => e.eventName)).toEqual(["Approval"]);
+    });
+
+    it("should require a contract address or transaction ID", async () => {
+      await expect(getContractEvents({})).rejects.toThrow(
+        "Either contractAddress or transactionId is required",
+      );
+    });
+  });
+});
@@ -0,0 +1,240 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { TronWeb } from "tronweb";
+import { getTronWeb, getWallet } from "../../../src/core/services/clients";
+import {
+  approveProposal,
+  createProposal,
+  deleteProposal,
+  getProposal,
+  getReward,
+  listProposals,
+  listWitnesses,
+  voteWitness,
+  withdrawReward,
+} from "../../../src/core/services/governance";
+import { resetSpendingPolicy } from "../../../src/core/services/policy";
+
+vi.mock("../../../src/core/services/clients", () => ({
+  getTronWeb: vi.fn(),
+  getWallet: vi.fn(),
+}));
+
+const VOTER = "T9yD14Nj9j7xAB4dbGeiX9h8unkKHxuWwb";
+const SR_A = "TR7NHqjeKQxGTCi8q8ZY4pL8otSzgjLj6t";
+const SR_B = "TEkxiTehnzSmSe2XqrBj4w32RUN966rdz8";
+const hex = (address: string) => TronWeb.address.toHex(address);
+
+const witnesses = [
+  { address: hex(SR_B), url: "https://b.example", voteCount: 100, isJobs: false },
+  { address: hex(SR_A), url: "https://a.example", voteCount: 300, isJobs: true },
+];
+
+const EXPIRATION = Date.now() + 24 * 60 * 60 * 1000;
+const proposals = [
+  {
+    proposal_id: 1,
+    proposer_address: hex(SR_A),
+    parameters: [{ key: 11, value: 210 }],
+    expiration_time: Date.UTC(2023, 0, 4),
+    create_time: Date.UTC(2023, 0, 1),
+    approvals: [hex(SR_A)],
+    state: "APPROVED",
+  },
+  {
+    proposal_id: 2,
+    proposer_address: hex(SR_A),
+    parameters: [{ value: 21_600_000 }, { key: 61, value: 600 }],
+    expiration_time: EXPIRATION,
+    create_time: Date.UTC(2024, 0, 1),
+    approvals: [hex(SR_A), hex(SR_B)],
+  },
+];
+
+describe("Governance Service", () => {
+  let trx: Record<string, ReturnType<typeof vi.fn>>;
+  let transactionBuilder: Record<string, ReturnType<typeof vi.fn>>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    trx = {
+      listSuperRepresentatives: vi.fn().mockResolvedValue(witnesses),
+      getBrokerage: vi.fn().mockResolvedValue(20),
+      getAccount: vi.fn().mockResolvedValue({}),
+      getAccountResources: vi.fn().mockResolvedValue({ tronPowerLimit: 50, tronPowerUsed: 10 }),
+      getReward: vi.fn().mockResolvedValue(0),
+      sign: vi.fn(async (tx) => ({ ...tx, signature: ["sig"] })),
+      sendRawTransaction: vi.fn().mockResolvedValue({ result: true }),
+      getChainParameters: vi.fn().mockResolvedValue([
+        { key: "getMaintenanceTimeInterval", value: 10_800_000 },
+        { key: "getEnergyFee", value: 210 },
+        { key: "getFreeNetLimit", value: 600 },
+      ]),
+      listProposals: vi.fn().mockResolvedValue(proposals),
+      getProposal: vi.fn(async (id) => proposals.find((p) => p.proposal_id === id) || {}),
+    };
+    transactionBuilder = {
+      vote: vi.fn().mockResolvedValue({ txID: "vote" }),
+      withdrawBlockRewards: vi.fn().mockResolvedValue({ txID: "withdraw" }),
+      createProposal: vi.fn().mockResolvedValue({ txID: "create" }),
+      voteProposal: vi.fn().mockResolvedValue({ txID: "approve" }),
+      deleteProposal: vi.fn().mockResolvedValue({ txID: "delete" }),
+    };
+    (getTronWeb as any).mockReturnValue({ trx });
+    (getWallet as any).mockReturnValue({
+      defaultAddress: { base58: VOTER },
+      trx,
+      transactionBuilder,
+    });
+  });
+
+  it("listWitnesses should rank by votes with role and brokerage", async () => {
+    const result = await listWitnesses();
+    expect(result.totalVotes).toBe(400);
+    expect(result.witnesses).toMatchObject([
+      { rank: 1, address: SR_A, role: "SR", votePercent: "75.00", brokerage: 20, voterShare: 80 },
+      { rank: 2, address: SR_B, role: "SR Partner", votePercent: "25.00" },
+    ]);
+  });
+
+  it("voteWitness should refuse votes beyond the wallet's TRON Power", async () => {
+    await expect(
+      voteWitness("pk", [
+        { address: SR_A, count: 40 },
+        { address: SR_B, count: 20 },
+      ]),
+    ).rejects.toThrow("Insufficient TRON Power: 60 votes requested");
+    expect(transactionBuilder.vote).not.toHaveBeenCalled();
+  });
+
+  it("voteWitness should refuse non-witness addresses", async () => {
+    await expect(voteWitness("pk", [{ address: VOTER, count: 1 }])).rejects.toThrow(
+      `Not a witness: ${VOTER}`,
+    );
+  });
+
+  it("voteWitness should sign votes within the TRON Power limit", async () => {
+    const result = await voteWitness("pk", [
+      { address: SR_A, count: 30 },
+      { address: SR_B, count: 20 },
+    ]);
+    expect(transactionBuilder.vote).toHaveBeenCalledWith({ [SR_A]: 30, [SR_B]: 20 }, VOTER);
+    expect(result).toMatchObject({ txHash: "vote", totalVotes: 50 });
+  });
+
+  it("voteWitness should build but not sign votes in a dry run", async () => {
+    const result = await voteWitness("pk", [{ address: SR_A, count: 30 }], "mainnet", true);
+    expect(transactionBuilder.vote).toHaveBeenCalled();
+    expect(trx.sign).not.toHaveBeenCalled();
+    expect(trx.sendRawTransaction).not.toHaveBeenCalled();
+    expect(result).toMatchObject({ txHash: undefined, totalVotes: 30 });
+  });
+
+  it("voteWitness should not sign when the spending policy cannot be read", async () => {
+    process.env.TRON_POLICY_FILE = "/nonexistent/policy.json";
+    try {
+      await expect(voteWitness("pk", [{ address: SR_A, count: 30 }])).rejects.toThrow(
+        "Invalid spending policy file",
+      );
+      expect(trx.sign).not.toHaveBeenCalled();
+    } finally {
+      delete process.env.TRON_POLICY_FILE;
+      resetSpendingPolicy();
+    }
+  });
+
+  it("getReward should report when the reward can next be withdrawn", async () => {
+    const lastWithdrawal = Date.UTC(2024, 0, 1);
+    trx.getReward.mockResolvedValue(2_500_000);
+    trx.getAccount.mockResolvedValue({ latest_withdraw_time: lastWithdrawal });
+
+    const result = await getReward(VOTER, "mainnet", lastWithdrawal + 60_000);
+    expect(result).toMatchObject({
+      votingReward: { sun: 2_500_000, trx: "2.5" },
+      canWithdraw: false,
+      nextWithdrawal: new Date(lastWithdrawal + 24 * 60 * 60 * 1000).toISOString(),
+    });
+  });
+
+  it("withdrawReward should refuse when there is nothing to withdraw", async () => {
+    await expect(withdrawReward("pk")).rejects.toThrow("has no reward to withdraw");
+    expect(transactionBuilder.withdrawBlockRewards).not.toHaveBeenCalled();
+  });
+
+  it("listProposals should show parameter names with current and proposed values", async () => {
+    const result = await listProposals({ state: "PENDING" }, "mainnet", EXPIRATION - 1000);
+    expect(result.total).toBe(1);
+    expect(result.proposals[0]).toMatchObject({
+      id: 2,
+      proposer: SR_A,
+      state: "PENDING",
+      parameters: [
+        {
+          id: 0,
+          name: "getMaintenanceTimeInterval",
+          currentValue: 10_800_000,
+          proposedValue: 21_600_000,
+        },
+        { id: 61, name: "getFreeNetLimit", currentValue: 600, proposedValue: 600 },
+      ],
+      approvalCount: 2,
+      activeApprovals: 1,
+      expiresAt: new Date(EXPIRATION).toISOString(),
+      expired: false,
+    });
+  });
+
+  it("getProposal should report unknown proposals", async () => {
+    await expect(getProposal(99)).rejects.toThrow("Proposal 99 not found");
+  });
+
+  it("createProposal should resolve parameter names and require an active SR", async () => {
+    await expect(createProposal("pk", [{ parameter: "energyFee", value: 100 }])).rejects.toThrow(
+      `${VOTER} is not an active SR`,
+    );
+
+    (getWallet as any).mockReturnValue({
+      defaultAddress: { base58: SR_A },
+      trx,
+      transactionBuilder,
+    });
+    const result = await createProposal("pk", [{ parameter: "getEnergyFee", value: 100 }]);
+    expect(transactionBuilder.createProposal).toHaveBeenCalledWith([{ key: 11, value: 100 }], SR_A);
+    expect(result.parameters).toEqual([{ id: 11, name: "getEnergyFee", value: 100 }]);
+  });
+
+  it("createProposal should reject unknown parameters", async () => {
+    await expect(createProposal("pk", [{ parameter: "getNothing", value: 1 }])).rejects.toThrow(
+      "Unknown proposal parameter: getNothing",
+    );
+  });
+
+  it("approveProposal should refuse closed proposals and repeat approvals", async () => {
+    (getWallet as any).mockReturnValue({
+      defaultAddress: { base58: SR_A },
+      trx,
+      transactionBuilder,
+    });
+    await expect(approveProposal("pk", 1)).rejects.toThrow("no longer open for voting");
+    await expect(approveProposal("pk", 2, false)).resolves.toMatchObject({ txHash: "approve" });
+    expect(transactionBuilder.voteProposal).toHaveBeenCalledWith(2, false, SR_A);
+  });
+
+  it("approveProposal should build but not sign in a dry run", async () => {
+    (getWallet as any).mockReturnValue({
+      defaultAddress: { base58: SR_A },
+      trx,
+      transactionBuilder,
+    });
+    await expect(approveProposal("pk", 2, false, "mainnet", true)).resolves.toMatchObject({
+      txHash: undefined,
+      proposalId: 2,
+    });
+    expect(transactionBuilder.voteProposal).toHaveBeenCalledWith(2, false, SR_A);
+    expect(trx.sendRawTransaction).not.toHaveBeenCalled();
+  });
+
+  it("deleteProposal should only allow the proposer", async () => {
+    await expect(deleteProposal("pk", 2)).rejects.toThrow(`was created by ${SR_A}`);
+    expect(transactionBuilder.deleteProposal).not.toHaveBeenCalled();
+  });
+});
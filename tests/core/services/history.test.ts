@@ -0,0 +1,212 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { TronWeb } from "tronweb";
+import { getTronWeb } from "../../../src/core/services/clients";
+import {
+  formatAccountTransaction,
+  formatTRC20Transfer,
+  getAccountTransactions,
+  getTRC20Transfers,
+} from "../../../src/core/services/history";
+
+vi.mock("../../../src/core/services/clients", () => ({
+  getTronWeb: vi.fn(),
+}));
+
+const ACCOUNT = "T9yD14Nj9j7xAB4dbGeiX9h8unkKHxuWwb";
+const OTHER = "TR7NHqjeKQxGTCi8q8ZY4pL8otSzgjLj6t";
+
+const transferTx = (type: string, value: Record<string, any>) => ({
+  txID: "tx-" + type,
+  blockNumber: 100,
+  block_timestamp: 1_700_000_000_000,
+  ret: [{ contractRet: "SUCCESS", fee: 1_100_000 }],
+  net_usage: 268,
+  raw_data: { contract: [{ type, parameter: { value } }] },
+});
+
+describe("Account History Service", () => {
+  it("should format TRX transfers with direction and fee", () => {
+    const tx = transferTx("TransferContract", {
+      owner_address: TronWeb.address.toHex(OTHER),
+      to_address: TronWeb.address.toHex(ACCOUNT),
+      amount: 2_500_000,
+    });
+    const formatted = formatAccountTransaction(tx, ACCOUNT);
+    expect(formatted.direction).toBe("in");
+    expect(formatted.from).toBe(OTHER);
+    expect(formatted.transfer).toEqual({
+      token: "TRX",
+      rawAmount: "2500000",
+      amount: "2.5",
+      decimals: 6,
+    });
+    expect(formatted.fee).toEqual({ sun: 1_100_000, trx: "1.1" });
+    expect(formatted.status).toBe("SUCCESS");
+  });
+
+  it("should normalize TRC10 amounts with the token precision", () => {
+    const tx = transferTx("TransferAssetContract", {
+      owner_address: TronWeb.address.toHex(ACCOUNT),
+      to_address: TronWeb.address.toHex(OTHER),
+      asset_name: "1002000",
+      amount: 12345,
+    });
+    const formatted = formatAccountTransaction(tx, ACCOUNT, { "1002000": 3 });
+    expect(formatted.direction).toBe("out");
+    expect(formatted.transfer?.amount).toBe("12.345");
+  });
+
+  it("should format TRC20 transfers using token decimals", () => {
+    const formatted = formatTRC20Transfer(
+      {
+        transaction_id: "tx1",
+        block_timestamp: 1_700_000_000_000,
+        from: ACCOUNT,
+        to: ACCOUNT,
+        value: "1230000",
+        type: "Transfer",
+        token_info: { address: OTHER, symbol: "USDT", name: "Tether USD", decimals: 6 },
+      },
+      ACCOUNT,
+    );
+    expect(formatted.direction).toBe("self");
+    expect(formatted.amount).toBe("1.23");
+    expect(formatted.token.symbol).toBe("USDT");
+  });
+
+  describe("TronGrid requests", () => {
+    const request = vi.fn();
+    const trx = { getTokenByID: vi.fn() };
+
+    beforeEach(() => {
+      vi.clearAllMocks();
+      (getTronWeb as any).mockReturnValue({ fullNode: { request }, trx });
+    });
+
+    it("should query account transactions with filters and look up TRC10 precision", async () => {
+      request.mockResolvedValue({
+        success: true,
+        data: [
+          transferTx("TransferAssetContract", {
+            owner_address: TronWeb.address.toHex(ACCOUNT),
+            to_address: TronWeb.address.toHex(OTHER),
+            asset_name: "1002000",
+            amount: 500,
+          }),
+          { internal_tx_id: "internal" },
+        ],
+        meta: { fingerprint: "next" },
+      });
+      trx.getTokenByID.mockResolvedValue({ id: "1002000", precision: 2 });
+
+      const result = await getAccountTransactions(
+        ACCOUNT,
+        { direction: "out", onlyConfirmed: true, minTimestamp: 1, limit: 500 },
+        "nile",
+      );
+
+      expect(getTronWeb).toHaveBeenCalledWith("nile");
+      expect(request).toHaveBeenCalledWith(
+        `v1/accounts/${ACCOUNT}/transactions`,
+        {
+          limit: 200,
+          order_by: "block_timestamp,desc",
+          only_from: true,
+          only_confirmed: true,
+          min_timestamp: 1,
+        },
+        "get",
+      );
+      expect(result.count).toBe(1);
+      expect(result.transactions[0].transfer?.amount).toBe("5");
+      expect(result.fingerprint).toBe("next");
+      expect(result.hasMore).toBe(true);
+    });
+
+    it("should not guess TRC10 decimals when the token lookup fails", async () => {
+      request.mockResolvedValue({
+        success: true,
+        data: [
+          transferTx("TransferAssetContract", {
+            owner_address: TronWeb.address.toHex(ACCOUNT),
+            to_address: TronWeb.address.toHex(OTHER),
+            asset_name: "1002000",
+            amount: 500,
+          }),
+        ],
+        meta: {},
+      });
+      trx.getTokenByID.mockRejectedValue(new Error("timeout"));
+
+      const result = await getAccountTransactions(ACCOUNT);
+
+      expect(result.transactions[0].transfer).toEqual({
+        token: "1002000",
+        rawAmount: "500",
+        amount: undefined,
+        decimals: undefined,
+        precisionUnknown: true,
+      });
+    });
+
+    it("should scan further pages until the token filter finds enough matches", async () => {
+      const transfer = (assetName: string) =>
+        transferTx("TransferAssetContract", {
+          owner_address: TronWeb.address.toHex(ACCOUNT),
+          to_address: TronWeb.address.toHex(OTHER),
+          asset_name: assetName,
+          amount: 500,
+        });
+      request
+        .mockResolvedValueOnce({
+          success: true,
+          data: [transfer("1000001"), transfer("1002000")],
+          meta: { fingerprint: "page2" },
+        })
+        .mockResolvedValueOnce({
+          success: true,
+          data: [transfer("1000001"), transfer("1000001")],
+          meta: { fingerprint: "page3" },
+        })
+        .mockResolvedValueOnce({
+          success: true,
+          data: [transfer("1002000"), transfer("1000001")],
+          meta: { fingerprint: "page4" },
+        });
+      trx.getTokenByID.mockResolvedValue({ id: "1002000", precision: 0 });
+
+      const result = await getAccountTransactions(ACCOUNT, { token: "1002000", limit: 2 });
+
+      expect(request).toHaveBeenCalledTimes(3);
+      expect(request.mock.calls[1][1]).toMatchObject({ limit: 2, fingerprint: "page2" });
+      expect(result.count).toBe(2);
+      expect(result.transactions.every((tx) => tx.transfer?.token === "1002000")).toBe(true);
+      expect(result.fingerprint).toBe("page4");
+    });
+
+    it("should pass the token contract filter for TRC20 transfers", async () => {
+      request.mockResolvedValue({ success: true, data: [], meta: {} });
+
+      const result = await getTRC20Transfers(ACCOUNT, { contractAddress: OTHER, direction: "in" });
+
+      expect(request).toHaveBeenCalledWith(
+        `v1/accounts/${ACCOUNT}/transactions/trc20`,
+        {
+          limit: 20,
+          order_by: "block_timestamp,desc",
+          only_to: true,
+          contract_address: OTHER,
+        },
+        "get",
+      );
+      expect(result.hasMore).toBe(false);
+    });
+
+    it("should surface TronGrid errors", async () => {
+      request.mockResolvedValue({ success: false, error: "invalid address" });
+      await expect(getTRC20Transfers(ACCOUNT)).rejects.toThrow(
+        "Failed to get TRC20 transfers: invalid address",
+      );
+    });
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect } from "vitest";
+import {
+  decryptKeystore,
+  encryptKeystore,
+  inspectKeystore,
+} from "../../../src/core/services/keystore";
+
+const PRIVATE_KEY = "0000000000000000000000000000000000000000000000000000000000000001";
+
+// Test vector from the Web3 Secret Storage definition (password "testpassword")
+const SPEC_PRIVATE_KEY = "7a28b5ba57c53603b0b07b56bba752f7784bf506fa95edc395f5cf6c7514fe9d";
+const PBKDF2_VECTOR = {
+  crypto: {
+    cipher: "aes-128-ctr",
+    cipherparams: { iv: "6087dab2f9fdbbfaddc31a909735c1e6" },
+    ciphertext: "5318b4d5bcd28de64ee5559e671353e16f075ecae9f99c7a79a38af5f869aa46",
+    kdf: "pbkdf2",
+    kdfparams: {
+      c: 262144,
+      dklen: 32,
+      prf: "hmac-sha256",
+      salt: "ae3cd4e7013836a3df6bd7241b12db061dbe2c6785853cce422d148a624ce0bd",
+    },
+    mac: "517ead924a9d0dc3124507e3393d175ce3ff7c1e96529c6c555ce9e51205e9b2",
+  },
+  id: "3198bc9c-6672-5ab3-d995-4942343ae5b6",
+  version: 3,
+};
+// Written by ethers (capitalized Crypto section, Ethereum-style address); scrypt r=8 as in geth
+const SCRYPT_KEYSTORE = {
+  address: "7e5f4552091a69125d5dfcb7b8c2659029395bdf",
+  id: "c3672661-6ca3-40e6-a9c1-9c2fe9337c6f",
+  version: 3,
+  Crypto: {
+    cipher: "aes-128-ctr",
+    cipherparams: { iv: "f8d28d2dbc2c19a1ddf342adf4d1f685" },
+    ciphertext: "5a27a69e6ac58ed5548cfe945db1e8b8626d5602ae7b57c12a9747f3c6ce6cef",
+    kdf: "scrypt",
+    kdfparams: {
+      salt: "1fc4c2e95672e8f179ac5ce16dd7e56362eea38b452af66cdca967539f2ab9e5",
+      n: 131072,
+      dklen: 32,
+      p: 1,
+      r: 8,
+    },
+    mac: "d20af351bedf528f388634193b3f339fc35e7e0b06642731975ab5fb26a8b773",
+  },
+};
+
+describe("Keystore", () => {
+  it("should decrypt the pbkdf2 test vector", () => {
+    expect(decryptKeystore(PBKDF2_VECTOR, "testpassword")).toBe(SPEC_PRIVATE_KEY);
+  });
+
+  it("should decrypt a scrypt keystore written by another wallet", () => {
+    expect(decryptKeystore(JSON.stringify(SCRYPT_KEYSTORE), "testpassword")).toBe(PRIVATE_KEY);
+    expect(inspectKeystore(SCRYPT_KEYSTORE).address).toBe("TMVQGm1qAQYVdetCeGRRkTWYYrLXuHK2HC");
+  });
+
+  it("should round-trip a key with either KDF", () => {
+    for (const kdf of ["scrypt", "pbkdf2"] as const) {
+      const keystore = encryptKeystore("0x" + PRIVATE_KEY, "secret", { kdf, workFactor: 1024 });
+      expect(keystore.crypto.kdf).toBe(kdf);
+      expect(keystore.address).toBe("TMVQGm1qAQYVdetCeGRRkTWYYrLXuHK2HC");
+      expect(decryptKeystore(keystore, "secret")).toBe(PRIVATE_KEY);
+    }
+  });
+
+  it("should reject a wrong password", () => {
+    const keystore = encryptKeystore(PRIVATE_KEY, "secret", { workFactor: 1024 });
+    expect(() => decryptKeystore(keystore, "wrong")).toThrow("Wrong keystore password");
+  });
+
+  it("should reject unsupported keystores", () => {
+    expect(() => decryptKeystore({ ...PBKDF2_VECTOR, version: 1 }, "x")).toThrow(
+      "Not a version 3 keystore",
+    );
+    expect(() =>
+      decryptKeystore(
+        { ...PBKDF2_VECTOR, crypto: { ...PBKDF2_VECTOR.crypto, cipher: "aes-128-cbc" } },
+        "x",
+      ),
+    ).toThrow("Unsupported cipher");
+  });
+
+  it("should inspect a keystore without the password", () => {
+    const keystore = encryptKeystore(PRIVATE_KEY, "secret", { kdf: "pbkdf2", workFactor: 1024 });
+    expect(inspectKeystore(keystore)).toEqual({
+      version: 3,
+      id: keystore.id,
+      address: "TMVQGm1qAQYVdetCeGRRkTWYYrLXuHK2HC",
+      cipher: "aes-128-ctr",
+      kdf: "pbkdf2",
+      kdfparams: { dklen: 32, c: 1024, prf: "hmac-sha256" },
+    });
+    // Ethereum-style keystores record the hex address without the 41 prefix
+    expect(
+      inspectKeystore({ ...keystore, address: "7e5f4552091a69125d5dfcb7b8c2659029395bdf" }).address,
+    ).toBe("TMVQGm1qAQYVdetCeGRRkTWYYrLXuHK2HC");
+  });
+});
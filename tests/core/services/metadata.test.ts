@@ -0,0 +1,153 @@
+import { describe, it, expect, vi, beforeAll, afterAll, afterEach } from "vitest";
+import { EventEmitter } from "node:events";
+import { lookup } from "node:dns/promises";
+import { createServer, Server } from "node:http";
+import { request as httpsRequest } from "node:https";
+import { AddressInfo } from "node:net";
+import {
+  fetchTokenMetadata,
+  isPrivateAddress,
+  resolveTokenURI,
+  setMetadataFetcher,
+} from "../../../src/core/services/metadata";
+
+vi.mock("node:dns/promises", async (importOriginal) => {
+  const actual: any = await importOriginal();
+  return { ...actual, lookup: vi.fn(actual.lookup) };
+});
+vi.mock("node:https", async (importOriginal) => {
+  const actual: any = await importOriginal();
+  return { ...actual, request: vi.fn(actual.request) };
+});
+
+describe("Token Metadata", () => {
+  let server: Server;
+  let baseUrl: string;
+
+  // Local stand-in for a metadata host
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      if (req.url === "/ipfs/token/1.json") {
+        res.writeHead(200, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ name: "Token #1", image: "ipfs://QmImage" }));
+        return;
+      }
+      if (req.url === "/ipfs/large.json") {
+        res.writeHead(200, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ padding: "x".repeat(2 * 1024 * 1024) }));
+        return;
+      }
+      if (req.url === "/ipfs/redirect.json") {
+        res.writeHead(302, { Location: "http://169.254.169.254/latest/meta-data" });
+        res.end();
+        return;
+      }
+      res.writeHead(404);
+      res.end();
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  afterEach(() => {
+    setMetadataFetcher();
+    delete process.env.TRON_IPFS_GATEWAY;
+  });
+
+  it("should fetch and parse JSON metadata through the IPFS gateway", async () => {
+    process.env.TRON_IPFS_GATEWAY = baseUrl + "/ipfs";
+    const result = await fetchTokenMetadata("ipfs://token/1.json");
+    expect(result.metadata).toEqual({ name: "Token #1", image: "ipfs://QmImage" });
+    expect(result.error).toBeUndefined();
+  });
+
+  it("should report fetch failures instead of throwing", async () => {
+    process.env.TRON_IPFS_GATEWAY = baseUrl + "/ipfs";
+    const result = await fetchTokenMetadata("ipfs://missing.json");
+    expect(result.metadata).toBeUndefined();
+    expect(result.error).toContain("HTTP 404");
+  });
+
+  it("should only fetch https URLs on public hosts", async () => {
+    expect((await fetchTokenMetadata(`${baseUrl}/ipfs/token/1.json`)).error).toContain(
+      "Only https:// and ipfs://",
+    );
+    expect((await fetchTokenMetadata("file:///etc/passwd")).error).toContain("Only https://");
+    expect((await fetchTokenMetadata("https://127.0.0.1/token.json")).error).toContain(
+      "private address",
+    );
+    expect((await fetchTokenMetadata("https://[::ffff:7f00:1]/token.json")).error).toContain(
+      "private address",
+    );
+  });
+
+  it("should check redirects and cap the body size", async () => {
+    process.env.TRON_IPFS_GATEWAY = baseUrl + "/ipfs";
+    expect((await fetchTokenMetadata("ipfs://redirect.json")).error).toContain("Only https://");
+    expect((await fetchTokenMetadata("ipfs://large.json")).error).toContain("larger than");
+  });
+
+  it("should connect to the address it checked rather than resolving the host again", async () => {
+    (lookup as any).mockResolvedValueOnce([{ address: "93.184.216.34", family: 4 }]);
+    let connectTo: unknown;
+    (httpsRequest as any).mockImplementationOnce((_url: URL, options: any) => {
+      const request = new EventEmitter() as any;
+      request.end = () =>
+        options.lookup("metadata.example", {}, (_error: unknown, address: string) => {
+          connectTo = address;
+          request.emit("error", new Error("offline"));
+        });
+      return request;
+    });
+
+    const result = await fetchTokenMetadata("https://metadata.example/token.json");
+    expect(connectTo).toBe("93.184.216.34");
+    expect(result.error).toContain("offline");
+  });
+
+  it("should recognise private and loopback addresses", () => {
+    for (const ip of ["127.0.0.1", "10.1.2.3", "172.16.0.1", "192.168.1.1", "169.254.169.254"]) {
+      expect(isPrivateAddress(ip)).toBe(true);
+    }
+    for (const ip of ["::1", "fd00::1", "fe80::1", "::ffff:192.168.0.1"]) {
+      expect(isPrivateAddress(ip)).toBe(true);
+    }
+    expect(isPrivateAddress("8.8.8.8")).toBe(false);
+    expect(isPrivateAddress("2606:4700::1111")).toBe(false);
+  });
+
+  it("should resolve ipfs:// URIs through the configured gateway", () => {
+    expect(resolveTokenURI("ipfs://QmHash/1.json")).toBe("https://ipfs.io/ipfs/QmHash/1.json");
+    expect(resolveTokenURI("ipfs://ipfs/QmHash")).toBe("https://ipfs.io/ipfs/QmHash");
+    process.env.TRON_IPFS_GATEWAY = baseUrl + "/ipfs";
+    expect(resolveTokenURI("ipfs://QmHash")).toBe(`${baseUrl}/ipfs/QmHash`);
+  });
+
+  it("should decode inline data: URIs without fetching", async () => {
+    const json = JSON.stringify({ name: "Inline" });
+    const base64 = `data:application/json;base64,${Buffer.from(json).toString("base64")}`;
+    expect((await fetchTokenMetadata(base64)).metadata).toEqual({ name: "Inline" });
+    expect(
+      (await fetchTokenMetadata(`data:application/json,${encodeURIComponent(json)}`)).metadata,
+    ).toEqual({ name: "Inline" });
+  });
+
+  it("should use a plugged-in fetcher", async () => {
+    const requested: string[] = [];
+    setMetadataFetcher(async (url) => {
+      requested.push(url);
+      return { name: "Stub" };
+    });
+    const result = await fetchTokenMetadata("ipfs://QmHash");
+    expect(requested).toEqual(["https://ipfs.io/ipfs/QmHash"]);
+    expect(result).toEqual({
+      uri: "ipfs://QmHash",
+      url: "https://ipfs.io/ipfs/QmHash",
+      metadata: { name: "Stub" },
+    });
+  });
+});
@@ -0,0 +1,162 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { TronWeb } from "tronweb";
+import { getTronWeb, getWallet } from "../../../src/core/services/clients";
+import {
+  addTransactionSignature,
+  broadcastMultisigTransaction,
+  buildUnsignedTransaction,
+  summarizeSignWeight,
+} from "../../../src/core/services/multisig";
+
+vi.mock("../../../src/core/services/clients", () => ({
+  getTronWeb: vi.fn(),
+  getWallet: vi.fn(),
+}));
+
+const OWNER = "T9yD14Nj9j7xAB4dbGeiX9h8unkKHxuWwb";
+const KEY_A = "TR7NHqjeKQxGTCi8q8ZY4pL8otSzgjLj6t";
+const KEY_B = "TEkxiTehnzSmSe2XqrBj4w32RUN966rdz8";
+const hex = (address: string) => TronWeb.address.toHex(address);
+
+const signWeight = (approved: string[], code = "NOT_ENOUGH_PERMISSION") => ({
+  result: { code },
+  permission: {
+    id: 2,
+    permission_name: "ops",
+    threshold: 2,
+    keys: [
+      { address: hex(KEY_A), weight: 1 },
+      { address: hex(KEY_B), weight: 1 },
+    ],
+  },
+  approved_list: approved.map(hex),
+  current_weight: approved.length,
+  transaction: { transaction: { raw_data: { expiration: 2_000 } } },
+});
+
+describe("Multisig Service", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("summarizeSignWeight should report signed keys and the remaining weight", () => {
+    const summary = summarizeSignWeight(signWeight([KEY_A]), 1_000);
+    expect(summary).toMatchObject({
+      permissionId: 2,
+      permissionName: "ops",
+      threshold: 2,
+      currentWeight: 1,
+      remainingWeight: 1,
+      thresholdMet: false,
+      approvedBy: [KEY_A],
+      keys: [
+        { address: KEY_A, weight: 1, signed: true },
+        { address: KEY_B, weight: 1, signed: false },
+      ],
+      expired: false,
+      error: undefined,
+    });
+  });
+
+  it("summarizeSignWeight should surface permission errors", () => {
+    const summary = summarizeSignWeight({
+      result: { code: "PERMISSION_ERROR", message: "Signature count is 2 more than key counts" },
+    });
+    expect(summary.error).toBe("PERMISSION_ERROR: Signature count is 2 more than key counts");
+    expect(summary.thresholdMet).toBe(false);
+  });
+
+  it("buildUnsignedTransaction should pass the permission ID and extend the expiration", async () => {
+    const tx = { txID: "abc", raw_data: { expiration: 1_700_000_060_000 } };
+    const extended = { txID: "def", raw_data: { expiration: 1_700_003_600_000 } };
+    const transactionBuilder = {
+      sendTrx: vi.fn().mockResolvedValue(tx),
+      extendExpiration: vi.fn().mockResolvedValue(extended),
+    };
+    (getTronWeb as any).mockReturnValue({ transactionBuilder });
+
+    const result = await buildUnsignedTransaction(
+      OWNER,
+      { type: "transfer_trx", to: KEY_A, amount: "1.5" },
+      2,
+      3600,
+      "nile",
+    );
+
+    expect(transactionBuilder.sendTrx).toHaveBeenCalledWith(KEY_A, 1_500_000, OWNER, {
+      permissionId: 2,
+    });
+    expect(transactionBuilder.extendExpiration).toHaveBeenCalledWith(tx, 3540, { txLocal: true });
+    expect(result).toMatchObject({ txID: "def", owner: OWNER, permissionId: 2 });
+    expect(result.expiresAt).toBe(new Date(1_700_003_600_000).toISOString());
+  });
+
+  it("buildUnsignedTransaction should refuse amounts that would lose precision", async () => {
+    const transactionBuilder = { sendToken: vi.fn() };
+    (getTronWeb as any).mockReturnValue({ transactionBuilder });
+
+    await expect(
+      buildUnsignedTransaction(OWNER, {
+        type: "transfer_trc10",
+        to: KEY_A,
+        tokenId: "1002000",
+        amount: "9007199254740993",
+      }),
+    ).rejects.toThrow("exceeds the largest supported value");
+    expect(transactionBuilder.sendToken).not.toHaveBeenCalled();
+  });
+
+  it("addTransactionSignature should refuse wallets outside the permission", async () => {
+    (getTronWeb as any).mockReturnValue({
+      trx: { getSignWeight: vi.fn().mockResolvedValue(signWeight([])) },
+    });
+    const multiSign = vi.fn();
+    (getWallet as any).mockReturnValue({ defaultAddress: { base58: OWNER }, trx: { multiSign } });
+
+    await expect(addTransactionSignature({ txID: "abc" }, "pk")).rejects.toThrow(
+      `${OWNER} is not a key of permission 2 (ops)`,
+    );
+    expect(multiSign).not.toHaveBeenCalled();
+  });
+
+  it("addTransactionSignature should sign under the transaction's permission", async () => {
+    const getSignWeight = vi
+      .fn()
+      .mockResolvedValueOnce(signWeight([KEY_A]))
+      .mockResolvedValueOnce(signWeight([KEY_A, KEY_B], "ENOUGH_PERMISSION"));
+    (getTronWeb as any).mockReturnValue({ trx: { getSignWeight } });
+    const multiSign = vi.fn().mockResolvedValue({ txID: "abc", signature: ["a", "b"] });
+    (getWallet as any).mockReturnValue({ defaultAddress: { base58: KEY_B }, trx: { multiSign } });
+
+    const result = await addTransactionSignature({ txID: "abc", signature: ["a"] }, "0xpk");
+
+    expect(multiSign).toHaveBeenCalledWith({ txID: "abc", signature: ["a"] }, "pk", 2);
+    expect(result).toMatchObject({ signer: KEY_B, currentWeight: 2, thresholdMet: true });
+  });
+
+  it("addTransactionSignature should keep the private key out of sign errors", async () => {
+    const key = "ab".repeat(32);
+    (getTronWeb as any).mockReturnValue({
+      trx: { getSignWeight: vi.fn().mockResolvedValue(signWeight([KEY_A])) },
+    });
+    const multiSign = vi
+      .fn()
+      .mockRejectedValue(new Error(`Invalid private key: ${key.toUpperCase()}`));
+    (getWallet as any).mockReturnValue({ defaultAddress: { base58: KEY_B }, trx: { multiSign } });
+
+    const error = await addTransactionSignature({ txID: "abc" }, `0x${key}`).catch((e) => e);
+    expect(error.message).toBe("Failed to sign transaction: Invalid private key: [redacted]");
+  });
+
+  it("broadcastMultisigTransaction should refuse until the threshold is met", async () => {
+    const sendRawTransaction = vi.fn();
+    (getTronWeb as any).mockReturnValue({
+      trx: { getSignWeight: vi.fn().mockResolvedValue(signWeight([KEY_A])), sendRawTransaction },
+    });
+
+    await expect(broadcastMultisigTransaction({ txID: "abc" })).rejects.toThrow(
+      "Signature weight 1/2 is below the permission threshold",
+    );
+    expect(sendRawTransaction).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,135 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { TronWeb } from "tronweb";
+import { getTronWeb } from "../../../src/core/services/clients";
+import { getContractEvents } from "../../../src/core/services/events";
+import { setMetadataFetcher } from "../../../src/core/services/metadata";
+import { getNFTInfo, listNFTsOwned } from "../../../src/core/services/nft";
+
+vi.mock("../../../src/core/services/clients", () => ({
+  getTronWeb: vi.fn(),
+  getWallet: vi.fn(),
+}));
+
+vi.mock("../../../src/core/services/events", () => ({
+  getContractEvents: vi.fn(),
+}));
+
+const COLLECTION = "TR7NHqjeKQxGTCi8q8ZY4pL8otSzgjLj6t";
+const OWNER = "T9yD14Nj9j7xAB4dbGeiX9h8unkKHxuWwb";
+const OWNER_HEX = TronWeb.address.toHex(OWNER);
+
+// Fake TRC721 contract: each method returns an object with call()
+const fakeContract = (impl: Record<string, (...args: any[]) => any>) => ({
+  methods: new Proxy(
+    {},
+    {
+      get:
+        (_, name: string) =>
+        (...args: any[]) => ({
+          call: async () => {
+            if (!impl[name]) throw new Error("REVERT opcode executed");
+            return impl[name](...args);
+          },
+        }),
+    },
+  ),
+});
+
+describe("NFT Service", () => {
+  const fetched: string[] = [];
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    fetched.length = 0;
+    setMetadataFetcher(async (url) => {
+      fetched.push(url);
+      return { name: `Meta for ${url}` };
+    });
+  });
+
+  afterEach(() => {
+    setMetadataFetcher();
+  });
+
+  it("should return owner, tokenURI and metadata", async () => {
+    const contract = fakeContract({
+      name: () => "Punks",
+      ownerOf: () => OWNER_HEX,
+      tokenURI: (id: string) => `ipfs://QmHash/${id}.json`,
+    });
+    (getTronWeb as any).mockReturnValue({ contract: () => contract });
+
+    const info = await getNFTInfo(COLLECTION, "7");
+    expect(info).toMatchObject({
+      name: "Punks",
+      symbol: undefined,
+      owner: OWNER,
+      tokenURI: "ipfs://QmHash/7.json",
+      metadataUrl: "https://ipfs.io/ipfs/QmHash/7.json",
+      metadata: { name: "Meta for https://ipfs.io/ipfs/QmHash/7.json" },
+    });
+  });
+
+  it("should enumerate tokens when the contract supports ERC721Enumerable", async () => {
+    const contract = fakeContract({
+      supportsInterface: (id: string) => id === "0x780e9d63",
+      balanceOf: () => 3n,
+      tokenOfOwnerByIndex: (_owner: string, index: number) => BigInt(100 + index),
+      tokenURI: (id: string) => `https://meta.example/${id}`,
+    });
+    (getTronWeb as any).mockReturnValue({ contract: () => contract });
+
+    const result = await listNFTsOwned(COLLECTION, OWNER, { limit: 2 });
+    expect(result.source).toBe("enumerable");
+    expect(result.balance).toBe(3);
+    expect(result.complete).toBe(false);
+    expect(result.tokens.map((t) => t.tokenId)).toEqual(["100", "101"]);
+    expect(fetched).toEqual(["https://meta.example/100", "https://meta.example/101"]);
+    expect(getContractEvents).not.toHaveBeenCalled();
+  });
+
+  it("should fall back to Transfer events and confirm current ownership", async () => {
+    const OTHER = "TLa2f6VPqDgRE67v1736s7bJ8Ray5wYjU7";
+    const contract = fakeContract({
+      balanceOf: () => 1n,
+      ownerOf: (id: string) => (id === "1" ? OWNER_HEX : TronWeb.address.toHex(OTHER)),
+    });
+    (getTronWeb as any).mockReturnValue({ contract: () => contract });
+    (getContractEvents as any).mockResolvedValue({
+      events: [
+        { args: { from: OTHER, to: OWNER, tokenId: "1" } },
+        { args: { from: OTHER, to: OWNER, tokenId: "2" } },
+        { args: { from: OWNER, to: OTHER, tokenId: "2" } },
+        { args: { from: OTHER, to: OTHER, tokenId: "3" } },
+      ],
+      hasMore: false,
+    });
+
+    const result = await listNFTsOwned(COLLECTION, OWNER, { includeMetadata: false }, "nile");
+    expect(getContractEvents).toHaveBeenCalledWith(
+      {
+        contractAddress: COLLECTION,
+        eventName: "Transfer",
+        orderBy: "block_timestamp,asc",
+        limit: 2000,
+      },
+      "nile",
+    );
+    expect(result.source).toBe("events");
+    expect(result.complete).toBe(true);
+    expect(result.tokens).toEqual([{ tokenId: "1" }]);
+  });
+
+  it("should read Transfer events whose parameters use other names", async () => {
+    const OTHER = "TLa2f6VPqDgRE67v1736s7bJ8Ray5wYjU7";
+    const contract = fakeContract({ balanceOf: () => 1n, ownerOf: () => OWNER_HEX });
+    (getTronWeb as any).mockReturnValue({ contract: () => contract });
+    (getContractEvents as any).mockResolvedValue({
+      events: [{ args: { _from: OTHER, _to: OWNER, _tokenId: "7" } }],
+      hasMore: false,
+    });
+
+    const result = await listNFTsOwned(COLLECTION, OWNER, { includeMetadata: false });
+    expect(result.tokens).toEqual([{ tokenId: "7" }]);
+  });
+});
@@ -0,0 +1,165 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { TronWeb } from "tronweb";
+import { getTronWeb } from "../../../src/core/services/clients";
+import {
+  decodeOperations,
+  encodeOperations,
+  getAccountPermissions,
+  previewPermissionUpdate,
+} from "../../../src/core/services/permissions";
+
+vi.mock("../../../src/core/services/clients", () => ({
+  getTronWeb: vi.fn(),
+  getWallet: vi.fn(),
+}));
+
+const WALLET = "T9yD14Nj9j7xAB4dbGeiX9h8unkKHxuWwb";
+const KEY_A = "TR7NHqjeKQxGTCi8q8ZY4pL8otSzgjLj6t";
+const KEY_B = "TEkxiTehnzSmSe2XqrBj4w32RUN966rdz8";
+const hex = (address: string) => TronWeb.address.toHex(address);
+
+// Default active permission operations of a new account
+const DEFAULT_OPERATIONS = "7fff1fc0033e0300000000000000000000000000000000000000000000000000";
+
+const mockAccount = (account: any) => {
+  (getTronWeb as any).mockReturnValue({
+    trx: {
+      getAccount: vi.fn().mockResolvedValue(account),
+      getChainParameters: vi.fn().mockResolvedValue([
+        { key: "getTotalSignNum", value: 5 },
+        { key: "getUpdateAccountPermissionFee", value: 100_000_000 },
+      ]),
+    },
+  });
+};
+
+const defaultAccount = {
+  address: hex(WALLET),
+  owner_permission: {
+    permission_name: "owner",
+    threshold: 1,
+    keys: [{ address: hex(WALLET), weight: 1 }],
+  },
+  active_permission: [
+    {
+      type: "Active",
+      id: 2,
+      permission_name: "active",
+      threshold: 1,
+      operations: DEFAULT_OPERATIONS,
+      keys: [{ address: hex(WALLET), weight: 1 }],
+    },
+  ],
+};
+
+describe("Permissions Service", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("decodeOperations should map bitmask bits to contract types", () => {
+    expect(
+      decodeOperations("0200000000000000000000000000000000000000000000000000000000000080"),
+    ).toEqual(["TransferContract", "ContractType(255)"]);
+    const operations = decodeOperations(DEFAULT_OPERATIONS);
+    expect(operations).toContain("TriggerSmartContract");
+    expect(operations).toContain("UpdateBrokerageContract");
+    expect(operations).not.toContain("AccountPermissionUpdateContract");
+  });
+
+  it("encodeOperations should accept names, short names and IDs", () => {
+    expect(encodeOperations(["TransferContract", "triggersmart", 54])).toBe(
+      "0200008000004000000000000000000000000000000000000000000000000000",
+    );
+    expect(encodeOperations(decodeOperations(DEFAULT_OPERATIONS))).toBe(DEFAULT_OPERATIONS);
+    expect(() => encodeOperations(["NotAContract"])).toThrow("Unknown contract type");
+  });
+
+  it("getAccountPermissions should format keys in Base58", async () => {
+    mockAccount(defaultAccount);
+    const result = await getAccountPermissions(WALLET, "nile");
+    expect(result.multisig).toBe(false);
+    expect(result.owner).toMatchObject({ threshold: 1, keys: [{ address: WALLET, weight: 1 }] });
+    expect(result.actives[0]).toMatchObject({ id: 2, name: "active" });
+  });
+
+  it("previewPermissionUpdate should diff the owner permission", async () => {
+    mockAccount(defaultAccount);
+    const preview = await previewPermissionUpdate(
+      WALLET,
+      {
+        owner: {
+          threshold: 2,
+          keys: [
+            { address: WALLET, weight: 1 },
+            { address: KEY_A, weight: 1 },
+            { address: KEY_B, weight: 1 },
+          ],
+        },
+      },
+      { signer: WALLET },
+    );
+    expect(preview.fee.trx).toBe("100");
+    expect(preview.changes[0]).toMatchObject({
+      permission: "owner",
+      status: "changed",
+      threshold: { from: 1, to: 2 },
+      keysAdded: [
+        { address: KEY_A, weight: 1 },
+        { address: KEY_B, weight: 1 },
+      ],
+      keysRemoved: [],
+    });
+    expect(preview.changes[1]).toMatchObject({ permission: "active #2", status: "unchanged" });
+  });
+
+  it("previewPermissionUpdate should reject unreachable thresholds", async () => {
+    mockAccount(defaultAccount);
+    await expect(
+      previewPermissionUpdate(WALLET, {
+        actives: [
+          {
+            threshold: 3,
+            keys: [
+              { address: KEY_A, weight: 1 },
+              { address: KEY_B, weight: 1 },
+            ],
+            operations: ["TransferContract"],
+          },
+        ],
+      }),
+    ).rejects.toThrow("active #2: threshold 3 is unreachable (keys only add up to 2)");
+  });
+
+  it("previewPermissionUpdate should stop the wallet from locking itself out", async () => {
+    mockAccount(defaultAccount);
+    const update = { owner: { threshold: 1, keys: [{ address: KEY_A, weight: 1 }] } };
+    await expect(previewPermissionUpdate(WALLET, update, { signer: WALLET })).rejects.toThrow(
+      "would lock it out",
+    );
+    await expect(
+      previewPermissionUpdate(WALLET, update, { signer: WALLET, allowOwnerTransfer: true }),
+    ).resolves.toMatchObject({ proposed: { owner: { keys: [{ address: KEY_A }] } } });
+  });
+
+  it("previewPermissionUpdate should require the wallet to meet the owner threshold", async () => {
+    mockAccount({
+      ...defaultAccount,
+      owner_permission: {
+        permission_name: "owner",
+        threshold: 2,
+        keys: [
+          { address: hex(WALLET), weight: 1 },
+          { address: hex(KEY_A), weight: 1 },
+        ],
+      },
+    });
+    await expect(
+      previewPermissionUpdate(
+        WALLET,
+        { owner: { threshold: 1, keys: [{ address: WALLET, weight: 1 }] } },
+        { signer: WALLET },
+      ),
+    ).rejects.toThrow("below the owner threshold 2");
+  });
+});
@@ -0,0 +1,241 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, writeFileSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { TronWeb } from "tronweb";
+import {
+  checkSigningPolicy,
+  checkSpendingPolicy,
+  contractCallIntent,
+  PolicyViolationError,
+  recordSpend,
+  resetSpendingPolicy,
+  transactionIntent,
+  withSpendingPolicy,
+} from "../../../src/core/services/policy";
+
+const USDT = "TR7NHqjeKQxGTCi8q8ZY4pL8otSzgjLj6t";
+const FRIEND = "TEkxiTehnzSmSe2XqrBj4w32RUN966rdz8";
+const STRANGER = "T9yD14Nj9j7xAB4dbGeiX9h8unkKHxuWwb";
+const HOUR = 60 * 60 * 1000;
+
+const POLICY = {
+  networks: {
+    mainnet: {
+      trx: { maxPerTransaction: "100", maxPer24h: "500" },
+      tokens: { [TronWeb.address.toHex(USDT)]: { maxPer24h: "1000000" } },
+      recipients: { deny: [STRANGER] },
+      contracts: { allow: [USDT] },
+    },
+    "*": { recipients: { allow: [FRIEND] } },
+  },
+};
+
+describe("Spending Policy", () => {
+  let dir: string;
+
+  const usePolicy = (policy: unknown) => {
+    const file = join(dir, "policy.json");
+    writeFileSync(file, typeof policy === "string" ? policy : JSON.stringify(policy));
+    process.env.TRON_POLICY_FILE = file;
+  };
+
+  const violation = async (promise: Promise<unknown>) => {
+    const error = await promise.then(
+      () => undefined,
+      (e) => e,
+    );
+    expect(error).toBeInstanceOf(PolicyViolationError);
+    return (error as PolicyViolationError).details;
+  };
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "tron-policy-"));
+    resetSpendingPolicy();
+  });
+
+  afterEach(() => {
+    delete process.env.TRON_POLICY_FILE;
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should allow everything without a policy file", async () => {
+    await expect(
+      checkSpendingPolicy({ action: "transfer_trx", recipient: STRANGER, trxSun: 10n ** 15n }),
+    ).resolves.toBeUndefined();
+  });
+
+  it("should block TRX above the per-transaction cap", async () => {
+    usePolicy(POLICY);
+    const details = await violation(
+      checkSpendingPolicy({ action: "transfer_trx", recipient: FRIEND, trxSun: 150_000_000 }),
+    );
+    expect(details).toMatchObject({
+      rule: "trx.maxPerTransaction",
+      network: "mainnet",
+      action: "transfer_trx",
+      limit: "100",
+      attempted: "150",
+    });
+  });
+
+  it("should enforce the rolling 24h cap", async () => {
+    usePolicy(POLICY);
+    const now = Date.UTC(2024, 0, 1);
+    const spend = { action: "transfer_trx", recipient: FRIEND, trxSun: 100_000_000 };
+    for (let i = 0; i < 4; i++) {
+      await recordSpend(spend, "mainnet", now + i * HOUR);
+    }
+
+    await expect(checkSpendingPolicy(spend, "mainnet", now + 4 * HOUR)).resolves.toBeUndefined();
+    await recordSpend(spend, "mainnet", now + 4 * HOUR);
+    const details = await violation(checkSpendingPolicy(spend, "mainnet", now + 5 * HOUR));
+    expect(details).toMatchObject({ rule: "trx.maxPer24h", spentLast24h: "500" });
+
+    // The first spend leaves the window after 24 hours
+    await expect(
+      checkSpendingPolicy(spend, "mainnet", now + 24 * HOUR + 1),
+    ).resolves.toBeUndefined();
+  });
+
+  it("should check recipient denylists and contract allowlists", async () => {
+    usePolicy(POLICY);
+    expect(
+      await violation(checkSpendingPolicy({ action: "transfer_trx", recipient: STRANGER })),
+    ).toMatchObject({ rule: "recipients.deny", address: STRANGER });
+    expect(
+      await violation(
+        checkSpendingPolicy(contractCallIntent("write_contract", FRIEND, "mint", [1])),
+      ),
+    ).toMatchObject({ rule: "contracts.allow", address: FRIEND });
+  });
+
+  it("should treat new permission keys as recipients", async () => {
+    usePolicy(POLICY);
+    const permission = (...addresses: string[]) => ({
+      keys: addresses.map((address) => ({ address: TronWeb.address.toHex(address), weight: 1 })),
+    });
+    const update = {
+      raw_data: {
+        contract: [
+          {
+            type: "AccountPermissionUpdateContract",
+            parameter: {
+              value: {
+                owner_address: TronWeb.address.toHex(FRIEND),
+                owner: permission(FRIEND, STRANGER),
+                actives: [permission(FRIEND)],
+              },
+            },
+          },
+        ],
+      },
+    };
+    const intent = transactionIntent("update_account_permissions", update);
+    expect(intent).toEqual({ action: "update_account_permissions", keys: [STRANGER] });
+    expect(await violation(checkSpendingPolicy(intent))).toMatchObject({
+      rule: "recipients.deny",
+      address: STRANGER,
+    });
+  });
+
+  it("should fall back to the wildcard rules on other networks", async () => {
+    usePolicy(POLICY);
+    await expect(
+      checkSpendingPolicy(
+        { action: "transfer_trx", recipient: FRIEND, trxSun: 10n ** 12n },
+        "nile",
+      ),
+    ).resolves.toBeUndefined();
+    expect(
+      await violation(checkSpendingPolicy({ action: "transfer_trx", recipient: USDT }, "nile")),
+    ).toMatchObject({ rule: "recipients.allow", network: "nile" });
+  });
+
+  it("should check offline signatures against every network without recording them", async () => {
+    usePolicy(POLICY);
+    const intent = { action: "sign_transaction", recipient: FRIEND, trxSun: 150_000_000 };
+    // Allowed by the wildcard rules, but over the mainnet cap
+    const details = await violation(checkSigningPolicy(intent));
+    expect(details).toMatchObject({ rule: "trx.maxPerTransaction", network: "mainnet" });
+
+    const small = { ...intent, trxSun: 100_000_000 };
+    for (let i = 0; i < 6; i++) await checkSigningPolicy(small);
+    await checkSpendingPolicy(small, "mainnet");
+  });
+
+  it("should count TRC20 transfers against the token cap", async () => {
+    usePolicy(POLICY);
+    const intent = contractCallIntent("write_contract", USDT, "transfer", [FRIEND, "600000"]);
+    expect(intent).toMatchObject({ recipient: FRIEND, token: { id: USDT, amount: "600000" } });
+
+    await withSpendingPolicy(intent, "mainnet", async () => "tx");
+    expect(await violation(withSpendingPolicy(intent, "mainnet", async () => "tx"))).toMatchObject({
+      rule: `tokens.${USDT}.maxPer24h`,
+      spentLast24h: "600000",
+    });
+  });
+
+  it("should describe transactions from their contract", () => {
+    const transfer = {
+      raw_data: {
+        contract: [
+          {
+            type: "TransferContract",
+            parameter: {
+              value: { to_address: TronWeb.address.toHex(FRIEND), amount: 5_000_000 },
+            },
+          },
+        ],
+      },
+    };
+    expect(transactionIntent("sign_transaction", transfer)).toEqual({
+      action: "sign_transaction",
+      recipient: TronWeb.address.toHex(FRIEND),
+      trxSun: 5_000_000,
+    });
+
+    const data =
+      "a9059cbb" +
+      TronWeb.address.toHex(FRIEND).slice(2).padStart(64, "0") +
+      (42).toString(16).padStart(64, "0");
+    const call = {
+      raw_data: {
+        contract: [
+          {
+            type: "TriggerSmartContract",
+            parameter: { value: { contract_address: TronWeb.address.toHex(USDT), data } },
+          },
+        ],
+      },
+    };
+    expect(transactionIntent("cosign_transaction", call)).toMatchObject({
+      contract: TronWeb.address.toHex(USDT),
+      token: { amount: "42" },
+    });
+    expect(transactionIntent("sign_transaction", undefined)).toEqual({
+      action: "sign_transaction",
+      undecoded: true,
+    });
+  });
+
+  it("should fail closed on an invalid policy file", async () => {
+    usePolicy({ networks: { mainnet: { trx: { maxPer24h: "lots" } } } });
+    await expect(checkSpendingPolicy({ action: "transfer_trx" })).rejects.toThrow(
+      "networks.mainnet.trx.maxPer24h must be a non-negative number",
+    );
+  });
+
+  it("should keep the 24h history in the ledger file across restarts", async () => {
+    const ledgerFile = join(dir, "ledger.json");
+    usePolicy({ ...POLICY, ledgerFile });
+    const spend = { action: "transfer_trx", recipient: FRIEND, trxSun: 100_000_000 };
+    for (let i = 0; i < 5; i++) {
+      await recordSpend(spend);
+    }
+    expect(JSON.parse(readFileSync(ledgerFile, "utf8"))).toHaveLength(5);
+
+    resetSpendingPolicy();
+    expect(await violation(checkSpendingPolicy(spend))).toMatchObject({ rule: "trx.maxPer24h" });
+  });
+});
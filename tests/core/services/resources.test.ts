@@ -0,0 +1,97 @@
+import { describe, it, expect } from "vitest";
+import { summarizeAccountResources } from "../../../src/core/services/resources";
+
+const NOW = Date.parse("2026-01-01T00:00:00Z");
+
+const ACCOUNT = {
+  balance: 50_000_000,
+  frozenV2: [
+    { amount: 10_000_000 },
+    { type: "ENERGY", amount: 200_000_000 },
+    { type: "TRON_POWER" },
+  ],
+  unfrozenV2: [
+    { type: "ENERGY", unfreeze_amount: 5_000_000, unfreeze_expire_time: NOW - 1000 },
+    { unfreeze_amount: 3_000_000, unfreeze_expire_time: NOW + 1000 },
+  ],
+  delegated_frozenV2_balance_for_bandwidth: 1_000_000,
+  account_resource: { acquired_delegated_frozenV2_balance_for_energy: 7_000_000 },
+};
+
+const RESOURCES = {
+  freeNetLimit: 600,
+  freeNetUsed: 100,
+  NetLimit: 50,
+  NetUsed: 0,
+  EnergyLimit: 30_000,
+  EnergyUsed: 10_000,
+  tronPowerLimit: 210,
+};
+
+const PRICES = { energyPriceSun: 100, bandwidthPriceSun: 1000 };
+
+describe("Resources Service", () => {
+  it("should summarize bandwidth, energy and frozen balances", () => {
+    const summary = summarizeAccountResources(ACCOUNT, RESOURCES, PRICES, {}, NOW);
+    expect(summary.bandwidth.available).toBe(550);
+    expect(summary.energy.available).toBe(20_000);
+    expect(summary.frozen.bandwidth.sun).toBe(10_000_000);
+    expect(summary.frozen.energy.trx).toBe("200");
+    expect(summary.delegated.out.bandwidth.sun).toBe(1_000_000);
+    expect(summary.delegated.in.energy.sun).toBe(7_000_000);
+    expect(summary.tronPower.limit).toBe(210);
+  });
+
+  it("should separate withdrawable unstakes from pending ones", () => {
+    const summary = summarizeAccountResources(ACCOUNT, RESOURCES, PRICES, {}, NOW);
+    expect(summary.unfreezing).toHaveLength(2);
+    expect(summary.unfreezing[0].withdrawable).toBe(true);
+    expect(summary.unfreezing[1].resource).toBe("BANDWIDTH");
+    expect(summary.unfreezing[1].withdrawable).toBe(false);
+    expect(summary.pendingWithdrawal.sun).toBe(5_000_000);
+  });
+
+  it("should price the missing resources in TRX", () => {
+    const summary = summarizeAccountResources(
+      ACCOUNT,
+      RESOURCES,
+      PRICES,
+      { energy: 65_000, bandwidth: 345 },
+      NOW,
+    );
+    expect(summary.shortfall.energy).toBe(45_000);
+    expect(summary.shortfall.bandwidth).toBe(0);
+    expect(summary.shortfall.burnCost.sun).toBe(4_500_000);
+    expect(summary.shortfall.burnCost.trx).toBe("4.5");
+  });
+});
+
+describe("Bandwidth cost", () => {
+  it("should burn TRX for the whole transaction when no single pool covers it", () => {
+    // 50 staked + 500 free would cover 520 bytes together, but Bandwidth is not pooled
+    const summary = summarizeAccountResources(ACCOUNT, RESOURCES, PRICES, { bandwidth: 520 }, NOW);
+    expect(summary.shortfall.bandwidthSource).toBe("burn");
+    expect(summary.shortfall.bandwidth).toBe(520);
+    expect(summary.shortfall.burnCost.sun).toBe(520_000);
+  });
+
+  it("should use staked Bandwidth before free Bandwidth", () => {
+    const summary = summarizeAccountResources(ACCOUNT, RESOURCES, PRICES, { bandwidth: 40 }, NOW);
+    expect(summary.shortfall.bandwidthSource).toBe("staked");
+    expect(summary.shortfall.burnCost.sun).toBe(0);
+  });
+
+  it("should charge the activation fees when the transaction creates an account", () => {
+    const summary = summarizeAccountResources(
+      ACCOUNT,
+      RESOURCES,
+      { ...PRICES, createAccountFeeSun: 100_000, createNewAccountFeeSun: 1_000_000 },
+      { bandwidth: 280, createsAccount: true },
+      NOW,
+    );
+    // Free Bandwidth cannot pay for an activation, so the fixed create-account fee is burned
+    expect(summary.shortfall.bandwidthSource).toBe("burn");
+    expect(summary.shortfall.activationFee.sun).toBe(1_000_000);
+    expect(summary.shortfall.burnCost.sun).toBe(1_100_000);
+  });
+});
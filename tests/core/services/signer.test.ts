@@ -0,0 +1,177 @@
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach, afterEach } from "vitest";
+import { createServer, Server } from "node:http";
+import { AddressInfo } from "node:net";
+import { TronWeb, utils as tronWebUtils } from "tronweb";
+import { getTronWeb } from "../../../src/core/services/clients";
+import {
+  createLocalSigner,
+  createRemoteSigner,
+  getConfiguredSigner,
+} from "../../../src/core/services/signer";
+import { transferTRX } from "../../../src/core/services/transfer";
+import { getConfiguredWallet, getWalletAddressFromKey } from "../../../src/core/services/wallet";
+
+vi.mock("../../../src/core/services/clients", () => ({
+  getTronWeb: vi.fn(),
+  getWallet: vi.fn(),
+}));
+
+const PRIVATE_KEY = "0000000000000000000000000000000000000000000000000000000000000001";
+const OTHER_KEY = "0000000000000000000000000000000000000000000000000000000000000002";
+const ADDRESS = TronWeb.address.fromPrivateKey(PRIVATE_KEY) as string;
+const TOKEN = "signer-test-token";
+
+// A TRX transfer built without a node
+const buildTransaction = () => {
+  const transaction: any = {
+    visible: false,
+    raw_data: {
+      contract: [
+        {
+          parameter: {
+            value: {
+              amount: 1_000_000,
+              owner_address: TronWeb.address.toHex(ADDRESS),
+              to_address: "41a614f803b6fd780986a42c78ec9c7f77e6ded13c",
+            },
+            type_url: "type.googleapis.com/protocol.TransferContract",
+          },
+          type: "TransferContract",
+        },
+      ],
+      ref_block_bytes: "1234",
+      ref_block_hash: "0123456789abcdef",
+      expiration: 1_700_000_060_000,
+      timestamp: 1_700_000_000_000,
+    },
+  };
+  const pb = tronWebUtils.transaction.txJsonToPb(transaction);
+  transaction.raw_data_hex = tronWebUtils.transaction.txPbToRawDataHex(pb).toLowerCase();
+  transaction.txID = tronWebUtils.transaction.txPbToTxID(pb).replace(/^0x/, "");
+  return transaction;
+};
+
+const DOMAIN = { name: "Test", version: "1", chainId: 728126428 };
+const TYPES = { Mail: [{ name: "contents", type: "string" }] };
+const VALUE = { contents: "hello" };
+
+describe("Remote Signer", () => {
+  let server: Server;
+  let url: string;
+  let requests: any[];
+  // Key the mock service signs with, so tests can simulate a misconfigured service
+  let serviceKey: string;
+
+  beforeAll(async () => {
+    // Mock signing service: signs with serviceKey, rejects requests without the token
+    server = createServer((req, res) => {
+      let body = "";
+      req.on("data", (chunk) => (body += chunk));
+      req.on("end", async () => {
+        const request = JSON.parse(body);
+        requests.push({ ...request, authorization: req.headers.authorization });
+        res.setHeader("Content-Type", "application/json");
+        if (req.headers.authorization !== `Bearer ${TOKEN}`) {
+          res.statusCode = 403;
+          res.end(JSON.stringify({ error: "denied" }));
+          return;
+        }
+        const local = createLocalSigner(serviceKey);
+        let signature: string;
+        if (request.kind === "transaction") {
+          signature = (await local.signTransaction(request.transaction)).signature.at(-1);
+        } else if (request.kind === "message") {
+          signature = await local.signMessage(request.message);
+        } else {
+          signature = await local.signTypedData(request.domain, request.types, request.value);
+        }
+        res.end(JSON.stringify({ signature }));
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/sign`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests = [];
+    serviceKey = PRIVATE_KEY;
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("should sign a transaction through the service", async () => {
+    const signer = createRemoteSigner({ url, address: ADDRESS, token: TOKEN });
+    const transaction = buildTransaction();
+    const signed = await signer.signTransaction(transaction);
+
+    expect(requests[0]).toMatchObject({
+      kind: "transaction",
+      address: ADDRESS,
+      txID: transaction.txID,
+      rawDataHex: transaction.raw_data_hex,
+      authorization: `Bearer ${TOKEN}`,
+    });
+    expect(signed.signature).toHaveLength(1);
+    expect(signed).toEqual(await createLocalSigner(PRIVATE_KEY).signTransaction(transaction));
+  });
+
+  it("should sign messages and typed data like the local key", async () => {
+    const remote = createRemoteSigner({ url, address: ADDRESS, token: TOKEN });
+    const local = createLocalSigner(PRIVATE_KEY);
+    expect(await remote.signMessage("0xdeadbeef")).toBe(await local.signMessage("0xdeadbeef"));
+    expect(await remote.signTypedData(DOMAIN, TYPES, VALUE)).toBe(
+      await local.signTypedData(DOMAIN, TYPES, VALUE),
+    );
+  });
+
+  it("should reject signatures made by another key", async () => {
+    serviceKey = OTHER_KEY;
+    const signer = createRemoteSigner({ url, address: ADDRESS, token: TOKEN });
+    await expect(signer.signTransaction(buildTransaction())).rejects.toThrow(
+      `not made by ${ADDRESS}`,
+    );
+    await expect(signer.signMessage("0xdeadbeef")).rejects.toThrow("not made by");
+  });
+
+  it("should report a refusal from the service", async () => {
+    const signer = createRemoteSigner({ url, address: ADDRESS, token: "wrong" });
+    await expect(signer.signMessage("0xdeadbeef")).rejects.toThrow(
+      "Remote signer refused to sign (HTTP 403): denied",
+    );
+  });
+
+  it("should send a TRX transfer signed by the service", async () => {
+    const transaction = buildTransaction();
+    const sendRawTransaction = vi.fn(async (tx: any) => ({ result: true, transaction: tx }));
+    (getTronWeb as any).mockReturnValue({
+      transactionBuilder: { sendTrx: vi.fn(async () => transaction) },
+      trx: { sendRawTransaction },
+    });
+
+    const signer = createRemoteSigner({ url, address: ADDRESS, token: TOKEN });
+    const txID = await transferTRX(signer, "TRh7ifpMDuTmCZ2VuTvAe9zuGbWGiyuAwp", "1", "nile");
+
+    expect(txID).toBe(transaction.txID);
+    const broadcast = sendRawTransaction.mock.calls[0][0];
+    expect(
+      TronWeb.address.fromHex(
+        tronWebUtils.crypto.ecRecover(transaction.txID, broadcast.signature[0]),
+      ),
+    ).toBe(ADDRESS);
+  });
+
+  it("should replace local keys when configured", () => {
+    vi.stubEnv("TRON_PRIVATE_KEY", OTHER_KEY);
+    vi.stubEnv("TRON_REMOTE_SIGNER_URL", url);
+    vi.stubEnv("TRON_REMOTE_SIGNER_ADDRESS", ADDRESS);
+    expect(getConfiguredSigner().address).toBe(ADDRESS);
+    expect(getWalletAddressFromKey()).toBe(ADDRESS);
+    expect(() => getConfiguredWallet()).toThrow("Local keys are disabled");
+  });
+});
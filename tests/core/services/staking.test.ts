@@ -0,0 +1,18 @@
+import { describe, it, expect } from "vitest";
+import { sunToResourceUnits } from "../../../src/core/services/staking";
+
+describe("Staking Service", () => {
+  it("should convert staked Sun into resource units pro rata", () => {
+    // 1,000 TRX staked out of 10,000,000 TRX total weight, 90 billion units per day
+    expect(sunToResourceUnits(1_000_000_000, 90_000_000_000, 10_000_000)).toBe(9_000_000);
+  });
+
+  it("should round down fractional units", () => {
+    expect(sunToResourceUnits(1_500_000, 10, 3)).toBe(5);
+  });
+
+  it("should return 0 when network totals are unavailable", () => {
+    expect(sunToResourceUnits(1_000_000, undefined, 100)).toBe(0);
+    expect(sunToResourceUnits(1_000_000, 100, 0)).toBe(0);
+  });
+});
@@ -0,0 +1,143 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { TronWeb } from "tronweb";
+import { getTronWeb } from "../../../src/core/services/clients";
+import {
+  findTRC10TokensByName,
+  getTRC10TokenInfo,
+  substituteTokenId,
+} from "../../../src/core/services/tokens";
+import {
+  getTRC10Balance,
+  getTRC10Balances,
+  getTRC1155Balances,
+} from "../../../src/core/services/balance";
+
+vi.mock("../../../src/core/services/clients", () => ({
+  getTronWeb: vi.fn(),
+}));
+
+const OWNER = "T9yD14Nj9j7xAB4dbGeiX9h8unkKHxuWwb";
+
+const rawToken = (id: string, precision?: number) => ({
+  id,
+  name: "BitTorrent",
+  abbr: "BTT",
+  owner_address: TronWeb.address.toHex(OWNER),
+  precision,
+  total_supply: 990000000000000000,
+  start_time: 1548000000000,
+});
+
+describe("TRC10 Token Service", () => {
+  const trx = {
+    getTokenByID: vi.fn(),
+    getTokenListByName: vi.fn(),
+    getAccount: vi.fn(),
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (getTronWeb as any).mockReturnValue({ trx });
+  });
+
+  it("should normalize token metadata by ID", async () => {
+    trx.getTokenByID.mockResolvedValue(rawToken("1002000", 6));
+    const token = await getTRC10TokenInfo("1002000");
+    expect(token).toMatchObject({
+      id: "1002000",
+      abbr: "BTT",
+      owner: OWNER,
+      precision: 6,
+      formattedTotalSupply: "990000000000",
+      startTime: "2019-01-20T16:00:00.000Z",
+    });
+  });
+
+  it("should return every token matching a name", async () => {
+    trx.getTokenListByName.mockResolvedValue([rawToken("1002000", 6), rawToken("1000001")]);
+    const tokens = await findTRC10TokensByName("BitTorrent");
+    expect(tokens.map((token) => [token.id, token.precision])).toEqual([
+      ["1002000", 6],
+      ["1000001", 0],
+    ]);
+  });
+
+  it("should read a TRC10 balance from the account's assets", async () => {
+    trx.getTokenByID.mockResolvedValue(rawToken("1002000", 6));
+    trx.getAccount.mockResolvedValue({ assetV2: [{ key: "1002000", value: 1234567 }] });
+    const balance = await getTRC10Balance(OWNER, "1002000");
+    expect(balance.raw).toBe(1234567n);
+    expect(balance.formatted).toBe("1.234567");
+  });
+
+  it("should list held TRC10 assets and skip empty ones", async () => {
+    trx.getTokenByID.mockImplementation(async (id: string) =>
+      rawToken(id, id === "1002000" ? 6 : 0),
+    );
+    trx.getAccount.mockResolvedValue({
+      assetV2: [
+        { key: "1002000", value: 5000000 },
+        { key: "1000001", value: 0 },
+        { key: "1000002", value: 7 },
+      ],
+    });
+    const balances = await getTRC10Balances(OWNER);
+    expect(balances.map((b) => [b.token.id, b.formatted])).toEqual([
+      ["1002000", "5"],
+      ["1000002", "7"],
+    ]);
+  });
+
+  it("should report missing tokens", async () => {
+    trx.getTokenByID.mockRejectedValue(new Error("Token does not exist"));
+    await expect(getTRC10TokenInfo("999")).rejects.toThrow(
+      "Failed to get TRC10 token info: Token does not exist",
+    );
+  });
+});
+
+describe("TRC1155 Token Service", () => {
+  it("should substitute {id} with the zero-padded lowercase hex token ID", () => {
+    expect(substituteTokenId("https://game.example/api/item/{id}.json", 314592n)).toBe(
+      "https://game.example/api/item/000000000000000000000000000000000000000000000000000000000004cce0.json",
+    );
+    expect(substituteTokenId("ipfs://Qm/{id}", "10")).toBe("ipfs://Qm/" + "0".repeat(63) + "a");
+    expect(substituteTokenId("https://static.example/token.json", 1n)).toBe(
+      "https://static.example/token.json",
+    );
+  });
+
+  it("should read balances for all pairs in one balanceOfBatch call", async () => {
+    const balanceOfBatch = vi.fn(() => ({ call: async () => [5n, 0n, 2n] }));
+    const uri = vi.fn((id: string) => ({
+      call: async () => (id === "2" ? "https://meta.example/{id}.json" : ""),
+    }));
+    (getTronWeb as any).mockReturnValue({ contract: () => ({ methods: { balanceOfBatch, uri } }) });
+
+    const OTHER = "TR7NHqjeKQxGTCi8q8ZY4pL8otSzgjLj6t";
+    const balances = await getTRC1155Balances(
+      "TContract",
+      [
+        { owner: OWNER, tokenId: "1" },
+        { owner: OTHER, tokenId: "1" },
+        { owner: OWNER, tokenId: "2" },
+      ],
+      "mainnet",
+      true,
+    );
+
+    expect(balanceOfBatch).toHaveBeenCalledTimes(1);
+    expect(balanceOfBatch).toHaveBeenCalledWith([OWNER, OTHER, OWNER], ["1", "1", "2"]);
+    expect(uri).toHaveBeenCalledTimes(2);
+    expect(balances).toEqual([
+      { owner: OWNER, tokenId: "1", balance: 5n, uri: undefined },
+      { owner: OTHER, tokenId: "1", balance: 0n, uri: undefined },
+      {
+        owner: OWNER,
+        tokenId: "2",
+        balance: 2n,
+        uri: `https://meta.example/${"0".repeat(63)}2.json`,
+      },
+    ]);
+  });
+});
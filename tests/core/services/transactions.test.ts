@@ -0,0 +1,45 @@
+import { describe, it, expect } from "vitest";
+import { utils as tronWebUtils } from "tronweb";
+import { decodeTransactionFailure } from "../../../src/core/services/transactions";
+
+const toHex = (text: string) => Buffer.from(text, "utf8").toString("hex");
+
+describe("Transaction Failure Decoding", () => {
+  it("should report successful transactions as not failed", () => {
+    expect(decodeTransactionFailure({ id: "tx", receipt: { result: "SUCCESS" } })).toEqual({
+      failed: false,
+    });
+  });
+
+  it("should prefer the decoded revert message", () => {
+    const revertData =
+      "08c379a0" + tronWebUtils.abi.encodeParams(["string"], ["Not owner"]).slice(2);
+    const failure = decodeTransactionFailure({
+      result: "FAILED",
+      resMessage: toHex("REVERT opcode executed"),
+      contractResult: [revertData],
+      receipt: { result: "REVERT" },
+    });
+    expect(failure.failed).toBe(true);
+    expect(failure.failureReason).toBe("Not owner");
+    expect(failure.resMessage).toBe("REVERT opcode executed");
+    expect(failure.revert?.type).toBe("Error");
+  });
+
+  it("should explain out of energy failures", () => {
+    const failure = decodeTransactionFailure({
+      result: "FAILED",
+      contractResult: [""],
+      receipt: { result: "OUT_OF_ENERGY" },
+    });
+    expect(failure.failureReason).toContain("Ran out of energy");
+  });
+
+  it("should fall back to the decoded resMessage", () => {
+    const failure = decodeTransactionFailure({
+      result: "FAILED",
+      resMessage: toHex("balance is not sufficient"),
+    });
+    expect(failure.failureReason).toBe("balance is not sufficient");
+  });
+});
@@ -21,6 +21,20 @@ describe("Utils", () => {
     expect(utils.formatBigInt(big)).toBe("12345678901234567890");
   });
 
+  it("should format amounts with token decimals", () => {
+    expect(utils.formatUnits(1500000n, 6)).toBe("1.5");
+    expect(utils.formatUnits("123", 6)).toBe("0.000123");
+    expect(utils.formatUnits(42, 0)).toBe("42");
+    expect(utils.formatUnits("123456789012345678901234", 18)).toBe("123456.789012345678901234");
+  });
+
+  it("should parse raw amounts only within the safe integer range", () => {
+    expect(utils.toSafeInteger("9007199254740991")).toBe(9007199254740991);
+    expect(() => utils.toSafeInteger("9007199254740993")).toThrow("exceeds");
+    expect(() => utils.toSafeInteger("1.5")).toThrow("non-negative integer");
+    expect(() => utils.toSafeInteger("-1", "callValue")).toThrow("callValue");
+  });
+
   it("should hex to number", () => {
     expect(utils.hexToNumber("0xa")).toBe(10);
     expect(utils.hexToNumber("a")).toBe(10);
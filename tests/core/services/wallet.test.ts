@@ -0,0 +1,176 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { TronWeb, utils as tronWebUtils } from "tronweb";
+import { encryptKeystore } from "../../../src/core/services/keystore";
+import {
+  getConfiguredWallet,
+  getDefaultAccount,
+  serializeSignedTransaction,
+  signTransaction,
+} from "../../../src/core/services/wallet";
+
+const PRIVATE_KEY = "0000000000000000000000000000000000000000000000000000000000000001";
+const ADDRESS = TronWeb.address.fromPrivateKey(PRIVATE_KEY) as string;
+
+// A TRX transfer built without a node
+const buildTransaction = () => {
+  const transaction: any = {
+    visible: false,
+    raw_data: {
+      contract: [
+        {
+          parameter: {
+            value: {
+              amount: 1_000_000,
+              owner_address: TronWeb.address.toHex(ADDRESS),
+              to_address: "41a614f803b6fd780986a42c78ec9c7f77e6ded13c",
+            },
+            type_url: "type.googleapis.com/protocol.TransferContract",
+          },
+          type: "TransferContract",
+        },
+      ],
+      ref_block_bytes: "1234",
+      ref_block_hash: "0123456789abcdef",
+      expiration: 1_700_000_060_000,
+      timestamp: 1_700_000_000_000,
+    },
+  };
+  const pb = tronWebUtils.transaction.txJsonToPb(transaction);
+  transaction.raw_data_hex = tronWebUtils.transaction.txPbToRawDataHex(pb).toLowerCase();
+  transaction.txID = tronWebUtils.transaction.txPbToTxID(pb).replace(/^0x/, "");
+  return transaction;
+};
+
+describe("Offline Transaction Signing", () => {
+  beforeEach(() => {
+    vi.stubEnv("TRON_PRIVATE_KEY", PRIVATE_KEY);
+    // Any network access would fail the test
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(() => Promise.reject(new Error("network unreachable"))),
+    );
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+  });
+
+  it("should sign a transaction JSON without a network", () => {
+    const transaction = buildTransaction();
+    const result = signTransaction(transaction);
+
+    expect(result.signer).toBe(ADDRESS);
+    expect(result.txID).toBe(transaction.txID);
+    expect(result.signatureCount).toBe(1);
+    const signature = result.transaction.signature[0];
+    expect(TronWeb.address.fromHex(tronWebUtils.crypto.ecRecover(result.txID, signature))).toBe(
+      ADDRESS,
+    );
+    expect(result.signedHex).toBe(
+      serializeSignedTransaction(transaction.raw_data_hex, [signature]),
+    );
+    // The input is left untouched
+    expect(transaction.signature).toBeUndefined();
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it("should refuse a JSON whose raw_data was edited after building", () => {
+    const transaction = buildTransaction();
+    transaction.raw_data.contract[0].parameter.value.amount = 999_000_000;
+    expect(() => signTransaction(transaction)).toThrow("raw_data does not match txID");
+  });
+
+  it("should sign a raw_data_hex", () => {
+    const transaction = buildTransaction();
+    const result = signTransaction(transaction.raw_data_hex);
+
+    expect(result.txID).toBe(transaction.txID);
+    // Field 1 (raw_data) with a two-byte varint length, then field 2 (65-byte signature)
+    const length = transaction.raw_data_hex.length / 2;
+    expect(length).toBeGreaterThan(127);
+    const varint = [(length & 0x7f) | 0x80, length >> 7]
+      .map((byte) => byte.toString(16).padStart(2, "0"))
+      .join("");
+    expect(result.signedHex).toBe(
+      `0a${varint}${transaction.raw_data_hex}1241${result.signature[0].toLowerCase()}`,
+    );
+  });
+});
+
+describe("Default Account", () => {
+  const WATCH = "TR7NHqjeKQxGTCi8q8ZY4pL8otSzgjLj6t";
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("should prefer the configured wallet", () => {
+    vi.stubEnv("TRON_PRIVATE_KEY", PRIVATE_KEY);
+    vi.stubEnv("TRON_WATCH_ADDRESS", WATCH);
+    expect(getDefaultAccount()).toEqual({ address: ADDRESS, watchOnly: false });
+  });
+
+  it("should fall back to the watch-only address without a wallet", () => {
+    vi.stubEnv("TRON_PRIVATE_KEY", "");
+    vi.stubEnv("TRON_MNEMONIC", "");
+    vi.stubEnv("TRON_WATCH_ADDRESS", WATCH);
+    expect(getDefaultAccount()).toEqual({ address: WATCH, watchOnly: true });
+  });
+
+  it("should never load the wallet in read-only mode", () => {
+    vi.stubEnv("TRON_READ_ONLY", "true");
+    vi.stubEnv("TRON_PRIVATE_KEY", "not a key");
+    vi.stubEnv("TRON_WATCH_ADDRESS", WATCH);
+    expect(getDefaultAccount()).toEqual({ address: WATCH, watchOnly: true });
+
+    vi.stubEnv("TRON_WATCH_ADDRESS", "");
+    expect(() => getDefaultAccount()).toThrow("no watch-only address is configured");
+  });
+
+  it("should reject an invalid watch-only address", () => {
+    vi.stubEnv("TRON_READ_ONLY", "true");
+    vi.stubEnv("TRON_WATCH_ADDRESS", "Tnotanaddress");
+    expect(() => getDefaultAccount()).toThrow("Invalid watch-only address");
+  });
+});
+
+describe("Keystore Wallet", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "tron-keystore-"));
+    writeFileSync(
+      join(dir, "keystore.json"),
+      JSON.stringify(encryptKeystore(PRIVATE_KEY, "secret", { kdf: "pbkdf2", workFactor: 1024 })),
+    );
+    vi.stubEnv("TRON_PRIVATE_KEY", "");
+    vi.stubEnv("TRON_MNEMONIC", "");
+    vi.stubEnv("TRON_KEYSTORE_FILE", join(dir, "keystore.json"));
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should unlock the keystore with a password file", () => {
+    writeFileSync(join(dir, "password"), "secret\n");
+    vi.stubEnv("TRON_KEYSTORE_PASSWORD_FILE", join(dir, "password"));
+    expect(getConfiguredWallet()).toEqual({ privateKey: PRIVATE_KEY, address: ADDRESS });
+  });
+
+  it("should unlock the keystore with a password from the environment", () => {
+    vi.stubEnv("TRON_KEYSTORE_PASSWORD", "secret");
+    expect(getConfiguredWallet().address).toBe(ADDRESS);
+  });
+
+  it("should report a wrong or missing password", () => {
+    expect(() => getConfiguredWallet()).toThrow("TRON_KEYSTORE_PASSWORD");
+    vi.stubEnv("TRON_KEYSTORE_PASSWORD", "wrong");
+    expect(() => getConfiguredWallet()).toThrow("Wrong keystore password");
+  });
+});
@@ -1,4 +1,7 @@
-import { describe, it, expect, beforeEach, vi } from "vitest";
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { writeFileSync, unlinkSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { registerTRONTools } from "../../src/core/tools";
 import * as services from "../../src/core/services/index";
@@ -9,6 +12,8 @@ vi.mock("../../src/core/services/index", async () => {
   return {
     ...(actual as any),
     getWalletAddressFromKey: vi.fn(),
+    getDefaultAccount: vi.fn(),
+    getConfiguredSigner: vi.fn(),
     getConfiguredPrivateKey: vi.fn(),
     getChainId: vi.fn(),
     getBlockNumber: vi.fn(),
@@ -17,6 +22,9 @@ vi.mock("../../src/core/services/index", async () => {
     readContract: vi.fn(),
     multicall: vi.fn(),
     writeContract: vi.fn(),
+    deployContract: vi.fn(),
+    getContractInfo: vi.fn(),
+    updateContractSettings: vi.fn(),
     transferTRX: vi.fn(),
     transferTRC20: vi.fn(),
     signMessage: vi.fn(),
@@ -25,12 +33,64 @@ vi.mock("../../src/core/services/index", async () => {
     getLatestBlock: vi.fn(),
     getTransaction: vi.fn(),
     getTransactionInfo: vi.fn(),
+    freezeBalanceV2: vi.fn(),
+    unfreezeBalanceV2: vi.fn(),
+    withdrawExpireUnfreeze: vi.fn(),
+    cancelAllUnfreezeV2: vi.fn(),
+    delegateResource: vi.fn(),
+    undelegateResource: vi.fn(),
+    getDelegatedResources: vi.fn(),
+    getAccountResourceSummary: vi.fn(),
+    estimateEnergy: vi.fn(),
+    resolveFeeLimit: vi.fn(),
+    simulateContractCall: vi.fn(),
+    simulateTRXTransfer: vi.fn(),
+    explainTransactionFailure: vi.fn(),
+    decodeTransactionLogs: vi.fn(),
+    getContractEvents: vi.fn(),
+    getAccountTransactions: vi.fn(),
+    getTRC20Transfers: vi.fn(),
+    getTRC10Balance: vi.fn(),
+    getTRC10Balances: vi.fn(),
+    getTRC10TokenInfo: vi.fn(),
+    findTRC10TokensByName: vi.fn(),
+    transferTRC10: vi.fn(),
+    simulateTRC10Transfer: vi.fn(),
+    getNFTInfo: vi.fn(),
+    getNFTOwner: vi.fn(),
+    listNFTsOwned: vi.fn(),
+    transferNFT: vi.fn(),
+    getTRC1155Balances: vi.fn(),
+    transferTRC1155: vi.fn(),
+    batchTransferTRC1155: vi.fn(),
+    buildUnsignedTransaction: vi.fn(),
+    addTransactionSignature: vi.fn(),
+    getSignatureWeight: vi.fn(),
+    broadcastMultisigTransaction: vi.fn(),
+    getAccountPermissions: vi.fn(),
+    previewPermissionUpdate: vi.fn(),
+    updateAccountPermissions: vi.fn(),
+    signTransaction: vi.fn(),
+    broadcastTransaction: vi.fn(),
+    decodeTransaction: vi.fn(),
+    listWitnesses: vi.fn(),
+    getAccountVotes: vi.fn(),
+    voteWitness: vi.fn(),
+    getReward: vi.fn(),
+    withdrawReward: vi.fn(),
+    listProposals: vi.fn(),
+    getProposal: vi.fn(),
+    createProposal: vi.fn(),
+    approveProposal: vi.fn(),
+    deleteProposal: vi.fn(),
   };
 });
 
 describe("TRON Tools Unit Tests", () => {
   let server: McpServer;
   let registeredTools: Map<string, any>;
+  // Stand-in for the configured signer; only passed through to the mocked services
+  const signer = { address: "sender" };
 
   beforeEach(() => {
     server = new McpServer({
@@ -48,10 +108,16 @@ describe("TRON Tools Unit Tests", () => {
 
     registerTRONTools(server);
     vi.clearAllMocks();
+    // Confirmation has its own tests below; the other tests call write tools directly
+    process.env.TRON_REQUIRE_CONFIRMATION = "false";
+  });
+
+  afterEach(() => {
+    delete process.env.TRON_REQUIRE_CONFIRMATION;
   });
 
   describe("Registration", () => {
-    it("should register all 17 TRON tools", () => {
+    it("should register all 61 TRON tools", () => {
       const expectedTools = [
         "get_wallet_address",
         "get_chain_info",
@@ -67,24 +133,135 @@ describe("TRON Tools Unit Tests", () => {
         "read_contract",
         "multicall",
         "write_contract",
+        "deploy_contract",
+        "get_contract_info",
+        "update_contract_settings",
         "transfer_trx",
         "transfer_trc20",
         "sign_message",
+        "freeze_balance_v2",
+        "unfreeze_balance_v2",
+        "withdraw_expire_unfreeze",
+        "cancel_all_unfreeze_v2",
+        "delegate_resource",
+        "undelegate_resource",
+        "get_delegated_resources",
+        "get_account_resources",
+        "estimate_energy",
+        "get_contract_events",
+        "get_account_transactions",
+        "get_trc20_transfers",
+        "get_trc10_balance",
+        "get_trc10_token_info",
+        "transfer_trc10",
+        "get_nft_info",
+        "get_nft_owner",
+        "list_nfts_owned",
+        "transfer_nft",
+        "get_trc1155_balances",
+        "transfer_trc1155",
+        "batch_transfer_trc1155",
+        "build_unsigned_transaction",
+        "cosign_transaction",
+        "get_signature_weight",
+        "broadcast_multisig_transaction",
+        "get_account_permissions",
+        "update_account_permissions",
+        "sign_transaction",
+        "broadcast_transaction",
+        "decode_transaction",
+        "list_witnesses",
+        "get_account_votes",
+        "vote_witness",
+        "get_reward",
+        "withdraw_reward",
+        "list_proposals",
+        "get_proposal",
+        "create_proposal",
+        "approve_proposal",
+        "delete_proposal",
       ];
       expectedTools.forEach((tool) => {
         expect(registeredTools.has(tool)).toBe(true);
       });
     });
+
+    describe("Tool Access", () => {
+      // Register the tools on a fresh server under the current environment
+      const registerTools = () => {
+        const accessServer = new McpServer({ name: "test-server", version: "1.0.0" });
+        const names: string[] = [];
+        const originalRegisterTool = accessServer.registerTool.bind(accessServer);
+        accessServer.registerTool = (name: string, schema: any, handler: any) => {
+          names.push(name);
+          return originalRegisterTool(name, schema, handler);
+        };
+        registerTRONTools(accessServer);
+        return names;
+      };
+
+      afterEach(() => {
+        vi.unstubAllEnvs();
+      });
+
+      it("should only register read-only tools in read-only mode", () => {
+        vi.stubEnv("TRON_READ_ONLY", "true");
+        const names = registerTools();
+        expect(names).toContain("get_balance");
+        expect(names).toContain("get_wallet_address");
+        expect(names).not.toContain("transfer_trx");
+        expect(names).not.toContain("sign_message");
+        expect(
+          names.every((name) => registeredTools.get(name).schema.annotations.readOnlyHint),
+        ).toBe(true);
+        expect(services.getConfiguredPrivateKey).not.toHaveBeenCalled();
+        expect(services.getWalletAddressFromKey).not.toHaveBeenCalled();
+      });
+
+      it("should apply the allow and deny lists", () => {
+        vi.stubEnv("TRON_TOOLS_ALLOW", "get_balance, transfer_trx,get_block");
+        vi.stubEnv("TRON_TOOLS_DENY", "get_block");
+        expect(registerTools()).toEqual(["get_balance", "transfer_trx"]);
+      });
+
+      it("should read the tool lists from the config file", () => {
+        const file = join(tmpdir(), `tron-config-${Date.now()}.json`);
+        writeFileSync(
+          file,
+          JSON.stringify({ readOnly: true, tools: { allow: ["get_balance", "transfer_trx"] } }),
+        );
+        try {
+          vi.stubEnv("TRON_CONFIG_FILE", file);
+          expect(registerTools()).toEqual(["get_balance"]);
+        } finally {
+          unlinkSync(file);
+        }
+      });
+    });
   });
 
   describe("Wallet & Address Tools", () => {
     it("get_wallet_address should return configured address", async () => {
-      (services.getWalletAddressFromKey as any).mockReturnValue(
-        "T9yD14Nj9j7xAB4dbGeiX9h8unkKHxuWwb",
-      );
+      (services.getDefaultAccount as any).mockReturnValue({
+        address: "T9yD14Nj9j7xAB4dbGeiX9h8unkKHxuWwb",
+        watchOnly: false,
+      });
       const result = await registeredTools.get("get_wallet_address").handler({});
       const content = JSON.parse(result.content[0].text);
       expect(content.address).toBe("T9yD14Nj9j7xAB4dbGeiX9h8unkKHxuWwb");
+      expect(content.watchOnly).toBe(false);
+    });
+
+    it("get_wallet_address should report a watch-only address", async () => {
+      (services.getDefaultAccount as any).mockReturnValue({
+        address: "TR7NHqjeKQxGTCi8q8ZY4pL8otSzgjLj6t",
+        watchOnly: true,
+      });
+      const result = await registeredTools.get("get_wallet_address").handler({});
+      const content = JSON.parse(result.content[0].text);
+      expect(content.watchOnly).toBe(true);
+      expect(content.message).toContain("watch-only");
+      expect(services.getWalletAddressFromKey).not.toHaveBeenCalled();
     });
 
     it("convert_address should handle hex to base58", async () => {
@@ -125,6 +302,640 @@ describe("TRON Tools Unit Tests", () => {
       await registeredTools.get("get_transaction").handler({ txHash: "tx123" });
       expect(services.getTransaction).toHaveBeenCalledWith("tx123", "mainnet");
     });
+
+    it("decode_transaction should decode a raw_data_hex", async () => {
+      (services.decodeTransaction as any).mockResolvedValue({ contractType: "TransferContract" });
+      const result = await registeredTools
+        .get("decode_transaction")
+        .handler({ rawDataHex: "0a021234" });
+      expect(services.decodeTransaction).toHaveBeenCalledWith("0a021234", undefined, "mainnet");
+      expect(JSON.parse(result.content[0].text).contractType).toBe("TransferContract");
+    });
+
+    it("decode_transaction should require exactly one input", async () => {
+      const result = await registeredTools.get("decode_transaction").handler({});
+      expect(result.isError).toBe(true);
+      expect(services.decodeTransaction).not.toHaveBeenCalled();
+    });
+
+    it("get_transaction_info should add the decoded failure reason", async () => {
+      (services.getTransactionInfo as any).mockResolvedValue({ id: "tx123", result: "FAILED" });
+      (services.explainTransactionFailure as any).mockResolvedValue({
+        failed: true,
+        failureReason: "Not owner",
+        revert: { type: "Error", reason: "Not owner" },
+      });
+      const result = await registeredTools
+        .get("get_transaction_info")
+        .handler({ txHash: "tx123", network: "nile" });
+      expect(services.explainTransactionFailure).toHaveBeenCalledWith(
+        { id: "tx123", result: "FAILED" },
+        undefined,
+        "nile",
+      );
+      const content = JSON.parse(result.content[0].text);
+      expect(content.id).toBe("tx123");
+      expect(content.failureReason).toBe("Not owner");
+    });
+
+    it("get_transaction_info should return successful receipts unchanged", async () => {
+      (services.getTransactionInfo as any).mockResolvedValue({ id: "tx123" });
+      (services.explainTransactionFailure as any).mockResolvedValue({ failed: false });
+      const result = await registeredTools.get("get_transaction_info").handler({ txHash: "tx123" });
+      const content = JSON.parse(result.content[0].text);
+      expect(content).toEqual({ id: "tx123" });
+    });
+
+    it("get_transaction_info should decode logs when requested", async () => {
+      const info = { id: "tx123", log: [{ address: "aa", topics: [], data: "" }] };
+      const abis = { TTokenAddress: [] };
+      (services.getTransactionInfo as any).mockResolvedValue(info);
+      (services.explainTransactionFailure as any).mockResolvedValue({ failed: false });
+      (services.decodeTransactionLogs as any).mockResolvedValue([{ event: "Transfer" }]);
+      const result = await registeredTools
+        .get("get_transaction_info")
+        .handler({ txHash: "tx123", decodeLogs: true, abis });
+      expect(services.decodeTransactionLogs).toHaveBeenCalledWith(info, abis, "mainnet");
+      const content = JSON.parse(result.content[0].text);
+      expect(content.decodedLogs).toEqual([{ event: "Transfer" }]);
+    });
+  });
+
+  describe("TRC10 Tools", () => {
+    const token = { id: "1002000", name: "BitTorrent", abbr: "BTT", precision: 6 };
+
+    it("get_balance should list TRC10 assets when requested", async () => {
+      (services.getTRXBalance as any).mockResolvedValue({ wei: 1000n, formatted: "0.001" });
+      (services.getTRC10Balances as any).mockResolvedValue([
+        { raw: 2500000n, formatted: "2.5", token },
+      ]);
+      const result = await registeredTools
+        .get("get_balance")
+        .handler({ address: "addr", includeTrc10: true });
+      const content = JSON.parse(result.content[0].text);
+      expect(content.trc10).toEqual([
+        {
+          tokenId: "1002000",
+          name: "BitTorrent",
+          abbr: "BTT",
+          precision: 6,
+          raw: "2500000",
+          formatted: "2.5",
+        },
+      ]);
+    });
+
+    it("get_balance should skip TRC10 assets by default", async () => {
+      (services.getTRXBalance as any).mockResolvedValue({ wei: 1000n, formatted: "0.001" });
+      const result = await registeredTools.get("get_balance").handler({ address: "addr" });
+      expect(services.getTRC10Balances).not.toHaveBeenCalled();
+      expect(JSON.parse(result.content[0].text).trc10).toBeUndefined();
+    });
+
+    it("get_trc10_balance should return the normalized balance", async () => {
+      (services.getTRC10Balance as any).mockResolvedValue({
+        raw: 1500000n,
+        formatted: "1.5",
+        token,
+      });
+      const result = await registeredTools
+        .get("get_trc10_balance")
+        .handler({ address: "addr", tokenId: "1002000" });
+      expect(services.getTRC10Balance).toHaveBeenCalledWith("addr", "1002000", "mainnet");
+      const content = JSON.parse(result.content[0].text);
+      expect(content.balance).toMatchObject({ raw: "1500000", formatted: "1.5", abbr: "BTT" });
+    });
+
+    it("get_trc10_token_info should look up by ID or by name", async () => {
+      (services.getTRC10TokenInfo as any).mockResolvedValue(token);
+      (services.findTRC10TokensByName as any).mockResolvedValue([
+        token,
+        { ...token, id: "1000001" },
+      ]);
+
+      await registeredTools.get("get_trc10_token_info").handler({ token: "1002000" });
+      expect(services.getTRC10TokenInfo).toHaveBeenCalledWith("1002000", "mainnet");
+
+      const result = await registeredTools
+        .get("get_trc10_token_info")
+        .handler({ token: "BitTorrent" });
+      expect(services.findTRC10TokensByName).toHaveBeenCalledWith("BitTorrent", "mainnet");
+      expect(JSON.parse(result.content[0].text).tokens).toHaveLength(2);
+    });
+
+    it("transfer_trc10 should sign with the configured wallet", async () => {
+      (services.getConfiguredPrivateKey as any).mockReturnValue("pk");
+      (services.getWalletAddressFromKey as any).mockReturnValue("sender");
+      (services.transferTRC10 as any).mockResolvedValue({
+        txHash: "tx10",
+        amount: { raw: "1500000", formatted: "1.5" },
+        token,
+      });
+      const result = await registeredTools
+        .get("transfer_trc10")
+        .handler({ tokenId: "1002000", to: "to", amount: "1500000" });
+      expect(services.transferTRC10).toHaveBeenCalledWith(
+        "1002000",
+        "to",
+        "1500000",
+        "pk",
+        "mainnet",
+      );
+      const content = JSON.parse(result.content[0].text);
+      expect(content.txHash).toBe("tx10");
+      expect(content.amount).toBe("1.5");
+    });
+
+    it("transfer_trc10 should simulate when dryRun is set", async () => {
+      (services.getWalletAddressFromKey as any).mockReturnValue("sender");
+      (services.simulateTRC10Transfer as any).mockResolvedValue({
+        success: false,
+        revertReason: "Insufficient token balance: 0 BTT available",
+      });
+      const result = await registeredTools
+        .get("transfer_trc10")
+        .handler({ tokenId: "1002000", to: "to", amount: "1", dryRun: true });
+      expect(services.simulateTRC10Transfer).toHaveBeenCalledWith(
+        "sender",
+        "to",
+        "1002000",
+        "1",
+        "mainnet",
+      );
+      expect(services.transferTRC10).not.toHaveBeenCalled();
+      expect(JSON.parse(result.content[0].text).dryRun).toBe(true);
+    });
+  });
+
+  describe("NFT Tools", () => {
+    it("get_nft_info should return owner and metadata", async () => {
+      (services.getNFTInfo as any).mockResolvedValue({
+        owner: "TOwner",
+        tokenURI: "ipfs://Qm/1",
+        metadata: { name: "#1" },
+      });
+      const result = await registeredTools
+        .get("get_nft_info")
+        .handler({ contractAddress: "TNft", tokenId: "1" });
+      expect(services.getNFTInfo).toHaveBeenCalledWith("TNft", "1", "mainnet");
+      const content = JSON.parse(result.content[0].text);
+      expect(content.owner).toBe("TOwner");
+      expect(content.metadata.name).toBe("#1");
+    });
+
+    it("get_nft_owner should skip metadata when not requested", async () => {
+      (services.getNFTOwner as any).mockResolvedValue("TOwner");
+      const result = await registeredTools
+        .get("get_nft_owner")
+        .handler({ contractAddress: "TNft", tokenId: "1", includeMetadata: false });
+      expect(services.getNFTInfo).not.toHaveBeenCalled();
+      expect(JSON.parse(result.content[0].text).owner).toBe("TOwner");
+    });
+
+    it("list_nfts_owned should pass options to the service", async () => {
+      (services.listNFTsOwned as any).mockResolvedValue({ source: "events", tokens: [] });
+      await registeredTools
+        .get("list_nfts_owned")
+        .handler({ contractAddress: "TNft", owner: "TOwner", limit: 5, network: "nile" });
+      expect(services.listNFTsOwned).toHaveBeenCalledWith(
+        "TNft",
+        "TOwner",
+        { limit: 5, includeMetadata: undefined },
+        "nile",
+      );
+    });
+
+    it("transfer_nft should use safeTransferFrom with a derived fee limit", async () => {
+      (services.getConfiguredPrivateKey as any).mockReturnValue("pk");
+      (services.getWalletAddressFromKey as any).mockReturnValue("sender");
+      (services.resolveFeeLimit as any).mockResolvedValue({ feeLimit: 30_000_000 });
+      (services.transferNFT as any).mockResolvedValue({ txHash: "nfttx", from: "sender" });
+      const result = await registeredTools
+        .get("transfer_nft")
+        .handler({ contractAddress: "TNft", to: "to", tokenId: "9" });
+      expect((services.resolveFeeLimit as any).mock.calls[0][0]).toMatchObject({
+        functionName: "safeTransferFrom",
+        args: ["sender", "to", "9"],
+      });
+      expect(services.transferNFT).toHaveBeenCalledWith(
+        "pk",
+        { contractAddress: "TNft", to: "to", tokenId: "9", feeLimit: 30_000_000 },
+        "mainnet",
+      );
+      expect(JSON.parse(result.content[0].text).txHash).toBe("nfttx");
+    });
+
+    it("transfer_nft should simulate when dryRun is set", async () => {
+      (services.getWalletAddressFromKey as any).mockReturnValue("sender");
+      (services.simulateContractCall as any).mockResolvedValue({
+        success: false,
+        revertReason: "ERC721: transfer from incorrect owner",
+      });
+      const result = await registeredTools
+        .get("transfer_nft")
+        .handler({ contractAddress: "TNft", to: "to", tokenId: "9", dryRun: true });
+      expect(services.transferNFT).not.toHaveBeenCalled();
+      expect(services.getConfiguredPrivateKey).not.toHaveBeenCalled();
+      expect(JSON.parse(result.content[0].text).revertReason).toContain("incorrect owner");
+    });
+  });
+
+  describe("TRC1155 Tools", () => {
+    it("get_trc1155_balances should query all pairs", async () => {
+      const pairs = [
+        { owner: "TA", tokenId: "1" },
+        { owner: "TB", tokenId: "2" },
+      ];
+      (services.getTRC1155Balances as any).mockResolvedValue([
+        { owner: "TA", tokenId: "1", balance: 3n },
+        { owner: "TB", tokenId: "2", balance: 0n },
+      ]);
+      const result = await registeredTools
+        .get("get_trc1155_balances")
+        .handler({ contractAddress: "TMulti", pairs, includeUri: true });
+      expect(services.getTRC1155Balances).toHaveBeenCalledWith("TMulti", pairs, "mainnet", true);
+      const content = JSON.parse(result.content[0].text);
+      expect(content.balances[0].balance).toBe("3");
+    });
+
+    it("transfer_trc1155 should send with empty data by default", async () => {
+      (services.getConfiguredPrivateKey as any).mockReturnValue("pk");
+      (services.getWalletAddressFromKey as any).mockReturnValue("sender");
+      (services.resolveFeeLimit as any).mockResolvedValue({ feeLimit: 20_000_000 });
+      (services.transferTRC1155 as any).mockResolvedValue({ txHash: "tx1155", from: "sender" });
+      const result = await registeredTools
+        .get("transfer_trc1155")
+        .handler({ contractAddress: "TMulti", to: "to", tokenId: "1", amount: "4" });
+      expect(services.transferTRC1155).toHaveBeenCalledWith(
+        "pk",
+        {
+          contractAddress: "TMulti",
+          to: "to",
+          tokenId: "1",
+          amount: "4",
+          data: "0x",
+          feeLimit: 20_000_000,
+        },
+        "mainnet",
+      );
+      expect(JSON.parse(result.content[0].text).txHash).toBe("tx1155");
+    });
+
+    it("batch_transfer_trc1155 should use safeBatchTransferFrom", async () => {
+      (services.getConfiguredPrivateKey as any).mockReturnValue("pk");
+      (services.getWalletAddressFromKey as any).mockReturnValue("sender");
+      (services.resolveFeeLimit as any).mockResolvedValue({ feeLimit: 40_000_000 });
+      (services.batchTransferTRC1155 as any).mockResolvedValue({ txHash: "batch", from: "sender" });
+      await registeredTools.get("batch_transfer_trc1155").handler({
+        contractAddress: "TMulti",
+        to: "to",
+        tokenIds: ["1", "2"],
+        amounts: ["3", "4"],
+      });
+      expect((services.resolveFeeLimit as any).mock.calls[0][0]).toMatchObject({
+        functionName: "safeBatchTransferFrom",
+        args: ["sender", "to", ["1", "2"], ["3", "4"], "0x"],
+      });
+      expect(services.batchTransferTRC1155).toHaveBeenCalled();
+    });
+
+    it("batch_transfer_trc1155 should reject mismatched ids and amounts", async () => {
+      (services.getWalletAddressFromKey as any).mockReturnValue("sender");
+      const result = await registeredTools.get("batch_transfer_trc1155").handler({
+        contractAddress: "TMulti",
+        to: "to",
+        tokenIds: ["1", "2"],
+        amounts: ["3"],
+      });
+      expect(result.isError).toBe(true);
+      expect(services.batchTransferTRC1155).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("Governance Tools", () => {
+    it("list_witnesses should pass the limit through", async () => {
+      (services.listWitnesses as any).mockResolvedValue({ witnesses: [] });
+      await registeredTools.get("list_witnesses").handler({ limit: 5, network: "nile" });
+      expect(services.listWitnesses).toHaveBeenCalledWith(
+        { limit: 5, includeBrokerage: undefined },
+        "nile",
+      );
+    });
+
+    it("vote_witness should vote with the configured key", async () => {
+      (services.getConfiguredPrivateKey as any).mockReturnValue("pk");
+      (services.voteWitness as any).mockResolvedValue({ txHash: "vote", totalVotes: 3 });
+      const votes = [{ address: "sr", count: 3 }];
+      const result = await registeredTools.get("vote_witness").handler({ votes });
+      expect(services.voteWitness).toHaveBeenCalledWith("pk", votes, "mainnet", false);
+      expect(JSON.parse(result.content[0].text).txHash).toBe("vote");
+    });
+
+    it("vote_witness should only validate the votes in dry-run mode", async () => {
+      process.env.TRON_DRY_RUN = "true";
+      (services.getConfiguredPrivateKey as any).mockReturnValue("pk");
+      (services.voteWitness as any).mockResolvedValue({ txHash: undefined, totalVotes: 3 });
+      const votes = [{ address: "sr", count: 3 }];
+      const result = await registeredTools.get("vote_witness").handler({ votes });
+      delete process.env.TRON_DRY_RUN;
+      expect(services.voteWitness).toHaveBeenCalledWith("pk", votes, "mainnet", true);
+      expect(JSON.parse(result.content[0].text).dryRun).toBe(true);
+    });
+
+    it("vote_witness should report TRON Power errors", async () => {
+      (services.getConfiguredPrivateKey as any).mockReturnValue("pk");
+      (services.voteWitness as any).mockRejectedValue(new Error("Insufficient TRON Power"));
+      const result = await registeredTools
+        .get("vote_witness")
+        .handler({ votes: [{ address: "sr", count: 3 }] });
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain("Insufficient TRON Power");
+    });
+
+    it("get_reward should default to the configured wallet", async () => {
+      (services.getDefaultAccount as any).mockReturnValue({ address: "wallet", watchOnly: false });
+      (services.getReward as any).mockResolvedValue({ total: { sun: 0, trx: "0" } });
+      await registeredTools.get("get_reward").handler({});
+      expect(services.getReward).toHaveBeenCalledWith("wallet", "mainnet");
+    });
+
+    it("list_proposals should pass the state filter through", async () => {
+      (services.listProposals as any).mockResolvedValue({ total: 0, proposals: [] });
+      await registeredTools.get("list_proposals").handler({ state: "PENDING" });
+      expect(services.listProposals).toHaveBeenCalledWith(
+        { state: "PENDING", limit: undefined },
+        "mainnet",
+      );
+    });
+
+    it("approve_proposal should approve by default", async () => {
+      (services.getConfiguredPrivateKey as any).mockReturnValue("pk");
+      (services.approveProposal as any).mockResolvedValue({ txHash: "approve" });
+      const result = await registeredTools.get("approve_proposal").handler({ proposalId: 7 });
+      expect(services.approveProposal).toHaveBeenCalledWith("pk", 7, true, "mainnet", false);
+      expect(JSON.parse(result.content[0].text).txHash).toBe("approve");
+    });
+
+    it("create_proposal should report non-SR errors", async () => {
+      (services.getConfiguredPrivateKey as any).mockReturnValue("pk");
+      (services.createProposal as any).mockRejectedValue(new Error("is not an active SR"));
+      const result = await registeredTools
+        .get("create_proposal")
+        .handler({ parameters: [{ parameter: "getEnergyFee", value: 100 }] });
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain("Error creating proposal: ");
+    });
+  });
+
+  describe("Account Permission Tools", () => {
+    const owner = {
+      threshold: 2,
+      keys: [
+        { address: "wallet", weight: 1 },
+        { address: "other", weight: 1 },
+      ],
+    };
+
+    it("get_account_permissions should default to the configured wallet", async () => {
+      (services.getDefaultAccount as any).mockReturnValue({ address: "wallet", watchOnly: false });
+      (services.getAccountPermissions as any).mockResolvedValue({ address: "wallet" });
+      await registeredTools.get("get_account_permissions").handler({});
+      expect(services.getAccountPermissions).toHaveBeenCalledWith("wallet", "mainnet");
+    });
+
+    it("update_account_permissions should only preview without confirm", async () => {
+      (services.getWalletAddressFromKey as any).mockReturnValue("wallet");
+      (services.previewPermissionUpdate as any).mockResolvedValue({
+        changes: [{ permission: "owner", status: "changed" }],
+        fee: { sun: 100_000_000, trx: "100" },
+      });
+      const result = await registeredTools.get("update_account_permissions").handler({ owner });
+      expect(services.previewPermissionUpdate).toHaveBeenCalledWith(
+        "wallet",
+        { owner, actives: undefined },
+        { signer: "wallet", allowOwnerTransfer: false },
+        "mainnet",
+      );
+      expect(services.updateAccountPermissions).not.toHaveBeenCalled();
+      const content = JSON.parse(result.content[0].text);
+      expect(content.preview).toBe(true);
+      expect(content.changes[0].status).toBe("changed");
+    });
+
+    it("update_account_permissions should sign once confirmed", async () => {
+      (services.getWalletAddressFromKey as any).mockReturnValue("wallet");
+      (services.getConfiguredPrivateKey as any).mockReturnValue("pk");
+      (services.updateAccountPermissions as any).mockResolvedValue({ txHash: "perm" });
+      const result = await registeredTools
+        .get("update_account_permissions")
+        .handler({ owner, confirm: true, network: "nile" });
+      expect(services.updateAccountPermissions).toHaveBeenCalledWith(
+        "pk",
+        { owner, actives: undefined },
+        { allowOwnerTransfer: false },
+        "nile",
+      );
+      expect(JSON.parse(result.content[0].text).txHash).toBe("perm");
+    });
+
+    it("update_account_permissions should return the spending policy rule that blocked it", async () => {
+      (services.getWalletAddressFromKey as any).mockReturnValue("wallet");
+      (services.getConfiguredPrivateKey as any).mockReturnValue("pk");
+      (services.updateAccountPermissions as any).mockRejectedValue(
+        new services.PolicyViolationError("Blocked by spending policy: not allowed", {
+          rule: "recipients.allow",
+          network: "mainnet",
+          action: "update_account_permissions",
+          address: "stranger",
+        }),
+      );
+      const result = await registeredTools
+        .get("update_account_permissions")
+        .handler({ owner, confirm: true });
+      expect(result.isError).toBe(true);
+      expect(JSON.parse(result.content[0].text)).toMatchObject({
+        error: "SpendingPolicyViolation",
+        rule: "recipients.allow",
+        address: "stranger",
+      });
+    });
+  });
+
+  describe("Raw Transaction Tools", () => {
+    it("sign_transaction should sign a raw_data_hex", async () => {
+      (services.signTransaction as any).mockReturnValue({ txID: "abc", signedHex: "0a01" });
+      const result = await registeredTools
+        .get("sign_transaction")
+        .handler({ rawDataHex: "0a021234" });
+      expect(services.signTransaction).toHaveBeenCalledWith("0a021234");
+      expect(JSON.parse(result.content[0].text).signedHex).toBe("0a01");
+    });
+
+    it("sign_transaction should require exactly one input", async () => {
+      const result = await registeredTools
+        .get("sign_transaction")
+        .handler({ transaction: { txID: "abc" }, rawDataHex: "0a021234" });
+      expect(result.isError).toBe(true);
+      expect(services.signTransaction).not.toHaveBeenCalled();
+    });
+
+    it("broadcast_transaction should submit signed hex to the network", async () => {
+      (services.broadcastTransaction as any).mockResolvedValue("abc");
+      const result = await registeredTools
+        .get("broadcast_transaction")
+        .handler({ signedHex: "0a01", network: "nile" });
+      expect(services.broadcastTransaction).toHaveBeenCalledWith("0a01", "nile");
+      expect(JSON.parse(result.content[0].text).txHash).toBe("abc");
+    });
+
+    it("broadcast_transaction should return the spending policy rule that blocked it", async () => {
+      (services.broadcastTransaction as any).mockRejectedValue(
+        new services.PolicyViolationError("Blocked by spending policy: over the cap", {
+          rule: "trx.maxPerTransaction",
+          network: "mainnet",
+          action: "broadcast_transaction",
+        }),
+      );
+      const result = await registeredTools
+        .get("broadcast_transaction")
+        .handler({ signedHex: "0a01" });
+      expect(result.isError).toBe(true);
+      expect(JSON.parse(result.content[0].text)).toMatchObject({
+        error: "SpendingPolicyViolation",
+        rule: "trx.maxPerTransaction",
+      });
+    });
+  });
+
+  describe("Multisig Tools", () => {
+    it("build_unsigned_transaction should default the owner to the configured wallet", async () => {
+      (services.getDefaultAccount as any).mockReturnValue({ address: "wallet", watchOnly: false });
+      (services.buildUnsignedTransaction as any).mockResolvedValue({ txID: "abc" });
+      const action = { type: "transfer_trx", to: "to", amount: "1" };
+      const result = await registeredTools
+        .get("build_unsigned_transaction")
+        .handler({ action, permissionId: 2, expirationSeconds: 3600 });
+      expect(services.buildUnsignedTransaction).toHaveBeenCalledWith(
+        "wallet",
+        action,
+        2,
+        3600,
+        "mainnet",
+      );
+      expect(JSON.parse(result.content[0].text).txID).toBe("abc");
+    });
+
+    it("cosign_transaction should sign with the configured key", async () => {
+      (services.getConfiguredPrivateKey as any).mockReturnValue("pk");
+      (services.addTransactionSignature as any).mockResolvedValue({
+        transaction: { txID: "abc" },
+        thresholdMet: false,
+        remainingWeight: 1,
+      });
+      const result = await registeredTools
+        .get("cosign_transaction")
+        .handler({ transaction: { txID: "abc" }, network: "nile" });
+      expect(services.addTransactionSignature).toHaveBeenCalledWith({ txID: "abc" }, "pk", "nile");
+      expect(JSON.parse(result.content[0].text).message).toBe("1 more signature weight needed.");
+    });
+
+    it("broadcast_multisig_transaction should report threshold errors", async () => {
+      (services.broadcastMultisigTransaction as any).mockRejectedValue(
+        new Error("Signature weight 1/2 is below the permission threshold"),
+      );
+      const result = await registeredTools
+        .get("broadcast_multisig_transaction")
+        .handler({ transaction: { txID: "abc" } });
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain("1/2");
+    });
+  });
+
+  describe("Account History Tools", () => {
+    it("get_account_transactions should pass filters to the service", async () => {
+      (services.getAccountTransactions as any).mockResolvedValue({
+        address: "TAddr",
+        transactions: [{ txID: "tx1" }],
+        count: 1,
+        hasMore: false,
+      });
+      const result = await registeredTools.get("get_account_transactions").handler({
+        address: "TAddr",
+        direction: "in",
+        onlyConfirmed: true,
+        network: "nile",
+      });
+      expect(services.getAccountTransactions).toHaveBeenCalledWith(
+        "TAddr",
+        { direction: "in", onlyConfirmed: true },
+        "nile",
+      );
+      const content = JSON.parse(result.content[0].text);
+      expect(content.network).toBe("nile");
+      expect(content.transactions[0].txID).toBe("tx1");
+    });
+
+    it("get_trc20_transfers should filter by token contract", async () => {
+      (services.getTRC20Transfers as any).mockResolvedValue({ transfers: [], count: 0 });
+      await registeredTools.get("get_trc20_transfers").handler({
+        address: "TAddr",
+        contractAddress: "TToken",
+        minTimestamp: 1000,
+      });
+      expect(services.getTRC20Transfers).toHaveBeenCalledWith(
+        "TAddr",
+        { contractAddress: "TToken", minTimestamp: 1000 },
+        "mainnet",
+      );
+    });
+
+    it("get_trc20_transfers should report service errors", async () => {
+      (services.getTRC20Transfers as any).mockRejectedValue(new Error("rate limited"));
+      const result = await registeredTools.get("get_trc20_transfers").handler({ address: "TAddr" });
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain("rate limited");
+    });
+  });
+
+  describe("Event Tools", () => {
+    it("get_contract_events should pass filters and the sort order", async () => {
+      (services.getContractEvents as any).mockResolvedValue({
+        events: [{ eventName: "Transfer" }],
+        count: 1,
+        hasMore: true,
+        fingerprint: "next",
+      });
+      const result = await registeredTools.get("get_contract_events").handler({
+        contractAddress: "TContract",
+        eventName: "Transfer",
+        fromBlock: 100,
+        toBlock: 200,
+        order: "asc",
+        network: "nile",
+      });
+      expect(services.getContractEvents).toHaveBeenCalledWith(
+        {
+          contractAddress: "TContract",
+          eventName: "Transfer",
+          fromBlock: 100,
+          toBlock: 200,
+          orderBy: "block_timestamp,asc",
+        },
+        "nile",
+      );
+      const content = JSON.parse(result.content[0].text);
+      expect(content.fingerprint).toBe("next");
+      expect(content.count).toBe(1);
+    });
+
+    it("get_contract_events should report service errors", async () => {
+      (services.getContractEvents as any).mockRejectedValue(
+        new Error("Either contractAddress or transactionId is required"),
+      );
+      const result = await registeredTools.get("get_contract_events").handler({});
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain("contractAddress or transactionId");
+    });
   });
 
   describe("Balance Tools", () => {
@@ -190,14 +1001,180 @@ describe("TRON Tools Unit Tests", () => {
       );
     });
 
-    it("transfer_trx should send signed transaction", async () => {
+    it("deploy_contract should deploy with the configured key", async () => {
+      (services.getConfiguredPrivateKey as any).mockReturnValue("key");
+      (services.deployContract as any).mockResolvedValue({
+        txHash: "deploy",
+        contractAddress: { base58: "Tcontract", hex: "41contract" },
+      });
+      const params = { abi: [], bytecode: "6080", args: [1], userFeePercentage: 30 };
+      const result = await registeredTools
+        .get("deploy_contract")
+        .handler({ ...params, network: "nile" });
+      expect(services.deployContract).toHaveBeenCalledWith("key", params, "nile", false);
+      expect(JSON.parse(result.content[0].text).contractAddress.base58).toBe("Tcontract");
+    });
+
+    it("deploy_contract should report failed deployments", async () => {
+      (services.getConfiguredPrivateKey as any).mockReturnValue("key");
+      (services.deployContract as any).mockRejectedValue(new Error("Contract execution reverted"));
+      const result = await registeredTools
+        .get("deploy_contract")
+        .handler({ abi: [], bytecode: "6080" });
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain("Error deploying contract: ");
+    });
+
+    it("update_contract_settings should pass only the given settings", async () => {
       (services.getConfiguredPrivateKey as any).mockReturnValue("key");
+      (services.updateContractSettings as any).mockResolvedValue({ transactions: [] });
+      await registeredTools
+        .get("update_contract_settings")
+        .handler({ contractAddress: "contract", userFeePercentage: 40 });
+      expect(services.updateContractSettings).toHaveBeenCalledWith(
+        "key",
+        "contract",
+        { userFeePercentage: 40, originEnergyLimit: undefined },
+        "mainnet",
+        false,
+      );
+    });
+
+    it("transfer_trx should send signed transaction", async () => {
+      (services.getConfiguredSigner as any).mockReturnValue(signer);
       (services.transferTRX as any).mockResolvedValue("txhash");
       const result = await registeredTools.get("transfer_trx").handler({ to: "to", amount: "1" });
       const content = JSON.parse(result.content[0].text);
       expect(content.txHash).toBe("txhash");
     });
 
+    it("transfer_trx should report the estimated fee when confirmation is off", async () => {
+      (services.getConfiguredSigner as any).mockReturnValue(signer);
+      (services.getWalletAddressFromKey as any).mockReturnValue("sender");
+      (services.simulateTRXTransfer as any).mockResolvedValue({
+        success: true,
+        estimatedFee: { sun: 1100000, trx: "1.1" },
+      });
+      (services.transferTRX as any).mockResolvedValue("txhash");
+      const result = await registeredTools.get("transfer_trx").handler({ to: "to", amount: "1" });
+      expect(services.simulateTRXTransfer).toHaveBeenCalledWith("sender", "to", "1", "mainnet");
+      expect(JSON.parse(result.content[0].text).estimatedFee).toEqual({
+        sun: 1100000,
+        trx: "1.1",
+      });
+    });
+
+    it("transfer_trx should return the spending policy rule that blocked it", async () => {
+      (services.getConfiguredSigner as any).mockReturnValue(signer);
+      (services.transferTRX as any).mockRejectedValue(
+        new services.PolicyViolationError("Blocked by spending policy: over the cap", {
+          rule: "trx.maxPerTransaction",
+          network: "mainnet",
+          action: "transfer_trx",
+          limit: "100",
+          attempted: "150",
+        }),
+      );
+      const result = await registeredTools.get("transfer_trx").handler({ to: "to", amount: "150" });
+      expect(result.isError).toBe(true);
+      expect(JSON.parse(result.content[0].text)).toMatchObject({
+        error: "SpendingPolicyViolation",
+        rule: "trx.maxPerTransaction",
+        limit: "100",
+      });
+    });
+
+    it("write_contract should derive the fee limit from the energy estimate", async () => {
+      (services.getConfiguredSigner as any).mockReturnValue(signer);
+      (services.getWalletAddressFromKey as any).mockReturnValue("sender");
+      (services.resolveFeeLimit as any).mockResolvedValue({
+        feeLimit: 7800000,
+        estimate: { energy: 65000, estimatedFee: { sun: 6500000, trx: "6.5" } },
+      });
+      (services.writeContract as any).mockResolvedValue("txhash");
+      const result = await registeredTools.get("write_contract").handler({
+        contractAddress: "contract",
+        functionName: "mint",
+        args: ["to"],
+      });
+      expect(services.resolveFeeLimit).toHaveBeenCalledWith(
+        expect.objectContaining({ address: "contract", functionName: "mint", from: "sender" }),
+        undefined,
+        "mainnet",
+      );
+      expect(services.writeContract).toHaveBeenCalledWith(
+        signer,
+        expect.objectContaining({ feeLimit: 7800000 }),
+        "mainnet",
+      );
+      const content = JSON.parse(result.content[0].text);
+      expect(content.feeLimit.trx).toBe("7.8");
+      expect(content.estimatedCost.trx).toBe("6.5");
+    });
+
+    it("write_contract should not send when estimation fails without a fee limit", async () => {
+      (services.getConfiguredPrivateKey as any).mockReturnValue("key");
+      (services.resolveFeeLimit as any).mockRejectedValue(
+        new Error("Energy estimation failed: REVERT opcode executed"),
+      );
+      const result = await registeredTools.get("write_contract").handler({
+        contractAddress: "contract",
+        functionName: "mint",
+      });
+      expect(result.isError).toBe(true);
+      expect(services.writeContract).not.toHaveBeenCalled();
+    });
+
+    it("transfer_trc20 should pass an explicit fee limit through", async () => {
+      (services.getConfiguredSigner as any).mockReturnValue(signer);
+      (services.getWalletAddressFromKey as any).mockReturnValue("sender");
+      (services.resolveFeeLimit as any).mockResolvedValue({ feeLimit: 30000000 });
+      (services.transferTRC20 as any).mockResolvedValue({
+        txHash: "txhash",
+        amount: { raw: "1000000", formatted: "1" },
+        token: { symbol: "USDT", decimals: 6 },
+      });
+      await registeredTools.get("transfer_trc20").handler({
+        tokenAddress: "token",
+        to: "to",
+        amount: "1000000",
+        feeLimit: 30000000,
+      });
+      expect(services.resolveFeeLimit).toHaveBeenCalledWith(
+        expect.objectContaining({ functionName: "transfer", args: ["to", "1000000"] }),
+        30000000,
+        "mainnet",
+      );
+      expect(services.transferTRC20).toHaveBeenCalledWith(
+        "token",
+        "to",
+        "1000000",
+        signer,
+        "mainnet",
+        30000000,
+      );
+    });
+
+    it("estimate_energy should simulate from the given owner", async () => {
+      (services.estimateEnergy as any).mockResolvedValue({
+        energy: 31895,
+        source: "estimateEnergy",
+        feeLimit: { sun: 3827400, trx: "3.8274" },
+      });
+      const result = await registeredTools.get("estimate_energy").handler({
+        contractAddress: "contract",
+        functionName: "transfer",
+        args: ["to", "1"],
+        ownerAddress: "owner",
+      });
+      expect(services.estimateEnergy).toHaveBeenCalledWith(
+        expect.objectContaining({ from: "owner" }),
+        "mainnet",
+      );
+      const content = JSON.parse(result.content[0].text);
+      expect(content.energy).toBe(31895);
+    });
+
     it("sign_message should sign arbitrary text", async () => {
       (services.signMessage as any).mockResolvedValue("sig");
       const result = await registeredTools.get("sign_message").handler({ message: "hi" });
@@ -205,4 +1182,454 @@ describe("TRON Tools Unit Tests", () => {
       expect(content.signature).toBe("sig");
     });
   });
+
+  describe("Staking Tools", () => {
+    beforeEach(() => {
+      (services.getConfiguredPrivateKey as any).mockReturnValue("key");
+      (services.getWalletAddressFromKey as any).mockReturnValue(
+        "T9yD14Nj9j7xAB4dbGeiX9h8unkKHxuWwb",
+      );
+    });
+
+    it("freeze_balance_v2 should default to ENERGY", async () => {
+      (services.freezeBalanceV2 as any).mockResolvedValue("txhash");
+      const result = await registeredTools.get("freeze_balance_v2").handler({ amount: "100" });
+      expect(services.freezeBalanceV2).toHaveBeenCalledWith("key", "100", "ENERGY", "mainnet");
+      const content = JSON.parse(result.content[0].text);
+      expect(content.txHash).toBe("txhash");
+      expect(content.resource).toBe("ENERGY");
+    });
+
+    it("unfreeze_balance_v2 should pass the requested resource", async () => {
+      (services.unfreezeBalanceV2 as any).mockResolvedValue("txhash");
+      await registeredTools
+        .get("unfreeze_balance_v2")
+        .handler({ amount: "5", resource: "BANDWIDTH", network: "nile" });
+      expect(services.unfreezeBalanceV2).toHaveBeenCalledWith("key", "5", "BANDWIDTH", "nile");
+    });
+
+    it("withdraw_expire_unfreeze should report errors", async () => {
+      (services.withdrawExpireUnfreeze as any).mockRejectedValue(new Error("no expired unfreeze"));
+      const result = await registeredTools.get("withdraw_expire_unfreeze").handler({});
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain("no expired unfreeze");
+    });
+
+    it("cancel_all_unfreeze_v2 should return tx hash", async () => {
+      (services.cancelAllUnfreezeV2 as any).mockResolvedValue("txhash");
+      const result = await registeredTools.get("cancel_all_unfreeze_v2").handler({});
+      const content = JSON.parse(result.content[0].text);
+      expect(content.txHash).toBe("txhash");
+    });
+  });
+
+  describe("Account Resource Tools", () => {
+    it("get_account_resources should forward required resources", async () => {
+      (services.getAccountResourceSummary as any).mockResolvedValue({
+        address: "addr",
+        energy: { limit: 100, used: 0, available: 100 },
+        shortfall: { energy: 900, bandwidth: 0, burnCost: { sun: 90000, trx: "0.09" } },
+      });
+      const result = await registeredTools
+        .get("get_account_resources")
+        .handler({ address: "addr", energyRequired: 1000 });
+      expect(services.getAccountResourceSummary).toHaveBeenCalledWith(
+        "addr",
+        { energy: 1000, bandwidth: undefined },
+        "mainnet",
+      );
+      const content = JSON.parse(result.content[0].text);
+      expect(content.shortfall.burnCost.trx).toBe("0.09");
+    });
+  });
+
+  describe("Resource Delegation Tools", () => {
+    beforeEach(() => {
+      (services.getConfiguredPrivateKey as any).mockReturnValue("key");
+      (services.getWalletAddressFromKey as any).mockReturnValue(
+        "T9yD14Nj9j7xAB4dbGeiX9h8unkKHxuWwb",
+      );
+    });
+
+    it("delegate_resource should pass lock options to the service", async () => {
+      (services.delegateResource as any).mockResolvedValue("txhash");
+      const result = await registeredTools.get("delegate_resource").handler({
+        receiver: "receiver",
+        amount: "1000",
+        lock: true,
+        lockPeriod: 28800,
+      });
+      expect(services.delegateResource).toHaveBeenCalledWith(
+        "key",
+        { receiver: "receiver", amount: "1000", resource: "ENERGY", lock: true, lockPeriod: 28800 },
+        "mainnet",
+      );
+      const content = JSON.parse(result.content[0].text);
+      expect(content.txHash).toBe("txhash");
+    });
+
+    it("undelegate_resource should reclaim bandwidth", async () => {
+      (services.undelegateResource as any).mockResolvedValue("txhash");
+      await registeredTools.get("undelegate_resource").handler({
+        receiver: "receiver",
+        amount: "10",
+        resource: "BANDWIDTH",
+        network: "shasta",
+      });
+      expect(services.undelegateResource).toHaveBeenCalledWith(
+        "key",
+        { receiver: "receiver", amount: "10", resource: "BANDWIDTH" },
+        "shasta",
+      );
+    });
+
+    it("get_delegated_resources should return delegations in both directions", async () => {
+      (services.getDelegatedResources as any).mockResolvedValue({
+        address: "addr",
+        delegatedTo: [{ from: "addr", to: "other", energy: { sun: 1000000, units: 10 } }],
+        delegatedFrom: [],
+      });
+      const result = await registeredTools
+        .get("get_delegated_resources")
+        .handler({ address: "addr", network: "nile" });
+      const content = JSON.parse(result.content[0].text);
+      expect(content.network).toBe("nile");
+      expect(content.delegatedTo[0].energy.units).toBe(10);
+      expect(content.delegatedFrom).toEqual([]);
+    });
+  });
+
+  describe("Write Confirmation", () => {
+    beforeEach(() => {
+      process.env.TRON_REQUIRE_CONFIRMATION = "true";
+      (services.getWalletAddressFromKey as any).mockReturnValue("sender");
+      (services.getConfiguredSigner as any).mockReturnValue(signer);
+      (services.simulateTRXTransfer as any).mockResolvedValue({
+        success: true,
+        estimatedFee: { sun: 1100000, trx: "1.1" },
+      });
+      (services.transferTRX as any).mockResolvedValue("txhash");
+    });
+
+    it("destructive tools should accept a confirmationToken", () => {
+      expect(
+        registeredTools.get("transfer_trx").schema.inputSchema.confirmationToken,
+      ).toBeDefined();
+      expect(
+        registeredTools.get("get_balance").schema.inputSchema.confirmationToken,
+      ).toBeUndefined();
+    });
+
+    it("should return a summary and token instead of signing, then run with the token", async () => {
+      const args = { to: "receiver", amount: "5", network: "nile" };
+      const first = await registeredTools.get("transfer_trx").handler(args);
+      const pending = JSON.parse(first.content[0].text);
+      expect(services.transferTRX).not.toHaveBeenCalled();
+      expect(pending.confirmationRequired).toBe(true);
+      expect(pending.summary).toEqual({
+        action: "Transfer 5 TRX",
+        recipient: "receiver",
+        amount: "5 TRX",
+        estimatedFee: "1.1 TRX",
+        network: "nile",
+      });
+
+      const second = await registeredTools
+        .get("transfer_trx")
+        .handler({ ...args, confirmationToken: pending.confirmationToken });
+      expect(services.transferTRX).toHaveBeenCalledWith(signer, "receiver", "5", "nile");
+      expect(JSON.parse(second.content[0].text).txHash).toBe("txhash");
+
+      // Tokens are single-use
+      const replay = await registeredTools
+        .get("transfer_trx")
+        .handler({ ...args, confirmationToken: pending.confirmationToken });
+      expect(replay.isError).toBe(true);
+      expect(services.transferTRX).toHaveBeenCalledTimes(1);
+    });
+
+    it("should ask before co-signing a multisig transaction", async () => {
+      (services.decodeTransaction as any).mockResolvedValue({
+        contractType: "TransferContract",
+        owner: "multisig",
+        parameters: { to_address: "receiver", amount: { sun: 5000000, trx: "5" } },
+      });
+      const result = await registeredTools
+        .get("cosign_transaction")
+        .handler({ transaction: { txID: "abc" } });
+      const pending = JSON.parse(result.content[0].text);
+      expect(services.addTransactionSignature).not.toHaveBeenCalled();
+      expect(pending.summary).toMatchObject({
+        action: "Co-sign TransferContract from multisig",
+        recipient: "receiver",
+        amount: "5 TRX",
+      });
+    });
+
+    it("should ask before signing a transaction offline", async () => {
+      (services.decodeTransaction as any).mockResolvedValue({
+        contractType: "TransferContract",
+        owner: "sender",
+        parameters: { to_address: "receiver", amount: { sun: 5000000, trx: "5" } },
+      });
+      const result = await registeredTools
+        .get("sign_transaction")
+        .handler({ rawDataHex: "0a021234" });
+      const pending = JSON.parse(result.content[0].text);
+      expect(services.signTransaction).not.toHaveBeenCalled();
+      expect(services.decodeTransaction).toHaveBeenCalledWith("0a021234", undefined, "mainnet");
+      expect(pending.summary).toMatchObject({
+        action: "Sign TransferContract from sender",
+        recipient: "receiver",
+        amount: "5 TRX",
+        network: "any",
+      });
+    });
+
+    it("should still summarize the action when the wallet cannot be loaded", async () => {
+      (services.getWalletAddressFromKey as any).mockImplementationOnce(() => {
+        throw new Error("Failed to unlock TRON_KEYSTORE_FILE");
+      });
+      (services.simulateTRXTransfer as any).mockRejectedValue(new Error("Invalid address"));
+      const result = await registeredTools
+        .get("transfer_trx")
+        .handler({ to: "receiver", amount: "5" });
+      const pending = JSON.parse(result.content[0].text);
+      expect(pending.summary).toMatchObject({
+        action: "Transfer 5 TRX",
+        recipient: "receiver",
+        estimatedFee: "Could not be estimated",
+      });
+    });
+
+    it("should reject a token used with different arguments", async () => {
+      const first = await registeredTools
+        .get("transfer_trx")
+        .handler({ to: "receiver", amount: "5" });
+      const { confirmationToken } = JSON.parse(first.content[0].text);
+      const result = await registeredTools
+        .get("transfer_trx")
+        .handler({ to: "attacker", amount: "5", confirmationToken });
+      expect(result.isError).toBe(true);
+      expect(services.transferTRX).not.toHaveBeenCalled();
+    });
+
+    it("should ask through elicitation when the client supports it", async () => {
+      vi.spyOn(server.server, "getClientCapabilities").mockReturnValue({ elicitation: {} });
+      const elicitInput = vi
+        .spyOn(server.server, "elicitInput")
+        .mockResolvedValueOnce({ action: "accept", content: { confirm: true } })
+        .mockResolvedValueOnce({ action: "decline" });
+
+      const accepted = await registeredTools
+        .get("transfer_trx")
+        .handler({ to: "receiver", amount: "5" });
+      expect(elicitInput.mock.calls[0][0].message).toContain("Estimated fee: 1.1 TRX");
+      expect(JSON.parse(accepted.content[0].text).txHash).toBe("txhash");
+
+      const declined = await registeredTools
+        .get("transfer_trx")
+        .handler({ to: "receiver", amount: "5" });
+      expect(JSON.parse(declined.content[0].text).cancelled).toBe(true);
+      expect(services.transferTRX).toHaveBeenCalledTimes(1);
+    });
+
+    it("should show a contract call's expected cost and fee limit before signing", async () => {
+      (services.estimateEnergy as any).mockResolvedValue({
+        energy: 65000,
+        estimatedFee: { sun: 6500000, trx: "6.5" },
+        feeLimit: { sun: 7800000, trx: "7.8" },
+      });
+      const result = await registeredTools
+        .get("transfer_trc20")
+        .handler({ tokenAddress: "token", to: "receiver", amount: "1000" });
+      const pending = JSON.parse(result.content[0].text);
+      expect(services.transferTRC20).not.toHaveBeenCalled();
+      expect(pending.summary.estimatedFee).toBe("6.5 TRX (65000 Energy), fee limit 7.8 TRX");
+    });
+
+    it("should summarize staking with the resource and the Bandwidth fee", async () => {
+      (services.buildUnsignedTransaction as any).mockResolvedValue({
+        transaction: { raw_data_hex: "00".repeat(100) },
+      });
+      (services.getAccountResourceSummary as any).mockResolvedValue({
+        shortfall: { burnCost: { sun: 234000, trx: "0.234" } },
+      });
+      const result = await registeredTools
+        .get("delegate_resource")
+        .handler({ receiver: "receiver", amount: "100", resource: "BANDWIDTH" });
+      const pending = JSON.parse(result.content[0].text);
+      expect(services.delegateResource).not.toHaveBeenCalled();
+      expect(services.getAccountResourceSummary).toHaveBeenCalledWith(
+        "sender",
+        { bandwidth: 234 },
+        "mainnet",
+      );
+      expect(pending.summary).toEqual({
+        action: "Delegate BANDWIDTH from 100 staked TRX",
+        recipient: "receiver",
+        amount: "100 TRX",
+        estimatedFee: "0.234 TRX",
+        network: "mainnet",
+      });
+    });
+
+    it("should summarize TRC1155 transfers with token IDs and amounts", async () => {
+      (services.estimateEnergy as any).mockResolvedValue({
+        energy: 30000,
+        estimatedFee: { sun: 3000000, trx: "3" },
+        feeLimit: { sun: 3600000, trx: "3.6" },
+      });
+      const result = await registeredTools.get("batch_transfer_trc1155").handler({
+        contractAddress: "collection",
+        to: "receiver",
+        tokenIds: ["1", "2"],
+        amounts: ["10", "20"],
+      });
+      const { summary } = JSON.parse(result.content[0].text);
+      expect(summary).toMatchObject({
+        recipient: "receiver",
+        amount: "10 of token ID 1, 20 of token ID 2 (raw units)",
+        estimatedFee: "3 TRX (30000 Energy), fee limit 3.6 TRX",
+      });
+      expect(services.estimateEnergy).toHaveBeenCalledWith(
+        expect.objectContaining({ functionName: "safeBatchTransferFrom", from: "sender" }),
+        "mainnet",
+      );
+    });
+
+    it("should show a deployment's fee limit and call value in TRX", async () => {
+      const result = await registeredTools.get("deploy_contract").handler({
+        abi: [],
+        bytecode: "0x6080",
+        callValue: 2_000_000,
+        feeLimit: 500_000_000,
+      });
+      const { summary } = JSON.parse(result.content[0].text);
+      expect(services.deployContract).not.toHaveBeenCalled();
+      expect(summary).toMatchObject({
+        action: "Deploy contract (2 bytes)",
+        amount: "2 TRX",
+        estimatedFee: "Up to 500 TRX (fee limit; deployments are not estimated)",
+      });
+    });
+
+    it("should not ask for confirmation of a dry run", async () => {
+      await registeredTools
+        .get("transfer_trx")
+        .handler({ to: "receiver", amount: "5", dryRun: true });
+      expect(services.simulateTRXTransfer).toHaveBeenCalledTimes(1);
+      expect(services.transferTRX).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("Dry Run", () => {
+    beforeEach(() => {
+      (services.getWalletAddressFromKey as any).mockReturnValue("sender");
+    });
+
+    afterEach(() => {
+      delete process.env.TRON_DRY_RUN;
+    });
+
+    it("write_contract should simulate without signing when dryRun is set", async () => {
+      (services.simulateContractCall as any).mockResolvedValue({
+        success: false,
+        revertReason: "Ownable: caller is not the owner",
+        energyUsed: 1200,
+        estimatedFee: { sun: 120000, trx: "0.12" },
+      });
+      const result = await registeredTools.get("write_contract").handler({
+        contractAddress: "contract",
+        functionName: "mint",
+        dryRun: true,
+      });
+      expect(services.getConfiguredPrivateKey).not.toHaveBeenCalled();
+      expect(services.writeContract).not.toHaveBeenCalled();
+      const content = JSON.parse(result.content[0].text);
+      expect(content.dryRun).toBe(true);
+      expect(content.revertReason).toBe("Ownable: caller is not the owner");
+    });
+
+    it("transfer_trx should simulate when TRON_DRY_RUN is enabled", async () => {
+      process.env.TRON_DRY_RUN = "true";
+      (services.simulateTRXTransfer as any).mockResolvedValue({
+        success: true,
+        bandwidthUsed: 268,
+        estimatedFee: { sun: 0, trx: "0" },
+      });
+      const result = await registeredTools
+        .get("transfer_trx")
+        .handler({ to: "to", amount: "1", dryRun: false });
+      expect(services.simulateTRXTransfer).toHaveBeenCalledWith("sender", "to", "1", "mainnet");
+      expect(services.transferTRX).not.toHaveBeenCalled();
+      const content = JSON.parse(result.content[0].text);
+      expect(content.success).toBe(true);
+    });
+
+    it("staking tools should only build the transaction when TRON_DRY_RUN is enabled", async () => {
+      process.env.TRON_DRY_RUN = "true";
+      (services.buildUnsignedTransaction as any).mockResolvedValue({ txID: "unsigned" });
+      const result = await registeredTools
+        .get("delegate_resource")
+        .handler({ receiver: "receiver", amount: "10", network: "nile" });
+      expect(services.buildUnsignedTransaction).toHaveBeenCalledWith(
+        "sender",
+        expect.objectContaining({ type: "delegate_resource", receiver: "receiver", amount: "10" }),
+        0,
+        undefined,
+        "nile",
+      );
+      expect(services.delegateResource).not.toHaveBeenCalled();
+      const content = JSON.parse(result.content[0].text);
+      expect(content.dryRun).toBe(true);
+      expect(content.to).toBe("receiver");
+    });
+
+    it("broadcast_multisig_transaction should not broadcast in dry-run mode", async () => {
+      process.env.TRON_DRY_RUN = "true";
+      (services.getSignatureWeight as any).mockResolvedValue({ thresholdMet: true });
+      (services.decodeTransaction as any).mockResolvedValue({ contractType: "TransferContract" });
+      const result = await registeredTools
+        .get("broadcast_multisig_transaction")
+        .handler({ transaction: { txID: "abc" } });
+      expect(services.broadcastMultisigTransaction).not.toHaveBeenCalled();
+      const content = JSON.parse(result.content[0].text);
+      expect(content.dryRun).toBe(true);
+      expect(content.thresholdMet).toBe(true);
+      expect(content.transaction.contractType).toBe("TransferContract");
+    });
+
+    it("broadcast_transaction should only decode the transaction in dry-run mode", async () => {
+      (services.decodeTransaction as any).mockResolvedValue({ contractType: "TransferContract" });
+      const result = await registeredTools
+        .get("broadcast_transaction")
+        .handler({ transaction: { txID: "abc", signature: ["sig"] }, dryRun: true });
+      expect(services.broadcastTransaction).not.toHaveBeenCalled();
+      const content = JSON.parse(result.content[0].text);
+      expect(content.dryRun).toBe(true);
+      expect(content.transaction.contractType).toBe("TransferContract");
+    });
+
+    it("transfer_trc20 should simulate the token transfer call", async () => {
+      (services.simulateContractCall as any).mockResolvedValue({
+        success: true,
+        returnValue: true,
+        energyUsed: 14650,
+      });
+      const result = await registeredTools.get("transfer_trc20").handler({
+        tokenAddress: "token",
+        to: "to",
+        amount: "1000",
+        dryRun: true,
+      });
+      expect(services.simulateContractCall).toHaveBeenCalledWith(
+        expect.objectContaining({ address: "token", functionName: "transfer", from: "sender" }),
+        "mainnet",
+      );
+      expect(services.transferTRC20).not.toHaveBeenCalled();
+      const content = JSON.parse(result.content[0].text);
+      expect(content.returnValue).toBe(true);
+    });
+  });
 });